@@ -0,0 +1,159 @@
+'use client'
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { api } from '@/lib/api-config'
+import { FAILURE_CATEGORIES, type FailureCategory } from '@/lib/failure-diagnostics'
+import { createLogger } from '@/lib/logger'
+import type { FailureStats } from '@/services/failureStats'
+
+const log = createLogger('AdminPage')
+
+const PERIODS = [7, 30, 90]
+
+const CATEGORY_COLORS: Record<FailureCategory, string> = {
+  input: 'bg-amber-500',
+  timeout: 'bg-blue-500',
+  worker_crash: 'bg-red-500',
+  storage: 'bg-purple-500',
+  unknown: 'bg-gray-400',
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('no-NO', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+
+/** Counts sorted by frequency, most common first */
+const ranked = (counts: Record<string, number>) => Object.entries(counts).sort((a, b) => b[1] - a[1])
+
+export default function AdminPage() {
+  const [days, setDays] = useState(30)
+  const [stats, setStats] = useState<FailureStats | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const controller = new AbortController()
+    setLoading(true)
+    fetch(api.admin.failures(days), { cache: 'no-store', signal: controller.signal })
+      .then(async res => {
+        if (!res.ok) throw new Error((await res.json().catch(() => ({}))).error || `Failed to load failures: ${res.statusText}`)
+        setStats(await res.json())
+        setError(null)
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return
+        log.error('Failure stats load failed', { error: err instanceof Error ? err.message : String(err) })
+        setError(err instanceof Error ? err.message : 'Failed to load failures')
+      })
+      .finally(() => { if (!controller.signal.aborted) setLoading(false) })
+    return () => controller.abort()
+  }, [days])
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Admin</h1>
+        <p className="text-gray-500 mt-1">Pipeline health across all users</p>
+      </div>
+
+      <section className="bg-white border border-gray-200 rounded-lg p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <h2 className="text-lg font-semibold text-gray-900">Failures</h2>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            {PERIODS.map(d => <option key={d} value={d}>Last {d} days</option>)}
+          </select>
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : loading && !stats ? (
+          <p className="text-sm text-gray-500">Loading failures...</p>
+        ) : stats && stats.total === 0 ? (
+          <p className="text-sm text-gray-500">No failed jobs in the last {stats.days} days.</p>
+        ) : stats && (
+          <>
+            <div>
+              <p className="text-sm text-gray-500 mb-3">
+                {stats.total}{stats.truncated && '+'} failed {stats.total === 1 ? 'job' : 'jobs'}
+                {stats.truncated && ' (newest counted)'}
+              </p>
+              <ul className="space-y-2">
+                {(Object.keys(FAILURE_CATEGORIES) as FailureCategory[]).map(category => {
+                  const count = stats.byCategory[category]
+                  const share = stats.total > 0 ? count / stats.total : 0
+                  return (
+                    <li key={category} className="flex items-center gap-3 text-sm">
+                      <span className="w-32 text-gray-700">{FAILURE_CATEGORIES[category].label}</span>
+                      <div className="flex-1 h-2 bg-gray-100 rounded-full overflow-hidden">
+                        <div className={`h-full ${CATEGORY_COLORS[category]}`} style={{ width: `${share * 100}%` }} />
+                      </div>
+                      <span className="w-20 text-right text-gray-500 tabular-nums">
+                        {count} ({Math.round(share * 100)}%)
+                      </span>
+                    </li>
+                  )
+                })}
+              </ul>
+            </div>
+
+            <div className="grid grid-cols-2 gap-6">
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">By stage</h3>
+                <ul className="text-sm space-y-1">
+                  {ranked(stats.byStage).map(([stage, count]) => (
+                    <li key={stage} className="flex justify-between text-gray-700">
+                      <span>{stage}</span>
+                      <span className="tabular-nums text-gray-500">{count}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Worker error codes</h3>
+                {Object.keys(stats.byCode).length === 0 ? (
+                  <p className="text-sm text-gray-500">None reported; categories were inferred from messages.</p>
+                ) : (
+                  <ul className="text-sm space-y-1">
+                    {ranked(stats.byCode).map(([code, count]) => (
+                      <li key={code} className="flex justify-between text-gray-700">
+                        <span className="font-mono">{code}</span>
+                        <span className="tabular-nums text-gray-500">{count}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Recent failures</h3>
+              <table className="w-full text-sm">
+                <tbody className="divide-y divide-gray-100">
+                  {stats.recent.map(failure => (
+                    <tr key={failure.jobId}>
+                      <td className="py-2 pr-4">
+                        <Link href={`/results/${failure.jobId}`} className="text-gray-900 hover:text-blue-600 truncate max-w-[220px] block" title={failure.docName}>
+                          {failure.docName || failure.jobId.slice(0, 8)}
+                        </Link>
+                      </td>
+                      <td className="py-2 pr-4 text-gray-700">{FAILURE_CATEGORIES[failure.category].label}</td>
+                      <td className="py-2 pr-4 text-gray-500">{failure.stage ?? '-'}</td>
+                      <td className="py-2 pr-4 text-gray-500 truncate max-w-[280px]" title={failure.error ?? undefined}>
+                        {failure.error ?? '-'}
+                      </td>
+                      <td className="py-2 text-right text-gray-400 whitespace-nowrap">{formatDate(failure.createdAt)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </section>
+    </div>
+  )
+}
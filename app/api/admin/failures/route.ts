@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdminEmail } from '@/lib/admin'
+import { createLogger } from '@/lib/logger'
+import { getFailureStats } from '@/services/failureStats'
+
+const log = createLogger('api/admin/failures')
+
+const DEFAULT_DAYS = 30
+const MAX_DAYS = 365
+
+/**
+ * Failure counts for the admin view.
+ *
+ * GET /api/admin/failures?days=30  → FailureStats
+ *
+ * Admins only (ADMIN_EMAILS). 502 when the Jobs API cannot be reached.
+ */
+export async function GET(request: NextRequest) {
+  const session = await getServerSession(authOptions)
+  if (!isAdminEmail(session?.user?.email)) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  const requested = Number(request.nextUrl.searchParams.get('days'))
+  const days = Number.isInteger(requested) && requested > 0 ? Math.min(requested, MAX_DAYS) : DEFAULT_DAYS
+  try {
+    return NextResponse.json(await getFailureStats(days))
+  } catch (error) {
+    log.error('Failure stats unavailable', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failure stats unavailable' }, { status: 502 })
+  }
+}
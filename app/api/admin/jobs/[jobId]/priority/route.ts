@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdminEmail } from '@/lib/admin'
+import { isValidPriority, JOB_PRIORITIES } from '@/lib/job-queue'
+import { createLogger } from '@/lib/logger'
+import { PRIORITIES_ENABLED, setJobPriority } from '@/services/jobQueue'
+
+const log = createLogger('api/admin/jobs/[jobId]/priority')
+
+/**
+ * Move a job up or down the queue.
+ *
+ * PUT /api/admin/jobs/{jobId}/priority  { priority } → JobPublic
+ *
+ * Admins only (ADMIN_EMAILS). priority is one of JOB_PRIORITIES. Answers
+ * 501 unless JOB_PRIORITIES_ENABLED (see services/jobQueue for why).
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const session = await getServerSession(authOptions)
+  if (!isAdminEmail(session?.user?.email)) {
+    return NextResponse.json({ error: 'Admin access required' }, { status: 403 })
+  }
+
+  if (!PRIORITIES_ENABLED) {
+    return NextResponse.json({ error: 'Job priorities are not enabled (JOB_PRIORITIES_ENABLED)' }, { status: 501 })
+  }
+
+  const { jobId } = await params
+  const body = await request.json().catch(() => ({}))
+  if (!isValidPriority(body?.priority)) {
+    const allowed = JOB_PRIORITIES.map(p => p.value).join(', ')
+    return NextResponse.json({ error: `priority must be one of ${allowed}` }, { status: 400 })
+  }
+
+  try {
+    const job = await setJobPriority(jobId, body.priority)
+    if (!job) {
+      return NextResponse.json({ error: 'Job not found' }, { status: 404 })
+    }
+    log.info('Job priority changed', { jobId, priority: body.priority, by: session?.user?.email })
+    return NextResponse.json(job)
+  } catch (error) {
+    log.error('Failed to change job priority', { jobId, error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to change job priority' }, { status: 502 })
+  }
+}
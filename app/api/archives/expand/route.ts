@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { del } from '@vercel/blob'
+import { createLogger } from '@/lib/logger'
+import { MAX_UPLOAD_BYTES } from '@/lib/chunked-upload'
+import { expandPdfArchive } from '@/services/archiveIngest'
+import { blobPdfStore } from '@/services/pdfStore'
+import { bufferZipSource, ZipArchiveError } from '@/services/zipArchive'
+
+const log = createLogger('api/archives/expand')
+
+// Only archives we uploaded ourselves may be fetched (no open proxy)
+const ALLOWED_HOST_SUFFIX = '.blob.vercel-storage.com'
+
+/**
+ * Expand a ZIP archive that was uploaded to Vercel Blob.
+ *
+ * Local mode expands archives in the upload routes; in blob mode the archive
+ * goes straight to Blob, so the dashboard calls this route afterwards. Each
+ * PDF is stored as its own uploads/{jobId}/input.pdf and the archive blob is
+ * deleted once expanded.
+ *
+ * POST /api/archives/expand
+ * Body: { url: string, filename: string }
+ *
+ * Returns: ArchiveReport
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { url, filename } = await request.json().catch(() => ({}))
+
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return NextResponse.json({ error: 'Invalid url' }, { status: 400 })
+    }
+    if (parsed.protocol !== 'https:' || !parsed.hostname.endsWith(ALLOWED_HOST_SUFFIX)) {
+      log.warn('Rejected archive from foreign host', { host: parsed.hostname })
+      return NextResponse.json({ error: 'Only blob storage URLs can be expanded' }, { status: 400 })
+    }
+
+    const res = await fetch(parsed.toString())
+    if (!res.ok) {
+      return NextResponse.json({ error: `Failed to fetch archive: ${res.status}` }, { status: 502 })
+    }
+    const declared = Number(res.headers.get('content-length') || 0)
+    if (declared > MAX_UPLOAD_BYTES) {
+      return NextResponse.json({ error: 'Archive is too large' }, { status: 413 })
+    }
+
+    const buffer = Buffer.from(await res.arrayBuffer())
+    const archiveName = typeof filename === 'string' && filename ? filename : 'archive.zip'
+    const report = await expandPdfArchive(bufferZipSource(buffer), archiveName, blobPdfStore())
+
+    await del(parsed.toString()).catch(err => {
+      log.warn('Failed to delete expanded archive', { error: err instanceof Error ? err.message : String(err) })
+    })
+
+    return NextResponse.json(report)
+  } catch (error) {
+    if (error instanceof ZipArchiveError) {
+      return NextResponse.json({ error: error.message }, { status: 422 })
+    }
+    log.error('Archive expansion error', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Archive expansion failed' }, { status: 500 })
+  }
+}
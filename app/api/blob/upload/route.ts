@@ -8,13 +8,14 @@
  * CRITICAL RULES:
  * - addRandomSuffix: true is MANDATORY for security
  * - Never return BLOB_READ_WRITE_TOKEN to the client
- * - Only allow PDF uploads (application/pdf)
- * - Max file size: 50MB
+ * - Only allow PDF uploads (application/pdf) and ZIP packages of PDFs
+ * - Max file size: MAX_UPLOAD_BYTES (large files use multipart, see lib/chunked-upload.ts)
  */
 
 import { handleUpload, type HandleUploadBody } from '@vercel/blob/client';
 import { NextRequest, NextResponse } from 'next/server';
 import { createLogger } from '@/lib/logger';
+import { MAX_UPLOAD_BYTES } from '@/lib/chunked-upload';
 
 const log = createLogger('api/blob/upload');
 
@@ -25,20 +26,21 @@ export async function POST(request: NextRequest) {
     const jsonResponse = await handleUpload({
       body,
       request,
-      onBeforeGenerateToken: async (pathname) => {
+      onBeforeGenerateToken: async (pathname, _clientPayload, multipart) => {
         // Validate the upload before generating token
         // pathname is the requested path (e.g., "uploads/{jobId}/input.pdf")
+        log.debug('Generating upload token', { pathname, multipart });
 
         return {
           // MANDATORY: addRandomSuffix must be true for security
           // Vercel will add a random string to make URLs unguessable
           addRandomSuffix: true,
 
-          // Only allow PDF files
-          allowedContentTypes: ['application/pdf'],
+          // Only allow PDF files, or ZIP archives expanded by /api/archives/expand
+          allowedContentTypes: ['application/pdf', 'application/zip', 'application/x-zip-compressed'],
 
-          // Max file size: 50MB
-          maximumSizeInBytes: 50 * 1024 * 1024,
+          // Max file size (shared with the local chunked upload route)
+          maximumSizeInBytes: MAX_UPLOAD_BYTES,
 
           // Optional: Add metadata
           tokenPayload: JSON.stringify({
@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { getEtaSnapshot } from '@/services/etaTracker'
+
+const log = createLogger('api/eta')
+
+/**
+ * ETA model for running jobs, plus how accurate past estimates were.
+ *
+ * GET /api/eta
+ *
+ * Returns: { model: EtaModel, accuracy: EtaAccuracy }
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await getEtaSnapshot())
+  } catch (error) {
+    log.error('ETA model unavailable', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'ETA model unavailable' }, { status: 502 })
+  }
+}
@@ -71,6 +71,12 @@ export async function GET(
             return NextResponse.json({ error: 'Invalid path' }, { status: 400 })
         }
 
+        // Dot folders hold server state (e.g. .team documents), never pipeline output
+        if (decodedSegments.some(seg => seg.startsWith('.'))) {
+            logger.warn('Hidden path blocked', { job_id: jobId })
+            return NextResponse.json({ error: 'Not found' }, { status: 404 })
+        }
+
         // Build absolute path to file (OUTPUT_DIR is already absolute)
         const filePath = join(OUTPUT_DIR, ...decodedSegments)
         logger.debug(`Resolved file path: ${filePath}`, { job_id: jobId })
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { createZipStream, type ZipStreamEntry } from '@/services/zipArchive'
+
+const log = createLogger('api/job-archive')
+
+const JOB_ID_REGEX = /^[0-9a-zA-Z-]{1,64}$/
+const MAX_ARCHIVE_JOBS = 50
+
+interface JobArchiveResult {
+  jobId: string
+  ok: boolean
+  error?: string
+}
+
+// Entry name from the download's own filename, else the document name
+function entryName(jobId: string, docName: string | undefined, disposition: string | null): string {
+  const fromHeader = disposition?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i)?.[1]
+  const extension = fromHeader?.match(/\.[a-z0-9]+$/i)?.[0] ?? '.zip'
+  const base = (docName || 'results').replace(/\.pdf$/i, '').replace(/[^\w.-]+/g, '_')
+  return `${base}-${jobId.slice(0, 8)}${extension}`
+}
+
+/** Whether the job has results to download, from its record */
+async function checkJob(jobId: string, signal: AbortSignal): Promise<{ result: JobArchiveResult; job: JobPublic | null }> {
+  try {
+    const res = await fetch(api.jobs.get(jobId), { cache: 'no-store', signal })
+    if (res.status === 404) return { result: { jobId, ok: false, error: 'Job not found' }, job: null }
+    if (!res.ok) return { result: { jobId, ok: false, error: `Lookup failed (${res.status})` }, job: null }
+    const job: JobPublic = await res.json()
+    if (job.status !== 'completed') return { result: { jobId, ok: false, error: 'No results to download' }, job: null }
+    return { result: { jobId, ok: true }, job }
+  } catch (error) {
+    log.warn('Job lookup failed', { jobId, error: error instanceof Error ? error.message : String(error) })
+    return { result: { jobId, ok: false, error: 'Jobs API unreachable' }, job: null }
+  }
+}
+
+/**
+ * Results of several jobs as one ZIP, one entry per job (each job's own
+ * download from the Jobs API, stored as-is).
+ *
+ * POST /api/job-archive
+ * Body: { ids: string[], names?: Record<jobId, docName> }
+ *
+ * Returns: application/zip, streamed: each job's download is fetched only
+ * when the archive reaches it. Which jobs have results is checked up front
+ * and sent as JSON in the X-Archive-Report header (URI-encoded
+ * JobArchiveResult[]); a download that still fails while streaming is left
+ * out and listed in a download-errors.txt entry. 502 with the report when
+ * none of the jobs has results.
+ */
+export async function POST(request: NextRequest) {
+  const { ids, names } = await request.json().catch(() => ({}))
+  const jobIds: string[] = Array.isArray(ids) ? [...new Set(ids.filter((id): id is string => typeof id === 'string'))] : []
+  const docNames: Record<string, string> = names && typeof names === 'object' ? names : {}
+
+  if (jobIds.length === 0) {
+    return NextResponse.json({ error: 'No job ids provided' }, { status: 400 })
+  }
+  if (jobIds.length > MAX_ARCHIVE_JOBS) {
+    return NextResponse.json({ error: `At most ${MAX_ARCHIVE_JOBS} jobs per archive` }, { status: 400 })
+  }
+  if (!jobIds.every(id => JOB_ID_REGEX.test(id))) {
+    return NextResponse.json({ error: 'Invalid job id' }, { status: 400 })
+  }
+
+  const report: JobArchiveResult[] = []
+  const ready: JobPublic[] = []
+  for (const jobId of jobIds) {
+    const { result, job } = await checkJob(jobId, request.signal)
+    report.push(result)
+    if (job) ready.push(job)
+  }
+
+  if (ready.length === 0) {
+    return NextResponse.json({ error: 'None of the jobs could be downloaded', report }, { status: 502 })
+  }
+
+  const signal = request.signal
+  async function* entries(): AsyncGenerator<ZipStreamEntry> {
+    const failures: string[] = []
+    let added = 0
+    for (const job of ready) {
+      try {
+        const res = await fetch(api.jobs.download(job.id), { cache: 'no-store', signal })
+        if (!res.ok || !res.body) {
+          failures.push(`${job.id}: download failed (${res.status})`)
+          continue
+        }
+        const modified = res.headers.get('last-modified') ?? job.completed_at
+        yield {
+          name: entryName(job.id, docNames[job.id] ?? job.doc_name, res.headers.get('content-disposition')),
+          modifiedAt: modified && !Number.isNaN(Date.parse(modified)) ? new Date(modified) : new Date(),
+          data: res.body,
+        }
+        added++
+      } catch (error) {
+        if (signal.aborted) throw error
+        log.warn('Job download failed', { jobId: job.id, error: error instanceof Error ? error.message : String(error) })
+        failures.push(`${job.id}: Jobs API unreachable`)
+      }
+    }
+    if (failures.length > 0) {
+      log.warn('Job archive incomplete', { failed: failures.length })
+      yield {
+        name: 'download-errors.txt',
+        modifiedAt: new Date(),
+        data: new TextEncoder().encode(`These runs could not be downloaded:\n${failures.join('\n')}\n`),
+      }
+    }
+    log.info('Job archive sent', { jobs: added, failed: report.length - ready.length + failures.length })
+  }
+
+  return new NextResponse(createZipStream(entries()), {
+    headers: {
+      'Content-Type': 'application/zip',
+      'Content-Disposition': `attachment; filename="runs-${new Date().toISOString().slice(0, 10)}.zip"`,
+      'X-Archive-Report': encodeURIComponent(JSON.stringify(report)),
+    },
+  })
+}
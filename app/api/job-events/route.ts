@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_STREAM_JOBS } from '@/lib/job-events'
+import { jobEventStream } from '@/services/jobEvents'
+
+const JOB_ID_REGEX = /^[0-9a-zA-Z-]{1,64}$/
+
+/**
+ * Stream job progress as Server-Sent Events.
+ *
+ * GET /api/job-events?ids=<jobId>,<jobId>,...
+ *
+ * Events: job (JobPublic), job-error ({ id, error, status }), end, unavailable.
+ * See lib/job-events.ts for the client side.
+ */
+export async function GET(request: NextRequest) {
+  const ids = [...new Set((request.nextUrl.searchParams.get('ids') || '').split(',').map(id => id.trim()).filter(Boolean))]
+
+  if (ids.length === 0) {
+    return NextResponse.json({ error: 'No job ids provided' }, { status: 400 })
+  }
+  if (ids.length > MAX_STREAM_JOBS) {
+    return NextResponse.json({ error: `At most ${MAX_STREAM_JOBS} jobs per stream` }, { status: 400 })
+  }
+  if (!ids.every(id => JOB_ID_REGEX.test(id))) {
+    return NextResponse.json({ error: 'Invalid job id' }, { status: 400 })
+  }
+
+  return new Response(jobEventStream(ids, request.signal), {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      // Stop proxies (nginx) from buffering the stream
+      'X-Accel-Buffering': 'no',
+    },
+  })
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { removeOrphanedRun } from '@/services/jobMonitor'
+
+const log = createLogger('api/job-health/orphans/[runId]')
+
+/**
+ * Remove the local folder of an orphaned run. The Jobs API is asked again
+ * first; a run it knows by now (or that is no longer listed) is left alone.
+ *
+ * DELETE /api/job-health/orphans/{runId}
+ * Returns: { run_id, freed: { files, bytes }, errors }, or 409 when not removed
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ runId: string }> }
+) {
+  const { runId } = await params
+  try {
+    const cleanup = await removeOrphanedRun(runId)
+    if (!cleanup) {
+      return NextResponse.json({ error: 'Run is no longer orphaned; nothing was removed' }, { status: 409 })
+    }
+    return NextResponse.json({ run_id: runId, freed: { files: cleanup.files, bytes: cleanup.bytes }, errors: cleanup.errors })
+  } catch (error) {
+    log.error('Orphan removal failed', { runId, error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to remove orphaned run' }, { status: 500 })
+  }
+}
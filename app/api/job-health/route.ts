@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { checkJobs, getJobHealth, startJobMonitor } from '@/services/jobMonitor'
+
+const log = createLogger('api/job-health')
+
+/**
+ * Stale jobs (no progress within STALE_JOB_MINUTES) and local runs the
+ * Jobs API no longer knows.
+ *
+ * GET /api/job-health
+ * Returns: JobHealth
+ */
+export async function GET() {
+  try {
+    // Normally started by instrumentation.ts; this covers servers without it
+    startJobMonitor()
+    return NextResponse.json(await getJobHealth())
+  } catch (error) {
+    log.error('Job health status error', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to read job health' }, { status: 500 })
+  }
+}
+
+/**
+ * Check now instead of waiting for the next interval.
+ *
+ * POST /api/job-health
+ * Returns: JobHealth
+ */
+export async function POST() {
+  try {
+    startJobMonitor()
+    await checkJobs()
+    return NextResponse.json(await getJobHealth())
+  } catch (error) {
+    log.error('Job health check error', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to check jobs' }, { status: 500 })
+  }
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+import { GET } from './route'
+
+const request = (ids: string) => new NextRequest(`http://localhost/api/job-status?ids=${ids}`)
+
+function stubJobsApi(reply: (id: string) => Response | Promise<Response>) {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => reply(url.split('/').pop()!)))
+}
+
+describe('GET /api/job-status', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('returns the records of several jobs in one response', async () => {
+    stubJobsApi(id => id === 'gone'
+      ? new Response('{}', { status: 404 })
+      : Response.json({ id, status: 'running' }))
+    const res = await GET(request('a,b,gone,a'))
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({
+      jobs: [{ id: 'a', status: 'running' }, { id: 'b', status: 'running' }],
+      missing: ['gone'],
+      failed: [],
+    })
+    // Duplicates are fetched once
+    expect(fetch).toHaveBeenCalledTimes(3)
+  })
+
+  it('answers 502 only when no job could be fetched', async () => {
+    stubJobsApi(() => Promise.reject(new TypeError('fetch failed')))
+    const res = await GET(request('a,b'))
+    expect(res.status).toBe(502)
+    expect(await res.json()).toMatchObject({ error: 'Jobs API unreachable', failed: ['a', 'b'] })
+  })
+
+  it('refuses missing, invalid and too many ids', async () => {
+    stubJobsApi(id => Response.json({ id, status: 'running' }))
+    expect((await GET(request(''))).status).toBe(400)
+    expect((await GET(request('a,../b'))).status).toBe(400)
+    expect((await GET(request(Array.from({ length: 51 }, (_, i) => `job-${i}`).join(',')))).status).toBe(400)
+    expect(fetch).not.toHaveBeenCalled()
+  })
+})
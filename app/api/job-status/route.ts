@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_STREAM_JOBS } from '@/lib/job-events'
+import { createLogger } from '@/lib/logger'
+import { fetchJobRecords } from '@/services/jobEvents'
+
+const log = createLogger('api/job-status')
+
+const JOB_ID_REGEX = /^[0-9a-zA-Z-]{1,64}$/
+
+/**
+ * Current status of several jobs in one request (polling fallback for
+ * /api/job-events).
+ *
+ * GET /api/job-status?ids=<jobId>,<jobId>,...
+ *
+ * Returns: { jobs: JobPublic[], missing: string[], failed: string[] }
+ */
+export async function GET(request: NextRequest) {
+  const ids = [...new Set((request.nextUrl.searchParams.get('ids') || '').split(',').map(id => id.trim()).filter(Boolean))]
+
+  if (ids.length === 0) {
+    return NextResponse.json({ error: 'No job ids provided' }, { status: 400 })
+  }
+  if (ids.length > MAX_STREAM_JOBS) {
+    return NextResponse.json({ error: `At most ${MAX_STREAM_JOBS} jobs per request` }, { status: 400 })
+  }
+  if (!ids.every(id => JOB_ID_REGEX.test(id))) {
+    return NextResponse.json({ error: 'Invalid job id' }, { status: 400 })
+  }
+
+  const batch = await fetchJobRecords(ids, request.signal)
+  if (batch.failed.length === ids.length) {
+    log.warn('Jobs API unreachable for status batch', { jobs: ids.length })
+    return NextResponse.json({ error: 'Jobs API unreachable', ...batch }, { status: 502 })
+  }
+  return NextResponse.json(batch)
+}
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { writeFile, mkdir } from 'fs/promises'
+import { writeFile, mkdir, rm } from 'fs/promises'
 import { join } from 'path'
 import { loggers } from '@/lib/v4-logger'
 import { resolve } from 'path'
+import { blockingMessage, preflightFile, type PreflightReport } from '@/services/pdfPreflight'
+import { expandPdfArchive, isZipFilename } from '@/services/archiveIngest'
+import { localPdfStore } from '@/services/pdfStore'
+import { bufferZipSource, ZipArchiveError } from '@/services/zipArchive'
 
 // Use parent directory (project root) since Next.js runs from frontend/
 const PROJECT_ROOT = resolve(process.cwd(), '..')
@@ -21,7 +25,14 @@ const logger = loggers.localUpload
  * POST /api/local-upload
  * Body: FormData with 'file' and 'jobId' fields
  * 
- * Returns: { url: string, pathname: string }
+ * Returns: { url: string, pathname: string, originalFilename: string, preflight: PreflightReport }
+ * Blocked PDFs are deleted again (422 { error, preflight }); a failed check
+ * answers 503 { error, retryable: true }.
+ *
+ * A .zip file is expanded into one input per contained PDF (jobId is unused):
+ * { originalFilename: string, archive: ArchiveReport }
+ *
+ * Large files should use the chunked protocol under /api/local-upload/sessions.
  */
 export async function POST(request: NextRequest) {
     const startTime = Date.now()
@@ -52,6 +63,18 @@ export async function POST(request: NextRequest) {
             return NextResponse.json({ error: 'Invalid jobId format' }, { status: 400 })
         }
 
+        if (isZipFilename(file.name)) {
+            const host = request.headers.get('host') || 'localhost:3000'
+            const protocol = request.headers.get('x-forwarded-proto') || 'http'
+            const archive = await expandPdfArchive(
+                bufferZipSource(Buffer.from(await file.arrayBuffer())),
+                file.name,
+                localPdfStore(`${protocol}://${host}`, { archive: file.name })
+            )
+            logger.section('ARCHIVE EXPANDED', { job_id: jobId, pdfs: archive.entries.length })
+            return NextResponse.json({ originalFilename: file.name, archive })
+        }
+
         // Create job directory (OUTPUT_DIR is already absolute path to project root)
         const jobDir = join(OUTPUT_DIR, jobId)
         await mkdir(jobDir, { recursive: true })
@@ -80,6 +103,27 @@ export async function POST(request: NextRequest) {
         // URL is simple now: /api/files/{jobId}/input.pdf
         const url = `${protocol}://${host}/api/files/${jobId}/${safeFilename}`
 
+        let preflight: PreflightReport
+        try {
+            preflight = await preflightFile(filePath)
+        } catch (error) {
+            logger.error(`Preflight error: ${error instanceof Error ? error.message : 'Unknown'}`, { job_id: jobId })
+            return NextResponse.json(
+                { error: 'The PDF could not be checked right now; please try again', retryable: true },
+                { status: 503 }
+            )
+        }
+        logger.info(`Preflight: ${preflight.ok ? 'ok' : 'blocked'}`, {
+            job_id: jobId,
+            pages: preflight.pageCount,
+            issues: preflight.issues.map(i => i.code).join(','),
+        })
+        if (!preflight.ok) {
+            // Never leave a blocked input where a job could fetch it
+            await rm(jobDir, { recursive: true, force: true })
+            return NextResponse.json({ error: blockingMessage(preflight), preflight }, { status: 422 })
+        }
+
         const durationMs = Date.now() - startTime
         logger.section('UPLOAD COMPLETE', { job_id: jobId, duration_ms: durationMs })
         logger.info(`URL for worker: ${url}`, { job_id: jobId, url })
@@ -88,8 +132,13 @@ export async function POST(request: NextRequest) {
             url,
             pathname: `${jobId}/${safeFilename}`,
             originalFilename: file.name,
+            preflight,
         })
     } catch (error) {
+        if (error instanceof ZipArchiveError) {
+            logger.error(`Archive rejected: ${error.message}`)
+            return NextResponse.json({ error: error.message }, { status: 422 })
+        }
         logger.error(`Upload error: ${error instanceof Error ? error.message : 'Unknown'}`, {
             error: error instanceof Error ? error.message : 'Unknown',
         })
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { open, rm } from 'fs/promises'
+import { dirname } from 'path'
+import { loggers } from '@/lib/v4-logger'
+import { completeSession, UploadSessionError } from '@/services/uploadSessions'
+import { blockingMessage, preflightFile, type PreflightReport } from '@/services/pdfPreflight'
+import { expandPdfArchive, isZipFilename } from '@/services/archiveIngest'
+import { localPdfStore } from '@/services/pdfStore'
+import { fileZipSource, ZipArchiveError } from '@/services/zipArchive'
+
+const logger = loggers.localUpload
+
+/**
+ * Assemble the uploaded chunks into the job's input file and preflight it.
+ *
+ * POST /api/local-upload/sessions/{jobId}/complete
+ *
+ * Returns the same shape as POST /api/local-upload:
+ * { url: string, pathname: string, originalFilename: string, preflight: PreflightReport }
+ *
+ * A PDF with blocking preflight issues is deleted and answered with 422
+ * { error, preflight }. When the check itself fails the upload is kept and
+ * the response is 503 { error, retryable: true }; completing again retries.
+ *
+ * For a .zip upload the archive is expanded into one input per PDF instead:
+ * { originalFilename: string, archive: ArchiveReport }
+ */
+export async function POST(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    const { jobId } = await params
+    const startTime = Date.now()
+
+    try {
+        const { pathname, session, filePath } = await completeSession(jobId)
+
+        // Build URL that worker can fetch via HTTP (same as /api/local-upload)
+        const host = request.headers.get('host') || 'localhost:3000'
+        const protocol = request.headers.get('x-forwarded-proto') || 'http'
+        const baseUrl = `${protocol}://${host}`
+
+        if (isZipFilename(session.filename)) {
+            // The archive only lives until its PDFs have their own job directories
+            const handle = await open(filePath, 'r')
+            try {
+                const archive = await expandPdfArchive(
+                    await fileZipSource(handle),
+                    session.filename,
+                    localPdfStore(baseUrl, { archive: session.filename })
+                )
+                logger.section('ARCHIVE EXPANDED', { job_id: jobId, pdfs: archive.entries.length })
+                return NextResponse.json({ originalFilename: session.filename, archive })
+            } finally {
+                await handle.close()
+                await rm(dirname(filePath), { recursive: true, force: true })
+            }
+        }
+
+        let preflight: PreflightReport
+        try {
+            preflight = await preflightFile(filePath)
+        } catch (error) {
+            logger.error(`Preflight error: ${error instanceof Error ? error.message : 'Unknown'}`, { job_id: jobId })
+            return NextResponse.json(
+                { error: 'The PDF could not be checked right now; please try again', retryable: true },
+                { status: 503 }
+            )
+        }
+        logger.info(`Preflight: ${preflight.ok ? 'ok' : 'blocked'}`, {
+            job_id: jobId,
+            pages: preflight.pageCount,
+            issues: preflight.issues.map(i => i.code).join(','),
+        })
+        if (!preflight.ok) {
+            // Never leave a blocked input where a job could fetch it
+            await rm(dirname(filePath), { recursive: true, force: true })
+            return NextResponse.json({ error: blockingMessage(preflight), preflight }, { status: 422 })
+        }
+
+        const url = `${baseUrl}/api/files/${pathname}`
+
+        const durationMs = Date.now() - startTime
+        logger.section('CHUNKED UPLOAD COMPLETE', { job_id: jobId, duration_ms: durationMs })
+        logger.info(`URL for worker: ${url}`, { job_id: jobId, url })
+
+        return NextResponse.json({
+            url,
+            pathname,
+            originalFilename: session.filename,
+            preflight,
+        })
+    } catch (error) {
+        if (error instanceof UploadSessionError) {
+            logger.error(`Complete rejected: ${error.message}`, { job_id: jobId })
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+        if (error instanceof ZipArchiveError) {
+            logger.error(`Archive rejected: ${error.message}`, { job_id: jobId })
+            return NextResponse.json({ error: error.message }, { status: 422 })
+        }
+        logger.error(`Complete error: ${error instanceof Error ? error.message : 'Unknown'}`, { job_id: jobId })
+        return NextResponse.json({ error: 'Failed to complete upload' }, { status: 500 })
+    }
+}
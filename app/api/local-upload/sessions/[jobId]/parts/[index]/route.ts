@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_CHUNK_SIZE } from '@/lib/chunked-upload'
+import { loggers } from '@/lib/v4-logger'
+import { writeChunk, UploadSessionError } from '@/services/uploadSessions'
+
+const logger = loggers.localUpload
+
+/**
+ * The request body, refused with 413 once it passes `limit` bytes instead of
+ * being buffered whole (Content-Length may be missing or wrong).
+ */
+async function readBody(request: NextRequest, limit: number): Promise<Uint8Array> {
+    const declared = Number(request.headers.get('content-length'))
+    if (declared > limit) {
+        throw new UploadSessionError(`Chunk is larger than ${limit} bytes`, 413)
+    }
+
+    const chunks: Uint8Array[] = []
+    let size = 0
+    if (request.body) {
+        const reader = request.body.getReader()
+        for (let read = await reader.read(); !read.done; read = await reader.read()) {
+            size += read.value.byteLength
+            if (size > limit) {
+                await reader.cancel()
+                throw new UploadSessionError(`Chunk is larger than ${limit} bytes`, 413)
+            }
+            chunks.push(read.value)
+        }
+    }
+
+    const data = new Uint8Array(size)
+    let offset = 0
+    for (const chunk of chunks) {
+        data.set(chunk, offset)
+        offset += chunk.byteLength
+    }
+    return data
+}
+
+/**
+ * Upload one chunk of a session.
+ *
+ * PUT /api/local-upload/sessions/{jobId}/parts/{index}
+ * Body: raw bytes (application/octet-stream), exactly chunkSize bytes
+ * except for the last chunk.
+ *
+ * Re-sending a chunk overwrites it, so retries are safe. Bodies over
+ * MAX_CHUNK_SIZE (the largest size a session can be given) are refused
+ * before they are read into memory.
+ */
+export async function PUT(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string; index: string }> }
+) {
+    const { jobId, index } = await params
+
+    try {
+        const data = await readBody(request, MAX_CHUNK_SIZE)
+        await writeChunk(jobId, Number(index), data)
+        return NextResponse.json({ index: Number(index), size: data.byteLength })
+    } catch (error) {
+        if (error instanceof UploadSessionError) {
+            logger.warn(`Chunk ${index} rejected: ${error.message}`, { job_id: jobId })
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+        logger.error(`Chunk ${index} error: ${error instanceof Error ? error.message : 'Unknown'}`, { job_id: jobId })
+        return NextResponse.json({ error: 'Failed to store chunk' }, { status: 500 })
+    }
+}
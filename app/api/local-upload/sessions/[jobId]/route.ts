@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loggers } from '@/lib/v4-logger'
+import { getSessionStatus, UploadSessionError } from '@/services/uploadSessions'
+
+const logger = loggers.localUpload
+
+/**
+ * GET /api/local-upload/sessions/{jobId}
+ *
+ * Returns the session with the list of chunks already stored, or 404.
+ */
+export async function GET(
+    request: NextRequest,
+    { params }: { params: Promise<{ jobId: string }> }
+) {
+    const { jobId } = await params
+
+    try {
+        const status = await getSessionStatus(jobId)
+        if (!status) {
+            return NextResponse.json({ error: 'Upload session not found' }, { status: 404 })
+        }
+        return NextResponse.json(status)
+    } catch (error) {
+        if (error instanceof UploadSessionError) {
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+        logger.error(`Session status error: ${error instanceof Error ? error.message : 'Unknown'}`, { job_id: jobId })
+        return NextResponse.json({ error: 'Failed to get upload status' }, { status: 500 })
+    }
+}
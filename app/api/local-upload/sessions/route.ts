@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { loggers } from '@/lib/v4-logger'
+import { clampChunkSize, MAX_UPLOAD_BYTES } from '@/lib/chunked-upload'
+import { initSession, UploadSessionError } from '@/services/uploadSessions'
+
+const logger = loggers.localUpload
+
+/**
+ * Start (or resume) a chunked upload.
+ *
+ * POST /api/local-upload/sessions
+ * Body: { jobId: string, filename: string, size: number, chunkSize?: number }
+ *
+ * Returns: { jobId, filename, size, chunkSize, totalChunks, receivedChunks }
+ * chunkSize is clamped to MIN_CHUNK_SIZE..MAX_CHUNK_SIZE; clients slice by
+ * the returned value.
+ * When a session already exists for the same file, receivedChunks lists the
+ * parts that can be skipped.
+ */
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json().catch(() => ({}))
+        const { jobId, filename, size } = body
+        const chunkSize = clampChunkSize(body.chunkSize)
+
+        if (!jobId || !filename || !size) {
+            return NextResponse.json({ error: 'jobId, filename and size are required' }, { status: 400 })
+        }
+
+        if (size > MAX_UPLOAD_BYTES) {
+            logger.error(`File too large: ${size} bytes`, { job_id: jobId })
+            return NextResponse.json(
+                { error: `File exceeds maximum size of ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)}MB` },
+                { status: 413 }
+            )
+        }
+
+        const status = await initSession(jobId, String(filename), Number(size), chunkSize)
+        return NextResponse.json(status)
+    } catch (error) {
+        if (error instanceof UploadSessionError) {
+            return NextResponse.json({ error: error.message }, { status: error.status })
+        }
+        logger.error(`Session init error: ${error instanceof Error ? error.message : 'Unknown'}`)
+        return NextResponse.json({ error: 'Failed to start upload' }, { status: 500 })
+    }
+}
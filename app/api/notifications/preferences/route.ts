@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { DEFAULT_NOTIFICATION_PREFERENCES } from '@/lib/notifications'
+import { getNotificationPreferences, setNotificationPreferences } from '@/services/notificationPreferences'
+
+const log = createLogger('api/notifications/preferences')
+
+/**
+ * The signed-in user's notification preferences.
+ *
+ * GET /api/notifications/preferences  → NotificationPreferences
+ * PUT /api/notifications/preferences  { desktop, events } → NotificationPreferences
+ *
+ * Without a user email GET returns the defaults and PUT is rejected (401).
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    const email = session?.user?.email
+    if (!email) return NextResponse.json(DEFAULT_NOTIFICATION_PREFERENCES)
+    return NextResponse.json(await getNotificationPreferences(email))
+  } catch (error) {
+    log.error('Failed to read notification preferences', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to load notification preferences' }, { status: 500 })
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const email = session?.user?.email
+    if (!email) {
+      return NextResponse.json({ error: 'Sign in to save notification preferences' }, { status: 401 })
+    }
+    const body = await request.json().catch(() => ({}))
+    return NextResponse.json(await setNotificationPreferences(email, body))
+  } catch (error) {
+    log.error('Failed to save notification preferences', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to save notification preferences' }, { status: 500 })
+  }
+}
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { del } from '@vercel/blob'
+import { createLogger } from '@/lib/logger'
+import { preflightUrl } from '@/services/pdfPreflight'
+
+const log = createLogger('api/preflight')
+
+// Only files we uploaded ourselves may be fetched (no open proxy)
+const ALLOWED_HOST_SUFFIX = '.blob.vercel-storage.com'
+
+/**
+ * Preflight a PDF that was uploaded to Vercel Blob.
+ *
+ * In local mode the upload routes run preflight themselves; in blob mode the
+ * file never passes through Next.js, so the dashboard calls this route with
+ * the blob URL before creating the job.
+ *
+ * POST /api/preflight
+ * Body: { url: string }
+ *
+ * Returns: PreflightReport
+ * A blob with blocking issues is deleted, so no job can be created from it.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { url } = await request.json().catch(() => ({}))
+
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      return NextResponse.json({ error: 'Invalid url' }, { status: 400 })
+    }
+
+    if (parsed.protocol !== 'https:' || !parsed.hostname.endsWith(ALLOWED_HOST_SUFFIX)) {
+      log.warn('Rejected preflight for foreign host', { host: parsed.hostname })
+      return NextResponse.json({ error: 'Only blob storage URLs can be checked' }, { status: 400 })
+    }
+
+    const report = await preflightUrl(parsed.toString())
+    log.info(`Preflight: ${report.ok ? 'ok' : 'blocked'}`, {
+      pages: report.pageCount,
+      issues: report.issues.map(i => i.code).join(','),
+    })
+    if (!report.ok) {
+      await del(parsed.toString()).catch(error => {
+        log.warn('Failed to delete blocked blob', { error: error instanceof Error ? error.message : String(error) })
+      })
+    }
+    return NextResponse.json(report)
+  } catch (error) {
+    log.error('Preflight error', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Preflight failed' }, { status: 500 })
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { deleteProfile, updateProfile, ProfileValidationError } from '@/services/pipelineProfiles'
+
+const log = createLogger('api/profiles/[profileId]')
+
+/**
+ * PUT    /api/profiles/{profileId}  { name, description, overrides } → PipelineProfile
+ * DELETE /api/profiles/{profileId}
+ *
+ * Jobs keep the profile name and overrides they were created with, so
+ * editing or deleting a profile does not change past runs.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  try {
+    const { profileId } = await params
+    const session = await getServerSession(authOptions)
+    const body = await request.json().catch(() => ({}))
+    const profile = await updateProfile(profileId, body, session?.user?.email ?? null)
+    if (!profile) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+    }
+    return NextResponse.json(profile)
+  } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      return NextResponse.json({ error: error.message, fieldErrors: error.fieldErrors }, { status: 400 })
+    }
+    log.error('Failed to update profile', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to update profile' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ profileId: string }> }
+) {
+  try {
+    const { profileId } = await params
+    const session = await getServerSession(authOptions)
+    const deleted = await deleteProfile(profileId, session?.user?.email ?? null)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Profile not found' }, { status: 404 })
+    }
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    log.error('Failed to delete profile', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to delete profile' }, { status: 500 })
+  }
+}
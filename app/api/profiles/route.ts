@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { createProfile, listProfiles, ProfileValidationError } from '@/services/pipelineProfiles'
+
+const log = createLogger('api/profiles')
+
+/**
+ * Team-shared pipeline profiles.
+ *
+ * GET  /api/profiles  → PipelineProfile[]
+ * POST /api/profiles  { name, description, overrides } → PipelineProfile
+ *
+ * Validation failures return 400 with { error, fieldErrors }.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await listProfiles())
+  } catch (error) {
+    log.error('Failed to list profiles', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to load profiles' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const body = await request.json().catch(() => ({}))
+    const profile = await createProfile(body, session?.user?.email ?? null)
+    return NextResponse.json(profile, { status: 201 })
+  } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      return NextResponse.json({ error: error.message, fieldErrors: error.fieldErrors }, { status: 400 })
+    }
+    log.error('Failed to create profile', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to create profile' }, { status: 500 })
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { deleteProject, getProject, updateProject, ProjectConflictError, ProjectValidationError } from '@/services/projects'
+import { getProjectSummary } from '@/services/projectSummary'
+
+const log = createLogger('api/projects/[projectId]')
+
+/**
+ * GET    /api/projects/{projectId}  → { project, summary }
+ * PUT    /api/projects/{projectId}  { name, customer, projectNumber, address, expectedUpdatedAt? } → Project
+ * DELETE /api/projects/{projectId}?expectedUpdatedAt=...
+ *
+ * The summary aggregates the project's jobs (status counts, pages, products);
+ * it is null when the Jobs API cannot be reached. Deleting a project does
+ * not touch its jobs. With expectedUpdatedAt, a project changed since that
+ * time is refused with 409 { error, project } (the current project).
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params
+    const project = await getProject(projectId)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    const summary = await getProjectSummary(projectId).catch(error => {
+      log.warn('Project summary unavailable', { projectId, error: error instanceof Error ? error.message : String(error) })
+      return null
+    })
+    return NextResponse.json({ project, summary })
+  } catch (error) {
+    log.error('Failed to load project', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to load project' }, { status: 500 })
+  }
+}
+
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params
+    const session = await getServerSession(authOptions)
+    const body = await request.json().catch(() => ({}))
+    const expectedUpdatedAt = typeof body.expectedUpdatedAt === 'string' ? body.expectedUpdatedAt : undefined
+    const project = await updateProject(projectId, body, session?.user?.email ?? null, expectedUpdatedAt)
+    if (!project) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    return NextResponse.json(project)
+  } catch (error) {
+    if (error instanceof ProjectConflictError) {
+      return NextResponse.json({ error: error.message, project: error.current }, { status: 409 })
+    }
+    if (error instanceof ProjectValidationError) {
+      return NextResponse.json({ error: error.message, fieldErrors: error.fieldErrors }, { status: 400 })
+    }
+    log.error('Failed to update project', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to update project' }, { status: 500 })
+  }
+}
+
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ projectId: string }> }
+) {
+  try {
+    const { projectId } = await params
+    const session = await getServerSession(authOptions)
+    const expectedUpdatedAt = request.nextUrl.searchParams.get('expectedUpdatedAt') ?? undefined
+    const deleted = await deleteProject(projectId, session?.user?.email ?? null, expectedUpdatedAt)
+    if (!deleted) {
+      return NextResponse.json({ error: 'Project not found' }, { status: 404 })
+    }
+    return NextResponse.json({ deleted: true })
+  } catch (error) {
+    if (error instanceof ProjectConflictError) {
+      return NextResponse.json({ error: error.message, project: error.current }, { status: 409 })
+    }
+    log.error('Failed to delete project', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to delete project' }, { status: 500 })
+  }
+}
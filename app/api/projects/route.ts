@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { createLogger } from '@/lib/logger'
+import { createProject, listProjects, ProjectValidationError } from '@/services/projects'
+
+const log = createLogger('api/projects')
+
+/**
+ * Team-shared projects.
+ *
+ * GET  /api/projects  → Project[] (by name)
+ * POST /api/projects  { name, customer, projectNumber, address } → Project
+ *
+ * Validation failures return 400 with { error, fieldErrors }.
+ */
+export async function GET() {
+  try {
+    return NextResponse.json(await listProjects())
+  } catch (error) {
+    log.error('Failed to list projects', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to load projects' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions)
+    const body = await request.json().catch(() => ({}))
+    const project = await createProject(body, session?.user?.email ?? null)
+    return NextResponse.json(project, { status: 201 })
+  } catch (error) {
+    if (error instanceof ProjectValidationError) {
+      return NextResponse.json({ error: error.message, fieldErrors: error.fieldErrors }, { status: 400 })
+    }
+    log.error('Failed to create project', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to create project' }, { status: 500 })
+  }
+}
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { getServerSession } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { isAdminEmail } from '@/lib/admin'
+import { createLogger } from '@/lib/logger'
+import { getQueueSnapshot, PRIORITIES_ENABLED, type QueueStatus } from '@/services/jobQueue'
+
+const log = createLogger('api/queue')
+
+/**
+ * Pending jobs in start order with estimated start times, and worker
+ * capacity.
+ *
+ * GET /api/queue
+ * Returns: QueueStatus (canPrioritize is true for admins when JOB_PRIORITIES_ENABLED)
+ */
+export async function GET() {
+  try {
+    const session = await getServerSession(authOptions)
+    const status: QueueStatus = {
+      ...await getQueueSnapshot(),
+      canPrioritize: PRIORITIES_ENABLED && isAdminEmail(session?.user?.email),
+    }
+    return NextResponse.json(status)
+  } catch (error) {
+    log.error('Queue status unavailable', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Queue status unavailable' }, { status: 502 })
+  }
+}
@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { rm } from 'fs/promises'
-import { join } from 'path'
 import { createLogger } from '@/lib/logger'
-import { getFastApiUrl } from '@/lib/api-config'
+import { api, getFastApiUrl } from '@/lib/api-config'
+import { findInputUsers, inputUsersBlockDelete } from '@/lib/jobs-api'
+import {
+  deleteBlobArtifacts,
+  deleteLocalArtifacts,
+  isBlobStorageConfigured,
+  type ArtifactCleanup,
+} from '@/services/jobArtifacts'
+import { dismissOrphan } from '@/services/jobMonitor'
 
 const log = createLogger('api/runs/[runId]')
 
-const OUTPUT_DIR = process.env.OUTPUT_DIR || 'output_frontend'
+// Statuses in which the worker is done with a job's files
+const DELETABLE_STATUSES = ['completed', 'failed', 'cancelled', 'classification_complete']
 
 // UUID v4 validation regex
 const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
@@ -55,6 +62,24 @@ export async function GET(
   }
 }
 
+/**
+ * Delete a run completely: the job in the Jobs API, then its local folder
+ * and its blobs. Runs that are still being processed must be cancelled
+ * first, and runs whose input other jobs read are refused: re-runs and
+ * resumed runs read the parent's input.pdf and stage artifacts, and re-runs
+ * of a duplicate upload its input.pdf (see findInputUsers in lib/jobs-api).
+ * A job the Jobs API no longer knows still has its leftovers removed.
+ *
+ * Only reaches the configured Jobs API; with another one set in Settings the
+ * client deletes there directly (see deleteJob in hooks/useJobStatus).
+ *
+ * DELETE /api/runs/[runId]
+ *
+ * Returns: { run_id, freed: { files, bytes }, local, blob, errors }
+ * 409 while the run is active or has re-runs ({ error, reruns }); 502 when
+ * the Jobs API refuses the delete or cannot be asked about re-runs (nothing
+ * is removed then).
+ */
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ runId: string }> }
@@ -67,14 +92,73 @@ export async function DELETE(
   }
 
   try {
-    const outputDir = join(process.cwd(), OUTPUT_DIR, runId)
+    const jobRes = await fetch(api.jobs.get(runId), { cache: 'no-store' })
+    let manifestUrl: string | null = null
+    let contentHash: string | null = null
+    if (jobRes.ok) {
+      const job = await jobRes.json()
+      if (!DELETABLE_STATUSES.includes(job.status)) {
+        return NextResponse.json(
+          { error: 'Run is still active; cancel it before deleting', status: job.status },
+          { status: 409 }
+        )
+      }
+      manifestUrl = job.manifest_url ?? null
+      contentHash = job.content_hash ?? null
+    } else if (jobRes.status !== 404) {
+      log.error('FastAPI status error', { runId, status: jobRes.status })
+      return NextResponse.json({ error: 'Could not check the run before deleting' }, { status: 502 })
+    }
 
+    let reruns: string[]
     try {
-      await rm(outputDir, { recursive: true, force: true })
-      return NextResponse.json({ message: 'Run deleted' })
-    } catch {
+      reruns = (await findInputUsers({ id: runId, content_hash: contentHash })).map(job => job.id)
+    } catch (error) {
+      log.error('Re-run lookup failed', { runId, error: error instanceof Error ? error.message : String(error) })
+      return NextResponse.json({ error: 'Could not check the run for re-runs before deleting' }, { status: 502 })
+    }
+    if (reruns.length > 0) {
+      return NextResponse.json(
+        { error: inputUsersBlockDelete(reruns.length), reruns },
+        { status: 409 }
+      )
+    }
+
+    if (jobRes.ok) {
+      const deleteRes = await fetch(api.jobs.delete(runId), { method: 'DELETE' })
+      if (!deleteRes.ok && deleteRes.status !== 404) {
+        const body = await deleteRes.text()
+        log.error('FastAPI delete failed', { runId, status: deleteRes.status, body })
+        return NextResponse.json({ error: 'Jobs API could not delete the run' }, { status: 502 })
+      }
+    }
+
+    const local = await deleteLocalArtifacts(runId)
+    let blob: ArtifactCleanup | null = null
+    if (isBlobStorageConfigured()) {
+      blob = await deleteBlobArtifacts(runId, manifestUrl).catch(error => {
+        log.error('Blob cleanup failed', { runId, error: error instanceof Error ? error.message : String(error) })
+        return { files: 0, bytes: 0, errors: ['Could not list blobs for the run'] }
+      })
+    }
+
+    const freed = {
+      files: local.files + (blob?.files ?? 0),
+      bytes: local.bytes + (blob?.bytes ?? 0),
+    }
+    const errors = [...local.errors, ...(blob?.errors ?? [])]
+    log.info('Run deleted', { runId, jobFound: jobRes.ok, ...freed, errors: errors.length })
+    if (!jobRes.ok) {
+      // Leftovers of a job the Jobs API forgot: no longer an orphan to report
+      await dismissOrphan(runId).catch(error => {
+        log.warn('Could not update orphaned runs', { runId, error: error instanceof Error ? error.message : String(error) })
+      })
+    }
+
+    if (!jobRes.ok && freed.files === 0 && errors.length === 0) {
       return NextResponse.json({ error: 'Run not found' }, { status: 404 })
     }
+    return NextResponse.json({ run_id: runId, freed, local, blob, errors })
   } catch (error) {
     log.error('Error deleting run', { error: error instanceof Error ? error.message : String(error) })
     return NextResponse.json({ error: 'Failed to delete' }, { status: 500 })
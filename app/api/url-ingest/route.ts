@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { blobPdfStore, localPdfStore } from '@/services/pdfStore'
+import { ingestPdfFromUrl, UrlIngestError } from '@/services/urlIngest'
+
+const log = createLogger('api/url-ingest')
+
+const USE_BLOB = process.env.NEXT_PUBLIC_STORAGE_MODE === 'blob'
+  || (process.env.NEXT_PUBLIC_STORAGE_MODE !== 'local' && process.env.NEXT_PUBLIC_USE_BLOB === 'true')
+
+/**
+ * Fetch a PDF from a download link and store it like an upload.
+ *
+ * The file ends up where the current storage mode puts uploads (local
+ * output_frontend/{jobId}/input.pdf or Blob uploads/{jobId}/input.pdf); the
+ * dashboard then creates the job with the returned URL.
+ *
+ * POST /api/url-ingest
+ * Body: { url: string }
+ *
+ * Returns: UrlIngestResult
+ * Errors:  { error: string, redirects: RedirectHop[] }
+ */
+export async function POST(request: NextRequest) {
+  const { url } = await request.json().catch(() => ({}))
+  if (typeof url !== 'string' || !url.trim()) {
+    return NextResponse.json({ error: 'No url provided', redirects: [] }, { status: 400 })
+  }
+
+  try {
+    const host = request.headers.get('host') || 'localhost:3000'
+    const protocol = request.headers.get('x-forwarded-proto') || 'http'
+    const store = USE_BLOB
+      ? blobPdfStore()
+      : localPdfStore(`${protocol}://${host}`, { sourceUrl: url.trim() })
+
+    const result = await ingestPdfFromUrl(url.trim(), store)
+    return NextResponse.json(result)
+  } catch (error) {
+    if (error instanceof UrlIngestError) {
+      log.warn(`URL ingest rejected: ${error.message}`, { redirects: error.redirects.length })
+      return NextResponse.json({ error: error.message, redirects: error.redirects }, { status: error.status })
+    }
+    log.error('URL ingest error', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to fetch document', redirects: [] }, { status: 500 })
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server'
+import { createLogger } from '@/lib/logger'
+import { getInputWatcherStatus, scanInputFolder, startInputWatcher } from '@/services/inputWatcher'
+
+const log = createLogger('api/watch-folder')
+
+/**
+ * Status of the watched input folder.
+ *
+ * GET /api/watch-folder
+ * Returns: InputWatcherStatus
+ */
+export async function GET() {
+  try {
+    // Normally started by instrumentation.ts; this covers servers without it
+    startInputWatcher()
+    return NextResponse.json(await getInputWatcherStatus())
+  } catch (error) {
+    log.error('Watch folder status error', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to read watch folder status' }, { status: 500 })
+  }
+}
+
+/**
+ * Scan the folder now instead of waiting for the next interval.
+ *
+ * POST /api/watch-folder
+ * Returns: InputWatcherStatus
+ */
+export async function POST() {
+  try {
+    const status = await getInputWatcherStatus()
+    if (!status.enabled) {
+      return NextResponse.json({ error: 'No watch folder configured (WATCH_INPUT_DIR)' }, { status: 409 })
+    }
+    startInputWatcher()
+    await scanInputFolder()
+    return NextResponse.json(await getInputWatcherStatus())
+  } catch (error) {
+    log.error('Watch folder scan error', { error: error instanceof Error ? error.message : String(error) })
+    return NextResponse.json({ error: 'Failed to scan watch folder' }, { status: 500 })
+  }
+}
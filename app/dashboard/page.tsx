@@ -2,9 +2,45 @@
 
 import { useState, useEffect, useCallback, useRef } from "react"
 import Link from "next/link"
-import { upload } from '@vercel/blob/client'
-import { createJob, type JobPublic } from '../../hooks/useJobStatus'
+import { useSession } from "next-auth/react"
+import { createJob, findJobsByContentHash, type JobPublic } from '../../hooks/useJobStatus'
 import { getFastApiUrl, api } from '@/lib/api-config'
+import {
+  uploadBlobChunked,
+  uploadLocalChunked,
+  getOrCreateUploadJobId,
+  hasResumableUpload,
+  clearResumableUpload,
+  isZipFile,
+  MAX_UPLOAD_BYTES,
+  type UploadProgress,
+} from '@/lib/chunked-upload'
+import { hashFile } from '@/lib/content-hash'
+import { formatBytes } from '@/lib/format-bytes'
+import { describeOverrides } from '@/lib/pipeline-profiles'
+import { countPdfPages } from '@/lib/pdf-page-count'
+import { ALL_PAGES, formatPageRanges, pageSelectionOverride, selectedPages, type PageSelection } from '@/lib/page-selection'
+import PagePicker from '@/components/PagePicker'
+import { PdfPageThumbnail, PdfViewerModal } from '@/components/PdfPreview'
+import { usePipelineProfiles } from '@/hooks/usePipelineProfiles'
+import { useProjects } from '@/hooks/useProjects'
+import { describeProject } from '@/lib/projects'
+import TagInput from '@/components/TagInput'
+import { useJobsStatus } from '@/hooks/useJobsStatus'
+import { useEta } from '@/hooks/useEta'
+import { estimateJobEta, formatEta } from '@/lib/eta'
+import { useJobQueue } from '@/hooks/useJobQueue'
+import { formatQueueStart } from '@/lib/job-queue'
+import { followJob } from '@/lib/notifications'
+import {
+  useUploadQueue,
+  type UploadQueueEntry,
+  type UploadTaskContext,
+  type UploadTaskResult,
+} from '@/hooks/useUploadQueue'
+import type { PreflightReport } from '@/services/pdfPreflight'
+import type { ArchiveReport } from '@/services/archiveIngest'
+import type { RedirectHop, UrlIngestResult } from '@/services/urlIngest'
 import { createLogger } from '@/lib/logger'
 
 const log = createLogger('Dashboard')
@@ -27,7 +63,36 @@ interface Run {
 interface StagedFile {
   id: string
   file: File
+  /** Object URL for the thumbnail and quick viewer (PDFs only; revoked on removal) */
   preview?: string
+  /** An earlier upload of this file was interrupted and will be resumed */
+  resumable?: boolean
+  /** Set once the file is uploaded, so a held file is not uploaded twice */
+  jobId?: string
+  uploadedUrl?: string
+  preflight?: PreflightReport
+  /** User chose to process despite preflight warnings */
+  confirmed?: boolean
+  contentHash?: string
+  /** Earlier jobs with the same content hash (undefined while checking) */
+  duplicates?: JobPublic[]
+  /** Why the duplicate check could not run (duplicates is [] then) */
+  duplicateCheckError?: string
+  /** How to proceed when duplicates were found */
+  duplicateChoice?: 'rerun' | 'continue'
+  /** ZIP uploads: the expanded archive, and archive jobId -> created job id */
+  archive?: ArchiveReport
+  archiveJobs?: Record<string, string>
+  /** ZIP uploads: earlier jobs per archive jobId with the same content (undefined until looked up) */
+  archiveDuplicates?: Record<string, JobPublic[]>
+  /** ZIP uploads: whether PDFs with preflight warnings or earlier runs are processed */
+  archiveChoice?: 'include' | 'skip'
+  /** Page count read in the browser (undefined while counting, null if unknown) */
+  pageCount?: number | null
+  /** Pages to process; unset = all pages */
+  pageSelection?: PageSelection
+  /** Profile for this file only ('' = pipeline defaults); unset = the batch profile */
+  profileId?: string
 }
 
 // Check if we should use v4 Blob upload or legacy FormData
@@ -47,25 +112,144 @@ function useV4BlobUpload(): boolean {
   return false
 }
 
+// Blob uploads bypass Next.js, so preflight is requested separately.
+// Returns undefined when the check itself is unavailable (job is not held back).
+async function preflightBlob(url: string): Promise<PreflightReport | undefined> {
+  try {
+    const res = await fetch('/api/preflight', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url }),
+    })
+    if (!res.ok) throw new Error(`Preflight failed: ${res.statusText}`)
+    return await res.json()
+  } catch (err) {
+    log.warn('Preflight unavailable, continuing without it', { error: err instanceof Error ? err.message : String(err) })
+    return undefined
+  }
+}
+
+// Hash a file and look up earlier jobs with the same content.
+// A failed check never blocks the upload, but it is reported on the file.
+async function checkDuplicates(file: File): Promise<Pick<StagedFile, 'contentHash' | 'duplicates' | 'duplicateCheckError'>> {
+  let contentHash: string | undefined
+  try {
+    contentHash = await hashFile(file)
+    return { contentHash, duplicates: await findJobsByContentHash(contentHash) }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    log.warn(`Duplicate check failed for ${file.name}`, { error: message })
+    return { contentHash, duplicates: [], duplicateCheckError: message }
+  }
+}
+
+// The earlier job to point the user at: newest completed run, else newest run
+function pickOriginal(duplicates: JobPublic[]): JobPublic {
+  return duplicates.find(j => j.status === 'completed') ?? duplicates[0]
+}
+
+// Look up earlier runs of each PDF in an expanded archive (the server hashes the entries)
+async function checkArchiveDuplicates(archive: ArchiveReport): Promise<Pick<StagedFile, 'archiveDuplicates' | 'duplicateCheckError'>> {
+  const archiveDuplicates: Record<string, JobPublic[]> = {}
+  try {
+    for (const entry of archive.entries.filter(e => e.preflight.ok)) {
+      const duplicates = await findJobsByContentHash(entry.contentHash)
+      if (duplicates.length > 0) archiveDuplicates[entry.jobId] = duplicates
+    }
+    return { archiveDuplicates }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err)
+    log.warn(`Duplicate check failed for archive ${archive.batchName}`, { error: message })
+    return { archiveDuplicates, duplicateCheckError: message }
+  }
+}
+
+// Archive PDFs that need a decision before their jobs are created
+function flaggedArchiveEntries(archive: ArchiveReport, duplicates: Record<string, JobPublic[]>) {
+  return archive.entries.filter(e =>
+    e.preflight.ok && (e.preflight.issues.some(i => i.severity === 'warning') || duplicates[e.jobId]?.length > 0)
+  )
+}
+
+// Blob archives are expanded by a separate route (local uploads expand on completion)
+async function expandBlobArchive(url: string, filename: string): Promise<ArchiveReport> {
+  const res = await fetch('/api/archives/expand', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url, filename }),
+  })
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}))
+    throw new Error(body.error || `Archive expansion failed: ${res.statusText}`)
+  }
+  return res.json()
+}
+
+class UrlImportError extends Error {
+  constructor(message: string, public redirects: RedirectHop[]) {
+    super(message)
+    this.name = 'UrlImportError'
+  }
+}
+
+// The server downloads the PDF and stores it like an upload
+async function importFromUrl(url: string): Promise<UrlIngestResult> {
+  const res = await fetch('/api/url-ingest', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ url }),
+  })
+  const body = await res.json().catch(() => ({}))
+  if (!res.ok) {
+    throw new UrlImportError(body.error || `Import failed: ${res.statusText}`, body.redirects ?? [])
+  }
+  return body
+}
+
+// Whether a staged file may go on to job creation
+function preflightAllows(staged: StagedFile): boolean {
+  const report = staged.preflight
+  if (!report) return true
+  if (!report.ok) return false
+  return staged.confirmed || !report.issues.some(i => i.severity === 'warning')
+}
+
+// Files uploaded at the same time
+const UPLOAD_CONCURRENCY = 3
+
+// Per-file profile option meaning "whatever the batch uses"
+const BATCH_PROFILE = '__batch__'
+
 export default function DashboardPage() {
+  const { data: session } = useSession()
+  // Recorded on created jobs so the runs history can filter by creator
+  const createdBy = session?.user?.email ?? undefined
   const [stagedFiles, setStagedFiles] = useState<StagedFile[]>([])
-  const [processing, setProcessing] = useState(false)
-  const [processingCount, setProcessingCount] = useState(0)
+  // Queue tasks read the latest staged entry, not the one from when they were queued
+  const stagedRef = useRef(stagedFiles)
+  stagedRef.current = stagedFiles
+  // Background duplicate checks still running, so processing can wait on them instead of hashing again
+  const duplicateChecks = useRef(new Map<string, ReturnType<typeof checkDuplicates>>())
   const [recentRuns, setRecentRuns] = useState<Run[]>([])
   const [dragActive, setDragActive] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Per-file chunk progress, keyed by StagedFile.id
+  const [uploadProgress, setUploadProgress] = useState<Record<string, UploadProgress>>({})
 
-  // Polling state for v4 jobs
-  const [isPolling, setIsPolling] = useState(false)
+  // v4 jobs followed until they finish (one batched stream/poll for all of them)
   const [v4JobIds, setV4JobIds] = useState<string[]>([])
-  const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const { jobs: trackedJobs, isTracking } = useJobsStatus(v4JobIds)
+  const { model: etaModel, now } = useEta(isTracking)
+  // Queue position and start estimate while a tracked job waits for a worker
+  const hasQueuedJobs = Object.values(trackedJobs).some(job => job.status === 'pending')
+  const { queue: jobQueue, byJobId: queuedById } = useJobQueue(hasQueuedJobs)
 
-  // Terminal states where polling should stop for a job
+  // Terminal states where tracking should stop for a job
   const isTerminalStatus = (status: string | undefined) => {
     return ['completed', 'failed', 'cancelled', 'classification_complete'].includes(status || '')
   }
 
-  // Fetch initial jobs from v4 Jobs API and auto-poll any active ones
+  // Fetch initial jobs from v4 Jobs API and track any active ones
   useEffect(() => {
     fetch(api.jobs.list(10))
       .then(r => r.ok ? r.json() : [])
@@ -82,258 +266,350 @@ export default function DashboardPage() {
         }))
         setRecentRuns(runs.slice(0, 5))
 
-        // Auto-poll any jobs that are still active
+        // Track any jobs that are still active
         const activeJobIds = jobs
           .filter(job => !isTerminalStatus(job.status))
           .map(job => job.id)
         if (activeJobIds.length > 0) {
-          log.debug(`Auto-polling ${activeJobIds.length} active jobs on load`)
+          log.debug(`Tracking ${activeJobIds.length} active jobs on load`)
           setV4JobIds(prev => [...new Set([...prev, ...activeJobIds])])
-          setIsPolling(true)
         }
       })
       .catch(() => { })
   }, [])
 
-  // v4 Jobs Polling - polls /api/jobs/{id} for each active job
+  // Merge tracked job updates into the recent runs
   useEffect(() => {
-    if (!isPolling || v4JobIds.length === 0) {
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current)
-        pollingRef.current = null
-      }
-      return
-    }
-
-    const pollJobs = async () => {
-      let allTerminal = true
-
-      for (const jobId of v4JobIds) {
-        try {
-          // Use centralized API config - direct call to FastAPI
-          const response = await fetch(api.jobs.get(jobId), {
-            cache: 'no-store',
-          })
-
-          if (!response.ok) continue
-
-          const job: JobPublic = await response.json()
-
-          // Update recentRuns with job status
-          setRecentRuns(prev => prev.map(run =>
-            run.run_id === jobId
-              ? {
-                ...run,
-                doc_id: job.doc_name || run.doc_id,
-                doc_name: job.doc_name || run.doc_name,
-                status: job.status,
-                pipeline_status: job.status,
-                progress: job.progress_percent,
-                message: job.message,
-              }
-              : run
-          ))
-
-          // Check if any job is still active
-          if (!isTerminalStatus(job.status)) {
-            allTerminal = false
-          }
-        } catch (err) {
-          log.error(`Polling error for job ${jobId}`, { error: err instanceof Error ? err.message : String(err) })
-          allTerminal = false // Keep polling on error
-        }
+    if (Object.keys(trackedJobs).length === 0) return
+    setRecentRuns(prev => prev.map(run => {
+      const job = trackedJobs[run.run_id]
+      if (!job) return run
+      return {
+        ...run,
+        doc_id: job.doc_name || run.doc_id,
+        doc_name: job.doc_name || run.doc_name,
+        status: job.status,
+        pipeline_status: job.status,
+        progress: job.progress_percent,
+        message: job.message,
       }
-
-      // Stop polling when all jobs are terminal
-      if (allTerminal && v4JobIds.length > 0) {
-        log.debug('All jobs terminal, stopping polling')
-        setIsPolling(false)
-      }
-    }
-
-    // Initial poll
-    pollJobs()
-
-    // Set up interval (5 seconds - reduced from 1s to minimize request volume)
-    pollingRef.current = setInterval(pollJobs, 5000)
-
-    return () => {
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current)
-        pollingRef.current = null
-      }
-    }
-  }, [isPolling, v4JobIds])
+    }))
+  }, [trackedJobs])
 
   // Add files to staging
   const addFiles = useCallback((files: FileList | null) => {
     if (!files) return
     const newFiles = Array.from(files)
-      .filter(f => f.type === 'application/pdf' || f.name.toLowerCase().endsWith('.pdf'))
-      .map(f => ({
+      .filter(f => f.type === 'application/pdf' || f.name.toLowerCase().endsWith('.pdf') || isZipFile(f))
+      .map((f): StagedFile => ({
         id: `${f.name}-${Date.now()}-${Math.random().toString(36).slice(2)}`,
         file: f,
+        resumable: hasResumableUpload(f),
+        preview: isZipFile(f) ? undefined : URL.createObjectURL(f),
+        // Archives are checked per contained PDF once the server has expanded them
+        duplicates: isZipFile(f) ? [] : undefined,
       }))
-    setStagedFiles(prev => [...prev, ...newFiles])
+    const tooLarge = newFiles.filter(f => f.file.size > MAX_UPLOAD_BYTES)
+    if (tooLarge.length > 0) {
+      setError(`Too large (max ${formatBytes(MAX_UPLOAD_BYTES)}): ${tooLarge.map(f => f.file.name).join(', ')}`)
+    }
+    const accepted = newFiles.filter(f => f.file.size <= MAX_UPLOAD_BYTES)
+    tooLarge.forEach(f => f.preview && URL.revokeObjectURL(f.preview))
+    setStagedFiles(prev => [...prev, ...accepted])
+
+    // Hash in the background so duplicates are flagged before processing
+    for (const staged of accepted.filter(f => f.duplicates === undefined)) {
+      const check = checkDuplicates(staged.file)
+      duplicateChecks.current.set(staged.id, check)
+      check.then(result => {
+        duplicateChecks.current.delete(staged.id)
+        setStagedFiles(prev => prev.map(f => f.id === staged.id ? { ...f, ...result } : f))
+      })
+      countPdfPages(staged.file)
+        .catch(() => null)
+        .then(pageCount => {
+          setStagedFiles(prev => prev.map(f => f.id === staged.id ? { ...f, pageCount } : f))
+        })
+    }
   }, [])
 
-  // Remove file from staging
+  // Remove file from staging (cancels it if still queued or uploading)
   const removeFile = (id: string) => {
+    queue.forget(id)
+    revokePreviews(stagedFiles.filter(f => f.id === id))
     setStagedFiles(prev => prev.filter(f => f.id !== id))
   }
 
-  // v4 job tracking
-  const [v4Jobs, setV4Jobs] = useState<JobPublic[]>([])
-  const isV4 = useV4BlobUpload()
+  // Drop every file that is not in flight; done files keep their job links until cleared
+  const clearFiles = (states: Array<UploadQueueEntry['state'] | undefined>) => {
+    const ids = stagedFiles.filter(f => states.includes(queue.entries[f.id]?.state)).map(f => f.id)
+    ids.forEach(queue.forget)
+    revokePreviews(stagedFiles.filter(f => ids.includes(f.id)))
+    setStagedFiles(prev => prev.filter(f => !ids.includes(f.id)))
+  }
 
-  // Process files using v4 Blob upload flow
-  const processFilesV4 = async () => {
-    if (stagedFiles.length === 0) return
+  const revokePreviews = (files: StagedFile[]) => {
+    files.forEach(f => f.preview && URL.revokeObjectURL(f.preview))
+  }
 
-    log.info('Starting v4 Blob upload flow')
-    setProcessing(true)
-    setProcessingCount(0)
-    setError(null)
+  // Release preview object URLs when leaving the page
+  useEffect(() => () => {
+    stagedRef.current.forEach(f => f.preview && URL.revokeObjectURL(f.preview))
+  }, [])
 
-    const newJobIds: string[] = []
+  // Staged file open in the quick viewer
+  const [viewerId, setViewerId] = useState<string | null>(null)
+  const viewerFile = stagedFiles.find(f => f.id === viewerId)
 
-    try {
-      for (const { file } of stagedFiles) {
-        // Generate job ID for path organization
-        const jobId = crypto.randomUUID()
-        log.debug(`Processing file: ${file.name}`, { jobId })
-        const blob = await upload(
-          `uploads/${jobId}/input.pdf`,
-          file,
-          {
-            access: 'public',
-            handleUploadUrl: '/api/blob/upload',
-          }
-        )
-        log.debug('Blob upload complete', { url: blob.url })
+  const updateStaged = (id: string, patch: Partial<StagedFile>) => {
+    setStagedFiles(prev => prev.map(f => f.id === id ? { ...f, ...patch } : f))
+  }
 
-        // blob.url is the full URL with random suffix
-        // NEVER construct URL from pathname
+  // v4 job tracking
+  const [v4Jobs, setV4Jobs] = useState<JobPublic[]>([])
+  const isV4 = useV4BlobUpload()
 
-        // Step 2: Create job via FastAPI
-        log.debug('Creating job via FastAPI...')
-        const job = await createJob(blob.url, file.name, jobId)
-        log.info('Job created', { id: job.id, status: job.status })
+  // Pipeline profile for staged files without one of their own ('' = pipeline defaults)
+  const { profiles } = usePipelineProfiles()
+  const [profileId, setProfileId] = useState('')
+  const selectedProfile = profiles.find(p => p.id === profileId)
+  const profileFor = (staged: StagedFile) =>
+    staged.profileId === undefined ? selectedProfile : profiles.find(p => p.id === staged.profileId)
+
+  // Project and tags recorded on every job created from this page
+  const { projects } = useProjects()
+  const [projectId, setProjectId] = useState('')
+  const [tags, setTags] = useState<string[]>([])
+  const labels = { projectId: projectId || undefined, tags: tags.length > 0 ? tags : undefined }
+
+  // Staged file whose page picker is open (one at a time: it renders every page)
+  const [pagePickerId, setPagePickerId] = useState<string | null>(null)
+
+  // Profile overrides plus the file's page selection (throws on an invalid selection)
+  const jobConfigOverrides = (staged: StagedFile): Record<string, unknown> | undefined => {
+    const profile = profileFor(staged)
+    const pageSelection = staged.pageSelection && pageSelectionOverride(staged.pageSelection, staged.pageCount ?? null)
+    if (!profile && !pageSelection) return undefined
+    return { ...profile?.overrides, ...(pageSelection && { page_selection: pageSelection }) }
+  }
 
-        // Track job ID for polling
-        newJobIds.push(job.id)
+  // Upload a staged file (blob or local) and preflight it.
+  // Already-uploaded files (held back earlier) are not uploaded again.
+  const uploadStaged = async (staged: StagedFile, jobId: string, signal: AbortSignal) => {
+    const { id, file } = staged
+    if (staged.uploadedUrl) {
+      return { inputUrl: staged.uploadedUrl, preflight: staged.preflight }
+    }
 
-        // Add to jobs list
-        setV4Jobs(prev => [job, ...prev].slice(0, 5))
-        setRecentRuns(prev => [{
-          run_id: job.id,
-          doc_id: job.doc_name || file.name,
-          doc_name: job.doc_name || file.name,
-          status: job.status,
-          pipeline_status: job.status,
-          progress: job.progress_percent,
-        }, ...prev].slice(0, 5))
-        setProcessingCount(c => c + 1)
-      }
-      setStagedFiles([])
-      log.info('All files processed successfully')
-
-      // Start polling for the new jobs
-      if (newJobIds.length > 0) {
-        log.debug(`Starting polling for jobs: ${newJobIds.join(', ')}`)
-        setV4JobIds(prev => [...new Set([...prev, ...newJobIds])])
-        setIsPolling(true)
-      }
-    } catch (err) {
-      log.error('Upload error', { error: err instanceof Error ? err.message : String(err) })
-      setError(err instanceof Error ? err.message : "Upload failed")
-    } finally {
-      setProcessing(false)
+    const onProgress = (progress: UploadProgress) => setUploadProgress(prev => ({ ...prev, [id]: progress }))
+    let inputUrl: string
+    let preflight: PreflightReport | undefined
+    if (isV4) {
+      const blob = await uploadBlobChunked(file, jobId, { onProgress, signal })
+      log.debug('Blob upload complete', { url: blob.url })
+      // blob.url is the full URL with random suffix
+      // NEVER construct URL from pathname
+      inputUrl = blob.url
+      preflight = await preflightBlob(inputUrl)
+    } else {
+      // Local chunked upload via /api/local-upload/sessions
+      // (the server preflights the assembled file on completion)
+      const uploadData = await uploadLocalChunked(file, jobId, { onProgress, signal })
+      log.debug('Local upload response', { url: uploadData.url, pathname: uploadData.pathname })
+      inputUrl = uploadData.url
+      preflight = uploadData.preflight
     }
+
+    // The server's page count replaces the browser's estimate
+    const pageCount = preflight?.pageCount ?? staged.pageCount
+    updateStaged(id, { jobId, uploadedUrl: inputUrl, preflight, pageCount })
+    return { inputUrl, preflight }
   }
 
-  // Process files using legacy FormData upload (local dev) -> NOW USES v4 Jobs API
-  const processFilesLegacy = async () => {
-    if (stagedFiles.length === 0) return
+  // Process one staged file: duplicate check -> upload + preflight -> create job.
+  // Files held back by a check leave the queue and stay staged for a decision.
+  const processStaged = async (id: string, { signal, setState }: UploadTaskContext): Promise<UploadTaskResult> => {
+    const staged = stagedRef.current.find(f => f.id === id)
+    if (!staged) throw new Error('File is no longer staged')
+    const { file } = staged
+    if (isZipFile(file)) return processArchive(staged, { signal, setState })
+    const profile = profileFor(staged)
+    const configOverrides = jobConfigOverrides(staged)
+
+    // Step 1: Duplicate check (normally already done in the background)
+    const { contentHash, duplicates = [] } = staged.duplicates !== undefined
+      ? staged
+      : await (duplicateChecks.current.get(id) ?? checkDuplicates(file))
+    const original = duplicates.length > 0 ? pickOriginal(duplicates) : undefined
+    if (original && !staged.duplicateChoice) {
+      updateStaged(id, { contentHash, duplicates })
+      log.info(`Holding ${file.name}: duplicate of ${original.id}`)
+      return 'held'
+    }
+    const jobOptions = {
+      contentHash,
+      duplicateOf: original?.id,
+      profile: profile && { id: profile.id, name: profile.name },
+      createdBy,
+      ...labels,
+    }
 
-    log.info('Starting local v4 upload flow (local storage mode)')
-    setProcessing(true)
-    setProcessingCount(0)
-    setError(null)
+    let job: JobPublic
+    if (original && staged.duplicateChoice === 'rerun' && original.input_url) {
+      // Re-run reuses the earlier job's input instead of uploading again, so it
+      // is recorded as a re-run of that job (attempts view, delete guard)
+      log.debug(`Re-running ${original.id} input for ${file.name}`)
+      setState('creating_job')
+      job = await createJob(original.input_url, file.name, undefined, configOverrides, { ...jobOptions, parentJobId: original.id })
+    } else {
+      // Reuse the job ID of an interrupted upload so its chunks are kept
+      const jobId = staged.jobId ?? getOrCreateUploadJobId(file)
+      log.debug(`Processing file: ${file.name}`, { jobId })
+
+      // Step 2: Upload + preflight
+      const { inputUrl, preflight } = await uploadStaged(staged, jobId, signal)
+
+      // Blocked or unconfirmed files stay staged with their report
+      if (!preflightAllows({ ...staged, preflight })) {
+        log.info(`Holding ${file.name} after preflight`, { jobId, ok: preflight?.ok })
+        return 'held'
+      }
 
-    const newJobIds: string[] = []
+      // Step 3: Create job via FastAPI v4 Jobs API
+      log.debug('Creating job via FastAPI v4 Jobs API...')
+      setState('creating_job')
+      job = await createJob(inputUrl, file.name, jobId, configOverrides, jobOptions)
+    }
+    clearResumableUpload(file)
+    trackJob(job, file.name)
+    setUploadProgress(prev => {
+      const { [id]: _done, ...rest } = prev
+      return rest
+    })
+
+    return { jobId: job.id }
+  }
 
-    try {
-      for (const { file } of stagedFiles) {
-        // Generate job ID for path organization
-        const jobId = crypto.randomUUID()
-        log.debug(`Processing file: ${file.name}`, { jobId })
-
-        // Step 1: Upload file locally via /api/local-upload
-        log.debug('Uploading file locally...')
-        const formData = new FormData()
-        formData.append('file', file)
-        formData.append('jobId', jobId)
-
-        const uploadRes = await fetch('/api/local-upload', {
-          method: 'POST',
-          body: formData,
-        })
+  // Add a created job to the recent runs and start tracking it
+  const trackJob = (job: JobPublic, fileName: string) => {
+    log.info('Job created', { id: job.id, status: job.status })
+    setV4Jobs(prev => [job, ...prev].slice(0, 5))
+    setRecentRuns(prev => [{
+      run_id: job.id,
+      doc_id: job.doc_name || fileName,
+      doc_name: job.doc_name || fileName,
+      status: job.status,
+      pipeline_status: job.status,
+      progress: job.progress_percent,
+    }, ...prev].slice(0, 5))
+    setV4JobIds(prev => [...new Set([...prev, job.id])])
+    followJob(job.id)
+  }
 
-        if (!uploadRes.ok) {
-          const error = await uploadRes.json().catch(() => ({ error: 'Upload failed' }))
-          throw new Error(error.error || `Upload failed: ${uploadRes.statusText}`)
-        }
+  // Process a ZIP: upload + expand once, then one job per PDF in the archive.
+  // Jobs already created are remembered, so a retry only creates the rest.
+  const processArchive = async (staged: StagedFile, { signal, setState }: UploadTaskContext): Promise<UploadTaskResult> => {
+    const { id, file } = staged
+    let archive = staged.archive
+    if (!archive) {
+      const jobId = staged.jobId ?? getOrCreateUploadJobId(file)
+      const onProgress = (progress: UploadProgress) => setUploadProgress(prev => ({ ...prev, [id]: progress }))
+      if (isV4) {
+        const blob = await uploadBlobChunked(file, jobId, { onProgress, signal })
+        archive = await expandBlobArchive(blob.url, file.name)
+      } else {
+        const uploadData = await uploadLocalChunked(file, jobId, { onProgress, signal })
+        if (!uploadData.archive) throw new Error('Server did not expand the archive')
+        archive = uploadData.archive
+      }
+      // The archive upload itself is spent once expanded
+      clearResumableUpload(file)
+      updateStaged(id, { jobId, archive })
+    }
 
-        const uploadData = await uploadRes.json()
-        log.debug('Local upload response', { url: uploadData.url, pathname: uploadData.pathname })
+    let { archiveDuplicates } = staged
+    if (!archiveDuplicates) {
+      const checked = await checkArchiveDuplicates(archive)
+      archiveDuplicates = checked.archiveDuplicates
+      updateStaged(id, checked)
+    }
+    const flagged = new Set(flaggedArchiveEntries(archive, archiveDuplicates).map(e => e.jobId))
+    if (flagged.size > 0 && !staged.archiveChoice) {
+      log.info(`Holding ${file.name}: ${flagged.size} PDFs need confirmation`)
+      return 'held'
+    }
 
-        // Step 2: Create job via FastAPI v4 Jobs API
-        log.debug('Creating job via FastAPI v4 Jobs API...')
-        const job = await createJob(uploadData.url, file.name, jobId)
-        log.info('Job created', { id: job.id, status: job.status })
+    setState('creating_job')
+    const batch = { id: archive.batchId, name: archive.batchName }
+    // Every PDF in the archive gets the archive's profile
+    const archiveProfile = profileFor(staged)
+    const profile = archiveProfile && { id: archiveProfile.id, name: archiveProfile.name }
+    const configOverrides = archiveProfile ? { ...archiveProfile.overrides } : undefined
+    const created = { ...staged.archiveJobs }
+    let failed = 0
+
+    for (const entry of archive.entries) {
+      // Blocking preflight problems are shown in the archive summary instead
+      if (created[entry.jobId] || !entry.preflight.ok) continue
+      if (flagged.has(entry.jobId) && staged.archiveChoice === 'skip') continue
+      const duplicates = archiveDuplicates[entry.jobId]
+      try {
+        const job = await createJob(entry.url, entry.filename, entry.jobId, configOverrides, {
+          contentHash: entry.contentHash,
+          duplicateOf: duplicates ? pickOriginal(duplicates).id : undefined,
+          profile,
+          batch,
+          createdBy,
+          ...labels,
+        })
+        created[entry.jobId] = job.id
+        trackJob(job, entry.filename)
+      } catch (err) {
+        failed++
+        log.error(`Job creation failed for ${entry.entryName}`, { error: err instanceof Error ? err.message : String(err) })
+      }
+    }
+    updateStaged(id, { archiveJobs: created })
 
-        // Track job ID for polling
-        newJobIds.push(job.id)
+    if (failed > 0) {
+      throw new Error(`${failed} of ${archive.entries.length} jobs could not be created`)
+    }
+    return { batchId: archive.batchId }
+  }
 
-        // Add to jobs list
-        setV4Jobs(prev => [job, ...prev].slice(0, 5))
-        setRecentRuns(prev => [{
-          run_id: job.id,
-          doc_id: job.doc_name || file.name,
-          doc_name: job.doc_name || file.name,
-          status: job.status,
-          pipeline_status: job.status,
-          progress: job.progress_percent,
-        }, ...prev].slice(0, 5))
-        setProcessingCount(c => c + 1)
-      }
-      setStagedFiles([])
-      log.info('All files processed successfully')
-
-      // Start polling for the new jobs
-      if (newJobIds.length > 0) {
-        log.debug(`Starting polling for jobs: ${newJobIds.join(', ')}`)
-        setV4JobIds(prev => [...new Set([...prev, ...newJobIds])])
-        setIsPolling(true)
+  // Create the job for a document fetched from a URL
+  const createJobFromUrl = async (result: UrlIngestResult): Promise<JobPublic> => {
+    const duplicates = await findJobsByContentHash(result.contentHash).catch(() => [])
+    const job = await createJob(
+      result.url,
+      result.filename,
+      result.jobId,
+      selectedProfile ? { ...selectedProfile.overrides } : undefined,
+      {
+        contentHash: result.contentHash,
+        duplicateOf: duplicates.length > 0 ? pickOriginal(duplicates).id : undefined,
+        profile: selectedProfile && { id: selectedProfile.id, name: selectedProfile.name },
+        createdBy,
+        ...labels,
       }
-    } catch (err) {
-      log.error('Upload error', { error: err instanceof Error ? err.message : String(err) })
-      setError(err instanceof Error ? err.message : "Upload failed")
-    } finally {
-      setProcessing(false)
-    }
+    )
+    trackJob(job, result.filename)
+    return job
   }
 
-  // Choose upload flow based on environment
-  const processFiles = isV4 ? processFilesV4 : processFilesLegacy
+  const queue = useUploadQueue(processStaged, { concurrency: UPLOAD_CONCURRENCY })
+
+  // Files that can be (re)queued: never started, failed, cancelled or held back
+  const pendingFiles = stagedFiles.filter(f => {
+    const state = queue.entries[f.id]?.state
+    return !state || state === 'failed' || state === 'cancelled'
+  })
 
-  const formatBytes = (bytes: number) => {
-    if (bytes === 0) return '0 B'
-    const k = 1024
-    const sizes = ['B', 'KB', 'MB', 'GB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return parseFloat((bytes / Math.pow(k, i)).toFixed(1)) + ' ' + sizes[i]
+  const processFiles = () => {
+    if (pendingFiles.length === 0) return
+    log.info(`Queueing ${pendingFiles.length} files (${isV4 ? 'blob' : 'local'} storage mode)`)
+    setError(null)
+    queue.enqueue(pendingFiles.map(f => f.id))
   }
 
   return (
@@ -365,71 +641,271 @@ export default function DashboardPage() {
             </div>
             <div>
               <p className="text-sm font-medium text-gray-900">Drop documents here</p>
-              <p className="text-sm text-gray-500 mt-0.5">PDF files up to 50MB</p>
+              <p className="text-sm text-gray-500 mt-0.5">PDF files or ZIP packages up to {formatBytes(MAX_UPLOAD_BYTES)}</p>
             </div>
           </div>
         </div>
       </div>
 
+      {/* Labels for new jobs */}
+      <div className="mb-6 flex items-start gap-3">
+        <label className="flex items-center gap-2 text-sm text-gray-500">
+          Project
+          <select
+            value={projectId}
+            onChange={(e) => setProjectId(e.target.value)}
+            className="px-2 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded-md max-w-[16rem]"
+          >
+            <option value="">None</option>
+            {projects.map(p => (
+              <option key={p.id} value={p.id}>{describeProject(p)}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex-1 flex items-start gap-2 text-sm text-gray-500">
+          <span className="py-1.5">Tags</span>
+          <div className="flex-1">
+            <TagInput value={tags} onChange={setTags} />
+          </div>
+        </div>
+        <Link href="/projects" className="py-1.5 text-sm text-gray-500 hover:text-gray-700">
+          Manage projects
+        </Link>
+      </div>
+
+      {/* Import from URL */}
+      <UrlImport onCreateJob={createJobFromUrl} />
+
       {/* Staged Files */}
       {stagedFiles.length > 0 && (
         <div className="mb-6">
           <div className="flex items-center justify-between mb-3">
             <h3 className="text-sm font-medium text-gray-900">Staged Files</h3>
-            <span className="text-xs text-gray-500">{stagedFiles.length} file{stagedFiles.length !== 1 ? 's' : ''}</span>
+            <BatchSummary entries={stagedFiles.map(f => queue.entries[f.id])} />
           </div>
           <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
-            {stagedFiles.map(({ id, file }) => (
-              <div key={id} className="flex items-center justify-between px-4 py-3">
-                <div className="flex items-center gap-3 min-w-0">
-                  <svg className="w-4 h-4 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
-                  </svg>
-                  <div className="min-w-0">
-                    <p className="text-sm text-gray-900 truncate">{file.name}</p>
-                    <p className="text-xs text-gray-500 font-mono">{formatBytes(file.size)}</p>
+            {stagedFiles.map(({ id, file, preview, resumable, preflight, confirmed, duplicates, duplicateCheckError, duplicateChoice, archive, archiveJobs, archiveDuplicates, archiveChoice, pageCount, pageSelection, profileId: fileProfileId }) => {
+              const entry = queue.entries[id]
+              const editable = !entry || ['failed', 'cancelled'].includes(entry.state)
+              const selectionEditable = !isZipFile(file) && editable
+              return (
+                <div key={id} className="flex items-center justify-between px-4 py-3">
+                  <div className="flex items-center gap-3 min-w-0 flex-1">
+                    {preview ? (
+                      <button
+                        onClick={() => setViewerId(id)}
+                        title="Open preview"
+                        className="flex-shrink-0 w-12 h-16 rounded border border-gray-200 overflow-hidden hover:border-gray-400 transition-colors"
+                      >
+                        <PdfPageThumbnail url={preview} page={1} className="w-full h-full" />
+                      </button>
+                    ) : (
+                      <svg className="w-4 h-4 text-gray-400 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+                      </svg>
+                    )}
+                    <div className="min-w-0 flex-1">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <p className="text-sm text-gray-900 truncate">{file.name}</p>
+                        {entry && <QueueStateBadge state={entry.state} />}
+                      </div>
+                      <p className="text-xs text-gray-500 font-mono">
+                        {formatBytes(file.size)}
+                        {pageCount && <span className="ml-2">{pageCount} pages</span>}
+                        {resumable && !uploadProgress[id] && (
+                          <span className="ml-2 font-sans text-amber-700">Interrupted upload will resume</span>
+                        )}
+                        {!isZipFile(file) && pageCount !== undefined && (
+                          <button
+                            onClick={() => setPagePickerId(pagePickerId === id ? null : id)}
+                            disabled={!selectionEditable}
+                            className="ml-2 font-sans text-gray-500 hover:text-gray-900 disabled:hover:text-gray-500 transition-colors"
+                          >
+                            <PageSelectionLabel selection={pageSelection} pageCount={pageCount} />
+                          </button>
+                        )}
+                        {profiles.length > 0 && (
+                          <select
+                            value={fileProfileId ?? BATCH_PROFILE}
+                            onChange={(e) => updateStaged(id, { profileId: e.target.value === BATCH_PROFILE ? undefined : e.target.value })}
+                            disabled={!editable}
+                            aria-label={`Profile for ${file.name}`}
+                            className="ml-2 font-sans text-xs text-gray-500 bg-transparent border-0 p-0 pr-5 hover:text-gray-900 disabled:hover:text-gray-500"
+                          >
+                            <option value={BATCH_PROFILE}>{selectedProfile ? `${selectedProfile.name} (batch)` : 'Default (batch)'}</option>
+                            <option value="">Default</option>
+                            {profiles.map(p => (
+                              <option key={p.id} value={p.id}>{p.name}</option>
+                            ))}
+                          </select>
+                        )}
+                      </p>
+                      {pagePickerId === id && selectionEditable && preview && (
+                        <PagePicker
+                          url={preview}
+                          pageCount={pageCount ?? null}
+                          selection={pageSelection ?? ALL_PAGES}
+                          onChange={(selection) => updateStaged(id, { pageSelection: selection })}
+                        />
+                      )}
+                      {uploadProgress[id] && (
+                        <div className="flex items-center gap-2 mt-1.5">
+                          <div className="w-40 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                            <div
+                              className="h-full bg-gray-800 rounded-full transition-all"
+                              style={{ width: `${Math.round((uploadProgress[id].uploadedBytes / Math.max(uploadProgress[id].totalBytes, 1)) * 100)}%` }}
+                            />
+                          </div>
+                          <span className="text-xs text-gray-500 tabular-nums">
+                            {uploadProgress[id].uploadedChunks}/{uploadProgress[id].totalChunks} chunks
+                          </span>
+                        </div>
+                      )}
+                      {duplicates === undefined && !uploadProgress[id] && (
+                        <p className="mt-1 text-xs text-gray-400">Checking for earlier runs…</p>
+                      )}
+                      {duplicateCheckError && (
+                        <p className="mt-1 text-xs text-amber-600" title={duplicateCheckError}>
+                          Could not check for earlier runs of this file
+                        </p>
+                      )}
+                      {duplicates && duplicates.length > 0 && (
+                        <DuplicateNotice
+                          original={pickOriginal(duplicates)}
+                          count={duplicates.length}
+                          choice={duplicateChoice}
+                          onChoose={(choice) => updateStaged(id, { duplicateChoice: choice })}
+                        />
+                      )}
+                      {preflight && (
+                        <PreflightSummary
+                          report={preflight}
+                          confirmed={confirmed}
+                          onConfirm={() => updateStaged(id, { confirmed: true })}
+                        />
+                      )}
+                      {archive && (
+                        <ArchiveSummary
+                          archive={archive}
+                          created={archiveJobs ?? {}}
+                          duplicates={archiveDuplicates ?? {}}
+                          choice={archiveChoice}
+                          onChoose={(choice) => updateStaged(id, { archiveChoice: choice })}
+                        />
+                      )}
+                      {entry?.state === 'failed' && entry.error && (
+                        <p className="mt-1 text-xs text-red-600">{entry.error}</p>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0 ml-3">
+                    {(entry?.state === 'queued' || entry?.state === 'uploading') && (
+                      <button
+                        onClick={() => queue.cancel(id)}
+                        className="text-xs text-gray-500 hover:text-gray-700 transition-colors"
+                      >
+                        Cancel
+                      </button>
+                    )}
+                    {(entry?.state === 'failed' || entry?.state === 'cancelled') && (
+                      <button
+                        onClick={() => queue.retry(id)}
+                        className="text-xs font-medium text-gray-700 hover:text-gray-900 transition-colors"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {entry?.state === 'done' && entry.jobId && (
+                      <Link href={`/results/${entry.jobId}`} className="text-xs text-gray-500 hover:text-gray-900 transition-colors">
+                        View
+                      </Link>
+                    )}
+                    {entry?.state === 'done' && entry.batchId && (
+                      <Link href={`/runs?batch=${entry.batchId}`} className="text-xs text-gray-500 hover:text-gray-900 transition-colors">
+                        View batch
+                      </Link>
+                    )}
+                    {entry?.state !== 'creating_job' && (
+                      <button
+                        onClick={() => removeFile(id)}
+                        className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
+                        title="Remove file"
+                      >
+                        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                      </button>
+                    )}
                   </div>
                 </div>
+              )
+            })}
+          </div>
+          <div className="mt-4 flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <button
+                onClick={() => clearFiles([undefined, 'done', 'failed', 'cancelled'])}
+                className="text-sm text-gray-500 hover:text-gray-700 transition-colors"
+              >
+                Clear all
+              </button>
+              {stagedFiles.some(f => queue.entries[f.id]?.state === 'done') && (
                 <button
-                  onClick={() => removeFile(id)}
-                  className="p-1 text-gray-400 hover:text-gray-600 transition-colors"
-                  title="Remove file"
+                  onClick={() => clearFiles(['done'])}
+                  className="text-sm text-gray-500 hover:text-gray-700 transition-colors"
                 >
-                  <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                  </svg>
+                  Clear finished
                 </button>
-              </div>
-            ))}
-          </div>
-          <div className="mt-4 flex items-center justify-between">
-            <button
-              onClick={() => setStagedFiles([])}
-              className="text-sm text-gray-500 hover:text-gray-700 transition-colors"
-            >
-              Clear all
-            </button>
-            <button
-              onClick={processFiles}
-              disabled={processing}
-              className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-            >
-              {processing ? (
-                <>
-                  <svg className="w-4 h-4 mr-2 animate-spin" fill="none" viewBox="0 0 24 24">
-                    <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-                    <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
-                  </svg>
-                  Processing {processingCount}/{stagedFiles.length}
-                </>
-              ) : (
-                `Process ${stagedFiles.length} file${stagedFiles.length !== 1 ? 's' : ''}`
               )}
-            </button>
+            </div>
+            <div className="flex items-center gap-3">
+              <label className="flex items-center gap-2 text-sm text-gray-500">
+                Profile
+                <select
+                  value={profileId}
+                  onChange={(e) => setProfileId(e.target.value)}
+                  disabled={queue.isRunning}
+                  className="px-2 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded-md"
+                  title={selectedProfile ? describeOverrides(selectedProfile.overrides) : 'Pipeline defaults'}
+                >
+                  <option value="">Default</option>
+                  {profiles.map(p => (
+                    <option key={p.id} value={p.id}>{p.name}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={processFiles}
+                disabled={pendingFiles.length === 0}
+                className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-white bg-gray-900 rounded-md hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+              >
+                {queue.isRunning && pendingFiles.length === 0 ? (
+                  <>
+                    <svg className="w-4 h-4 mr-2 animate-spin" fill="none" viewBox="0 0 24 24">
+                      <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
+                      <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+                    </svg>
+                    Processing
+                  </>
+                ) : (
+                  `Process ${pendingFiles.length} file${pendingFiles.length !== 1 ? 's' : ''}`
+                )}
+              </button>
+            </div>
           </div>
         </div>
       )}
 
+      {/* Quick viewer for a staged file */}
+      {viewerFile?.preview && (
+        <PdfViewerModal
+          url={viewerFile.preview}
+          title={`${viewerFile.file.name} · ${viewerFile.pageCount ? `${viewerFile.pageCount} pages · ` : ''}${formatBytes(viewerFile.file.size)}`}
+          isOpen
+          onClose={() => setViewerId(null)}
+        />
+      )}
+
       {/* Error */}
       {error && (
         <div className="mb-6 flex items-center gap-2 text-sm text-red-600">
@@ -446,7 +922,7 @@ export default function DashboardPage() {
           <label className="cursor-pointer">
             <input
               type="file"
-              accept=".pdf"
+              accept=".pdf,.zip"
               multiple
               className="sr-only"
               onChange={(e) => addFiles(e.target.files)}
@@ -471,7 +947,17 @@ export default function DashboardPage() {
       {recentRuns.length > 0 && (
         <div>
           <div className="flex items-center justify-between mb-3">
-            <h3 className="text-sm font-medium text-gray-900">Recent Runs</h3>
+            <div className="flex items-baseline gap-3">
+              <h3 className="text-sm font-medium text-gray-900">Recent Runs</h3>
+              {hasQueuedJobs && jobQueue && (
+                <span className="text-xs text-gray-400">
+                  {jobQueue.workers
+                    ? <>{jobQueue.workers.busy} of {jobQueue.workers.total} workers busy</>
+                    : <>{jobQueue.running} running</>}
+                  {' · '}{jobQueue.queued.length} queued
+                </span>
+              )}
+            </div>
             <Link href="/runs" className="text-sm text-gray-500 hover:text-gray-700 transition-colors">
               View all →
             </Link>
@@ -508,15 +994,27 @@ export default function DashboardPage() {
                       {(() => {
                         // Get progress percent from pipeline_progress or direct progress
                         const percent = run.pipeline_progress?.percent_overall ?? run.progress ?? 0
+                        const trackedJob = trackedJobs[run.run_id]
+                        const eta = trackedJob ? estimateJobEta(trackedJob, etaModel, now) : null
+                        const queued = trackedJob?.status === 'pending' ? queuedById.get(run.run_id) : undefined
+                        const queueStart = queued ? formatQueueStart(queued.estimatedStartAt, now) : null
                         return (
-                          <div className="flex items-center gap-2">
-                            <div className="w-16 h-1.5 bg-gray-200 rounded-full overflow-hidden">
-                              <div
-                                className="h-full bg-gray-800 rounded-full transition-all"
-                                style={{ width: `${percent}%` }}
-                              />
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <div className="w-16 h-1.5 bg-gray-200 rounded-full overflow-hidden">
+                                <div
+                                  className="h-full bg-gray-800 rounded-full transition-all"
+                                  style={{ width: `${percent}%` }}
+                                />
+                              </div>
+                              <span className="text-xs text-gray-500 tabular-nums">{percent}%</span>
                             </div>
-                            <span className="text-xs text-gray-500 tabular-nums">{percent}%</span>
+                            {queued ? (
+                              <span className="text-xs text-gray-400">
+                                #{queued.position} in queue
+                                {queueStart && <> · {queueStart}</>}
+                              </span>
+                            ) : eta && <span className="text-xs text-gray-400">{formatEta(eta)}</span>}
                           </div>
                         )
                       })()}
@@ -576,6 +1074,324 @@ export default function DashboardPage() {
   )
 }
 
+const QUEUE_STATE_CONFIG: Record<UploadQueueEntry['state'], { bg: string; text: string; label: string }> = {
+  queued: { bg: "bg-gray-100", text: "text-gray-600", label: "Queued" },
+  uploading: { bg: "bg-indigo-50", text: "text-indigo-700", label: "Uploading" },
+  creating_job: { bg: "bg-blue-50", text: "text-blue-700", label: "Creating job" },
+  done: { bg: "bg-emerald-50", text: "text-emerald-700", label: "Done" },
+  failed: { bg: "bg-red-50", text: "text-red-700", label: "Failed" },
+  cancelled: { bg: "bg-gray-100", text: "text-gray-600", label: "Cancelled" },
+}
+
+function QueueStateBadge({ state }: { state: UploadQueueEntry['state'] }) {
+  const config = QUEUE_STATE_CONFIG[state]
+  return (
+    <span className={`inline-flex items-center px-1.5 py-0.5 rounded text-xs font-medium flex-shrink-0 ${config.bg} ${config.text}`}>
+      {config.label}
+    </span>
+  )
+}
+
+function BatchSummary({ entries }: { entries: Array<UploadQueueEntry | undefined> }) {
+  const counts: Partial<Record<UploadQueueEntry['state'] | 'staged', number>> = {}
+  for (const entry of entries) {
+    const key = entry?.state ?? 'staged'
+    counts[key] = (counts[key] ?? 0) + 1
+  }
+
+  const parts = [
+    counts.done && `${counts.done} done`,
+    counts.failed && `${counts.failed} failed`,
+    counts.cancelled && `${counts.cancelled} cancelled`,
+    (counts.uploading || counts.creating_job) && `${(counts.uploading ?? 0) + (counts.creating_job ?? 0)} in progress`,
+    counts.queued && `${counts.queued} queued`,
+    counts.staged && `${counts.staged} waiting`,
+  ].filter(Boolean)
+
+  return (
+    <span className="text-xs text-gray-500">
+      {entries.length} file{entries.length !== 1 ? 's' : ''}
+      {parts.length > 0 && entries.some(Boolean) && ` · ${parts.join(' · ')}`}
+    </span>
+  )
+}
+
+function PageSelectionLabel({ selection, pageCount }: { selection?: PageSelection; pageCount: number | null }) {
+  let pages: number[] | null = null
+  try {
+    pages = selection ? selectedPages(selection, pageCount) : null
+  } catch {
+    return <span className="text-red-600">Invalid page selection</span>
+  }
+  if (!pages) return <>Select pages</>
+  return <span className="text-gray-700">Pages {formatPageRanges(pages)}</span>
+}
+
+function ArchiveSummary({ archive, created, duplicates, choice, onChoose }: {
+  archive: ArchiveReport
+  created: Record<string, string>
+  duplicates: Record<string, JobPublic[]>
+  choice?: 'include' | 'skip'
+  onChoose: (choice: 'include' | 'skip') => void
+}) {
+  const blocked = archive.entries.filter(e => !e.preflight.ok)
+  const flagged = flaggedArchiveEntries(archive, duplicates).filter(e => !created[e.jobId])
+  const createdCount = Object.keys(created).length
+
+  return (
+    <div className="mt-1.5 text-xs">
+      <p className="text-gray-500">
+        Batch “{archive.batchName}”: {archive.entries.length} PDF{archive.entries.length !== 1 ? 's' : ''}
+        {createdCount > 0 && `, ${createdCount} job${createdCount !== 1 ? 's' : ''} created`}
+      </p>
+      {(blocked.length > 0 || archive.skipped.length > 0) && (
+        <ul className="mt-1 space-y-0.5">
+          {blocked.map(e => (
+            <li key={e.jobId} className="text-red-600">
+              {e.entryName}: {e.preflight.issues.find(i => i.severity === 'blocking')?.message ?? 'cannot be processed'}
+            </li>
+          ))}
+          {archive.skipped.map(s => (
+            <li key={s.entryName} className="text-gray-500">Skipped {s.entryName} ({s.reason})</li>
+          ))}
+        </ul>
+      )}
+      {flagged.length > 0 && (
+        <div className="mt-1">
+          <ul className="space-y-0.5">
+            {flagged.map(e => {
+              const warning = e.preflight.issues.find(i => i.severity === 'warning')
+              const earlier = duplicates[e.jobId]
+              return (
+                <li key={e.jobId} className="text-amber-700">
+                  {e.entryName}: {[
+                    warning?.message,
+                    earlier && `already processed as ${pickOriginal(earlier).doc_name || 'this document'}`,
+                  ].filter(Boolean).join('; ')}
+                </li>
+              )
+            })}
+          </ul>
+          {choice ? (
+            <p className="mt-1 text-gray-500">
+              {choice === 'include' ? 'These will be processed anyway' : 'These will be skipped'}
+            </p>
+          ) : (
+            <div className="mt-1 flex items-center gap-2">
+              <button
+                onClick={() => onChoose('skip')}
+                className="px-2 py-0.5 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+              >
+                Skip these
+              </button>
+              <button
+                onClick={() => onChoose('include')}
+                className="px-2 py-0.5 font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded hover:bg-amber-100 transition-colors"
+              >
+                Process anyway
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+type UrlImportState =
+  | { state: 'idle' }
+  | { state: 'fetching' | 'creating_job'; result?: UrlIngestResult }
+  | { state: 'held'; result: UrlIngestResult }
+  | { state: 'done'; result: UrlIngestResult; job: JobPublic }
+  | { state: 'failed'; error: string; redirects: RedirectHop[]; result?: UrlIngestResult }
+
+function UrlImport({ onCreateJob }: { onCreateJob: (result: UrlIngestResult) => Promise<JobPublic> }) {
+  const [url, setUrl] = useState('')
+  const [status, setStatus] = useState<UrlImportState>({ state: 'idle' })
+  const busy = status.state === 'fetching' || status.state === 'creating_job'
+
+  const createFor = async (result: UrlIngestResult) => {
+    setStatus({ state: 'creating_job', result })
+    try {
+      const job = await onCreateJob(result)
+      setStatus({ state: 'done', result, job })
+      setUrl('')
+    } catch (err) {
+      setStatus({ state: 'failed', error: err instanceof Error ? err.message : 'Job creation failed', redirects: result.redirects, result })
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!url.trim() || busy) return
+    setStatus({ state: 'fetching' })
+    let result: UrlIngestResult
+    try {
+      result = await importFromUrl(url.trim())
+    } catch (err) {
+      log.warn('URL import failed', { error: err instanceof Error ? err.message : String(err) })
+      setStatus({
+        state: 'failed',
+        error: err instanceof Error ? err.message : 'Import failed',
+        redirects: err instanceof UrlImportError ? err.redirects : [],
+      })
+      return
+    }
+
+    // Same rule as uploads: blocking issues stop, warnings need a confirmation
+    const { preflight } = result
+    if (!preflight.ok || preflight.issues.some(i => i.severity === 'warning')) {
+      setStatus({ state: 'held', result })
+      return
+    }
+    await createFor(result)
+  }
+
+  const result = 'result' in status ? status.result : undefined
+  const redirects = status.state === 'failed' ? status.redirects : result?.redirects ?? []
+
+  return (
+    <div className="mb-6">
+      <form onSubmit={handleSubmit} className="flex items-center gap-3">
+        <input
+          type="url"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="Or paste a download link to a PDF"
+          disabled={busy}
+          className="flex-1 px-3 py-2 text-sm text-gray-900 bg-white border border-gray-300 rounded-md placeholder:text-gray-400 focus:outline-none focus:border-gray-500"
+        />
+        <button
+          type="submit"
+          disabled={busy || !url.trim()}
+          className="inline-flex items-center justify-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {status.state === 'fetching' ? 'Fetching...' : status.state === 'creating_job' ? 'Creating job...' : 'Import from URL'}
+        </button>
+      </form>
+
+      {status.state !== 'idle' && status.state !== 'fetching' && (
+        <div className="mt-2 text-xs">
+          {result && (
+            <p className="text-gray-700">
+              {result.filename}
+              <span className="ml-2 text-gray-400">{formatBytes(result.sizeBytes)}</span>
+            </p>
+          )}
+          {redirects.length > 0 && (
+            <ul className="mt-1 space-y-0.5 text-gray-500">
+              {redirects.map((hop, i) => (
+                <li key={i} className="truncate" title={hop.to}>
+                  Redirected ({hop.status}) to {hop.to}
+                </li>
+              ))}
+            </ul>
+          )}
+          {status.state === 'held' && (
+            <PreflightSummary report={status.result.preflight} onConfirm={() => createFor(status.result)} />
+          )}
+          {status.state === 'failed' && <p className="mt-1 text-red-600">{status.error}</p>}
+          {status.state === 'done' && (
+            <p className="mt-1 text-gray-500">
+              Job created.{' '}
+              <Link href="/runs" className="text-gray-700 hover:text-gray-900 underline">
+                View runs
+              </Link>
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+function DuplicateNotice({ original, count, choice, onChoose }: {
+  original: JobPublic
+  count: number
+  choice?: 'rerun' | 'continue'
+  onChoose: (choice: 'rerun' | 'continue') => void
+}) {
+  const when = new Date(original.created_at).toLocaleDateString("no-NO", { day: "2-digit", month: "2-digit", year: "numeric" })
+
+  return (
+    <div className="mt-1.5 text-xs">
+      <p className="text-amber-700">
+        Already processed as {original.doc_name || 'this document'} on {when}
+        {count > 1 && ` (${count} earlier runs)`}
+      </p>
+      {choice ? (
+        <p className="mt-1 text-gray-500">
+          {choice === 'rerun' ? 'Will re-run the earlier input' : 'Will be uploaded and processed again'}
+        </p>
+      ) : (
+        <div className="mt-1 flex items-center gap-2">
+          <Link
+            href={`/results/${original.id}`}
+            className="px-2 py-0.5 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+          >
+            Open results
+          </Link>
+          <button
+            onClick={() => onChoose('rerun')}
+            className="px-2 py-0.5 font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+          >
+            Re-run
+          </button>
+          <button
+            onClick={() => onChoose('continue')}
+            className="px-2 py-0.5 font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded hover:bg-amber-100 transition-colors"
+          >
+            Continue anyway
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function PreflightSummary({ report, confirmed, onConfirm }: {
+  report: PreflightReport
+  confirmed?: boolean
+  onConfirm: () => void
+}) {
+  const warnings = report.issues.filter(i => i.severity === 'warning')
+  const shown = report.issues.filter(i => i.severity !== 'info')
+
+  return (
+    <div className="mt-1.5 text-xs">
+      <p className="text-gray-500">
+        {report.pageCount !== null ? `${report.pageCount} page${report.pageCount !== 1 ? 's' : ''}` : 'Page count unknown'}
+        {report.pdfVersion && <span className="ml-2 font-mono">PDF {report.pdfVersion}</span>}
+        {report.scannedPages.length > 0 && report.scannedPages.length < (report.pageCount ?? 0) && (
+          <span className="ml-2">Scanned: p. {report.scannedPages.slice(0, 12).join(', ')}{report.scannedPages.length > 12 ? '…' : ''}</span>
+        )}
+        {!report.ok && <span className="ml-2 font-medium text-red-600">Cannot process</span>}
+      </p>
+      {shown.length > 0 && (
+        <ul className="mt-1 space-y-0.5">
+          {shown.map(issue => (
+            <li key={issue.code} className={issue.severity === 'blocking' ? 'text-red-600' : 'text-amber-700'}>
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+      {report.ok && warnings.length > 0 && (
+        confirmed ? (
+          <p className="mt-1 text-gray-500">Will be processed despite warnings</p>
+        ) : (
+          <button
+            onClick={onConfirm}
+            className="mt-1 px-2 py-0.5 font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded hover:bg-amber-100 transition-colors"
+          >
+            Process anyway
+          </button>
+        )
+      )}
+    </div>
+  )
+}
+
 function StatusBadge({ status }: { status?: string }) {
   const configs: Record<string, { bg: string; text: string; label: string; pulsing?: boolean }> = {
     pending: { bg: "bg-gray-100", text: "text-gray-600", label: "Pending" },
@@ -5,7 +5,9 @@ import { Analytics } from '@vercel/analytics/next';
 import { SpeedInsights } from '@vercel/speed-insights/next';
 import { getServerSession } from "next-auth";
 import { authOptions } from "@/lib/auth";
+import { isAdminEmail } from "@/lib/admin";
 import SessionProvider from "@/components/SessionProvider";
+import NotificationCenter from "@/components/NotificationCenter";
 
 
 export const metadata: Metadata = {
@@ -32,10 +34,14 @@ export default async function RootLayout({
                 <div className="flex space-x-6">
                   <NavLink href="/dashboard">Dashboard</NavLink>
                   <NavLink href="/runs">Runs</NavLink>
+                  <NavLink href="/projects">Projects</NavLink>
+                  <NavLink href="/watch-folder">Watch Folder</NavLink>
                   <NavLink href="/settings">Settings</NavLink>
+                  {isAdminEmail(session?.user?.email) && <NavLink href="/admin">Admin</NavLink>}
                 </div>
               </div>
               <div className="flex items-center space-x-4">
+                <NotificationCenter />
                 <span className="text-sm text-gray-500">
                   {new Date().toLocaleDateString()}
                 </span>
@@ -0,0 +1,222 @@
+'use client'
+
+import { use, useCallback, useEffect, useState } from "react"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { api } from '@/lib/api-config'
+import { useProjects } from '@/hooks/useProjects'
+import { createLogger } from '@/lib/logger'
+import type { Project } from '@/lib/projects'
+import type { ProjectSummary } from '@/services/projectSummary'
+import ProjectForm from '@/components/ProjectForm'
+
+const log = createLogger('ProjectPage')
+
+const STATUS_COLORS: Record<string, string> = {
+  completed: 'text-emerald-700',
+  failed: 'text-red-700',
+  classification_pending: 'text-amber-700',
+  running: 'text-blue-700',
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleDateString('no-NO', { day: '2-digit', month: '2-digit', year: 'numeric' })
+
+export default function ProjectPage({ params }: { params: Promise<{ projectId: string }> }) {
+  const { projectId } = use(params)
+  const router = useRouter()
+  const { projects, update, remove } = useProjects()
+  const [project, setProject] = useState<Project | null>(null)
+  const [summary, setSummary] = useState<ProjectSummary | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [editing, setEditing] = useState(false)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(api.projects.item(projectId), { cache: 'no-store' })
+      if (res.status === 404) throw new Error('Project not found')
+      if (!res.ok) throw new Error(`Failed to load project: ${res.statusText}`)
+      const data = await res.json()
+      setProject(data.project)
+      setSummary(data.summary)
+      setError(null)
+    } catch (err) {
+      log.error('Project load failed', { projectId, error: err instanceof Error ? err.message : String(err) })
+      setError(err instanceof Error ? err.message : 'Failed to load project')
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId])
+
+  useEffect(() => {
+    load()
+  }, [load])
+
+  const handleDelete = async () => {
+    if (!project || !confirm(`Delete project "${project.name}"? Its runs are kept and become unassigned.`)) return
+    try {
+      await remove(project.id, project.updatedAt)
+      router.push('/projects')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete project')
+    }
+  }
+
+  if (loading) return <div className="text-center py-12 text-gray-500">Loading project...</div>
+  if (!project) {
+    return (
+      <div className="text-center py-12 text-gray-500">
+        <p>{error || 'Project not found'}</p>
+        <Link href="/projects" className="mt-2 inline-block text-blue-600 hover:text-blue-700">All projects</Link>
+      </div>
+    )
+  }
+
+  const details = [
+    ['Customer', project.customer],
+    ['Project number', project.projectNumber],
+    ['Address', project.address],
+  ].filter(([, value]) => value)
+  const tags = summary ? Object.entries(summary.tagCounts).sort((a, b) => b[1] - a[1]) : []
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div className="flex items-start justify-between">
+        <div>
+          <div className="flex items-center gap-2 text-sm text-gray-500 mb-1">
+            <Link href="/projects" className="hover:text-gray-700">Projects</Link>
+            <span>›</span>
+          </div>
+          <h1 className="text-2xl font-bold text-gray-900">{project.name}</h1>
+          {project.updatedBy && <p className="text-xs text-gray-400 mt-1">Edited by {project.updatedBy}</p>}
+        </div>
+        <div className="flex gap-2">
+          <Link
+            href={`/runs?project=${project.id}`}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            View runs
+          </Link>
+          {!editing && (
+            <>
+              <button
+                onClick={() => setEditing(true)}
+                className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Edit
+              </button>
+              <button
+                onClick={handleDelete}
+                className="px-4 py-2 text-red-600 border border-gray-300 rounded-lg hover:bg-red-50"
+              >
+                Delete
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error && <div className="px-4 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>}
+
+      <div className="bg-white rounded-lg border border-gray-200 p-6">
+        {editing ? (
+          <ProjectForm
+            initial={{ name: project.name, customer: project.customer, projectNumber: project.projectNumber, address: project.address }}
+            otherNames={projects.filter(p => p.id !== project.id).map(p => p.name)}
+            submitLabel="Save Project"
+            onSubmit={async (input) => {
+              setProject(await update(project.id, input, project.updatedAt))
+              setEditing(false)
+            }}
+            onCancel={() => setEditing(false)}
+          />
+        ) : details.length > 0 ? (
+          <dl className="grid grid-cols-3 gap-4">
+            {details.map(([label, value]) => (
+              <div key={label}>
+                <dt className="text-xs font-medium text-gray-500 uppercase tracking-wider">{label}</dt>
+                <dd className="text-sm text-gray-900 mt-1">{value}</dd>
+              </div>
+            ))}
+          </dl>
+        ) : (
+          <p className="text-sm text-gray-500">No customer, project number or address recorded.</p>
+        )}
+      </div>
+
+      {!summary ? (
+        <p className="text-sm text-gray-500">Run statistics are unavailable right now.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-2xl font-bold text-gray-900 tabular-nums">
+                {summary.jobCount}{summary.truncated && '+'}
+              </div>
+              <div className="text-xs font-medium text-gray-500 mt-1">Runs</div>
+            </div>
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-2xl font-bold text-gray-900 tabular-nums">{summary.pageCount}</div>
+              <div className="text-xs font-medium text-gray-500 mt-1">Pages processed</div>
+            </div>
+            <div className="bg-white rounded-lg border border-gray-200 p-4">
+              <div className="text-2xl font-bold text-gray-900 tabular-nums">{summary.productCount}</div>
+              <div className="text-xs font-medium text-gray-500 mt-1">Products (completed runs)</div>
+              {summary.productCountMissing > 0 && (
+                <div className="text-xs text-amber-700 mt-1">
+                  {summary.productCountMissing} completed {summary.productCountMissing === 1 ? 'run' : 'runs'} not counted
+                </div>
+              )}
+            </div>
+          </div>
+
+          {summary.truncated && (
+            <p className="text-xs text-gray-500">Statistics cover the newest {summary.jobCount} runs.</p>
+          )}
+
+          <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 mb-2">Status</h3>
+              {summary.jobCount === 0 ? (
+                <p className="text-sm text-gray-500">No runs in this project yet.</p>
+              ) : (
+                <ul className="flex flex-wrap gap-4 text-sm">
+                  {Object.entries(summary.statusCounts).map(([status, count]) => (
+                    <li key={status}>
+                      <Link
+                        href={`/runs?project=${project.id}&status=${status}`}
+                        className={`hover:underline ${STATUS_COLORS[status] ?? 'text-gray-700'}`}
+                      >
+                        <span className="font-medium tabular-nums">{count}</span> {status.replace(/_/g, ' ')}
+                      </Link>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {summary.lastActivityAt && (
+                <p className="text-xs text-gray-400 mt-2">Last activity {formatDate(summary.lastActivityAt)}</p>
+              )}
+            </div>
+            {tags.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-2">Tags</h3>
+                <div className="flex flex-wrap gap-2">
+                  {tags.map(([tag, count]) => (
+                    <Link
+                      key={tag}
+                      href={`/runs?project=${project.id}&tag=${encodeURIComponent(tag)}`}
+                      className="px-2 py-0.5 text-xs text-gray-700 bg-gray-100 rounded hover:bg-gray-200"
+                    >
+                      {tag} <span className="text-gray-400">{count}</span>
+                    </Link>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
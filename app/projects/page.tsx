@@ -0,0 +1,71 @@
+'use client'
+
+import { useState } from "react"
+import Link from "next/link"
+import { useProjects } from '@/hooks/useProjects'
+import { EMPTY_PROJECT_INPUT } from '@/lib/projects'
+import ProjectForm from '@/components/ProjectForm'
+
+export default function ProjectsPage() {
+  const { projects, loading, error, create } = useProjects()
+  const [creating, setCreating] = useState(false)
+
+  return (
+    <div className="max-w-3xl space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Projects</h1>
+          <p className="text-gray-500 mt-1">Group runs by customer, project number or address</p>
+        </div>
+        {!creating && (
+          <button
+            onClick={() => setCreating(true)}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            New Project
+          </button>
+        )}
+      </div>
+
+      {creating && (
+        <div className="bg-white rounded-lg border border-gray-200 p-6">
+          <ProjectForm
+            initial={EMPTY_PROJECT_INPUT}
+            otherNames={projects.map(p => p.name)}
+            submitLabel="Create Project"
+            onSubmit={async (input) => {
+              await create(input)
+              setCreating(false)
+            }}
+            onCancel={() => setCreating(false)}
+          />
+        </div>
+      )}
+
+      <div className="bg-white rounded-lg border border-gray-200">
+        {loading ? (
+          <p className="p-6 text-sm text-gray-500">Loading projects...</p>
+        ) : error ? (
+          <p className="p-6 text-sm text-red-600">{error}</p>
+        ) : projects.length === 0 ? (
+          <p className="p-6 text-sm text-gray-500">No projects yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-100">
+            {projects.map(project => (
+              <li key={project.id}>
+                <Link href={`/projects/${project.id}`} className="block px-6 py-3 hover:bg-gray-50 transition-colors">
+                  <p className="font-medium text-gray-900">{project.name}</p>
+                  <p className="text-sm text-gray-500">
+                    {[project.customer, project.projectNumber && `#${project.projectNumber}`, project.address]
+                      .filter(Boolean)
+                      .join(' · ') || 'No details'}
+                  </p>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
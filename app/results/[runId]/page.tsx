@@ -2,9 +2,9 @@
 
 import { useEffect, useState, useRef, useCallback, useMemo } from "react"
 import { useJobStatus, type JobPublic } from "@/hooks/useJobStatus"
-import { usePipelineStage } from "@/hooks/usePipelineStage"
+import { usePipelineStage, reusedStagesFor } from "@/hooks/usePipelineStage"
 import { useCsvData } from "@/hooks/useCsvData"
-import { PipelineStageIndicator, JsonPendingState } from "@/components/pipeline"
+import { PipelineStageIndicator, JsonPendingState, StageTimeline } from "@/components/pipeline"
 import { CsvTableView } from "@/components/CsvTableView"
 import { FigureCsvIntegrityBadge } from "@/components/FigureCsvIntegrityBadge"
 import { calculatePageIntegrity, type PageIntegrity } from "@/utils/figureCsvIntegrity"
@@ -16,8 +16,16 @@ import {
   fetchBlobManifest,
   type BlobManifest,
 } from "@/fastapi/api"
+import { describeOverrides, type PipelineConfigOverrides } from "@/lib/pipeline-profiles"
+import { formatPageRanges, type PageSelectionOverride } from "@/lib/page-selection"
 import { createLogger } from "@/lib/logger"
+import RerunDialog from "@/components/RerunDialog"
+import BulkActionDialog from "@/components/BulkActionDialog"
+import JobLineage from "@/components/JobLineage"
+import FailureDiagnostics from "@/components/FailureDiagnostics"
+import JobLabelsEditor from "@/components/JobLabelsEditor"
 import Link from "next/link"
+import { useRouter } from "next/navigation"
 import { use } from "react"
 
 const log = createLogger('Results')
@@ -77,10 +85,45 @@ export default function ResultsPage({ params }: { params: Promise<{ runId: strin
   const runId = resolvedParams.runId
 
   // v4: Poll job status via Jobs API
-  const { job, isPolling } = useJobStatus(runId)
+  const { job, isPolling, isReconnecting } = useJobStatus(runId)
   const pipelineStatus = jobToPipelineStatus(job)
   const isTerminal = job ? TERMINAL_STATUSES.includes(job.status) : false
 
+  // Per-stage timeline under the stage indicator
+  const [showTimeline, setShowTimeline] = useState(false)
+
+  // Re-run on the same input (opens a new results page for the new job)
+  const router = useRouter()
+  const [rerunOpen, setRerunOpen] = useState(false)
+  const closeRerun = useCallback(() => setRerunOpen(false), [])
+  const rerunDialog = job && (
+    <RerunDialog
+      job={job}
+      isOpen={rerunOpen}
+      onClose={closeRerun}
+      onCreated={(created) => {
+        setRerunOpen(false)
+        router.push(`/results/${created.id}`)
+      }}
+    />
+  )
+
+  // Delete the run with its artifacts; back to the runs list once it is gone
+  const [deleteOpen, setDeleteOpen] = useState(false)
+  const [deleted, setDeleted] = useState(false)
+  const closeDelete = useCallback(() => {
+    setDeleteOpen(false)
+    if (deleted) router.push('/runs')
+  }, [deleted, router])
+  const deleteDialog = job && deleteOpen && (
+    <BulkActionDialog
+      action="delete"
+      jobs={[job]}
+      onClose={closeDelete}
+      onDone={(ids) => setDeleted(ids.includes(job.id))}
+    />
+  )
+
   // Manifest for blob mode
   const manifestUrl = job?.manifest_url || null
   const [manifest, setManifest] = useState<BlobManifest | null>(null)
@@ -102,6 +145,10 @@ export default function ResultsPage({ params }: { params: Promise<{ runId: strin
   const productsContainerRef = useRef<HTMLDivElement | null>(null)
   const productRefs = useRef<Array<HTMLDivElement | null>>([])
 
+  // Pages deliberately left out at submission (config_overrides.page_selection)
+  const { page_selection: pageSelection, ...profileOverrides } = (job?.config_overrides ?? {}) as
+    PipelineConfigOverrides & { page_selection?: PageSelectionOverride }
+
   // Page integrity
   const pageIntegrity = calculatePageIntegrity(results?.figures || [], csvTableData)
   const integrityByPage = pageIntegrity.reduce((acc, pi) => {
@@ -363,13 +410,38 @@ export default function ResultsPage({ params }: { params: Promise<{ runId: strin
           <div className="text-4xl mb-4">❌</div>
           <h2 className="text-xl font-semibold text-slate-900 mb-2">Pipeline Failed</h2>
           <p className="text-slate-500 mb-4">{job.error_message || job.message}</p>
-          <Link
-            href="/dashboard"
-            className="inline-block px-4 py-2 bg-slate-100 text-slate-700 rounded-md hover:bg-slate-200"
-          >
-            ← Back to Dashboard
-          </Link>
+          <div className="flex justify-center gap-2">
+            {job.input_url && (
+              <button
+                onClick={() => setRerunOpen(true)}
+                className="px-4 py-2 bg-slate-900 text-white rounded-md hover:bg-slate-800"
+              >
+                Re-run
+              </button>
+            )}
+            <button
+              onClick={() => setDeleteOpen(true)}
+              className="px-4 py-2 bg-slate-100 text-red-600 rounded-md hover:bg-red-50"
+            >
+              Delete
+            </button>
+            <Link
+              href="/dashboard"
+              className="inline-block px-4 py-2 bg-slate-100 text-slate-700 rounded-md hover:bg-slate-200"
+            >
+              ← Back to Dashboard
+            </Link>
+          </div>
+        </div>
+        <div className="mt-8 w-full max-w-3xl space-y-4">
+          <FailureDiagnostics job={job} />
+          <JobLineage job={job} />
+          <div className="bg-white rounded-md border border-slate-200 p-4">
+            <StageTimeline job={job} />
+          </div>
         </div>
+        {rerunDialog}
+        {deleteDialog}
       </div>
     )
   }
@@ -388,6 +460,19 @@ export default function ResultsPage({ params }: { params: Promise<{ runId: strin
           </div>
           <h1 className="text-2xl font-bold text-slate-900">Results</h1>
           <p className="text-slate-500">{results?.doc_name || job?.doc_name || "Pipeline completed"}</p>
+          {job && (job.profile_name || Object.keys(profileOverrides).length > 0) && (
+            <p className="text-xs text-slate-500 mt-1">
+              Profile: <span className="font-medium text-slate-700">{job.profile_name || "Custom"}</span>
+              <span className="ml-1">({describeOverrides(profileOverrides)})</span>
+            </p>
+          )}
+          {job && <JobLabelsEditor key={job.id} job={job} />}
+          {pageSelection && (
+            <p className="text-xs text-slate-500 mt-1">
+              Pages processed: <span className="font-medium text-slate-700">{formatPageRanges(pageSelection.pages)}</span>
+              {pageSelection.total_pages !== null && <span> of {pageSelection.total_pages}</span>}
+            </p>
+          )}
         </div>
         <div className="flex gap-2">
           {isPolling && (
@@ -396,9 +481,25 @@ export default function ResultsPage({ params }: { params: Promise<{ runId: strin
                 <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-blue-400 opacity-75"></span>
                 <span className="relative inline-flex rounded-full h-1.5 w-1.5 bg-blue-500"></span>
               </span>
-              Processing
+              {isReconnecting ? 'Reconnecting…' : 'Processing'}
             </span>
           )}
+          {isTerminal && job?.input_url && (
+            <button
+              onClick={() => setRerunOpen(true)}
+              className="px-4 py-2 bg-slate-100 text-slate-700 rounded-md hover:bg-slate-200"
+            >
+              Re-run
+            </button>
+          )}
+          {isTerminal && (
+            <button
+              onClick={() => setDeleteOpen(true)}
+              className="px-4 py-2 bg-slate-100 text-red-600 rounded-md hover:bg-red-50"
+            >
+              Delete
+            </button>
+          )}
           <Link
             href="/dashboard"
             className="px-4 py-2 bg-slate-100 text-slate-700 rounded-md hover:bg-slate-200"
@@ -408,6 +509,10 @@ export default function ResultsPage({ params }: { params: Promise<{ runId: strin
         </div>
       </div>
 
+      {job && <JobLineage job={job} />}
+      {rerunDialog}
+      {deleteDialog}
+
       {/* Stats */}
       <div className="grid grid-cols-4 gap-4">
         <div className="bg-white rounded-md border border-slate-200 p-4">
@@ -434,10 +539,21 @@ export default function ResultsPage({ params }: { params: Promise<{ runId: strin
 
       {/* Pipeline Stage Indicator */}
       <div className="bg-white rounded-md border border-slate-200 p-4">
+        <div className="flex justify-end -mb-2">
+          <button
+            onClick={() => setShowTimeline(v => !v)}
+            className="text-xs text-slate-500 hover:text-slate-700"
+          >
+            {showTimeline ? 'Hide timeline' : 'Show timeline'}
+          </button>
+        </div>
         <PipelineStageIndicator
           currentStage={currentStage}
           stageLabel={stageLabel}
           stageProgress={stageProgress}
+          reusedStages={job?.reused_stages ?? reusedStagesFor(job?.resume_from_stage)}
+          detailed={showTimeline}
+          job={job}
           size="md"
           showLabels={true}
         />
@@ -502,6 +618,13 @@ export default function ResultsPage({ params }: { params: Promise<{ runId: strin
           {/* Pages Tab */}
           {activeTab === "pages" && (
             <div className="space-y-6">
+              {pageSelection && pageSelection.skipped_pages.length > 0 && (
+                <div className="px-4 py-3 text-sm text-slate-600 bg-slate-50 border border-slate-200 rounded-md">
+                  Skipped on purpose: pages {formatPageRanges(pageSelection.skipped_pages)}
+                  {' '}({pageSelection.skipped_pages.length} of {pageSelection.total_pages ?? '?'}).
+                  These pages were excluded before processing, so they have no figures or tables.
+                </div>
+              )}
               {results?.pages?.map((page) => (
                 <div
                   key={page.page_id}
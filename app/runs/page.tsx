@@ -1,111 +1,339 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from "react"
+import { Fragment, useState, useEffect, useCallback, useMemo } from "react"
 import Link from "next/link"
+import { useSession } from "next-auth/react"
 import { api } from '@/lib/api-config'
+import { useJobsStatus } from '@/hooks/useJobsStatus'
+import { cancelJobById, type JobPublic } from '@/hooks/useJobStatus'
+import { getStageLabel } from '@/hooks/usePipelineStage'
+import { useEta } from '@/hooks/useEta'
+import { estimateJobEta, formatEta } from '@/lib/eta'
+import { formatDuration } from '@/lib/stage-timeline'
+import {
+  DEFAULT_RUN_QUERY,
+  RUNS_PAGE_SIZE,
+  hasRunFilters,
+  matchesRunQuery,
+  parseRunQuery,
+  runQueryToApiParams,
+  runQueryToSearchParams,
+  type RunQuery,
+  type RunSortField,
+  type SortOrder,
+} from '@/lib/run-query'
+import RerunDialog from '@/components/RerunDialog'
+import BulkActionDialog from '@/components/BulkActionDialog'
+import { BULK_ACTIONS, rerunSame, type BulkAction } from '@/hooks/useBulkJobActions'
+import { removeOrphan, useJobHealth } from '@/hooks/useJobHealth'
+import { useJobQueue } from '@/hooks/useJobQueue'
+import { formatQueueStart, JOB_PRIORITIES, priorityLabel } from '@/lib/job-queue'
+import { formatBytes } from '@/lib/format-bytes'
+import { useProjects } from '@/hooks/useProjects'
+import { groupJobsByProject, type ProjectGroup } from '@/lib/projects'
 import { createLogger } from '@/lib/logger'
 
 const log = createLogger('RunsPage')
 
+// Rows are Jobs API records, so the shared job helpers take them as they are
+type Job = JobPublic
+
 /**
- * v4 Job interface matching JobPublic from the API.
+ * Map each job to the earlier job it duplicates: the recorded duplicate_of,
+ * or else the oldest listed job with the same content hash. Re-runs are
+ * left out; they link to their parent instead.
  */
-interface Job {
-  id: string
-  status: string
-  doc_name: string
-  current_stage: string | null
-  progress_percent: number
-  message: string
-  created_at: string
-  started_at: string | null
-  completed_at: string | null
-  manifest_url: string | null
-  error_message: string | null
+function findDuplicateOf(jobs: Job[]): Record<string, string> {
+  const oldestByHash: Record<string, Job> = {}
+  for (const job of jobs) {
+    if (!job.content_hash) continue
+    const current = oldestByHash[job.content_hash]
+    if (!current || job.created_at < current.created_at) oldestByHash[job.content_hash] = job
+  }
+
+  const result: Record<string, string> = {}
+  for (const job of jobs) {
+    if (job.parent_job_id) continue
+    const original = job.duplicate_of
+      || (job.content_hash && oldestByHash[job.content_hash]?.id)
+    if (original && original !== job.id) result[job.id] = original
+  }
+  return result
 }
 
-// Terminal states where polling should stop
+// Terminal states where tracking should stop
 const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled']
 
+// Statuses offered as filters (transitional ones are rarely worth filtering on)
+const STATUS_FILTERS = ['pending', 'running', 'classification_pending', 'completed', 'failed', 'cancelled']
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE_MS = 300
+
 export default function RunsPage() {
+  const { data: session } = useSession()
   const [jobs, setJobs] = useState<Job[]>([])
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Search, filters, sort and page, mirrored in the URL; null until read from it
+  const [query, setQuery] = useState<RunQuery | null>(null)
+  const [searchText, setSearchText] = useState('')
+  const [creatorText, setCreatorText] = useState('')
+  // Some row of the page does not match the query: the Jobs API ignored a filter
+  const [filterIgnored, setFilterIgnored] = useState(false)
+  const [hasMore, setHasMore] = useState(false)
+  // Reported by the Jobs API when it counts matches (X-Total-Count)
+  const [total, setTotal] = useState<number | null>(null)
+  const [reloadKey, setReloadKey] = useState(0)
+  // Job the re-run dialog is open for
+  const [rerunTarget, setRerunTarget] = useState<Job | null>(null)
+  const closeRerun = useCallback(() => setRerunTarget(null), [])
+  // Selected runs, kept across pages and filter changes until cleared
+  const [selected, setSelected] = useState<Record<string, Job>>({})
+  const [bulkAction, setBulkAction] = useState<BulkAction | null>(null)
+  const closeBulk = useCallback(() => setBulkAction(null), [])
+  const { projects } = useProjects()
+  // Show the page's runs under a heading per project
+  const [groupByProject, setGroupByProject] = useState(false)
+  // Jobs without progress for too long, and local runs the Jobs API forgot
+  const { health, recheck } = useJobHealth()
+  const [staleActionId, setStaleActionId] = useState<string | null>(null)
+  const [orphanCleanup, setOrphanCleanup] = useState<{ running: boolean; message: string | null }>({ running: false, message: null })
+  const [priorityChangingId, setPriorityChangingId] = useState<string | null>(null)
 
-  // Use ref to track polling state and prevent duplicates
-  const pollingRef = useRef<ReturnType<typeof setInterval> | null>(null)
-  const isMountedRef = useRef(true)
+  useEffect(() => {
+    const initial = parseRunQuery(new URLSearchParams(window.location.search))
+    setQuery(initial)
+    setSearchText(initial.q)
+    setCreatorText(initial.creator)
+  }, [])
 
-  const fetchJobs = useCallback(async () => {
-    if (!isMountedRef.current) return
+  const updateQuery = useCallback((patch: Partial<RunQuery>) => {
+    setQuery(prev => {
+      // Any change other than paging starts again at the first page
+      const next = { ...(prev ?? DEFAULT_RUN_QUERY), page: 1, ...patch }
+      const params = runQueryToSearchParams(next).toString()
+      window.history.replaceState(null, '', params ? `/runs?${params}` : '/runs')
+      return next
+    })
+  }, [])
 
-    try {
-      // v4: Use centralized API config - direct call to FastAPI
-      const res = await fetch(api.jobs.list(50))
-      if (res.ok && isMountedRef.current) {
+  useEffect(() => {
+    if (!query || searchText.trim() === query.q) return
+    const timer = setTimeout(() => updateQuery({ q: searchText.trim() }), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchText, query, updateQuery])
+
+  useEffect(() => {
+    if (!query || creatorText.trim() === query.creator) return
+    const timer = setTimeout(() => updateQuery({ creator: creatorText.trim() }), SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [creatorText, query, updateQuery])
+
+  // One page of runs, fetched again whenever the query changes
+  useEffect(() => {
+    if (!query) return
+    const controller = new AbortController()
+
+    const load = async () => {
+      try {
+        const res = await fetch(api.jobs.search(runQueryToApiParams(query)), { signal: controller.signal })
+        if (!res.ok) throw new Error(`Failed to load runs: ${res.statusText}`)
         const data: Job[] = await res.json()
-        setJobs(data)
-      }
-    } catch (err) {
-      log.error('Failed to fetch jobs', { error: err instanceof Error ? err.message : String(err) })
-    } finally {
-      if (isMountedRef.current) {
-        setLoading(false)
-        setRefreshing(false)
+        const count = res.headers.get('X-Total-Count')
+        setHasMore(data.length > RUNS_PAGE_SIZE)
+        setTotal(count !== null && !Number.isNaN(Number(count)) ? Number(count) : null)
+        // Paging and counts come from the API, so rows are not dropped here;
+        // a row that does not match only means a filter was not applied
+        const page = data.slice(0, RUNS_PAGE_SIZE)
+        setJobs(page)
+        setFilterIgnored(page.some(job => !matchesRunQuery(job, query)))
+        setError(null)
+      } catch (err) {
+        if (controller.signal.aborted) return
+        log.error('Failed to fetch jobs', { error: err instanceof Error ? err.message : String(err) })
+        setError(err instanceof Error ? err.message : 'Failed to load runs')
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false)
+          setRefreshing(false)
+        }
       }
     }
-  }, [])
+    load()
 
-  // Check if all jobs are in terminal states (no polling needed)
-  const allJobsTerminal = useCallback((jobList: Job[]): boolean => {
-    if (jobList.length === 0) return true
-    return jobList.every(job => TERMINAL_STATUSES.includes(job.status))
-  }, [])
+    return () => controller.abort()
+  }, [query, reloadKey])
 
-  // Start or stop polling based on job states
-  const updatePolling = useCallback((jobList: Job[]) => {
-    // Clear any existing interval first
-    if (pollingRef.current) {
-      clearInterval(pollingRef.current)
-      pollingRef.current = null
-    }
+  // Follow only the unfinished jobs of the page instead of re-fetching all of it
+  const activeJobIds = useMemo(
+    () => jobs.filter(job => !TERMINAL_STATUSES.includes(job.status)).map(job => job.id),
+    [jobs]
+  )
+  const { jobs: trackedJobs } = useJobsStatus(activeJobIds)
+  // Always enabled: the header shows how accurate past estimates were
+  const { model: etaModel, accuracy: etaAccuracy, now } = useEta()
+  const liveJobs = useMemo(
+    () => jobs.map(job => trackedJobs[job.id] ? { ...job, ...trackedJobs[job.id] } : job),
+    [jobs, trackedJobs]
+  )
+  // Queue positions and start estimates, polled only while pending runs are listed
+  const hasPendingJobs = liveJobs.some(job => job.status === 'pending')
+  const { queue, byJobId: queuedById, setPriority } = useJobQueue(hasPendingJobs)
 
-    // Only poll if there are non-terminal jobs
-    if (!allJobsTerminal(jobList) && isMountedRef.current) {
-      log.debug('Starting polling - non-terminal jobs exist')
-      pollingRef.current = setInterval(fetchJobs, 5000)
-    } else {
-      log.debug('Polling stopped - all jobs terminal or none')
-    }
-  }, [allJobsTerminal, fetchJobs])
+  const duplicates = useMemo(() => findDuplicateOf(liveJobs), [liveJobs])
 
-  // Initial fetch and polling setup
-  useEffect(() => {
-    isMountedRef.current = true
+  const batchName = liveJobs.find(job => job.batch_name)?.batch_name
+  // Creators to suggest in the filter: yourself and whoever is on this page
+  const creators = useMemo(() => {
+    const emails = new Set(liveJobs.map(job => job.created_by).filter((email): email is string => !!email))
+    if (session?.user?.email) emails.add(session.user.email)
+    return [...emails].sort()
+  }, [liveJobs, session])
+
+  // The page's runs by project (see groupJobsByProject); one unnamed group when not grouping
+  const groups = useMemo((): Array<Omit<ProjectGroup<Job>, 'label'> & { label: string | null }> => {
+    if (!groupByProject) return [{ key: 'all', label: null, projectId: null, jobs: liveJobs }]
+    return groupJobsByProject(liveJobs, projects)
+  }, [groupByProject, liveJobs, projects])
+
+  const orphans = health?.orphans ?? []
+  const staleById = useMemo(
+    () => Object.fromEntries((health?.stale ?? []).map(stale => [stale.jobId, stale])),
+    [health]
+  )
 
-    const init = async () => {
-      await fetchJobs()
+  // One-click fix for a stuck job: cancel it, and for a re-run start a fresh copy
+  const handleStaleAction = async (job: Job, action: 'cancel' | 'rerun') => {
+    setStaleActionId(job.id)
+    try {
+      await cancelJobById(job.id)
+      if (action === 'rerun') {
+        try {
+          await rerunSame(job, session?.user?.email ?? undefined)
+        } catch (err) {
+          throw new Error(`${job.doc_name} was cancelled but the re-run could not be started, so there is no replacement: ${err instanceof Error ? err.message : String(err)}`)
+        }
+      }
+      setError(null)
+    } catch (err) {
+      log.error('Stale job action failed', { jobId: job.id, action, error: err instanceof Error ? err.message : String(err) })
+      setError(err instanceof Error ? err.message : 'Action failed')
+    } finally {
+      setStaleActionId(null)
+      recheck()
+      setReloadKey(k => k + 1)
     }
-    init()
-
-    // Cleanup on unmount
-    return () => {
-      isMountedRef.current = false
-      if (pollingRef.current) {
-        clearInterval(pollingRef.current)
-        pollingRef.current = null
+  }
+
+  const removeOrphans = async () => {
+    const orphans = health?.orphans ?? []
+    const names = orphans.slice(0, 10).map(o => `- ${o.docName || o.runId} (${formatDate(o.modifiedAt)})`)
+    if (orphans.length > names.length) names.push(`- and ${orphans.length - names.length} more`)
+    if (!confirm(
+      `Delete the local folders of ${orphans.length} ${orphans.length === 1 ? 'run' : 'runs'} the Jobs API no longer knows?\n\n${names.join('\n')}\n\n`
+      + 'Each run is looked up again first and kept if the Jobs API knows it.'
+    )) return
+
+    setOrphanCleanup({ running: true, message: null })
+    let bytes = 0
+    let kept = 0
+    let failed = 0
+    for (const orphan of orphans) {
+      try {
+        const freed = await removeOrphan(orphan.runId)
+        if (freed === null) kept++
+        else bytes += freed
+      } catch (err) {
+        failed++
+        log.warn('Orphaned run cleanup failed', { runId: orphan.runId, error: err instanceof Error ? err.message : String(err) })
       }
     }
-  }, [fetchJobs])
+    setOrphanCleanup({
+      running: false,
+      message: `Freed ${formatBytes(bytes)}`
+        + (kept > 0 ? `; ${kept} kept because the Jobs API knows ${kept === 1 ? 'it' : 'them'} again` : '')
+        + (failed > 0 ? `; ${failed} could not be removed` : ''),
+    })
+    recheck()
+  }
 
-  // Update polling whenever jobs change
-  useEffect(() => {
-    updatePolling(jobs)
-  }, [jobs, updatePolling])
+  const handlePriorityChange = async (job: Job, priority: number) => {
+    setPriorityChangingId(job.id)
+    try {
+      await setPriority(job.id, priority)
+      setError(null)
+    } catch (err) {
+      log.error('Priority change failed', { jobId: job.id, priority, error: err instanceof Error ? err.message : String(err) })
+      setError(err instanceof Error ? err.message : 'Failed to change priority')
+    } finally {
+      setPriorityChangingId(null)
+    }
+  }
+
+  const projectName = (id?: string | null) => projects.find(p => p.id === id)?.name
 
   const handleRefresh = () => {
     setRefreshing(true)
-    fetchJobs()
+    setReloadKey(k => k + 1)
+  }
+
+  const toggleStatus = (status: string) => {
+    if (!query) return
+    updateQuery({
+      statuses: query.statuses.includes(status)
+        ? query.statuses.filter(s => s !== status)
+        : [...query.statuses, status],
+    })
+  }
+
+  const toggleSort = (field: RunSortField) => {
+    if (!query) return
+    // Names read best A-Z, everything else newest/most advanced first
+    const firstOrder: SortOrder = field === 'doc_name' ? 'asc' : 'desc'
+    updateQuery({
+      sort: field,
+      order: query.sort === field ? (query.order === 'asc' ? 'desc' : 'asc') : firstOrder,
+    })
+  }
+
+  const clearFilters = () => {
+    setSearchText('')
+    setCreatorText('')
+    updateQuery({ q: '', statuses: [], from: '', to: '', creator: '', batch: '', project: '', tag: '' })
+  }
+
+  const pageStart = query ? (query.page - 1) * RUNS_PAGE_SIZE : 0
+
+  // Latest known state of each selected job
+  const selectedJobs = Object.values(selected).map(job => liveJobs.find(j => j.id === job.id) ?? job)
+  const allOnPageSelected = liveJobs.length > 0 && liveJobs.every(job => selected[job.id])
+
+  const toggleSelected = (job: Job) => {
+    setSelected(prev => {
+      const { [job.id]: removed, ...rest } = prev
+      return removed ? rest : { ...prev, [job.id]: job }
+    })
+  }
+
+  const togglePageSelected = () => {
+    setSelected(prev => {
+      const next = { ...prev }
+      for (const job of liveJobs) {
+        if (allOnPageSelected) delete next[job.id]
+        else next[job.id] = job
+      }
+      return next
+    })
+  }
+
+  const handleBulkDone = (succeededIds: string[]) => {
+    // Deleted jobs are gone; everything else stays selected for a follow-up action
+    if (bulkAction === 'delete') {
+      setSelected(prev => Object.fromEntries(Object.entries(prev).filter(([id]) => !succeededIds.includes(id))))
+    }
+    setReloadKey(k => k + 1)
   }
 
   const formatDate = (iso?: string | null) => {
@@ -191,6 +419,9 @@ export default function RunsPage() {
     return null
   }
 
+  const canRerun = (job: Job) =>
+    !!job.input_url && (TERMINAL_STATUSES.includes(job.status) || job.status === "classification_complete")
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -198,6 +429,21 @@ export default function RunsPage() {
         <div>
           <h1 className="text-2xl font-bold text-gray-900">Pipeline Runs</h1>
           <p className="text-gray-500 mt-1">Track document processing and classification</p>
+          {etaAccuracy && etaAccuracy.count > 0 && etaAccuracy.medianRelativeError !== null && (
+            <p className="text-xs text-gray-400 mt-1" title={`Median error ${formatDuration(etaAccuracy.medianAbsErrorMs)}`}>
+              Time estimates: median error {Math.round(etaAccuracy.medianRelativeError * 100)}%
+              {etaAccuracy.withinQuarter !== null && <>, {Math.round(etaAccuracy.withinQuarter * 100)}% within 25%</>}
+              {' '}over {etaAccuracy.count} {etaAccuracy.count === 1 ? 'estimate' : 'estimates'}
+            </p>
+          )}
+          {hasPendingJobs && queue && (
+            <p className="text-xs text-gray-400 mt-1">
+              {queue.workers
+                ? <>Workers: {queue.workers.busy} of {queue.workers.total} busy</>
+                : <>{queue.running} running</>}
+              {' · '}{queue.queued.length} queued
+            </p>
+          )}
         </div>
         <button
           onClick={handleRefresh}
@@ -211,63 +457,441 @@ export default function RunsPage() {
         </button>
       </div>
 
+      {/* Search and filters */}
+      <div className="bg-white border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="flex flex-wrap items-center gap-3">
+          <input
+            type="search"
+            value={searchText}
+            onChange={(e) => setSearchText(e.target.value)}
+            placeholder="Search documents..."
+            className="flex-1 min-w-[200px] px-3 py-1.5 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-500">
+            From
+            <input
+              type="date"
+              value={query?.from ?? ''}
+              max={query?.to || undefined}
+              onChange={(e) => updateQuery({ from: e.target.value })}
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-500">
+            To
+            <input
+              type="date"
+              value={query?.to ?? ''}
+              min={query?.from || undefined}
+              onChange={(e) => updateQuery({ to: e.target.value })}
+              className="px-2 py-1 text-sm border border-gray-300 rounded"
+            />
+          </label>
+          <input
+            type="text"
+            list="run-creators"
+            value={creatorText}
+            onChange={(e) => setCreatorText(e.target.value)}
+            placeholder="Created by"
+            className="w-48 px-3 py-1.5 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <datalist id="run-creators">
+            {creators.map(email => <option key={email} value={email} />)}
+          </datalist>
+          <select
+            value={query?.project ?? ''}
+            onChange={(e) => updateQuery({ project: e.target.value })}
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded max-w-[12rem]"
+          >
+            <option value="">All projects</option>
+            {projects.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <label className="flex items-center gap-2 text-sm text-gray-500">
+            <input type="checkbox" checked={groupByProject} onChange={(e) => setGroupByProject(e.target.checked)} />
+            Group by project
+          </label>
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          {STATUS_FILTERS.map(status => {
+            const active = query?.statuses.includes(status)
+            return (
+              <button
+                key={status}
+                onClick={() => toggleStatus(status)}
+                className={`px-2.5 py-1 text-xs font-medium rounded border transition-colors ${
+                  active
+                    ? 'bg-gray-900 text-white border-gray-900'
+                    : 'bg-white text-gray-600 border-gray-300 hover:bg-gray-50'
+                }`}
+              >
+                {getStatusConfig(status).label}
+              </button>
+            )
+          })}
+          {query?.tag && (
+            <button
+              onClick={() => updateQuery({ tag: '' })}
+              className="px-2.5 py-1 text-xs font-medium rounded border bg-blue-50 text-blue-700 border-blue-200 hover:bg-blue-100"
+              title="Remove tag filter"
+            >
+              Tag: {query.tag} ×
+            </button>
+          )}
+          {query && hasRunFilters(query) && (
+            <button onClick={clearFilters} className="ml-auto text-xs text-gray-500 hover:text-gray-700">
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {query?.batch && (
+        <div className="flex items-center justify-between px-4 py-2 text-sm bg-gray-50 border border-gray-200 rounded">
+          <span className="text-gray-700">
+            Showing archive <span className="font-medium">{batchName || query.batch.slice(0, 8)}</span>
+          </span>
+          <button onClick={() => updateQuery({ batch: '' })} className="text-gray-500 hover:text-gray-700">
+            Show all runs
+          </button>
+        </div>
+      )}
+
+      {filterIgnored && (
+        <div className="px-4 py-2 text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded">
+          The Jobs API did not apply every filter, so this page may include runs that do not match.
+        </div>
+      )}
+
+      {error && (
+        <div className="px-4 py-2 text-sm text-red-700 bg-red-50 border border-red-200 rounded">{error}</div>
+      )}
+
+      {(orphans.length > 0 || orphanCleanup.message) && (
+        <div className="flex items-center justify-between px-4 py-2 text-sm bg-amber-50 border border-amber-200 rounded">
+          <span
+            className="text-amber-800"
+            title={orphans.map(o => `${o.docName || o.runId} (${formatDate(o.modifiedAt)})`).join('\n') || undefined}
+          >
+            {orphans.length > 0
+              ? `${orphans.length} local ${orphans.length === 1 ? 'run is' : 'runs are'} no longer known to the Jobs API`
+              : orphanCleanup.message}
+          </span>
+          {orphans.length > 0 && (
+            <button
+              onClick={removeOrphans}
+              disabled={orphanCleanup.running}
+              className="text-amber-800 hover:text-amber-900 font-medium disabled:opacity-50"
+            >
+              {orphanCleanup.running ? 'Removing...' : 'Remove leftovers'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {selectedJobs.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 px-4 py-2 text-sm bg-gray-900 text-white rounded">
+          <span className="mr-2">
+            {selectedJobs.length} selected
+          </span>
+          {(Object.keys(BULK_ACTIONS) as BulkAction[]).map(action => (
+            <button
+              key={action}
+              onClick={() => setBulkAction(action)}
+              className="px-2.5 py-1 text-xs font-medium bg-white/10 rounded hover:bg-white/20 transition-colors"
+            >
+              {BULK_ACTIONS[action].label}
+            </button>
+          ))}
+          <button onClick={() => setSelected({})} className="ml-auto text-xs text-gray-300 hover:text-white">
+            Clear selection
+          </button>
+        </div>
+      )}
+
       {/* Jobs Table */}
       {loading ? (
         <div className="text-center py-12 text-gray-500">Loading jobs...</div>
-      ) : jobs.length === 0 ? (
+      ) : liveJobs.length === 0 ? (
         <div className="text-center py-12 text-gray-500 border border-gray-200 rounded-lg">
-          <p>No jobs found.</p>
-          <Link href="/dashboard" className="mt-2 inline-block text-blue-600 hover:text-blue-700">
-            Upload a document →
-          </Link>
+          {query && hasRunFilters(query) ? (
+            <>
+              <p>No runs match these filters.</p>
+              <button onClick={clearFilters} className="mt-2 inline-block text-blue-600 hover:text-blue-700">
+                Clear filters
+              </button>
+            </>
+          ) : (
+            <>
+              <p>No jobs found.</p>
+              <Link href="/dashboard" className="mt-2 inline-block text-blue-600 hover:text-blue-700">
+                Upload a document →
+              </Link>
+            </>
+          )}
         </div>
       ) : (
         <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
           <table className="w-full">
             <thead className="bg-gray-50 border-b border-gray-200">
               <tr>
-                <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Document</th>
+                <th className="w-10 px-4 py-3">
+                  <input
+                    type="checkbox"
+                    checked={allOnPageSelected}
+                    onChange={togglePageSelected}
+                    title="Select all runs on this page"
+                  />
+                </th>
+                <SortableHeader field="doc_name" query={query} onSort={toggleSort}>Document</SortableHeader>
                 <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Job ID</th>
-                <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Status</th>
+                <SortableHeader field="status" query={query} onSort={toggleSort}>Status</SortableHeader>
                 <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Stage</th>
-                <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Created</th>
+                <SortableHeader field="created_at" query={query} onSort={toggleSort}>Created</SortableHeader>
                 <th className="text-right text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Action</th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100">
-              {jobs.map((job) => {
-                const statusConfig = getStatusConfig(job.status)
-                return (
-                  <tr key={job.id} className="hover:bg-gray-50 transition-colors">
-                    <td className="px-4 py-3">
-                      <span className="text-sm text-gray-900 truncate max-w-[200px] block" title={job.doc_name}>
-                        {job.doc_name || "-"}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span className="text-sm font-mono text-gray-500">{job.id.slice(0, 8)}...</span>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span className={`inline-flex items-center px-2 py-0.5 text-xs font-medium rounded ${statusConfig.bg} ${statusConfig.text}`}>
-                        {statusConfig.label}
-                      </span>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span className="text-sm text-gray-500">{job.current_stage || "-"}</span>
-                    </td>
-                    <td className="px-4 py-3">
-                      <span className="text-sm text-gray-500">{formatDate(job.created_at)}</span>
-                    </td>
-                    <td className="px-4 py-3 text-right">
-                      {getActionButton(job)}
-                    </td>
-                  </tr>
-                )
-              })}
+              {groups.map(group => (
+                <Fragment key={group.key}>
+                  {group.label !== null && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={7} className="px-4 py-2 text-xs font-medium text-gray-600">
+                        {group.projectId ? (
+                          <Link href={`/projects/${group.projectId}`} className="hover:text-blue-600">{group.label}</Link>
+                        ) : group.label}
+                        <span className="ml-2 font-normal text-gray-400">{group.jobs.length}</span>
+                      </td>
+                    </tr>
+                  )}
+                  {group.jobs.map((job) => {
+                    const statusConfig = getStatusConfig(job.status)
+                    const duplicateOf = duplicates[job.id]
+                    // Only while the job is still active; a cancelled one drops off at the next check
+                    const stale = !TERMINAL_STATUSES.includes(job.status) ? staleById[job.id] : undefined
+                    const queued = job.status === 'pending' ? queuedById.get(job.id) : undefined
+                    return (
+                      <tr key={job.id} className={`hover:bg-gray-50 transition-colors ${selected[job.id] ? 'bg-blue-50/40' : ''}`}>
+                        <td className="w-10 px-4 py-3">
+                          <input type="checkbox" checked={!!selected[job.id]} onChange={() => toggleSelected(job)} />
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className="text-sm text-gray-900 truncate max-w-[200px] block" title={job.doc_name}>
+                            {job.doc_name || "-"}
+                          </span>
+                          {job.batch_id && !query?.batch && (
+                            <button
+                              onClick={() => updateQuery({ batch: job.batch_id! })}
+                              className="text-xs text-gray-400 hover:text-blue-600 transition-colors block"
+                              title="Show all runs from this archive"
+                            >
+                              {job.batch_name || 'Archive'}
+                            </button>
+                          )}
+                          {((!groupByProject && projectName(job.project_id)) || (job.tags ?? []).length > 0) && (
+                            <span className="flex flex-wrap items-center gap-1 text-xs text-gray-400">
+                              {!groupByProject && projectName(job.project_id) && (
+                                <button
+                                  onClick={() => updateQuery({ project: job.project_id! })}
+                                  className="hover:text-blue-600 transition-colors"
+                                  title="Show all runs in this project"
+                                >
+                                  {projectName(job.project_id)}
+                                </button>
+                              )}
+                              {(job.tags ?? []).map(tag => (
+                                <button
+                                  key={tag}
+                                  onClick={() => updateQuery({ tag })}
+                                  className="px-1.5 bg-gray-100 rounded hover:bg-blue-50 hover:text-blue-600 transition-colors"
+                                  title="Show all runs with this tag"
+                                >
+                                  {tag}
+                                </button>
+                              ))}
+                            </span>
+                          )}
+                          {job.parent_job_id && (
+                            <span className="text-xs text-gray-400 block">
+                              Re-run of{' '}
+                              <Link href={`/results/${job.parent_job_id}`} className="font-mono hover:text-blue-600 transition-colors">
+                                {job.parent_job_id.slice(0, 8)}
+                              </Link>
+                              {job.resume_from_stage && ` from ${getStageLabel(job.resume_from_stage)}`}
+                            </span>
+                          )}
+                          {duplicateOf && (
+                            <span className="text-xs text-gray-400">
+                              Duplicate of{' '}
+                              <Link href={`/results/${duplicateOf}`} className="font-mono hover:text-blue-600 transition-colors">
+                                {duplicateOf.slice(0, 8)}
+                              </Link>
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className="text-sm font-mono text-gray-500">{job.id.slice(0, 8)}...</span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`inline-flex items-center px-2 py-0.5 text-xs font-medium rounded ${statusConfig.bg} ${statusConfig.text}`}>
+                            {statusConfig.label}
+                          </span>
+                          {stale && (
+                            <span
+                              className="ml-1 inline-flex items-center px-2 py-0.5 text-xs font-medium rounded bg-amber-50 text-amber-700 border border-amber-200"
+                              title={`No progress since ${formatDate(stale.unchangedSince)} (flagged after ${health?.staleMinutes} min)`}
+                            >
+                              Stalled {formatDuration(now - Date.parse(stale.unchangedSince))}
+                            </span>
+                          )}
+                          {queued && (
+                            <span
+                              className="ml-1 text-xs text-gray-500 tabular-nums"
+                              title={`${priorityLabel(queued.priority)} priority`}
+                            >
+                              #{queued.position} in queue
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className="text-sm text-gray-500">{job.current_stage || "-"}</span>
+                          {(() => {
+                            if (queued) {
+                              const start = formatQueueStart(queued.estimatedStartAt, now)
+                              return start && <span className="text-xs text-gray-400 block">{start}</span>
+                            }
+                            const eta = estimateJobEta(job, etaModel, now)
+                            return eta && <span className="text-xs text-gray-400 block">{formatEta(eta)}</span>
+                          })()}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className="text-sm text-gray-500">{formatDate(job.created_at)}</span>
+                          {job.created_by && (
+                            <span className="text-xs text-gray-400 block truncate max-w-[160px]" title={job.created_by}>
+                              {job.created_by}
+                            </span>
+                          )}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center justify-end gap-2">
+                            {stale && (
+                              <>
+                                <button
+                                  onClick={() => handleStaleAction(job, 'cancel')}
+                                  disabled={staleActionId === job.id}
+                                  className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                                >
+                                  Cancel
+                                </button>
+                                {job.input_url && (
+                                  <button
+                                    onClick={() => handleStaleAction(job, 'rerun')}
+                                    disabled={staleActionId === job.id}
+                                    className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-amber-700 bg-amber-50 border border-amber-200 rounded hover:bg-amber-100 disabled:opacity-50 transition-colors"
+                                    title="Cancel this job and start it again with the same settings"
+                                  >
+                                    Re-run
+                                  </button>
+                                )}
+                              </>
+                            )}
+                            {queued && queue?.canPrioritize && (
+                              <select
+                                value={queued.priority}
+                                onChange={(e) => handlePriorityChange(job, Number(e.target.value))}
+                                disabled={priorityChangingId === job.id}
+                                className="px-2 py-1 text-xs border border-gray-300 rounded disabled:opacity-50"
+                                title="Queue priority"
+                              >
+                                {!JOB_PRIORITIES.some(p => p.value === queued.priority) && (
+                                  <option value={queued.priority}>{priorityLabel(queued.priority)}</option>
+                                )}
+                                {JOB_PRIORITIES.map(p => (
+                                  <option key={p.value} value={p.value}>{p.label}</option>
+                                ))}
+                              </select>
+                            )}
+                            {canRerun(job) && (
+                              <button
+                                onClick={() => setRerunTarget(job)}
+                                className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                              >
+                                Re-run
+                              </button>
+                            )}
+                            {getActionButton(job)}
+                          </div>
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </Fragment>
+              ))}
             </tbody>
           </table>
+          {query && (query.page > 1 || hasMore) && (
+            <div className="flex items-center justify-between px-4 py-3 text-sm text-gray-500 border-t border-gray-200">
+              <span>
+                {pageStart + 1}–{pageStart + liveJobs.length}
+                {total !== null && <> of {total}</>}
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => updateQuery({ page: query.page - 1 })}
+                  disabled={query.page <= 1}
+                  className="px-3 py-1 text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => updateQuery({ page: query.page + 1 })}
+                  disabled={!hasMore}
+                  className="px-3 py-1 text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 transition-colors"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
         </div>
       )}
+
+      {rerunTarget && (
+        <RerunDialog
+          job={rerunTarget}
+          isOpen
+          onClose={closeRerun}
+          onCreated={(created) => {
+            setRerunTarget(null)
+            setJobs(prev => [created, ...prev])
+          }}
+        />
+      )}
+
+      {bulkAction && (
+        <BulkActionDialog
+          action={bulkAction}
+          jobs={selectedJobs}
+          onClose={closeBulk}
+          onDone={handleBulkDone}
+        />
+      )}
     </div>
   )
 }
+
+function SortableHeader({ field, query, onSort, children }: {
+  field: RunSortField
+  query: RunQuery | null
+  onSort: (field: RunSortField) => void
+  children: React.ReactNode
+}) {
+  const active = query?.sort === field
+  return (
+    <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">
+      <button onClick={() => onSort(field)} className={`inline-flex items-center gap-1 uppercase tracking-wider hover:text-gray-900 ${active ? 'text-gray-900' : ''}`}>
+        {children}
+        <span className="text-[10px]">{active ? (query.order === 'asc' ? '▲' : '▼') : ''}</span>
+      </button>
+    </th>
+  )
+}
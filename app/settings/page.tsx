@@ -2,10 +2,14 @@
 
 import { useState, useEffect } from "react"
 import { getFastApiUrl } from '@/lib/api-config'
+import { DEFAULT_POLL_INTERVAL_MS, MAX_POLL_INTERVAL_MS, MIN_POLL_INTERVAL_MS } from '@/lib/polling'
+import PipelineProfileEditor from '@/components/PipelineProfileEditor'
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences'
+import { NOTIFICATION_EVENTS, type NotificationEvent, type NotificationPreferences } from '@/lib/notifications'
 
 export default function SettingsPage() {
   const [apiUrl, setApiUrl] = useState("http://localhost:8000")
-  const [pollInterval, setPollInterval] = useState(2000)
+  const [pollInterval, setPollInterval] = useState(DEFAULT_POLL_INTERVAL_MS)
   const [saved, setSaved] = useState(false)
 
   // Load settings from localStorage on mount
@@ -65,12 +69,13 @@ export default function SettingsPage() {
             value={pollInterval}
             onChange={(e) => setPollInterval(Number(e.target.value))}
             className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
-            min={500}
-            max={10000}
+            min={MIN_POLL_INTERVAL_MS}
+            max={MAX_POLL_INTERVAL_MS}
             step={100}
           />
           <p className="text-sm text-gray-500 mt-1">
-            How often to poll for status updates (500-10000ms)
+            How often to poll for status updates when live updates are unavailable ({MIN_POLL_INTERVAL_MS}-{MAX_POLL_INTERVAL_MS}ms).
+            Polling slows down while a job stays in one stage and pauses in background tabs.
           </p>
         </div>
 
@@ -87,6 +92,18 @@ export default function SettingsPage() {
         </div>
       </div>
 
+      <div className="mt-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Pipeline Profiles</h2>
+        <p className="text-sm text-gray-500 mb-4">Shared with the whole team and selectable per upload on the dashboard</p>
+        <PipelineProfileEditor />
+      </div>
+
+      <div id="notifications" className="mt-8">
+        <h2 className="text-lg font-semibold text-gray-900 mb-1">Notifications</h2>
+        <p className="text-sm text-gray-500 mb-4">Which job events notify you, in the bell menu and optionally on the desktop</p>
+        <NotificationSettings />
+      </div>
+
       <div className="mt-8">
         <h2 className="text-lg font-semibold text-gray-900 mb-4">System Status</h2>
         <div className="bg-white rounded-lg border border-gray-200 p-6">
@@ -110,6 +127,78 @@ export default function SettingsPage() {
   )
 }
 
+function NotificationSettings() {
+  const { preferences, loading, error, save } = useNotificationPreferences()
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [permission, setPermission] = useState<NotificationPermission | 'unsupported'>('default')
+
+  useEffect(() => {
+    setPermission(typeof Notification === 'undefined' ? 'unsupported' : Notification.permission)
+  }, [])
+
+  const update = async (next: NotificationPreferences) => {
+    try {
+      setSaveError(null)
+      await save(next)
+    } catch (e) {
+      setSaveError(e instanceof Error ? e.message : 'Failed to save notification preferences')
+    }
+  }
+
+  const toggleDesktop = async (enabled: boolean) => {
+    if (enabled && permission === 'default') {
+      const result = await Notification.requestPermission()
+      setPermission(result)
+      if (result !== 'granted') return
+    }
+    await update({ ...preferences, desktop: enabled })
+  }
+
+  const toggleEvent = (event: NotificationEvent, enabled: boolean) =>
+    update({ ...preferences, events: { ...preferences.events, [event]: enabled } })
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      <div>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={preferences.desktop && permission === 'granted'}
+            disabled={loading || permission === 'denied' || permission === 'unsupported'}
+            onChange={(e) => toggleDesktop(e.target.checked)}
+          />
+          Desktop notifications
+        </label>
+        {permission === 'denied' && (
+          <p className="text-sm text-gray-500 mt-1 ml-6">Blocked by the browser. Allow notifications for this site to enable them.</p>
+        )}
+        {permission === 'unsupported' && (
+          <p className="text-sm text-gray-500 mt-1 ml-6">This browser does not support desktop notifications.</p>
+        )}
+      </div>
+
+      <div className="pt-4 border-t border-gray-200 space-y-2">
+        <p className="text-sm font-medium text-gray-700">Notify me when a job</p>
+        {NOTIFICATION_EVENTS.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={preferences.events[key]}
+              disabled={loading}
+              onChange={(e) => toggleEvent(key, e.target.checked)}
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      {(saveError || error) && (
+        <p className="text-sm text-red-600">{saveError || error}</p>
+      )}
+    </div>
+  )
+}
+
 function StatusItem({ label, status }: { label: string; status: string }) {
   const isRunning = status === "connected" || status === "running"
 
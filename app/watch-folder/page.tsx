@@ -0,0 +1,169 @@
+'use client'
+
+import { useState, useEffect, useCallback } from "react"
+import Link from "next/link"
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import type { InputWatcherStatus, WatchedFileState } from '@/services/inputWatcher'
+
+const log = createLogger('WatchFolderPage')
+
+// Same cadence as the watcher's default scan interval
+const REFRESH_INTERVAL_MS = 5000
+
+const STATE_CONFIG: Record<WatchedFileState, { bg: string; text: string; label: string }> = {
+  waiting: { bg: "bg-gray-100", text: "text-gray-600", label: "Waiting for copy" },
+  processing: { bg: "bg-blue-50", text: "text-blue-700", label: "Processing" },
+  created: { bg: "bg-emerald-50", text: "text-emerald-700", label: "Job created" },
+  failed: { bg: "bg-red-50", text: "text-red-700", label: "Failed" },
+}
+
+export default function WatchFolderPage() {
+  const [status, setStatus] = useState<InputWatcherStatus | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [scanning, setScanning] = useState(false)
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const res = await fetch(api.watchFolder.status(), { cache: 'no-store' })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || res.statusText)
+      setStatus(body)
+      setError(null)
+    } catch (err) {
+      log.error('Failed to fetch watch folder status', { error: err instanceof Error ? err.message : String(err) })
+      setError(err instanceof Error ? err.message : 'Failed to load status')
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchStatus()
+    const interval = setInterval(fetchStatus, REFRESH_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [fetchStatus])
+
+  const handleScan = async () => {
+    setScanning(true)
+    try {
+      const res = await fetch(api.watchFolder.status(), { method: 'POST' })
+      const body = await res.json()
+      if (!res.ok) throw new Error(body.error || res.statusText)
+      setStatus(body)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Scan failed')
+    } finally {
+      setScanning(false)
+    }
+  }
+
+  const formatDate = (iso?: string | null) => {
+    if (!iso) return "-"
+    return new Date(iso).toLocaleString("no-NO", {
+      day: "2-digit",
+      month: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    })
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Watch Folder</h1>
+          <p className="text-gray-500 mt-1">PDFs dropped into the input folder are processed automatically</p>
+        </div>
+        {status?.enabled && (
+          <button
+            onClick={handleScan}
+            disabled={scanning}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            {scanning ? 'Scanning...' : 'Scan now'}
+          </button>
+        )}
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {!status ? (
+        !error && <div className="text-center py-12 text-gray-500">Loading status...</div>
+      ) : !status.enabled ? (
+        <div className="py-8 px-6 text-sm text-gray-600 border border-gray-200 rounded-lg bg-white">
+          <p className="font-medium text-gray-900">No watch folder configured</p>
+          <p className="mt-1">
+            Set <code className="font-mono text-gray-800">WATCH_INPUT_DIR</code> for the frontend server and restart it.
+            Processed files are moved to <code className="font-mono">archive/</code>, rejected ones to{' '}
+            <code className="font-mono">error/</code> inside that folder.
+          </p>
+        </div>
+      ) : (
+        <>
+          <div className="px-4 py-3 text-sm bg-white border border-gray-200 rounded-lg flex flex-wrap gap-x-6 gap-y-1 text-gray-600">
+            <span>Folder: <span className="font-mono text-gray-900">{status.directory}</span></span>
+            <span>Picked up after {status.stableSeconds}s without changes</span>
+            <span>Last scan: {formatDate(status.lastScanAt)}</span>
+            {status.lastError && <span className="text-red-600">Scan error: {status.lastError}</span>}
+          </div>
+
+          {status.files.length === 0 ? (
+            <div className="text-center py-12 text-gray-500 border border-gray-200 rounded-lg">
+              Nothing picked up yet.
+            </div>
+          ) : (
+            <div className="bg-white border border-gray-200 rounded-lg overflow-hidden">
+              <table className="w-full">
+                <thead className="bg-gray-50 border-b border-gray-200">
+                  <tr>
+                    <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">File</th>
+                    <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Status</th>
+                    <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Detected</th>
+                    <th className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Moved to</th>
+                    <th className="text-right text-xs font-medium text-gray-500 uppercase tracking-wider px-4 py-3">Job</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {status.files.map((file) => {
+                    const config = STATE_CONFIG[file.state]
+                    return (
+                      <tr key={`${file.filename}-${file.detectedAt}`} className="hover:bg-gray-50 transition-colors">
+                        <td className="px-4 py-3">
+                          <span className="text-sm text-gray-900 truncate max-w-[260px] block" title={file.filename}>
+                            {file.filename}
+                          </span>
+                          {file.error && <span className="text-xs text-red-600">{file.error}</span>}
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className={`inline-flex items-center px-2 py-0.5 text-xs font-medium rounded ${config.bg} ${config.text}`}>
+                            {config.label}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className="text-sm text-gray-500">{formatDate(file.detectedAt)}</span>
+                        </td>
+                        <td className="px-4 py-3">
+                          <span className="text-sm font-mono text-gray-500">{file.movedTo || "-"}</span>
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          {file.jobId ? (
+                            <Link href={`/results/${file.jobId}`} className="text-sm font-mono text-gray-500 hover:text-blue-600 transition-colors">
+                              {file.jobId.slice(0, 8)}
+                            </Link>
+                          ) : (
+                            <span className="text-sm text-gray-400">-</span>
+                          )}
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+'use client'
+
+import { useEffect } from 'react'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { BULK_ACTIONS, bulkSkipReason, useBulkJobActions, type BulkAction } from '@/hooks/useBulkJobActions'
+import { formatBytes } from '@/lib/format-bytes'
+
+interface BulkActionDialogProps {
+  action: BulkAction
+  jobs: JobPublic[]
+  onClose: () => void
+  /** Called once the action has run, with the IDs it succeeded for */
+  onDone: (succeededIds: string[]) => void
+}
+
+/**
+ * Confirm a bulk action on the selected runs, then report how it went for
+ * each job. Jobs the action does not apply to are listed up front and
+ * skipped.
+ */
+export default function BulkActionDialog({ action, jobs, onClose, onDone }: BulkActionDialogProps) {
+  const { data: session } = useSession()
+  const { run, running, results } = useBulkJobActions()
+  const { label, description, destructive } = BULK_ACTIONS[action]
+
+  const skipped = jobs.filter(job => bulkSkipReason(action, job))
+  const applicable = jobs.length - skipped.length
+  const finished = results !== null && !running
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !running) onClose()
+    }
+    document.addEventListener('keydown', onKeyDown)
+    return () => document.removeEventListener('keydown', onKeyDown)
+  }, [running, onClose])
+
+  const handleConfirm = async () => {
+    const outcome = await run(action, jobs, { createdBy: session?.user?.email ?? undefined })
+    onDone(outcome.filter(r => r.ok).map(r => r.jobId))
+  }
+
+  const succeeded = results?.filter(r => r.ok).length ?? 0
+  const failed = results?.filter(r => !r.ok && !r.skipped).length ?? 0
+  const freedBytes = results?.reduce((sum, r) => sum + (r.freedBytes ?? 0), 0) ?? 0
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/40" onClick={running ? undefined : onClose} />
+      <div className="relative w-full max-w-lg mx-4 bg-white rounded-lg border border-gray-200 shadow-xl p-5 space-y-4">
+        <div>
+          <h2 className="text-base font-semibold text-gray-900">
+            {label} {jobs.length} {jobs.length === 1 ? 'run' : 'runs'}
+          </h2>
+          <p className="text-sm text-gray-500">{description}</p>
+        </div>
+
+        {results === null ? (
+          skipped.length > 0 && (
+            <div className="text-sm">
+              <p className="text-gray-700">
+                {skipped.length} of {jobs.length} will be skipped:
+              </p>
+              <ul className="mt-1 max-h-40 overflow-y-auto text-xs text-gray-500 space-y-0.5">
+                {skipped.map(job => (
+                  <li key={job.id} className="truncate">
+                    {job.doc_name || job.id.slice(0, 8)} — {bulkSkipReason(action, job)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )
+        ) : (
+          <div className="text-sm">
+            <p className="text-gray-700">
+              {running
+                ? `Working… ${results.length} of ${jobs.length}`
+                : `${succeeded} succeeded${failed > 0 ? `, ${failed} failed` : ''}${skipped.length > 0 ? `, ${skipped.length} skipped` : ''}${action === 'delete' ? ` · ${formatBytes(freedBytes)} freed` : ''}`}
+            </p>
+            <ul className="mt-2 max-h-64 overflow-y-auto divide-y divide-gray-100 border border-gray-200 rounded">
+              {results.map(result => (
+                <li key={result.jobId} className="flex items-center justify-between gap-3 px-3 py-1.5 text-xs">
+                  <span className="truncate text-gray-700" title={result.docName}>{result.docName || result.jobId.slice(0, 8)}</span>
+                  <span className={`shrink-0 ${result.ok ? 'text-emerald-700' : result.skipped ? 'text-gray-400' : 'text-red-600'}`}>
+                    {result.createdJobId ? (
+                      <Link href={`/results/${result.createdJobId}`} className="hover:underline">{result.message}</Link>
+                    ) : (
+                      result.message
+                    )}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2 border-t border-gray-100">
+          {finished ? (
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-sm font-medium text-white bg-gray-900 rounded hover:bg-gray-800"
+            >
+              Close
+            </button>
+          ) : (
+            <>
+              <button
+                onClick={onClose}
+                disabled={running}
+                className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleConfirm}
+                disabled={running || applicable === 0}
+                className={`px-3 py-1.5 text-sm font-medium text-white rounded disabled:opacity-50 ${
+                  destructive ? 'bg-red-600 hover:bg-red-700' : 'bg-gray-900 hover:bg-gray-800'
+                }`}
+              >
+                {running ? 'Working…' : `${label} ${applicable} ${applicable === 1 ? 'run' : 'runs'}`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState } from 'react'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { buildDiagnosticsBundle, diagnoseFailure, FAILURE_CATEGORIES } from '@/lib/failure-diagnostics'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('FailureDiagnostics')
+
+/**
+ * Diagnostics for a failed job: where and why it failed, what to try next,
+ * and a copyable metadata bundle for bug reports.
+ */
+export default function FailureDiagnostics({ job }: { job: JobPublic }) {
+  const diagnosis = diagnoseFailure(job)
+  const [copied, setCopied] = useState<'ok' | 'failed' | null>(null)
+  const [showBundle, setShowBundle] = useState(false)
+
+  const bundle = () => buildDiagnosticsBundle(job, { page: window.location.href, user_agent: navigator.userAgent })
+
+  const copyBundle = async () => {
+    try {
+      await navigator.clipboard.writeText(bundle())
+      setCopied('ok')
+    } catch (err) {
+      // Clipboard access can be blocked; the bundle is shown for manual copying instead
+      log.warn('Clipboard write failed', { error: err instanceof Error ? err.message : String(err) })
+      setCopied('failed')
+      setShowBundle(true)
+    }
+    setTimeout(() => setCopied(null), 2000)
+  }
+
+  return (
+    <div className="bg-white rounded-md border border-slate-200 p-4 space-y-3 text-left">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium text-slate-900">Diagnostics</h3>
+        <div className="flex items-center gap-3 text-xs">
+          <button onClick={() => setShowBundle(v => !v)} className="text-slate-500 hover:text-slate-900">
+            {showBundle ? 'Hide details' : 'Show details'}
+          </button>
+          <button
+            onClick={copyBundle}
+            className="px-3 py-1.5 font-medium text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200"
+          >
+            {copied === 'ok' ? 'Copied' : copied === 'failed' ? 'Copy blocked' : 'Copy for bug report'}
+          </button>
+        </div>
+      </div>
+
+      <dl className="grid grid-cols-3 gap-4 text-sm">
+        <div>
+          <dt className="text-xs text-slate-500">Category</dt>
+          <dd className="font-medium text-red-700">{FAILURE_CATEGORIES[diagnosis.category].label}</dd>
+        </div>
+        <div>
+          <dt className="text-xs text-slate-500">Error code</dt>
+          <dd className="font-mono text-slate-900" title={diagnosis.source === 'inferred' ? 'Inferred from the error message' : 'Reported by the worker'}>
+            {diagnosis.code}
+            {diagnosis.source === 'inferred' && <span className="ml-1 font-sans text-xs text-slate-400">(inferred)</span>}
+          </dd>
+        </div>
+        <div>
+          <dt className="text-xs text-slate-500">Failed in</dt>
+          <dd className="text-slate-900">{diagnosis.stageLabel ?? 'Unknown stage'}</dd>
+        </div>
+      </dl>
+
+      {diagnosis.lastMessage && (
+        <div className="text-sm">
+          <p className="text-xs text-slate-500">Last progress message</p>
+          <p className="text-slate-700">{diagnosis.lastMessage}</p>
+        </div>
+      )}
+
+      <p className="px-3 py-2 text-sm text-slate-700 bg-slate-50 rounded">
+        <span className="font-medium">Suggested action: </span>
+        {diagnosis.suggestion}
+      </p>
+
+      {showBundle && (
+        <pre className="max-h-64 overflow-auto p-3 text-xs text-slate-700 bg-slate-50 border border-slate-200 rounded select-all">
+          {bundle()}
+        </pre>
+      )}
+    </div>
+  )
+}
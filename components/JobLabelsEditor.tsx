@@ -0,0 +1,108 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { updateJobLabels, type JobPublic } from '@/hooks/useJobStatus'
+import { useProjects } from '@/hooks/useProjects'
+import { describeProject } from '@/lib/projects'
+import { createLogger } from '@/lib/logger'
+import TagInput from '@/components/TagInput'
+
+const log = createLogger('JobLabelsEditor')
+
+interface Labels {
+  projectId: string | null
+  tags: string[]
+}
+
+/**
+ * A job's project and tags, editable in place. Keeps the saved values
+ * locally: a finished job is no longer polled, so `job` would not refresh.
+ * Render it with key={job.id} so another job starts from its own labels.
+ */
+export default function JobLabelsEditor({ job }: { job: JobPublic }) {
+  const { projects } = useProjects()
+  const [labels, setLabels] = useState<Labels>({ projectId: job.project_id ?? null, tags: job.tags ?? [] })
+  const [draft, setDraft] = useState<Labels | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const project = projects.find(p => p.id === labels.projectId)
+
+  const save = async () => {
+    if (!draft) return
+    setSaving(true)
+    setError(null)
+    try {
+      const updated = await updateJobLabels(job.id, { projectId: draft.projectId, tags: draft.tags })
+      setLabels({ projectId: updated.project_id ?? draft.projectId, tags: updated.tags ?? draft.tags })
+      setDraft(null)
+    } catch (err) {
+      log.error('Label update failed', { jobId: job.id, error: err instanceof Error ? err.message : String(err) })
+      setError(err instanceof Error ? err.message : 'Failed to save')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  if (!draft) {
+    return (
+      <p className="text-xs text-slate-500 mt-1 flex flex-wrap items-center gap-1">
+        Project:{' '}
+        {project ? (
+          <Link href={`/projects/${project.id}`} className="font-medium text-slate-700 hover:text-slate-900">
+            {project.name}
+          </Link>
+        ) : (
+          <span className="font-medium text-slate-700">{labels.projectId ? 'Deleted project' : 'None'}</span>
+        )}
+        {labels.tags.map(tag => (
+          <Link
+            key={tag}
+            href={`/runs?tag=${encodeURIComponent(tag)}`}
+            className="ml-1 px-1.5 py-0.5 text-slate-600 bg-slate-100 rounded hover:bg-slate-200"
+          >
+            {tag}
+          </Link>
+        ))}
+        <button onClick={() => setDraft(labels)} className="ml-2 text-slate-500 hover:text-slate-900 underline">
+          Edit
+        </button>
+      </p>
+    )
+  }
+
+  return (
+    <div className="mt-2 flex flex-wrap items-start gap-2 text-xs text-slate-500">
+      <select
+        value={draft.projectId ?? ''}
+        onChange={(e) => setDraft({ ...draft, projectId: e.target.value || null })}
+        disabled={saving}
+        className="px-2 py-1.5 text-sm text-slate-900 bg-white border border-slate-300 rounded-md max-w-[16rem]"
+      >
+        <option value="">No project</option>
+        {projects.map(p => (
+          <option key={p.id} value={p.id}>{describeProject(p)}</option>
+        ))}
+      </select>
+      <div className="w-64">
+        <TagInput value={draft.tags} onChange={(tags) => setDraft({ ...draft, tags })} disabled={saving} />
+      </div>
+      <button
+        onClick={save}
+        disabled={saving}
+        className="px-3 py-1.5 text-sm text-white bg-slate-900 rounded-md hover:bg-slate-800 disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save'}
+      </button>
+      <button
+        onClick={() => { setDraft(null); setError(null) }}
+        disabled={saving}
+        className="px-3 py-1.5 text-sm text-slate-700 bg-slate-100 rounded-md hover:bg-slate-200"
+      >
+        Cancel
+      </button>
+      {error && <p className="w-full text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,74 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { findJobLineage, type JobPublic } from '@/hooks/useJobStatus'
+import { getStageLabel } from '@/hooks/usePipelineStage'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('JobLineage')
+
+const STATUS_DOT: Record<string, string> = {
+  completed: 'bg-emerald-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-slate-400',
+}
+
+const formatDate = (iso: string) =>
+  new Date(iso).toLocaleString('no-NO', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+
+/**
+ * The attempts of a re-run job (original first), each linking to its
+ * results. Renders nothing for a job that was never re-run.
+ */
+export default function JobLineage({ job }: { job: JobPublic }) {
+  const [attempts, setAttempts] = useState<JobPublic[]>([])
+  // The lookup starts from the latest record but only re-runs when the job or
+  // its parent link changes, not on every status update
+  const latestJob = useRef(job)
+  latestJob.current = job
+
+  useEffect(() => {
+    let cancelled = false
+    findJobLineage(latestJob.current)
+      .then(lineage => { if (!cancelled) setAttempts(lineage) })
+      .catch(err => log.warn('Lineage lookup failed', { error: err instanceof Error ? err.message : String(err) }))
+    return () => { cancelled = true }
+  }, [job.id, job.parent_job_id])
+
+  if (attempts.length <= 1) return null
+
+  return (
+    <div className="bg-white rounded-lg border border-slate-200 p-4">
+      <h3 className="text-sm font-medium text-slate-900 mb-2">Attempts</h3>
+      <ol className="flex flex-wrap gap-2">
+        {attempts.map((attempt, i) => {
+          const current = attempt.id === job.id
+          const parentIndex = attempts.findIndex(a => a.id === attempt.parent_job_id)
+          return (
+            <li key={attempt.id}>
+              <Link
+                href={`/results/${attempt.id}`}
+                aria-current={current ? 'page' : undefined}
+                title={[
+                  attempt.profile_name ? `Profile: ${attempt.profile_name}` : 'Pipeline defaults',
+                  parentIndex >= 0 ? `Re-run of attempt ${parentIndex + 1}` : 'Original run',
+                  ...(attempt.resume_from_stage ? [`Resumed from ${getStageLabel(attempt.resume_from_stage)}`] : []),
+                ].join(' · ')}
+                className={`flex items-center gap-2 px-3 py-1.5 text-xs rounded border transition-colors ${current
+                  ? 'border-slate-900 bg-slate-900 text-white'
+                  : 'border-slate-200 text-slate-700 hover:bg-slate-50'
+                  }`}
+              >
+                <span className={`h-1.5 w-1.5 rounded-full ${STATUS_DOT[attempt.status] || 'bg-blue-500'}`} />
+                <span className="font-medium">#{i + 1}</span>
+                <span className={current ? 'text-slate-300' : 'text-slate-500'}>{formatDate(attempt.created_at)}</span>
+                {attempt.profile_name && <span className={current ? 'text-slate-300' : 'text-slate-500'}>{attempt.profile_name}</span>}
+              </Link>
+            </li>
+          )
+        })}
+      </ol>
+    </div>
+  )
+}
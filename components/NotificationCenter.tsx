@@ -0,0 +1,263 @@
+'use client'
+
+import { useCallback, useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { useJobsStatus } from '@/hooks/useJobsStatus'
+import { useNotificationPreferences } from '@/hooks/useNotificationPreferences'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import {
+  notificationLink,
+  notificationTitle,
+  readFollowedJobs,
+  selectNotifications,
+  unfollowJobs,
+  type JobNotification,
+  type NotificationEvent,
+  type NotificationWatch,
+} from '@/lib/notifications'
+
+const log = createLogger('NotificationCenter')
+
+// Notifications live in the browser, shared by all tabs through localStorage
+const STORAGE_KEY = 'pipeline_notifications'
+// Last status seen per job and when the job list was last read, shared by
+// all tabs so a change is raised once
+const WATCH_STORAGE_KEY = 'pipeline_notification_watch'
+const MAX_NOTIFICATIONS = 50
+// How often the list of the user's jobs is refreshed to pick up new ones
+const OWN_JOBS_REFRESH_MS = 60_000
+const OWN_JOBS_LIMIT = 50
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled']
+
+function readStored(): JobNotification[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+function writeStored(notifications: JobNotification[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(notifications.slice(0, MAX_NOTIFICATIONS)))
+  } catch {
+    // Storage full or disabled - the in-memory list still works
+  }
+}
+
+function readWatch(): NotificationWatch {
+  try {
+    const stored = localStorage.getItem(WATCH_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : { since: null, statuses: {} }
+  } catch {
+    return { since: null, statuses: {} }
+  }
+}
+
+function writeWatch(watch: NotificationWatch) {
+  try {
+    localStorage.setItem(WATCH_STORAGE_KEY, JSON.stringify(watch))
+  } catch {
+    // Storage full or disabled - changes may be raised again by another tab
+  }
+}
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString('no-NO', { day: '2-digit', month: '2-digit', hour: '2-digit', minute: '2-digit' })
+
+/**
+ * Bell in the navigation bar. Follows the signed-in user's jobs (those they
+ * created, and those started in this browser) and raises a notification
+ * (in-app, and on the desktop when enabled) when one needs review or
+ * finishes, according to the user's preferences. A job first seen after it
+ * changed (e.g. it started and finished between two refreshes) still
+ * notifies when the change came after the previous refresh.
+ */
+export default function NotificationCenter() {
+  const { preferences } = useNotificationPreferences()
+  const [notifications, setNotifications] = useState<JobNotification[]>([])
+  const [open, setOpen] = useState(false)
+  const [activeIds, setActiveIds] = useState<string[]>([])
+  const panelRef = useRef<HTMLDivElement>(null)
+  const { data: session } = useSession()
+  const email = session?.user?.email ?? null
+
+  const { jobs } = useJobsStatus(activeIds)
+
+  useEffect(() => {
+    setNotifications(readStored())
+    const onStorage = (e: StorageEvent) => {
+      if (e.key === STORAGE_KEY) setNotifications(readStored())
+    }
+    window.addEventListener('storage', onStorage)
+    return () => window.removeEventListener('storage', onStorage)
+  }, [])
+
+  const notify = useCallback((job: JobPublic, event: NotificationEvent) => {
+    const createdAt = new Date().toISOString()
+    const notification: JobNotification = {
+      // A job can need review more than once, so each raise is its own entry
+      id: `${job.id}:${event}:${createdAt}`,
+      jobId: job.id,
+      docName: job.doc_name || job.id.slice(0, 8),
+      event,
+      createdAt,
+      read: false,
+    }
+    const next = [notification, ...readStored()].slice(0, MAX_NOTIFICATIONS)
+    writeStored(next)
+    setNotifications(next)
+    log.info('Notification raised', { jobId: job.id, event })
+
+    if (preferences.desktop && typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+      const desktop = new Notification(notificationTitle(notification), {
+        body: job.message || undefined,
+        tag: notification.id,
+      })
+      desktop.onclick = () => {
+        window.focus()
+        window.location.href = notificationLink(notification)
+      }
+    }
+  }, [preferences])
+
+  // Raise a notification for each job whose status changed since any tab last saw it
+  const observe = useCallback((list: JobPublic[]) => {
+    const watch = readWatch()
+    const raised = selectNotifications(list, watch, preferences.events)
+    writeWatch(watch)
+    raised.forEach(({ job, event }) => notify(job, event))
+  }, [notify, preferences])
+
+  // The user's jobs: those still active are followed until they need review or finish
+  useEffect(() => {
+    let cancelled = false
+    const refresh = async () => {
+      const startedAt = new Date().toISOString()
+      try {
+        const own: JobPublic[] = []
+        if (email) {
+          const res = await fetch(api.jobs.search(new URLSearchParams({ created_by: email, limit: String(OWN_JOBS_LIMIT) })), { cache: 'no-store' })
+          if (!res.ok || cancelled) return
+          own.push(...await res.json())
+        }
+        if (cancelled) return
+        observe(own)
+
+        const watch = readWatch()
+        const ownIds = new Set(own.map(job => job.id))
+        const followed = readFollowedJobs()
+        // Followed jobs seen finished are done with
+        unfollowJobs(followed.filter(id => TERMINAL_STATUSES.includes(watch.statuses[id])))
+        const tracked = new Set([...ownIds, ...readFollowedJobs()])
+        watch.statuses = Object.fromEntries(Object.entries(watch.statuses).filter(([id]) => tracked.has(id)))
+        watch.since = startedAt
+        writeWatch(watch)
+
+        setActiveIds([
+          ...own.filter(job => !TERMINAL_STATUSES.includes(job.status)).map(job => job.id),
+          ...readFollowedJobs().filter(id => !ownIds.has(id)),
+        ])
+      } catch (err) {
+        log.debug('Job list refresh failed', { error: err instanceof Error ? err.message : String(err) })
+      }
+    }
+    refresh()
+    const timer = setInterval(refresh, OWN_JOBS_REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [email, observe])
+
+  useEffect(() => {
+    observe(Object.values(jobs))
+  }, [jobs, observe])
+
+  // Close when clicking outside the panel
+  useEffect(() => {
+    if (!open) return
+    const onClick = (e: MouseEvent) => {
+      if (panelRef.current && !panelRef.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', onClick)
+    return () => document.removeEventListener('mousedown', onClick)
+  }, [open])
+
+  const update = (next: JobNotification[]) => {
+    writeStored(next)
+    setNotifications(next)
+  }
+  const markRead = (id: string) => update(notifications.map(n => (n.id === id ? { ...n, read: true } : n)))
+  const markAllRead = () => update(notifications.map(n => ({ ...n, read: true })))
+
+  const unread = notifications.filter(n => !n.read).length
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="relative p-1.5 text-gray-500 hover:text-gray-900 transition-colors"
+        title="Notifications"
+      >
+        <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+          <path d="M18 8a6 6 0 0 0-12 0c0 7-3 9-3 9h18s-3-2-3-9" />
+          <path d="M13.73 21a2 2 0 0 1-3.46 0" />
+        </svg>
+        {unread > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[16px] h-4 px-1 text-[10px] leading-4 font-medium text-white bg-red-500 rounded-full text-center">
+            {unread > 9 ? '9+' : unread}
+          </span>
+        )}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-white border border-gray-200 rounded-md shadow-lg z-40">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+            <span className="text-sm font-medium text-gray-900">Notifications</span>
+            <div className="flex gap-3">
+              {unread > 0 && (
+                <button onClick={markAllRead} className="text-xs text-gray-500 hover:text-gray-700">Mark all read</button>
+              )}
+              {notifications.length > 0 && (
+                <button onClick={() => update([])} className="text-xs text-gray-500 hover:text-gray-700">Clear</button>
+              )}
+            </div>
+          </div>
+
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-center text-gray-500">No notifications yet</p>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100">
+              {notifications.map(n => (
+                <li key={n.id}>
+                  <Link
+                    href={notificationLink(n)}
+                    onClick={() => { markRead(n.id); setOpen(false) }}
+                    className={`block px-4 py-2.5 hover:bg-gray-50 transition-colors ${n.read ? '' : 'bg-blue-50/50'}`}
+                  >
+                    <span className={`block text-sm truncate ${n.read ? 'text-gray-600' : 'text-gray-900 font-medium'}`}>
+                      {notificationTitle(n)}
+                    </span>
+                    <span className="text-xs text-gray-400">{formatTime(n.createdAt)}</span>
+                  </Link>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <div className="px-4 py-2 border-t border-gray-100 text-right">
+            <Link href="/settings#notifications" onClick={() => setOpen(false)} className="text-xs text-gray-500 hover:text-gray-700">
+              Notification settings
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
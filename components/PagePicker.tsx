@@ -0,0 +1,114 @@
+'use client'
+
+import { useState } from "react"
+import { PdfPageThumbnail } from '@/components/PdfPreview'
+import {
+  ALL_PAGES,
+  formatPageRanges,
+  parsePageRanges,
+  selectedPages,
+  type PageSelection,
+} from '@/lib/page-selection'
+
+interface PagePickerProps {
+  /** Object URL of the staged file */
+  url: string
+  /** null when the page count could not be determined */
+  pageCount: number | null
+  selection: PageSelection
+  onChange: (selection: PageSelection) => void
+}
+
+/**
+ * Pick the pages of a staged PDF to process: a range field plus a grid of
+ * page thumbnails where a click excludes or re-includes a page.
+ */
+export default function PagePicker({ url, pageCount, selection, onChange }: PagePickerProps) {
+  const [rangesDraft, setRangesDraft] = useState(selection.ranges)
+
+  const { pages: rangePages, error: rangeError } = parsePageRanges(rangesDraft, pageCount)
+  const inRange = rangePages ? new Set(rangePages) : null
+  const excluded = new Set(selection.excluded)
+
+  let summary: string
+  try {
+    const pages = selectedPages(selection, pageCount)
+    if (pages === null) summary = pageCount !== null ? `All ${pageCount} pages will be processed` : 'All pages will be processed'
+    else summary = `${pages.length}${pageCount !== null ? ` of ${pageCount}` : ''} pages will be processed`
+  } catch {
+    summary = 'Fix the page ranges to continue'
+  }
+
+  const applyRanges = () => {
+    if (rangeError || rangesDraft === selection.ranges) return
+    onChange({ ...selection, ranges: rangesDraft.trim() })
+  }
+
+  const toggle = (page: number) => {
+    onChange({
+      ...selection,
+      excluded: excluded.has(page) ? selection.excluded.filter(p => p !== page) : [...selection.excluded, page],
+    })
+  }
+
+  return (
+    <div className="mt-3 p-3 border border-gray-200 rounded-md bg-gray-50 space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          Process pages
+          <input
+            type="text"
+            value={rangesDraft}
+            onChange={(e) => setRangesDraft(e.target.value)}
+            onBlur={applyRanges}
+            onKeyDown={(e) => { if (e.key === 'Enter') applyRanges() }}
+            placeholder="All, or e.g. 3-40, 52"
+            className="w-48 px-2 py-1 text-xs text-gray-900 bg-white border border-gray-300 rounded"
+          />
+        </label>
+        <span className="text-xs text-gray-500">{summary}</span>
+        {(selection.ranges || selection.excluded.length > 0) && (
+          <button
+            onClick={() => { setRangesDraft(''); onChange(ALL_PAGES) }}
+            className="text-xs text-gray-500 hover:text-gray-700"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+      {rangeError && <p className="text-xs text-red-600">{rangeError}</p>}
+      {selection.excluded.length > 0 && (
+        <p className="text-xs text-gray-500">Excluded: {formatPageRanges(selection.excluded)}</p>
+      )}
+
+      {pageCount === null ? (
+        <p className="text-xs text-gray-500">
+          The page count could not be read before upload, so thumbnails are unavailable. Page ranges still apply.
+        </p>
+      ) : (
+        <div className="grid grid-cols-4 sm:grid-cols-6 lg:grid-cols-8 gap-2 max-h-96 overflow-y-auto">
+          {Array.from({ length: pageCount }, (_, i) => i + 1).map(page => {
+            const skipped = excluded.has(page) || (inRange !== null && !inRange.has(page))
+            return (
+              <button
+                key={page}
+                onClick={() => toggle(page)}
+                disabled={inRange !== null && !inRange.has(page)}
+                title={skipped ? `Page ${page} (skipped)` : `Page ${page} - click to exclude`}
+                className={`relative text-left rounded border overflow-hidden transition-opacity ${skipped
+                  ? 'border-gray-200 opacity-40'
+                  : 'border-gray-300 hover:border-gray-500'
+                  }`}
+              >
+                <PdfPageThumbnail url={url} page={page} className="aspect-[3/4]" />
+                <span className={`absolute bottom-0 inset-x-0 px-1 py-0.5 text-[10px] ${skipped ? 'bg-gray-200 text-gray-500 line-through' : 'bg-white/90 text-gray-700'}`}>
+                  {page}
+                </span>
+              </button>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
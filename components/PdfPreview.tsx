@@ -0,0 +1,169 @@
+'use client'
+
+import { useEffect, useCallback, useRef, useState } from 'react'
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist'
+
+/**
+ * PDF previews: page thumbnails drawn with pdf.js, and the full document in
+ * the browser's built-in PDF viewer.
+ *
+ * `url` is usually an object URL for a staged File, so nothing is uploaded
+ * to show a preview. pdf.js is loaded on first use and each document is
+ * opened once, however many of its pages are shown.
+ */
+
+type PdfJs = typeof import('pdfjs-dist')
+
+let pdfJs: Promise<PdfJs> | null = null
+
+function loadPdfJs(): Promise<PdfJs> {
+  pdfJs ??= import('pdfjs-dist').then(lib => {
+    lib.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString()
+    return lib
+  })
+  return pdfJs
+}
+
+// Open documents by URL, closed once no thumbnail uses them
+const openDocuments = new Map<string, { document: Promise<PDFDocumentProxy>; users: number }>()
+
+function acquireDocument(url: string): Promise<PDFDocumentProxy> {
+  let open = openDocuments.get(url)
+  if (!open) {
+    open = { document: loadPdfJs().then(lib => lib.getDocument(url).promise), users: 0 }
+    openDocuments.set(url, open)
+  }
+  open.users++
+  return open.document
+}
+
+function releaseDocument(url: string): void {
+  const open = openDocuments.get(url)
+  if (!open || --open.users > 0) return
+  openDocuments.delete(url)
+  open.document.then(doc => doc.destroy()).catch(() => { })
+}
+
+interface PdfPageThumbnailProps {
+  url: string
+  /** 1-based page number */
+  page: number
+  className?: string
+}
+
+/** One page, fitted to the box. Rendered only once it scrolls into view. */
+export function PdfPageThumbnail({ url, page, className = '' }: PdfPageThumbnailProps) {
+  const ref = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [visible, setVisible] = useState(false)
+  const [failed, setFailed] = useState(false)
+
+  useEffect(() => {
+    const el = ref.current
+    if (!el || visible) return
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) setVisible(true)
+    }, { rootMargin: '100px' })
+    observer.observe(el)
+    return () => observer.disconnect()
+  }, [visible])
+
+  useEffect(() => {
+    if (!visible) return
+    let cancelled = false
+    let task: RenderTask | null = null
+    setFailed(false)
+
+    acquireDocument(url)
+      .then(doc => doc.getPage(page))
+      .then(pdfPage => {
+        const box = ref.current
+        const canvas = canvasRef.current
+        if (cancelled || !box || !canvas) return
+        const natural = pdfPage.getViewport({ scale: 1 })
+        const fit = Math.min(box.clientWidth / natural.width, box.clientHeight / natural.height)
+        const viewport = pdfPage.getViewport({ scale: fit * (window.devicePixelRatio || 1) })
+        canvas.width = Math.ceil(viewport.width)
+        canvas.height = Math.ceil(viewport.height)
+        task = pdfPage.render({ canvasContext: canvas.getContext('2d')!, viewport })
+        return task.promise
+      })
+      .catch(err => {
+        if (!cancelled && err?.name !== 'RenderingCancelledException') setFailed(true)
+      })
+
+    return () => {
+      cancelled = true
+      task?.cancel()
+      releaseDocument(url)
+    }
+  }, [visible, url, page])
+
+  return (
+    <div ref={ref} className={`bg-white pointer-events-none flex items-center justify-center ${className}`}>
+      {failed ? (
+        <span className="text-[10px] text-gray-400">No preview</span>
+      ) : (
+        <canvas ref={canvasRef} aria-label={`Page ${page}`} className="max-w-full max-h-full" />
+      )}
+    </div>
+  )
+}
+
+interface PdfViewerModalProps {
+  url: string
+  title: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+/** Full document in an overlay, with the viewer's own page navigation */
+export function PdfViewerModal({ url, title, isOpen, onClose }: PdfViewerModalProps) {
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (e.key === 'Escape') onClose()
+  }, [onClose])
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleKeyDown)
+      document.body.style.overflow = 'hidden'
+    }
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown)
+      document.body.style.overflow = ''
+    }
+  }, [isOpen, handleKeyDown])
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      {/* Backdrop */}
+      <div
+        className="absolute inset-0 bg-black/80 backdrop-blur-sm"
+        onClick={onClose}
+      />
+
+      {/* Close button */}
+      <button
+        onClick={onClose}
+        className="absolute top-4 right-4 z-10 p-2 bg-white/10 hover:bg-white/20 rounded-full text-white transition-colors"
+      >
+        <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <line x1="18" y1="6" x2="6" y2="18" />
+          <line x1="6" y1="6" x2="18" y2="18" />
+        </svg>
+      </button>
+
+      {/* Viewer */}
+      <div className="relative w-[90vw] max-w-5xl h-[90vh] flex flex-col">
+        <iframe
+          src={`${url}#page=1&view=FitH`}
+          title={title}
+          className="flex-1 w-full bg-white rounded shadow-2xl border-0"
+        />
+        <p className="text-center text-white/80 text-sm mt-3 truncate">{title}</p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+'use client'
+
+import { useState } from "react"
+import { ProfileSaveError, usePipelineProfiles } from '@/hooks/usePipelineProfiles'
+import {
+  DETECTION_CONFIDENCE_RANGE,
+  describeOverrides,
+  validateProfile,
+  type PipelineConfigOverrides,
+  type PipelineProfile,
+  type PipelineProfileInput,
+} from '@/lib/pipeline-profiles'
+
+const EMPTY_PROFILE: PipelineProfileInput = { name: '', description: '', overrides: {} }
+
+type Toggle = 'detect_figures' | 'extract_schedules' | 'auto_classify' | 'skip_enrichment'
+
+const TOGGLES: Array<{ key: Toggle; label: string; help: string }> = [
+  { key: 'detect_figures', label: 'Figure detection', help: 'Detect windows and doors in drawings' },
+  { key: 'extract_schedules', label: 'Schedule extraction', help: 'Extract schedule tables' },
+  { key: 'auto_classify', label: 'Auto-classify', help: 'Submit classification without manual review' },
+  { key: 'skip_enrichment', label: 'Skip enrichment', help: 'Stop after classification' },
+]
+
+/**
+ * List and edit the team's pipeline profiles (Settings page).
+ */
+export default function PipelineProfileEditor() {
+  const { profiles, loading, error, create, update, remove } = usePipelineProfiles()
+  const [editingId, setEditingId] = useState<string | 'new' | null>(null)
+  const [draft, setDraft] = useState<PipelineProfileInput>(EMPTY_PROFILE)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const startEdit = (profile: PipelineProfile | null) => {
+    setEditingId(profile ? profile.id : 'new')
+    setDraft(profile ? { name: profile.name, description: profile.description, overrides: { ...profile.overrides } } : EMPTY_PROFILE)
+    setFieldErrors({})
+    setSaveError(null)
+  }
+
+  const setOverride = <K extends keyof PipelineConfigOverrides>(key: K, value: PipelineConfigOverrides[K] | undefined) => {
+    setDraft(prev => {
+      const overrides = { ...prev.overrides, [key]: value }
+      if (value === undefined) delete overrides[key]
+      return { ...prev, overrides }
+    })
+  }
+
+  const handleSave = async () => {
+    const otherNames = profiles.filter(p => p.id !== editingId).map(p => p.name)
+    const errors = validateProfile(draft, otherNames)
+    setFieldErrors(errors)
+    if (Object.keys(errors).length > 0) return
+
+    setSaving(true)
+    setSaveError(null)
+    try {
+      if (editingId === 'new') await create(draft)
+      else if (editingId) await update(editingId, draft)
+      setEditingId(null)
+    } catch (err) {
+      if (err instanceof ProfileSaveError) setFieldErrors(err.fieldErrors)
+      setSaveError(err instanceof Error ? err.message : 'Failed to save profile')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (profile: PipelineProfile) => {
+    if (!confirm(`Delete profile "${profile.name}"? Past runs keep their recorded settings.`)) return
+    try {
+      await remove(profile.id)
+    } catch (err) {
+      setSaveError(err instanceof Error ? err.message : 'Failed to delete profile')
+    }
+  }
+
+  const confidence = draft.overrides.detection_confidence
+
+  return (
+    <div className="bg-white rounded-lg border border-gray-200 p-6 space-y-4">
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading profiles...</p>
+      ) : error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {profiles.map(profile => (
+            <li key={profile.id} className="py-3 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900">{profile.name}</p>
+                {profile.description && <p className="text-sm text-gray-500">{profile.description}</p>}
+                <p className="text-xs text-gray-400 mt-0.5">
+                  {describeOverrides(profile.overrides)}
+                  {profile.updatedBy && ` · edited by ${profile.updatedBy}`}
+                </p>
+              </div>
+              <div className="flex gap-3 text-sm flex-shrink-0">
+                <button onClick={() => startEdit(profile)} className="text-blue-600 hover:text-blue-700">Edit</button>
+                <button onClick={() => handleDelete(profile)} className="text-red-600 hover:text-red-700">Delete</button>
+              </div>
+            </li>
+          ))}
+          {profiles.length === 0 && <li className="py-3 text-sm text-gray-500">No profiles yet.</li>}
+        </ul>
+      )}
+
+      {editingId ? (
+        <div className="pt-4 border-t border-gray-200 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder="e.g. Schedules only"
+            />
+            {fieldErrors.name && <p className="text-sm text-red-600 mt-1">{fieldErrors.name}</p>}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Description</label>
+            <input
+              type="text"
+              value={draft.description}
+              onChange={(e) => setDraft(prev => ({ ...prev, description: e.target.value }))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            />
+            {fieldErrors.description && <p className="text-sm text-red-600 mt-1">{fieldErrors.description}</p>}
+          </div>
+
+          <div className="space-y-2">
+            {TOGGLES.map(({ key, label, help }) => (
+              <div key={key} className="flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-gray-700">{label}</p>
+                  <p className="text-xs text-gray-500">{help}</p>
+                  {fieldErrors[key] && <p className="text-xs text-red-600">{fieldErrors[key]}</p>}
+                </div>
+                <select
+                  value={draft.overrides[key] === undefined ? '' : String(draft.overrides[key])}
+                  onChange={(e) => setOverride(key, e.target.value === '' ? undefined : e.target.value === 'true')}
+                  className="px-2 py-1 text-sm border border-gray-300 rounded"
+                >
+                  <option value="">Default</option>
+                  <option value="true">On</option>
+                  <option value="false">Off</option>
+                </select>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Detection confidence
+            </label>
+            <div className="flex items-center gap-3">
+              <input
+                type="number"
+                value={confidence ?? ''}
+                onChange={(e) => setOverride('detection_confidence', e.target.value === '' ? undefined : Number(e.target.value))}
+                className="w-32 px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                min={DETECTION_CONFIDENCE_RANGE.min}
+                max={DETECTION_CONFIDENCE_RANGE.max}
+                step={0.05}
+                placeholder="Default"
+              />
+              <span className="text-sm text-gray-500">Lower values find more figures (higher recall)</span>
+            </div>
+            {fieldErrors.detection_confidence && <p className="text-sm text-red-600 mt-1">{fieldErrors.detection_confidence}</p>}
+          </div>
+
+          {fieldErrors.overrides && <p className="text-sm text-red-600">{fieldErrors.overrides}</p>}
+          {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+          <div className="flex gap-3">
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save Profile'}
+            </button>
+            <button
+              onClick={() => setEditingId(null)}
+              className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="pt-4 border-t border-gray-200">
+          <button
+            onClick={() => startEdit(null)}
+            className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            New Profile
+          </button>
+          {saveError && <span className="ml-3 text-sm text-red-600">{saveError}</span>}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import { useState } from "react"
+import { ProjectSaveError } from '@/hooks/useProjects'
+import { validateProject, type ProjectInput } from '@/lib/projects'
+
+const FIELDS: Array<{ key: keyof ProjectInput; label: string; placeholder: string }> = [
+  { key: 'name', label: 'Name', placeholder: 'e.g. Storgata 12 renovation' },
+  { key: 'customer', label: 'Customer', placeholder: 'Optional' },
+  { key: 'projectNumber', label: 'Project number', placeholder: 'Optional' },
+  { key: 'address', label: 'Address', placeholder: 'Optional' },
+]
+
+/**
+ * Create or edit form for a project. Validates locally first, then shows the
+ * server's field errors if the save is rejected.
+ */
+export default function ProjectForm({ initial, otherNames, submitLabel, onSubmit, onCancel }: {
+  initial: ProjectInput
+  /** Names of the other projects, for the duplicate check */
+  otherNames: string[]
+  submitLabel: string
+  onSubmit: (input: ProjectInput) => Promise<void>
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState<ProjectInput>(initial)
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const handleSave = async () => {
+    const errors = validateProject(draft, otherNames)
+    setFieldErrors(errors)
+    if (Object.keys(errors).length > 0) return
+
+    setSaving(true)
+    setSaveError(null)
+    try {
+      await onSubmit(draft)
+    } catch (err) {
+      if (err instanceof ProjectSaveError) setFieldErrors(err.fieldErrors)
+      setSaveError(err instanceof Error ? err.message : 'Failed to save project')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-4">
+        {FIELDS.map(({ key, label, placeholder }) => (
+          <div key={key}>
+            <label className="block text-sm font-medium text-gray-700 mb-2">{label}</label>
+            <input
+              type="text"
+              value={draft[key]}
+              onChange={(e) => setDraft(prev => ({ ...prev, [key]: e.target.value }))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              placeholder={placeholder}
+            />
+            {fieldErrors[key] && <p className="text-sm text-red-600 mt-1">{fieldErrors[key]}</p>}
+          </div>
+        ))}
+      </div>
+
+      {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : submitLabel}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
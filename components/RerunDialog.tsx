@@ -0,0 +1,181 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useSession } from 'next-auth/react'
+import { rerunJob, type JobPublic } from '@/hooks/useJobStatus'
+import { usePipelineProfiles } from '@/hooks/usePipelineProfiles'
+import { RESUMABLE_STAGES, getStageLabel, reusedStagesFor, type ResumableStage } from '@/hooks/usePipelineStage'
+import { describeOverrides, type PipelineConfigOverrides } from '@/lib/pipeline-profiles'
+import { formatPageRanges, type PageSelectionOverride } from '@/lib/page-selection'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('RerunDialog')
+
+// '' keeps the previous configuration, DEFAULTS runs without overrides,
+// anything else is a profile ID
+const DEFAULTS = '__defaults__'
+
+interface RerunDialogProps {
+  job: JobPublic
+  isOpen: boolean
+  onClose: () => void
+  onCreated: (job: JobPublic) => void
+}
+
+/**
+ * Confirm a re-run of `job` on its original input, with the same or another
+ * configuration. The previous page selection can be kept either way, and a
+ * completed job can be resumed from a later stage instead of from scratch.
+ */
+export default function RerunDialog({ job, isOpen, onClose, onCreated }: RerunDialogProps) {
+  const { profiles } = usePipelineProfiles()
+  const { data: session } = useSession()
+  const [choice, setChoice] = useState('')
+  const [keepPages, setKeepPages] = useState(true)
+  const [fromStage, setFromStage] = useState<ResumableStage | ''>('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const { page_selection: pageSelection, ...previousOverrides } = (job.config_overrides ?? {}) as
+    PipelineConfigOverrides & { page_selection?: PageSelectionOverride }
+  const selectedProfile = profiles.find(p => p.id === choice)
+
+  useEffect(() => {
+    if (!isOpen) return
+    setChoice('')
+    setKeepPages(true)
+    setFromStage('')
+    setError(null)
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    document.addEventListener('keydown', onKeyDown)
+    return () => document.removeEventListener('keydown', onKeyDown)
+  }, [isOpen, onClose])
+
+  if (!isOpen) return null
+
+  let overrides: PipelineConfigOverrides
+  let profile: { id: string; name: string } | undefined
+  if (choice === '') {
+    overrides = previousOverrides
+    profile = job.profile_id ? { id: job.profile_id, name: job.profile_name || job.profile_id } : undefined
+  } else if (choice === DEFAULTS) {
+    overrides = {}
+  } else {
+    overrides = selectedProfile?.overrides ?? {}
+    profile = selectedProfile && { id: selectedProfile.id, name: selectedProfile.name }
+  }
+
+  const handleSubmit = async () => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      // A resumed run works on the parent's artifacts, so its pages cannot change
+      const keep = keepPages || !!fromStage
+      const configOverrides = { ...overrides, ...(keep && pageSelection && { page_selection: pageSelection }) }
+      const created = await rerunJob(job, Object.keys(configOverrides).length > 0 ? configOverrides : undefined, {
+        profile,
+        fromStage: fromStage || undefined,
+        createdBy: session?.user?.email ?? undefined,
+      })
+      log.info('Re-run created', { parent: job.id, id: created.id, fromStage })
+      onCreated(created)
+    } catch (err) {
+      log.error('Re-run failed', { error: err instanceof Error ? err.message : String(err) })
+      setError(err instanceof Error ? err.message : 'Re-run failed')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/40" onClick={onClose} />
+      <div className="relative w-full max-w-md mx-4 bg-white rounded-lg border border-gray-200 shadow-xl p-5 space-y-4">
+        <div>
+          <h2 className="text-base font-semibold text-gray-900">Re-run job</h2>
+          <p className="text-sm text-gray-500 truncate" title={job.doc_name}>
+            {job.doc_name} · from run <span className="font-mono">{job.id.slice(0, 8)}</span>
+          </p>
+        </div>
+
+        {!job.input_url ? (
+          <p className="text-sm text-red-600">This job has no recorded input, so it cannot be re-run. Upload the document again instead.</p>
+        ) : (
+          <>
+            <label className="block text-sm text-gray-700">
+              Configuration
+              <select
+                value={choice}
+                onChange={(e) => setChoice(e.target.value)}
+                className="mt-1 w-full px-2 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded"
+              >
+                <option value="">Same as before{job.profile_name ? ` (${job.profile_name})` : ''}</option>
+                <option value={DEFAULTS}>Pipeline defaults</option>
+                {profiles.map(p => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            </label>
+            <p className="text-xs text-gray-500">{describeOverrides(overrides)}</p>
+
+            {job.status === 'completed' && (
+              <div>
+                <label className="block text-sm text-gray-700">
+                  Start from
+                  <select
+                    value={fromStage}
+                    onChange={(e) => setFromStage(e.target.value as ResumableStage | '')}
+                    className="mt-1 w-full px-2 py-1.5 text-sm text-gray-900 bg-white border border-gray-300 rounded"
+                  >
+                    <option value="">Beginning (full run)</option>
+                    {RESUMABLE_STAGES.map(stage => (
+                      <option key={stage} value={stage}>{getStageLabel(stage)}</option>
+                    ))}
+                  </select>
+                </label>
+                {fromStage && (
+                  <p className="text-xs text-gray-500 mt-1">
+                    Reuses {reusedStagesFor(fromStage).map(getStageLabel).join(', ')} from this run;
+                    settings that only affect those stages have no effect.
+                  </p>
+                )}
+              </div>
+            )}
+
+            {pageSelection && (
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={keepPages || !!fromStage}
+                  disabled={!!fromStage}
+                  onChange={(e) => setKeepPages(e.target.checked)}
+                />
+                Only pages {formatPageRanges(pageSelection.pages)}, as before
+              </label>
+            )}
+          </>
+        )}
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <div className="flex justify-end gap-2 pt-2 border-t border-gray-100">
+          <button
+            onClick={onClose}
+            className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={submitting || !job.input_url}
+            className="px-3 py-1.5 text-sm font-medium text-white bg-gray-900 rounded hover:bg-gray-800 disabled:opacity-50"
+          >
+            {submitting ? 'Starting…' : 'Re-run'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,64 @@
+'use client'
+
+import { useState } from 'react'
+import { MAX_TAGS, normalizeTags } from '@/lib/projects'
+
+interface TagInputProps {
+  value: string[]
+  onChange: (tags: string[]) => void
+  disabled?: boolean
+  placeholder?: string
+}
+
+/**
+ * Free tags as removable chips. Enter or a comma adds what was typed;
+ * Backspace in the empty field removes the last tag.
+ */
+export default function TagInput({ value, onChange, disabled, placeholder = 'Add tag' }: TagInputProps) {
+  const [draft, setDraft] = useState('')
+
+  const commit = () => {
+    if (!draft.trim()) return
+    onChange(normalizeTags([...value, ...draft.split(',')]))
+    setDraft('')
+  }
+
+  return (
+    <div className={`flex flex-wrap items-center gap-1 px-2 py-1 min-h-[34px] bg-white border border-gray-300 rounded-md ${disabled ? 'opacity-50' : ''}`}>
+      {value.map(tag => (
+        <span key={tag} className="inline-flex items-center gap-1 px-1.5 py-0.5 text-xs text-gray-700 bg-gray-100 rounded">
+          {tag}
+          {!disabled && (
+            <button
+              type="button"
+              onClick={() => onChange(value.filter(t => t !== tag))}
+              className="text-gray-400 hover:text-gray-700"
+              title={`Remove ${tag}`}
+            >
+              ×
+            </button>
+          )}
+        </span>
+      ))}
+      {value.length < MAX_TAGS && (
+        <input
+          type="text"
+          value={draft}
+          disabled={disabled}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' || e.key === ',') {
+              e.preventDefault()
+              commit()
+            } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+              onChange(value.slice(0, -1))
+            }
+          }}
+          onBlur={commit}
+          placeholder={value.length === 0 ? placeholder : ''}
+          className="flex-1 min-w-[80px] text-sm text-gray-900 bg-transparent outline-none"
+        />
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,10 @@
 import React from 'react'
 import { usePipelineStage } from '@/hooks/usePipelineStage'
 import { type PipelineStatus } from '@/fastapi/api'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { useEta } from '@/hooks/useEta'
+import { estimateJobEta, formatEta, type JobEta } from '@/lib/eta'
+import { StageTimeline } from './StageTimeline'
 
 // Simple SVG icons to avoid external dependencies
 function CheckIcon({ className, size = 20 }: { className?: string; size?: number }) {
@@ -30,11 +34,23 @@ interface PipelineStageIndicatorProps {
   stageLabel?: string
   /** Override progress percentage */
   stageProgress?: number
+  /** Stages taken over from an earlier run instead of recomputed */
+  reusedStages?: string[]
+  /** Detailed mode: also show the per-stage timeline of `job` */
+  detailed?: boolean
+  /** Job shown; enables the remaining-time estimate while it runs */
+  job?: JobPublic | null
   size?: 'sm' | 'md' | 'lg'
   showLabels?: boolean
   className?: string
 }
 
+const ETA_BASIS: Record<JobEta['basis'], string> = {
+  stages: 'From recent stage times, for the stages still ahead',
+  profile: 'From recent runs with the same profile',
+  overall: 'From recent runs of all profiles',
+}
+
 const STAGE_CONFIG = [
   { key: 'detection' as const, label: 'Detection' },
   { key: 'intake' as const, label: 'Intake' },
@@ -46,7 +62,7 @@ const STAGE_CONFIG = [
 
 interface StageIndicatorNodeProps {
   stage: typeof STAGE_CONFIG[number]
-  status: 'completed' | 'current' | 'upcoming'
+  status: 'completed' | 'reused' | 'current' | 'upcoming'
   showLabel: boolean
   size: 'sm' | 'md' | 'lg'
 }
@@ -61,11 +77,12 @@ function StageIndicatorNode({ stage, status, showLabel, size }: StageIndicatorNo
   // Design system: slate palette, borders-only depth, emerald for success, blue accent
   const colors = {
     completed: 'bg-emerald-500 text-white',
+    reused: 'bg-white text-emerald-600 border-2 border-dashed border-emerald-400',
     current: 'bg-blue-500 text-white border-[3px] border-blue-200 animate-pulse',
     upcoming: 'bg-slate-100 text-slate-400 border border-slate-200',
   }
 
-  const Icon = status === 'completed' ? CheckIcon : CircleIcon
+  const Icon = status === 'completed' || status === 'reused' ? CheckIcon : CircleIcon
 
   return (
     <div className="flex flex-col items-center">
@@ -84,6 +101,9 @@ function StageIndicatorNode({ stage, status, showLabel, size }: StageIndicatorNo
           {stage.label}
         </span>
       )}
+      {showLabel && status === 'reused' && (
+        <span className="text-[10px] text-slate-400 whitespace-nowrap">reused</span>
+      )}
     </div>
   )
 }
@@ -93,6 +113,9 @@ export function PipelineStageIndicator({
   currentStage,
   stageLabel,
   stageProgress = 0,
+  reusedStages = [],
+  detailed = false,
+  job = null,
   size = 'md',
   showLabels = true,
   className = '',
@@ -105,6 +128,10 @@ export function PipelineStageIndicator({
   const actualLabel = stageLabel || derivedLabel
   const actualProgress = stageProgress || derivedProgress
 
+  const running = !!job && !['completed', 'failed', 'cancelled'].includes(job.status)
+  const { model: etaModel, now } = useEta(running)
+  const eta = job && running ? estimateJobEta(job, etaModel, now) : null
+
   // Map downloading/uploading to nearest visual stage
   // downloading = before detection (all upcoming), uploading = past integration
   const VISUAL_STAGE_MAP: Record<string, string> = {
@@ -134,8 +161,8 @@ export function PipelineStageIndicator({
         {/* Stage nodes */}
         <div className="relative flex justify-between items-start">
           {STAGE_CONFIG.map((stage, index) => {
-            let nodeStatus: 'completed' | 'current' | 'upcoming' = 'upcoming'
-            if (index < currentIndex) nodeStatus = 'completed'
+            let nodeStatus: 'completed' | 'reused' | 'current' | 'upcoming' = 'upcoming'
+            if (index < currentIndex) nodeStatus = reusedStages.includes(stage.key) ? 'reused' : 'completed'
             else if (index === currentIndex) {
               // "Complete" stage is special - it means done, not in-progress
               nodeStatus = actualStage === 'complete' ? 'completed' : 'current'
@@ -154,12 +181,37 @@ export function PipelineStageIndicator({
         </div>
       </div>
 
+      {/* Reused vs recomputed legend (resumed runs only) */}
+      {showLabels && reusedStages.length > 0 && (
+        <div className="flex justify-center gap-4 mt-3 text-[11px] text-slate-500">
+          <span className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-full bg-white border-2 border-dashed border-emerald-400" />
+            Reused from earlier run
+          </span>
+          <span className="flex items-center gap-1.5">
+            <span className="h-2.5 w-2.5 rounded-full bg-emerald-500" />
+            Recomputed
+          </span>
+        </div>
+      )}
+
       {/* Current stage status text */}
       {showLabels && actualLabel && (
         <div className="text-center mt-4">
           <span className="text-xs font-semibold text-blue-700 uppercase tracking-wide">
             {actualLabel}
           </span>
+          {eta && (
+            <span className="block text-xs text-slate-500 mt-1" title={ETA_BASIS[eta.basis]}>
+              {formatEta(eta)}
+            </span>
+          )}
+        </div>
+      )}
+
+      {detailed && job && (
+        <div className="mt-4 pt-4 border-t border-slate-100">
+          <StageTimeline job={job} />
         </div>
       )}
     </div>
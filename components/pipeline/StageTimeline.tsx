@@ -0,0 +1,116 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { useObservedStages } from '@/hooks/useObservedStages'
+import { buildStageTimeline, formatDuration, type StageTimelineState } from '@/lib/stage-timeline'
+
+const STATE_STYLES: Record<StageTimelineState, { bar: string; label: string }> = {
+  done: { bar: 'bg-emerald-500', label: 'text-slate-700' },
+  running: { bar: 'bg-blue-500 animate-pulse', label: 'text-blue-700' },
+  waiting: { bar: 'bg-amber-400', label: 'text-amber-700' },
+  reused: { bar: 'bg-emerald-200', label: 'text-slate-400' },
+  pending: { bar: 'bg-slate-200', label: 'text-slate-400' },
+}
+
+const formatTime = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleTimeString('no-NO', { hour: '2-digit', minute: '2-digit', second: '2-digit' }) : '-'
+
+/**
+ * Stage-by-stage timeline of a job: start, end and duration per stage, with
+ * bars scaled to the longest stage. Updates every second while the job runs.
+ * Stage times come from the job's stage_history; until the Jobs API reports
+ * it (see lib/stage-timeline) only stages watched in this tab have times,
+ * and the timeline says so.
+ */
+export function StageTimeline({ job }: { job: JobPublic }) {
+  const observed = useObservedStages(job)
+  const [now, setNow] = useState(() => Date.now())
+  const running = !['completed', 'failed', 'cancelled'].includes(job.status)
+
+  useEffect(() => {
+    if (!running) return
+    const timer = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [running])
+
+  const timeline = buildStageTimeline(job, observed, now)
+  const longest = Math.max(1, ...timeline.entries.map(e => e.durationMs ?? 0))
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-x-6 gap-y-1 text-xs text-slate-500">
+        <span>Queued <span className="font-medium text-slate-700 tabular-nums">{formatDuration(timeline.queuedMs)}</span></span>
+        <span>{running ? 'Running for' : 'Total'} <span className="font-medium text-slate-700 tabular-nums">{formatDuration(timeline.totalMs)}</span></span>
+        {timeline.entries.some(e => e.waitMs > 0) && (
+          <span>
+            Waiting for review{' '}
+            <span className="font-medium text-amber-700 tabular-nums">
+              {formatDuration(timeline.entries.reduce((sum, e) => sum + e.waitMs, 0))}
+            </span>
+          </span>
+        )}
+      </div>
+
+      {timeline.source !== 'server' && (
+        <p className="text-xs text-slate-400">
+          The Jobs API does not record per-stage times yet.{' '}
+          {timeline.source === 'observed'
+            ? 'The times below were seen from this tab; stages it did not watch have none.'
+            : 'They are only shown for stages watched in a tab while the job runs.'}
+        </p>
+      )}
+      {timeline.source && (
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="text-left text-slate-400">
+              <th className="font-medium py-1 pr-3">Stage</th>
+              <th className="font-medium py-1 pr-3">Started</th>
+              <th className="font-medium py-1 pr-3">Ended</th>
+              <th className="font-medium py-1 pr-3 text-right">Duration</th>
+              <th className="font-medium py-1 w-1/3" />
+            </tr>
+          </thead>
+          <tbody>
+            {timeline.entries.map(entry => {
+              const styles = STATE_STYLES[entry.state]
+              const width = entry.durationMs ? Math.max(2, (entry.durationMs / longest) * 100) : 0
+              const waitWidth = entry.durationMs ? (entry.waitMs / entry.durationMs) * width : 0
+              return (
+                <tr key={entry.key} className="border-t border-slate-100">
+                  <td className={`py-1.5 pr-3 font-medium ${styles.label}`}>
+                    {entry.label}
+                    {entry.state === 'reused' && <span className="ml-1 font-normal">(reused)</span>}
+                    {entry.state === 'waiting' && <span className="ml-1 font-normal">(waiting for review)</span>}
+                  </td>
+                  <td className="py-1.5 pr-3 text-slate-500 tabular-nums" title={entry.approximate ? 'Already running when first seen' : undefined}>
+                    {entry.approximate && entry.startedAt ? 'before ' : ''}{formatTime(entry.startedAt)}
+                  </td>
+                  <td className="py-1.5 pr-3 text-slate-500 tabular-nums">{entry.state === 'running' || entry.state === 'waiting' ? '…' : formatTime(entry.endedAt)}</td>
+                  <td className="py-1.5 pr-3 text-right text-slate-700 tabular-nums">
+                    {formatDuration(entry.durationMs)}
+                    {entry.waitMs > 0 && (
+                      <span className="block text-[10px] text-amber-700">{formatDuration(entry.waitMs)} waiting</span>
+                    )}
+                  </td>
+                  <td className="py-1.5">
+                    <div className="relative h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div className={`absolute inset-y-0 left-0 rounded-full ${styles.bar}`} style={{ width: `${width}%` }} />
+                      {waitWidth > 0 && (
+                        <div
+                          className="absolute inset-y-0 bg-amber-300"
+                          style={{ left: `${width - waitWidth}%`, width: `${waitWidth}%` }}
+                          title="Waiting for classification review"
+                        />
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  )
+}
@@ -1,2 +1,3 @@
 export { PipelineStageIndicator } from './PipelineStageIndicator'
 export { JsonPendingState } from './JsonPendingState'
+export { StageTimeline } from './StageTimeline'
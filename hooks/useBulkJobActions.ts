@@ -0,0 +1,171 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import { formatBytes } from '@/lib/format-bytes'
+import { cancelJobById, deleteJob, rerunJob, type JobPublic } from '@/hooks/useJobStatus'
+
+const log = createLogger('useBulkJobActions')
+
+export type BulkAction = 'cancel' | 'delete' | 'download' | 'rerun'
+
+export const BULK_ACTIONS: Record<BulkAction, { label: string; description: string; destructive: boolean }> = {
+  cancel: { label: 'Cancel', description: 'Stop the selected jobs that are still running.', destructive: true },
+  delete: { label: 'Delete', description: 'Delete the selected jobs and their results. This cannot be undone.', destructive: true },
+  download: { label: 'Download', description: 'Download the results of the selected completed jobs as one ZIP archive.', destructive: false },
+  rerun: { label: 'Re-run', description: 'Start a new job for each selected run, on the same input with the same configuration.', destructive: false },
+}
+
+/** Outcome of a bulk action for one job */
+export interface BulkJobResult {
+  jobId: string
+  docName: string
+  ok: boolean
+  message: string
+  /** Not attempted: the action does not apply to the job */
+  skipped?: boolean
+  /** Storage freed by a delete */
+  freedBytes?: number
+  /** Job created by a re-run */
+  createdJobId?: string
+}
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled']
+// Requests in flight at once for per-job actions
+const CONCURRENCY = 4
+// Jobs per archive (the archive route's limit); larger selections download in parts
+const ARCHIVE_CHUNK = 50
+
+/**
+ * Why `action` does not apply to `job`, or null when it does. Running jobs
+ * are not deleted; they have to be cancelled first.
+ */
+export function bulkSkipReason(action: BulkAction, job: JobPublic): string | null {
+  const finished = TERMINAL_STATUSES.includes(job.status)
+  switch (action) {
+    case 'cancel':
+      return finished || job.status === 'cancellation_requested' ? 'Already finished' : null
+    case 'delete':
+      return finished || job.status === 'classification_complete' ? null : 'Still running, cancel it first'
+    case 'download':
+      return job.status === 'completed' ? null : 'No results yet'
+    case 'rerun':
+      if (!job.input_url) return 'No recorded input'
+      return finished || job.status === 'classification_complete' ? null : 'Still running'
+  }
+}
+
+// Re-run with the job's own configuration and profile
+export function rerunSame(job: JobPublic, createdBy?: string) {
+  const profile = job.profile_id ? { id: job.profile_id, name: job.profile_name || job.profile_id } : undefined
+  return rerunJob(job, job.config_overrides ?? undefined, { profile, createdBy })
+}
+
+async function downloadArchive(jobs: JobPublic[]): Promise<BulkJobResult[]> {
+  const docNames = Object.fromEntries(jobs.map(job => [job.id, job.doc_name]))
+  const res = await fetch(api.jobArchive.create(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ids: jobs.map(job => job.id), names: docNames }),
+  })
+
+  let report: { jobId: string; ok: boolean; error?: string }[]
+  if (res.ok) {
+    const header = res.headers.get('X-Archive-Report')
+    report = header ? JSON.parse(decodeURIComponent(header)) : jobs.map(job => ({ jobId: job.id, ok: true }))
+    const blob = await res.blob()
+    const filename = res.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'runs.zip'
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    link.click()
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  } else {
+    const body = await res.json().catch(() => ({}))
+    if (!body.report) throw new Error(body.error || `Download failed: ${res.statusText}`)
+    report = body.report
+  }
+
+  return report.map(entry => ({
+    jobId: entry.jobId,
+    docName: docNames[entry.jobId] ?? entry.jobId,
+    ok: entry.ok,
+    message: entry.ok ? 'Added to archive' : entry.error || 'Download failed',
+  }))
+}
+
+/**
+ * Run one action over several jobs and collect a result per job. Jobs the
+ * action does not apply to are reported as skipped rather than attempted;
+ * a failure on one job never stops the others.
+ */
+export function useBulkJobActions() {
+  const [running, setRunning] = useState(false)
+  const [results, setResults] = useState<BulkJobResult[] | null>(null)
+
+  const run = useCallback(async (action: BulkAction, jobs: JobPublic[], { createdBy }: { createdBy?: string } = {}) => {
+    setRunning(true)
+    setResults([])
+    const collected: BulkJobResult[] = []
+    const record = (result: BulkJobResult) => {
+      collected.push(result)
+      setResults([...collected])
+    }
+
+    const eligible: JobPublic[] = []
+    for (const job of jobs) {
+      const reason = bulkSkipReason(action, job)
+      if (reason) record({ jobId: job.id, docName: job.doc_name, ok: false, skipped: true, message: reason })
+      else eligible.push(job)
+    }
+
+    try {
+      if (action === 'download') {
+        for (let i = 0; i < eligible.length; i += ARCHIVE_CHUNK) {
+          const chunk = eligible.slice(i, i + ARCHIVE_CHUNK)
+          try {
+            const report = await downloadArchive(chunk)
+            report.forEach(record)
+          } catch (err) {
+            const message = err instanceof Error ? err.message : 'Download failed'
+            chunk.forEach(job => record({ jobId: job.id, docName: job.doc_name, ok: false, message }))
+          }
+        }
+        return collected
+      }
+
+      const queue = [...eligible]
+      const worker = async () => {
+        for (let job = queue.shift(); job; job = queue.shift()) {
+          try {
+            if (action === 'cancel') {
+              await cancelJobById(job.id)
+              record({ jobId: job.id, docName: job.doc_name, ok: true, message: 'Cancellation requested' })
+            } else if (action === 'delete') {
+              const { freed, errors } = await deleteJob(job.id)
+              const message = `Deleted, freed ${formatBytes(freed.bytes)}${errors.length > 0 ? ` (${errors.length} cleanup ${errors.length === 1 ? 'problem' : 'problems'})` : ''}`
+              record({ jobId: job.id, docName: job.doc_name, ok: true, message, freedBytes: freed.bytes })
+            } else {
+              const created = await rerunSame(job, createdBy)
+              record({ jobId: job.id, docName: job.doc_name, ok: true, message: 'Re-run started', createdJobId: created.id })
+            }
+          } catch (err) {
+            log.warn(`Bulk ${action} failed`, { jobId: job.id, error: err instanceof Error ? err.message : String(err) })
+            record({ jobId: job.id, docName: job.doc_name, ok: false, message: err instanceof Error ? err.message : 'Failed' })
+          }
+        }
+      }
+      await Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker))
+      log.info(`Bulk ${action} finished`, { jobs: jobs.length, failed: collected.filter(r => !r.ok).length })
+      return collected
+    } finally {
+      setRunning(false)
+    }
+  }, [])
+
+  const reset = useCallback(() => setResults(null), [])
+
+  return { run, running, results, reset }
+}
@@ -0,0 +1,75 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import type { EtaAccuracy, EtaModel } from '@/lib/eta'
+
+const log = createLogger('useEta')
+
+const REFRESH_MS = 5 * 60 * 1000
+const TICK_MS = 5000
+
+interface EtaSnapshot {
+  model: EtaModel
+  accuracy: EtaAccuracy
+}
+
+// One fetch shared by every component on the page
+let cached: { snapshot: EtaSnapshot; fetchedAt: number } | null = null
+let pending: Promise<EtaSnapshot | null> | null = null
+
+function loadSnapshot(): Promise<EtaSnapshot | null> {
+  if (cached && Date.now() - cached.fetchedAt < REFRESH_MS) return Promise.resolve(cached.snapshot)
+  pending ??= fetch(api.eta.model(), { cache: 'no-store' })
+    .then(res => {
+      if (!res.ok) throw new Error(`Failed to load ETA model: ${res.statusText}`)
+      return res.json() as Promise<EtaSnapshot>
+    })
+    .then(snapshot => {
+      cached = { snapshot, fetchedAt: Date.now() }
+      return snapshot
+    })
+    .catch(err => {
+      log.warn('ETA model unavailable', { error: err instanceof Error ? err.message : String(err) })
+      return cached?.snapshot ?? null
+    })
+    .finally(() => {
+      pending = null
+    })
+  return pending
+}
+
+/**
+ * The ETA model and its measured accuracy, plus a clock that ticks every few
+ * seconds so estimates (lib/eta estimateJobEta) count down. Nothing is
+ * fetched or ticked while `enabled` is false (e.g. no running jobs).
+ */
+export function useEta(enabled = true) {
+  const [snapshot, setSnapshot] = useState<EtaSnapshot | null>(cached?.snapshot ?? null)
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    if (!enabled) return
+    let cancelled = false
+    const refresh = () => loadSnapshot().then(s => { if (!cancelled && s) setSnapshot(s) })
+    refresh()
+    const timer = setInterval(refresh, REFRESH_MS)
+    return () => {
+      cancelled = true
+      clearInterval(timer)
+    }
+  }, [enabled])
+
+  useEffect(() => {
+    if (!enabled) return
+    const timer = setInterval(() => setNow(Date.now()), TICK_MS)
+    return () => clearInterval(timer)
+  }, [enabled])
+
+  return {
+    model: snapshot?.model ?? null,
+    accuracy: snapshot?.accuracy ?? null,
+    now,
+  }
+}
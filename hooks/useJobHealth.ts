@@ -0,0 +1,51 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import type { JobHealth } from '@/services/jobMonitor'
+
+const log = createLogger('useJobHealth')
+
+const REFRESH_MS = 60 * 1000
+
+/**
+ * Remove an orphaned run's local folder. Returns the bytes freed, or null
+ * when the server found the run is no longer orphaned and kept it.
+ */
+export async function removeOrphan(runId: string): Promise<number | null> {
+  const res = await fetch(api.jobHealth.orphan(runId), { method: 'DELETE' })
+  if (res.status === 409) return null
+  const data = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(data.error || `Failed to remove orphaned run: ${res.statusText}`)
+  if (data.errors?.length) throw new Error(data.errors[0])
+  return data.freed.bytes
+}
+
+/**
+ * Stale jobs and orphaned local runs from the server's job monitor,
+ * refreshed every minute. `recheck` asks the server to check right away.
+ */
+export function useJobHealth() {
+  const [health, setHealth] = useState<JobHealth | null>(null)
+
+  const request = useCallback(async (method: 'GET' | 'POST') => {
+    try {
+      const res = await fetch(api.jobHealth.status(), { method, cache: 'no-store' })
+      if (!res.ok) throw new Error(`Failed to load job health: ${res.statusText}`)
+      setHealth(await res.json())
+    } catch (err) {
+      log.warn('Job health unavailable', { error: err instanceof Error ? err.message : String(err) })
+    }
+  }, [])
+
+  useEffect(() => {
+    request('GET')
+    const timer = setInterval(() => request('GET'), REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [request])
+
+  const recheck = useCallback(() => request('POST'), [request])
+
+  return { health, recheck }
+}
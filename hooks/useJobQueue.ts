@@ -0,0 +1,57 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import type { QueuedJob } from '@/lib/job-queue'
+import type { QueueStatus } from '@/services/jobQueue'
+
+const log = createLogger('useJobQueue')
+
+const REFRESH_MS = 15 * 1000
+
+/**
+ * Queue positions, worker capacity and estimated start times, refreshed
+ * while `enabled` (i.e. while the page shows pending jobs).
+ * `setPriority` is for admins (queue.canPrioritize).
+ */
+export function useJobQueue(enabled: boolean) {
+  const [queue, setQueue] = useState<QueueStatus | null>(null)
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(api.queue.status(), { cache: 'no-store' })
+      if (!res.ok) throw new Error(`Failed to load queue: ${res.statusText}`)
+      setQueue(await res.json())
+    } catch (err) {
+      log.warn('Queue status unavailable', { error: err instanceof Error ? err.message : String(err) })
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!enabled) return
+    load()
+    const timer = setInterval(load, REFRESH_MS)
+    return () => clearInterval(timer)
+  }, [enabled, load])
+
+  const byJobId = useMemo(
+    () => new Map<string, QueuedJob>(queue?.queued.map(q => [q.jobId, q]) ?? []),
+    [queue]
+  )
+
+  const setPriority = useCallback(async (jobId: string, priority: number) => {
+    const res = await fetch(api.admin.jobPriority(jobId), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ priority }),
+    })
+    if (!res.ok) {
+      const body = await res.json().catch(() => ({}))
+      throw new Error(body.error || `Failed to change priority: ${res.statusText}`)
+    }
+    await load()
+  }, [load])
+
+  return { queue, byJobId, setPriority }
+}
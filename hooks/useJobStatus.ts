@@ -1,8 +1,11 @@
 /**
- * Hook for polling job status from the v4 Jobs API.
+ * Hook for following job status from the v4 Jobs API.
  * 
- * This hook polls GET /api/jobs/{id} every few seconds until
- * the job reaches a terminal state (completed, failed, cancelled).
+ * This hook subscribes to the job event stream (/api/job-events) and falls
+ * back to polling GET /api/jobs/{id} when the stream is unavailable, until
+ * the job reaches a terminal state (completed, failed, cancelled). Polling
+ * follows lib/polling: the Settings interval, backoff while the job is in
+ * one stage, paused in hidden tabs, and retries on network errors.
  */
 
 'use client';
@@ -18,6 +21,7 @@ export type JobStatus =
   | 'downloading'
   | 'running'
   | 'classification_pending'
+  | 'classification_complete'
   | 'uploading'
   | 'completed'
   | 'failed'
@@ -35,28 +39,105 @@ export interface JobPublic {
   created_at: string;
   started_at: string | null;
   completed_at: string | null;
+  /** Last change to the job record, when the API reports it */
+  updated_at?: string | null;
   manifest_url: string | null;
   error_message: string | null;
+  /** Queue priority; higher starts first, default 0 (see lib/job-queue) */
+  priority?: number | null;
+  /** Machine-readable failure code from the worker, e.g. INPUT_ENCRYPTED (see lib/failure-diagnostics) */
+  error_code?: string | null;
+  /** URL the input document was fetched from */
+  input_url?: string | null;
+  /** SHA-256 of the input document, recorded at creation for duplicate detection */
+  content_hash?: string | null;
+  /** Earlier job the user knowingly re-processed the same document over */
+  duplicate_of?: string | null;
+  /** Pipeline profile chosen at upload (name kept even if the profile is later deleted) */
+  profile_id?: string | null;
+  profile_name?: string | null;
+  config_overrides?: Record<string, unknown> | null;
+  /** Set when the job came from an uploaded archive (batch named after it) */
+  batch_id?: string | null;
+  batch_name?: string | null;
+  /** Job this one re-runs (same input, possibly another configuration) */
+  parent_job_id?: string | null;
+  /** Stage a re-run started at, reusing the parent's artifacts for earlier stages */
+  resume_from_stage?: string | null;
+  /** Stages whose artifacts were reused, as reported by the worker */
+  reused_stages?: string[] | null;
+  /** Stage/status stretches, oldest first; not reported by the Jobs API yet (see lib/stage-timeline) */
+  stage_history?: StageHistoryEntry[] | null;
+  /** Size of the work, reported by the worker once known */
+  page_count?: number | null;
+  figure_count?: number | null;
+  /** Email of the signed-in user who started the job */
+  created_by?: string | null;
+  /** Project the job belongs to (see lib/projects) and free tags */
+  project_id?: string | null;
+  tags?: string[] | null;
+  /** Products in the integration document, reported by the worker once known */
+  product_count?: number | null;
+}
+
+/**
+ * One stretch of a job in one stage. A new entry starts whenever the stage
+ * or the status changes, so waiting in classification_pending is its own
+ * entry within the classification stage.
+ */
+export interface StageHistoryEntry {
+  stage: string;
+  status: JobStatus;
+  started_at: string;
+  /** null while the job is still in this stretch */
+  ended_at: string | null;
+}
+
+/** Extra fields recorded on the job record at creation */
+export interface CreateJobOptions {
+  contentHash?: string;
+  duplicateOf?: string;
+  profile?: { id: string; name: string };
+  batch?: { id: string; name: string };
+  parentJobId?: string;
+  /** Start at this stage, reusing the parent job's artifacts for earlier stages */
+  resumeFromStage?: ResumableStage;
+  /** Signed-in user starting the job, for filtering the runs history */
+  createdBy?: string;
+  projectId?: string;
+  tags?: string[];
 }
 
 // Terminal states where we stop polling
 const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
 
+// Statuses in which the worker is done with a job's files
+const DELETABLE_STATUSES: JobStatus[] = [...TERMINAL_STATUSES, 'classification_complete'];
+
 // Import centralized API config
-import { getFastApiUrl, api } from '@/lib/api-config';
+import { getFastApiUrl, api, hasFastApiUrlOverride } from '@/lib/api-config';
+import { subscribeJobEvents } from '@/lib/job-events';
+import { findInputUsers, inputUsersBlockDelete, listJobs } from '@/lib/jobs-api';
+import { PollHttpError, startAdaptivePolling, type AdaptivePoller } from '@/lib/polling';
+import type { ResumableStage } from '@/hooks/usePipelineStage';
 
 interface UseJobStatusOptions {
-  /** Polling interval in ms (default: 5000) */
+  /** Base polling interval in ms (default: the Settings value, else 5000) */
   pollInterval?: number;
   /** Whether to start polling immediately (default: true) */
   enabled?: boolean;
+  /** Use the job event stream when available (default: true) */
+  stream?: boolean;
 }
 
 interface UseJobStatusResult {
   job: JobPublic | null;
   error: string | null;
   isLoading: boolean;
+  /** Updates are arriving (streamed or polled) and the job is not terminal */
   isPolling: boolean;
+  /** The last poll failed on a transient error and is being retried */
+  isReconnecting: boolean;
   /** Manually refetch job status */
   refetch: () => Promise<void>;
   /** Cancel the job */
@@ -67,16 +148,50 @@ export function useJobStatus(
   jobId: string | null,
   options: UseJobStatusOptions = {}
 ): UseJobStatusResult {
-  const { pollInterval = 5000, enabled = true } = options;
+  const { pollInterval, enabled = true, stream = true } = options;
 
   const [job, setJob] = useState<JobPublic | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [isPolling, setIsPolling] = useState(false);
+  const [isReconnecting, setIsReconnecting] = useState(false);
 
   // Use refs to track terminal state without causing re-renders
   const isTerminalRef = useRef(false);
-  const intervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const pollerRef = useRef<AdaptivePoller | null>(null);
+
+  // One request for the job; throws PollHttpError on HTTP errors
+  const requestJob = useCallback(async (): Promise<JobPublic | null> => {
+    if (!jobId) return null;
+
+    log.debug(`Fetching job status for: ${jobId}`);
+
+    // Use centralized API config - direct call to FastAPI
+    const response = await fetch(api.jobs.get(jobId), { cache: 'no-store' });
+
+    log.debug(`Response status: ${response.status}`);
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        throw new PollHttpError('Job not found', 404);
+      }
+      throw new PollHttpError(`Failed to fetch job: ${response.statusText}`, response.status);
+    }
+
+    const data: JobPublic = await response.json();
+
+    log.debug('Job data received', { status: data.status, progress: data.progress_percent });
+    setJob(data);
+    setError(null);
+
+    // Check if we should stop polling - update ref immediately
+    if (TERMINAL_STATUSES.includes(data.status)) {
+      log.info(`Terminal status reached: ${data.status} - stopping polling`);
+      isTerminalRef.current = true;
+      setIsPolling(false);
+    }
+    return data;
+  }, [jobId]);
 
   const fetchJob = useCallback(async () => {
     if (!jobId) return;
@@ -87,50 +202,16 @@ export function useJobStatus(
     }
 
     setIsLoading(true);
-    setError(null);
-
-    log.debug(`Fetching job status for: ${jobId}`);
 
     try {
-      // Use centralized API config - direct call to FastAPI
-      const url = api.jobs.get(jobId);
-      log.debug(`Requesting: ${url}`);
-
-      const response = await fetch(url);
-
-      log.debug(`Response status: ${response.status}`);
-
-      if (!response.ok) {
-        if (response.status === 404) {
-          throw new Error('Job not found');
-        }
-        throw new Error(`Failed to fetch job: ${response.statusText}`);
-      }
-
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const data: JobPublic = await response.json();
-
-      log.debug('Job data received', { status: data.status, progress: data.progress_percent });
-      setJob(data);
-
-      // Check if we should stop polling - update ref immediately
-      if (TERMINAL_STATUSES.includes(data.status)) {
-        log.info(`Terminal status reached: ${data.status} - stopping polling`);
-        isTerminalRef.current = true;
-        setIsPolling(false);
-        // Clear interval immediately
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-          intervalRef.current = null;
-        }
-      }
+      await requestJob();
     } catch (err) {
       log.error(`Fetch error: ${err instanceof Error ? err.message : 'Unknown'}`);
       setError(err instanceof Error ? err.message : 'Unknown error');
     } finally {
       setIsLoading(false);
     }
-  }, [jobId]);
+  }, [jobId, requestJob]);
 
   const cancelJob = useCallback(async (): Promise<boolean> => {
     if (!jobId) return false;
@@ -154,7 +235,7 @@ export function useJobStatus(
     }
   }, [jobId, fetchJob]);
 
-  // Start polling when jobId is set and enabled
+  // Subscribe (or start polling) when jobId is set and enabled
   useEffect(() => {
     if (!jobId || !enabled) {
       setIsPolling(false);
@@ -163,41 +244,71 @@ export function useJobStatus(
 
     // Reset terminal state for new job
     isTerminalRef.current = false;
-
-    // Initial fetch
-    fetchJob();
     setIsPolling(true);
 
-    // Set up polling interval
-    intervalRef.current = setInterval(() => {
-      // Check ref (not stale closure) for terminal state
-      if (isTerminalRef.current) {
-        log.debug('Interval: terminal detected, clearing');
-        if (intervalRef.current) {
-          clearInterval(intervalRef.current);
-          intervalRef.current = null;
-        }
-        setIsPolling(false);
-        return;
-      }
+    const startPolling = () => {
+      pollerRef.current = startAdaptivePolling({
+        interval: pollInterval,
+        poll: async () => {
+          // Check ref (not stale closure) for terminal state
+          if (isTerminalRef.current) return null;
+          const data = await requestJob();
+          if (!data || TERMINAL_STATUSES.includes(data.status)) return null;
+          return `${data.status}|${data.current_stage}|${data.progress_percent}|${data.message}`;
+        },
+        onRetry: (attempt, err) => {
+          log.warn(`Transient fetch error (attempt ${attempt}), retrying`, { error: err instanceof Error ? err.message : String(err) });
+          setIsReconnecting(true);
+        },
+        onRecovered: () => setIsReconnecting(false),
+        onError: (err) => {
+          log.error(`Fetch error: ${err instanceof Error ? err.message : 'Unknown'}`);
+          setError(err instanceof Error ? err.message : 'Unknown error');
+        },
+      });
+    };
 
-      fetchJob();
-    }, pollInterval);
+    let unsubscribe: (() => void) | null = null;
+    if (stream) {
+      unsubscribe = subscribeJobEvents([jobId], {
+        onJob: (data) => {
+          log.debug('Job event received', { status: data.status, progress: data.progress_percent });
+          setJob(data);
+          setError(null);
+          if (TERMINAL_STATUSES.includes(data.status)) {
+            log.info(`Terminal status reached: ${data.status} - closing stream`);
+            isTerminalRef.current = true;
+            setIsPolling(false);
+          }
+        },
+        onJobError: (event) => {
+          setError(event.status === 404 ? 'Job not found' : event.error);
+          setIsPolling(false);
+        },
+        onEnd: () => setIsPolling(false),
+        onUnavailable: () => {
+          if (!isTerminalRef.current) startPolling();
+        },
+      });
+    } else {
+      startPolling();
+    }
 
     return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current);
-        intervalRef.current = null;
-      }
+      unsubscribe?.();
+      pollerRef.current?.stop();
+      pollerRef.current = null;
       setIsPolling(false);
+      setIsReconnecting(false);
     };
-  }, [jobId, enabled, pollInterval, fetchJob]); // Removed job?.status to prevent re-creating interval
+  }, [jobId, enabled, pollInterval, stream, requestJob]); // Removed job?.status to prevent re-creating the poller
 
   return {
     job,
     error,
     isLoading,
     isPolling,
+    isReconnecting,
     refetch: fetchJob,
     cancel: cancelJob,
   };
@@ -210,7 +321,8 @@ export async function createJob(
   inputUrl: string,
   docName: string,
   jobId?: string,
-  configOverrides?: Record<string, unknown>
+  configOverrides?: Record<string, unknown>,
+  options: CreateJobOptions = {}
 ): Promise<JobPublic> {
   // Use centralized API config - direct call to FastAPI
   const url = api.jobs.create();
@@ -227,6 +339,17 @@ export async function createJob(
       input_url: inputUrl,
       doc_name: docName,
       config_overrides: configOverrides,
+      content_hash: options.contentHash,
+      duplicate_of: options.duplicateOf,
+      profile_id: options.profile?.id,
+      profile_name: options.profile?.name,
+      batch_id: options.batch?.id,
+      batch_name: options.batch?.name,
+      parent_job_id: options.parentJobId,
+      resume_from_stage: options.resumeFromStage,
+      created_by: options.createdBy,
+      project_id: options.projectId,
+      tags: options.tags,
     }),
   });
 
@@ -242,3 +365,156 @@ export async function createJob(
   log.info('Job created', { id: job.id, status: job.status });
   return job;
 }
+
+/**
+ * Find earlier jobs whose input had the same content hash (newest first).
+ */
+export async function findJobsByContentHash(contentHash: string): Promise<JobPublic[]> {
+  const jobs = await listJobs(api.jobs.byContentHash(contentHash), job => job.content_hash === contentHash, 'Duplicate lookup failed');
+  return jobs.sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+async function errorDetail(response: Response, fallback: string): Promise<string> {
+  const body = await response.json().catch(() => ({}));
+  return body.detail || body.error || `${fallback}: ${response.statusText}`;
+}
+
+/**
+ * Ask the worker to stop a job (outside of useJobStatus, e.g. for bulk actions).
+ */
+export async function cancelJobById(jobId: string): Promise<void> {
+  const response = await fetch(api.jobs.cancel(jobId), { method: 'POST' });
+  if (!response.ok) throw new Error(await errorDetail(response, 'Failed to cancel job'));
+}
+
+/**
+ * Move a job to another project (null = none) and/or replace its tags.
+ */
+export async function updateJobLabels(
+  jobId: string,
+  labels: { projectId?: string | null; tags?: string[] }
+): Promise<JobPublic> {
+  const response = await fetch(api.jobs.update(jobId), {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      ...(labels.projectId !== undefined && { project_id: labels.projectId }),
+      ...(labels.tags !== undefined && { tags: labels.tags }),
+    }),
+  });
+  if (!response.ok) throw new Error(await errorDetail(response, 'Failed to update job'));
+  return response.json();
+}
+
+export interface DeleteJobResult {
+  freed: { files: number; bytes: number };
+  /** Artifacts left behind (the job itself is gone) */
+  errors: string[];
+}
+
+/**
+ * Delete a finished job: its record in the Jobs API, then its local or blob
+ * artifacts (via /api/runs/[runId]). Active jobs must be cancelled first,
+ * and jobs whose input other jobs read are refused while those exist (see
+ * findInputUsers in lib/jobs-api).
+ *
+ * With another Jobs API set in Settings the server route cannot reach it,
+ * so the job is deleted there directly and its files are left alone (they
+ * belong to that API's storage).
+ */
+export async function deleteJob(jobId: string): Promise<DeleteJobResult> {
+  if (hasFastApiUrlOverride()) {
+    const jobResponse = await fetch(api.jobs.get(jobId), { cache: 'no-store' });
+    if (!jobResponse.ok) throw new Error(await errorDetail(jobResponse, 'Failed to delete job'));
+    const job: JobPublic = await jobResponse.json();
+    if (!DELETABLE_STATUSES.includes(job.status)) throw new Error('Run is still active; cancel it before deleting');
+    const users = await findInputUsers(job);
+    if (users.length > 0) throw new Error(inputUsersBlockDelete(users.length));
+
+    const response = await fetch(api.jobs.delete(jobId), { method: 'DELETE' });
+    if (!response.ok && response.status !== 404) throw new Error(await errorDetail(response, 'Failed to delete job'));
+    return { freed: { files: 0, bytes: 0 }, errors: ['Files were not removed: another Jobs API is set in Settings'] };
+  }
+
+  const response = await fetch(api.runs.delete(jobId), { method: 'DELETE' });
+  if (!response.ok) throw new Error(await errorDetail(response, 'Failed to delete job'));
+  const { freed, errors } = await response.json();
+  return { freed, errors: errors ?? [] };
+}
+
+interface RerunOptions {
+  profile?: { id: string; name: string };
+  /** Resume from this stage instead of running the whole pipeline */
+  fromStage?: ResumableStage;
+  createdBy?: string;
+}
+
+/**
+ * Re-run a job: a new job on the same input, linked to it as its parent.
+ * `configOverrides` replaces the parent's overrides entirely. Resuming from
+ * a stage requires a completed parent, whose artifacts the worker reuses.
+ */
+export async function rerunJob(
+  parent: JobPublic,
+  configOverrides?: Record<string, unknown>,
+  { profile, fromStage, createdBy }: RerunOptions = {}
+): Promise<JobPublic> {
+  if (!parent.input_url) {
+    throw new Error('This job has no recorded input to re-run');
+  }
+  if (fromStage && parent.status !== 'completed') {
+    throw new Error('Only completed jobs can be resumed from a stage');
+  }
+
+  return createJob(parent.input_url, parent.doc_name, undefined, configOverrides, {
+    contentHash: parent.content_hash ?? undefined,
+    profile,
+    batch: parent.batch_id ? { id: parent.batch_id, name: parent.batch_name || parent.batch_id } : undefined,
+    parentJobId: parent.id,
+    resumeFromStage: fromStage,
+    createdBy,
+    // A re-run stays in the parent's project
+    projectId: parent.project_id ?? undefined,
+    tags: parent.tags ?? undefined,
+  });
+}
+
+// Guards against cycles or very long chains of re-runs
+const MAX_LINEAGE_DEPTH = 20;
+
+/**
+ * Every attempt in a job's re-run lineage: the original job and all re-runs
+ * descending from it, oldest first.
+ */
+export async function findJobLineage(job: JobPublic): Promise<JobPublic[]> {
+  const fetchJob = async (jobId: string): Promise<JobPublic | null> => {
+    const response = await fetch(api.jobs.get(jobId), { cache: 'no-store' });
+    return response.ok ? response.json() : null;
+  };
+
+  // Walk up to the original job
+  let root = job;
+  for (let depth = 0; root.parent_job_id && depth < MAX_LINEAGE_DEPTH; depth++) {
+    const parent = await fetchJob(root.parent_job_id);
+    if (!parent) break;
+    root = parent;
+  }
+
+  // Then collect its re-runs breadth-first
+  const lineage = new Map<string, JobPublic>([[root.id, root]]);
+  let level = [root.id];
+  for (let depth = 0; level.length > 0 && depth < MAX_LINEAGE_DEPTH; depth++) {
+    const children = await Promise.all(level.map(parentId =>
+      listJobs(api.jobs.byParent(parentId), child => child.parent_job_id === parentId, 'Lineage lookup failed')
+    ));
+    level = [];
+    for (const child of children.flat()) {
+      if (lineage.has(child.id)) continue;
+      lineage.set(child.id, child);
+      level.push(child.id);
+    }
+  }
+  lineage.set(job.id, job);
+
+  return [...lineage.values()].sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
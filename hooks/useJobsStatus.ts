@@ -0,0 +1,313 @@
+/**
+ * Hook for following the status of many jobs at once.
+ *
+ * Every component that calls useJobsStatus shares one module-level tracker,
+ * so a job shown in two places is only watched once. The tracker holds a
+ * single job event stream for all tracked jobs, or - when streaming is
+ * unavailable - polls them with one batched request at a time (adaptive, see
+ * lib/polling). Each job drops out of the request as soon as it reaches a
+ * terminal state.
+ */
+
+'use client';
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { createLogger } from '@/lib/logger';
+import { api, hasFastApiUrlOverride } from '@/lib/api-config';
+import { MAX_STREAM_JOBS, subscribeJobEvents } from '@/lib/job-events';
+import { PollHttpError, startAdaptivePolling } from '@/lib/polling';
+import type { JobPublic, JobStatus } from '@/hooks/useJobStatus';
+
+const log = createLogger('useJobsStatus');
+
+const TERMINAL_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+interface TrackedJob {
+  job: JobPublic | null;
+  error: string | null;
+  /** Number of mounted hooks watching this job */
+  refs: number;
+  /** Terminal or unknown to the API; no longer requested */
+  done: boolean;
+}
+
+type Transport =
+  | { kind: 'stream'; ids: Set<string>; close: () => void }
+  | { kind: 'poll'; pollNow: () => void; close: () => void };
+
+const tracked = new Map<string, TrackedJob>();
+const listeners = new Set<() => void>();
+let version = 0;
+let transport: Transport | null = null;
+let syncScheduled = false;
+
+function notify() {
+  version++;
+  listeners.forEach(listener => listener());
+}
+
+function activeIds(): string[] {
+  return [...tracked.entries()]
+    .filter(([, entry]) => entry.refs > 0 && !entry.done)
+    .map(([id]) => id);
+}
+
+function applyJob(job: JobPublic) {
+  const entry = tracked.get(job.id);
+  if (!entry) return;
+  entry.job = job;
+  entry.error = null;
+  if (TERMINAL_STATUSES.includes(job.status)) {
+    log.debug(`Terminal status reached: ${job.status}`, { jobId: job.id });
+    entry.done = true;
+  }
+}
+
+function applyError(jobId: string, error: string, done: boolean) {
+  const entry = tracked.get(jobId);
+  if (!entry) return;
+  entry.error = error;
+  if (done) entry.done = true;
+}
+
+/**
+ * Fetch the current record of each job in one request. When the browser
+ * talks to FastAPI directly (URL override) the Next batch route is bypassed
+ * and the jobs are fetched in parallel instead.
+ *
+ * Throws when nothing could be fetched, so the poller can retry transient
+ * failures; jobs that fail alongside successful ones are simply retried on
+ * the next poll.
+ */
+async function fetchJobsBatch(jobIds: string[]): Promise<void> {
+  if (hasFastApiUrlOverride()) {
+    const failures: unknown[] = [];
+    await Promise.all(jobIds.map(async (jobId) => {
+      try {
+        const response = await fetch(api.jobs.get(jobId), { cache: 'no-store' });
+        if (response.status === 404) {
+          applyError(jobId, 'Job not found', true);
+        } else if (!response.ok) {
+          throw new PollHttpError(`Failed to fetch job: ${response.statusText}`, response.status);
+        } else {
+          applyJob(await response.json());
+        }
+      } catch (err) {
+        failures.push(err);
+      }
+    }));
+    if (failures.length === jobIds.length) throw failures[0];
+    return;
+  }
+
+  for (let i = 0; i < jobIds.length; i += MAX_STREAM_JOBS) {
+    const chunk = jobIds.slice(i, i + MAX_STREAM_JOBS);
+    const response = await fetch(api.jobEvents.batch(chunk), { cache: 'no-store' });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new PollHttpError(data.error || `Failed to fetch jobs: ${response.statusText}`, response.status);
+    }
+    (data.jobs as JobPublic[]).forEach(applyJob);
+    (data.missing as string[]).forEach(id => applyError(id, 'Job not found', true));
+  }
+}
+
+// State of the active jobs; the poller backs off while it stays the same
+function activeStateKey(): string {
+  return activeIds()
+    .map(id => {
+      const job = tracked.get(id)?.job;
+      return job ? `${id}|${job.status}|${job.current_stage}|${job.progress_percent}` : id;
+    })
+    .join(',');
+}
+
+function startPolling() {
+  log.info('Polling job status in batches');
+  const current: Transport = { kind: 'poll', pollNow: () => { }, close: () => { } };
+  transport = current;
+
+  const poller = startAdaptivePolling({
+    // The active set is read on every poll, so added jobs are picked up
+    poll: async () => {
+      const ids = activeIds();
+      if (ids.length === 0) {
+        if (transport === current) transport = null;
+        return null;
+      }
+      await fetchJobsBatch(ids);
+      notify();
+      return activeStateKey();
+    },
+    onRetry: (attempt, err) => {
+      log.warn(`Transient batch fetch error (attempt ${attempt}), retrying`, { error: err instanceof Error ? err.message : String(err) });
+    },
+    onError: (err) => {
+      log.error(`Batch fetch error: ${err instanceof Error ? err.message : 'Unknown'}`);
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      activeIds().forEach(id => applyError(id, message, false));
+      notify();
+    },
+  });
+
+  current.pollNow = poller.pollNow;
+  current.close = poller.stop;
+}
+
+function startStream(ids: string[]) {
+  log.debug('Opening job event stream', { jobs: ids.length });
+  const current: Transport = { kind: 'stream', ids: new Set(ids), close: () => { } };
+  transport = current;
+
+  current.close = subscribeJobEvents(ids, {
+    onJob: (job) => {
+      applyJob(job);
+      notify();
+    },
+    onJobError: (event) => {
+      applyError(event.id, event.status === 404 ? 'Job not found' : event.error, true);
+      notify();
+    },
+    onEnd: () => {
+      if (transport !== current) return;
+      transport = null;
+      scheduleSync();
+    },
+    onUnavailable: () => {
+      if (transport !== current) return;
+      transport = null;
+      startPolling();
+    },
+  });
+}
+
+function closeTransport() {
+  transport?.close();
+  transport = null;
+}
+
+/**
+ * Bring the transport in line with the tracked jobs. A stream is kept while
+ * it still covers every active job (finished jobs simply stop producing
+ * events), and only reopened when a job it does not cover is added.
+ */
+function sync() {
+  syncScheduled = false;
+  const ids = activeIds();
+
+  if (ids.length === 0) {
+    closeTransport();
+    return;
+  }
+  // The poller reads the active set on every poll; fetch new jobs right away
+  if (transport?.kind === 'poll') {
+    transport.pollNow();
+    return;
+  }
+  if (transport?.kind === 'stream') {
+    const covered = transport.ids;
+    if (ids.every(id => covered.has(id))) return;
+  }
+
+  closeTransport();
+  startStream(ids);
+}
+
+// Batch the track/untrack calls of one render into a single sync
+function scheduleSync() {
+  if (syncScheduled) return;
+  syncScheduled = true;
+  queueMicrotask(sync);
+}
+
+function trackJobs(jobIds: string[]) {
+  for (const id of jobIds) {
+    const entry = tracked.get(id);
+    if (entry) entry.refs++;
+    else tracked.set(id, { job: null, error: null, refs: 1, done: false });
+  }
+  scheduleSync();
+}
+
+function untrackJobs(jobIds: string[]) {
+  for (const id of jobIds) {
+    const entry = tracked.get(id);
+    if (!entry) continue;
+    entry.refs--;
+    if (entry.refs <= 0) tracked.delete(id);
+  }
+  scheduleSync();
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+interface UseJobsStatusOptions {
+  /** Whether to track the jobs (default: true) */
+  enabled?: boolean;
+}
+
+interface UseJobsStatusResult {
+  /** Latest record per job ID (absent until the first update arrives) */
+  jobs: Record<string, JobPublic>;
+  /** Last error per job ID, e.g. 'Job not found' */
+  errors: Record<string, string>;
+  /** At least one of the jobs is still being followed */
+  isTracking: boolean;
+}
+
+function readJobs(key: string, enabled: boolean): UseJobsStatusResult {
+  const jobs: Record<string, JobPublic> = {};
+  const errors: Record<string, string> = {};
+  let isTracking = false;
+  if (enabled && key) {
+    for (const id of key.split(',')) {
+      const entry = tracked.get(id);
+      if (!entry) {
+        // Not registered until the effect runs
+        isTracking = true;
+        continue;
+      }
+      if (entry.job) jobs[id] = entry.job;
+      if (entry.error) errors[id] = entry.error;
+      if (!entry.done) isTracking = true;
+    }
+  }
+  return { jobs, errors, isTracking };
+}
+
+export function useJobsStatus(
+  jobIds: string[],
+  options: UseJobsStatusOptions = {}
+): UseJobsStatusResult {
+  const { enabled = true } = options;
+
+  // A stable key so callers can pass a fresh array every render
+  const key = [...new Set(jobIds.filter(Boolean))].sort().join(',');
+
+  useEffect(() => {
+    if (!enabled || !key) return;
+    const ids = key.split(',');
+    trackJobs(ids);
+    return () => untrackJobs(ids);
+  }, [key, enabled]);
+
+  // The result is rebuilt only when the tracker changed, so the snapshot stays
+  // referentially stable between notifications as useSyncExternalStore requires
+  const cache = useRef<{ version: number; key: string; enabled: boolean; result: UseJobsStatusResult } | null>(null);
+  const getSnapshot = useCallback(() => {
+    const cached = cache.current;
+    if (cached && cached.version === version && cached.key === key && cached.enabled === enabled) {
+      return cached.result;
+    }
+    const result = readJobs(key, enabled);
+    cache.current = { version, key, enabled, result };
+    return result;
+  }, [key, enabled]);
+
+  return useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import { DEFAULT_NOTIFICATION_PREFERENCES, type NotificationPreferences } from '@/lib/notifications'
+
+const log = createLogger('useNotificationPreferences')
+
+// Lets every mounted instance (e.g. the notification center) pick up a save
+const CHANGED_EVENT = 'notification-preferences-changed'
+
+/**
+ * Load and save the signed-in user's notification preferences.
+ */
+export function useNotificationPreferences() {
+  const [preferences, setPreferences] = useState<NotificationPreferences>(DEFAULT_NOTIFICATION_PREFERENCES)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(api.notifications.preferences(), { cache: 'no-store' })
+      .then(res => {
+        if (!res.ok) throw new Error(`Failed to load notification preferences: ${res.statusText}`)
+        return res.json()
+      })
+      .then((data: NotificationPreferences) => {
+        if (!cancelled) setPreferences(data)
+      })
+      .catch(err => {
+        log.warn('Preference load failed', { error: err instanceof Error ? err.message : String(err) })
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load notification preferences')
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    const onChanged = (e: Event) => setPreferences((e as CustomEvent<NotificationPreferences>).detail)
+    window.addEventListener(CHANGED_EVENT, onChanged)
+    return () => {
+      cancelled = true
+      window.removeEventListener(CHANGED_EVENT, onChanged)
+    }
+  }, [])
+
+  const save = useCallback(async (next: NotificationPreferences) => {
+    const res = await fetch(api.notifications.preferences(), {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(next),
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(data.error || `Failed to save: ${res.statusText}`)
+    setError(null)
+    window.dispatchEvent(new CustomEvent(CHANGED_EVENT, { detail: data }))
+    return data as NotificationPreferences
+  }, [])
+
+  return { preferences, loading, error, save }
+}
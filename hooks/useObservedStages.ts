@@ -0,0 +1,52 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { observeJob, type ObservedStretch } from '@/lib/stage-timeline'
+
+// Kept per tab, so a reload of the results page keeps what was already seen
+const STORAGE_PREFIX = 'stage_history:'
+
+function readObserved(jobId: string): ObservedStretch[] {
+  if (typeof window === 'undefined') return []
+  try {
+    const raw = sessionStorage.getItem(STORAGE_PREFIX + jobId)
+    return raw ? JSON.parse(raw) : []
+  } catch {
+    return []
+  }
+}
+
+function writeObserved(jobId: string, stretches: ObservedStretch[]): void {
+  try {
+    sessionStorage.setItem(STORAGE_PREFIX + jobId, JSON.stringify(stretches))
+  } catch {
+    // Storage full or unavailable - the timeline just starts over on reload
+  }
+}
+
+/**
+ * Stage stretches of `job` observed while this page polls it (see
+ * lib/stage-timeline observeJob). Pass every polled job object; each change
+ * of stage or status is recorded. This is the fallback for a Jobs API that
+ * does not report stage_history yet; once the job carries it, nothing more
+ * is recorded.
+ */
+export function useObservedStages(job: JobPublic): ObservedStretch[] {
+  const [observed, setObserved] = useState(() => ({ jobId: job.id, stretches: readObserved(job.id) }))
+
+  useEffect(() => {
+    if (job.stage_history?.length) return
+    setObserved(prev => {
+      const base = prev.jobId === job.id ? prev.stretches : readObserved(job.id)
+      const stretches = observeJob(base, job)
+      return prev.jobId === job.id && stretches === base ? prev : { jobId: job.id, stretches }
+    })
+  }, [job])
+
+  useEffect(() => {
+    if (observed.stretches.length > 0) writeObserved(observed.jobId, observed.stretches)
+  }, [observed])
+
+  return observed.jobId === job.id ? observed.stretches : []
+}
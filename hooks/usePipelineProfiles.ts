@@ -0,0 +1,78 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import type { PipelineProfile, PipelineProfileInput } from '@/lib/pipeline-profiles'
+
+const log = createLogger('usePipelineProfiles')
+
+/**
+ * Error from a profile save; `fieldErrors` holds the server's per-field
+ * validation messages when the request was rejected with 400.
+ */
+export class ProfileSaveError extends Error {
+  constructor(message: string, public fieldErrors: Record<string, string> = {}) {
+    super(message)
+    this.name = 'ProfileSaveError'
+  }
+}
+
+async function send(url: string, method: string, body?: unknown): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}))
+    throw new ProfileSaveError(data.error || `Request failed: ${res.statusText}`, data.fieldErrors)
+  }
+  return res
+}
+
+/**
+ * Load the team's pipeline profiles and edit them.
+ */
+export function usePipelineProfiles() {
+  const [profiles, setProfiles] = useState<PipelineProfile[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch(api.profiles.list(), { cache: 'no-store' })
+      if (!res.ok) throw new Error(`Failed to load profiles: ${res.statusText}`)
+      setProfiles(await res.json())
+      setError(null)
+    } catch (err) {
+      log.error('Profile load failed', { error: err instanceof Error ? err.message : String(err) })
+      setError(err instanceof Error ? err.message : 'Failed to load profiles')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const create = useCallback(async (input: PipelineProfileInput) => {
+    const profile: PipelineProfile = await (await send(api.profiles.list(), 'POST', input)).json()
+    setProfiles(prev => [...prev, profile])
+    return profile
+  }, [])
+
+  const update = useCallback(async (id: string, input: PipelineProfileInput) => {
+    const profile: PipelineProfile = await (await send(api.profiles.item(id), 'PUT', input)).json()
+    setProfiles(prev => prev.map(p => (p.id === id ? profile : p)))
+    return profile
+  }, [])
+
+  const remove = useCallback(async (id: string) => {
+    await send(api.profiles.item(id), 'DELETE')
+    setProfiles(prev => prev.filter(p => p.id !== id))
+  }, [])
+
+  return { profiles, loading, error, reload, create, update, remove }
+}
@@ -2,7 +2,7 @@ import { useMemo } from 'react'
 import { type PipelineStatus } from '@/fastapi/api'
 
 // Pipeline stages in order (as defined in pipeline_task.py: detection → intake → classification → enrichment → integration)
-const PIPELINE_STAGES = [
+export const PIPELINE_STAGES = [
   { key: 'downloading', label: 'Downloading', order: 0 },
   { key: 'detection', label: 'Detection', order: 1 },
   { key: 'intake', label: 'Intake', order: 2 },
@@ -15,6 +15,27 @@ const PIPELINE_STAGES = [
 
 export type PipelineStage = typeof PIPELINE_STAGES[number]['key']
 
+// Stages a completed job can be resumed from (detection always runs on a fresh job)
+export const RESUMABLE_STAGES = ['intake', 'classification', 'enrichment', 'integration'] as const
+
+export type ResumableStage = typeof RESUMABLE_STAGES[number]
+
+export function getStageLabel(stage: string): string {
+  return PIPELINE_STAGES.find(s => s.key === stage)?.label || stage
+}
+
+/**
+ * Stages a job resumed from `resumeFrom` does not run: their artifacts are
+ * reused from the parent job. Empty for a full run.
+ */
+export function reusedStagesFor(resumeFrom: string | null | undefined): PipelineStage[] {
+  const from = PIPELINE_STAGES.find(s => s.key === resumeFrom)
+  if (!from) return []
+  return PIPELINE_STAGES
+    .filter(s => s.key !== 'downloading' && s.order < from.order)
+    .map(s => s.key)
+}
+
 // Map PipelineStatus to PipelineStage (fallback when current_stage is not set)
 const STATUS_TO_STAGE: Record<string, PipelineStage> = {
   'pending': 'detection',
@@ -40,6 +61,15 @@ const BACKEND_STAGE_MAP: Record<string, PipelineStage> = {
   'complete': 'complete',
 }
 
+/**
+ * Stage a job is in: the backend's current_stage when it is a known stage,
+ * otherwise derived from the status.
+ */
+export function resolveStage(currentStage: string | null | undefined, status: string): PipelineStage {
+  if (currentStage && BACKEND_STAGE_MAP[currentStage]) return BACKEND_STAGE_MAP[currentStage]
+  return STATUS_TO_STAGE[status] || 'detection'
+}
+
 // User-friendly messages for each stage
 const STAGE_MESSAGES: Record<PipelineStage, string> = {
   downloading: 'Downloading input document from storage',
@@ -78,16 +108,7 @@ export function usePipelineStage(status: PipelineStatus | null): UsePipelineStag
       }
     }
 
-    // Determine current stage:
-    // 1. If backend provides current_stage (via progress.current_phase), use it
-    // 2. Otherwise fall back to STATUS_TO_STAGE mapping
-    let currentStage: PipelineStage
-    const backendStage = status.progress?.current_phase
-    if (backendStage && BACKEND_STAGE_MAP[backendStage]) {
-      currentStage = BACKEND_STAGE_MAP[backendStage]
-    } else {
-      currentStage = STATUS_TO_STAGE[status.status] || 'detection'
-    }
+    const currentStage = resolveStage(status.progress?.current_phase, status.status)
 
     const currentOrder = PIPELINE_STAGES.find(s => s.key === currentStage)?.order ?? 1
     const stageLabel = PIPELINE_STAGES.find(s => s.key === currentStage)?.label || 'Unknown'
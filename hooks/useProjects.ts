@@ -0,0 +1,81 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import type { Project, ProjectInput } from '@/lib/projects'
+
+const log = createLogger('useProjects')
+
+/**
+ * Error from a project save; `fieldErrors` holds the server's per-field
+ * validation messages when the request was rejected with 400.
+ */
+export class ProjectSaveError extends Error {
+  constructor(message: string, public fieldErrors: Record<string, string> = {}) {
+    super(message)
+    this.name = 'ProjectSaveError'
+  }
+}
+
+async function send(url: string, method: string, body?: unknown): Promise<Response> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}))
+    throw new ProjectSaveError(data.error || `Request failed: ${res.statusText}`, data.fieldErrors)
+  }
+  return res
+}
+
+/**
+ * Load the team's projects and edit them.
+ */
+export function useProjects() {
+  const [projects, setProjects] = useState<Project[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const reload = useCallback(async () => {
+    try {
+      const res = await fetch(api.projects.list(), { cache: 'no-store' })
+      if (!res.ok) throw new Error(`Failed to load projects: ${res.statusText}`)
+      setProjects(await res.json())
+      setError(null)
+    } catch (err) {
+      log.error('Project load failed', { error: err instanceof Error ? err.message : String(err) })
+      setError(err instanceof Error ? err.message : 'Failed to load projects')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    reload()
+  }, [reload])
+
+  const create = useCallback(async (input: ProjectInput) => {
+    const project: Project = await (await send(api.projects.list(), 'POST', input)).json()
+    setProjects(prev => [...prev, project].sort((a, b) => a.name.localeCompare(b.name)))
+    return project
+  }, [])
+
+  // expectedUpdatedAt: updatedAt of the copy being edited; the server refuses
+  // the change (409) when someone else saved the project since
+  const update = useCallback(async (id: string, input: ProjectInput, expectedUpdatedAt?: string) => {
+    const project: Project = await (await send(api.projects.item(id), 'PUT', { ...input, expectedUpdatedAt })).json()
+    setProjects(prev => prev.map(p => (p.id === id ? project : p)))
+    return project
+  }, [])
+
+  const remove = useCallback(async (id: string, expectedUpdatedAt?: string) => {
+    const query = expectedUpdatedAt ? `?expectedUpdatedAt=${encodeURIComponent(expectedUpdatedAt)}` : ''
+    await send(api.projects.item(id) + query, 'DELETE')
+    setProjects(prev => prev.filter(p => p.id !== id))
+  }, [])
+
+  return { projects, loading, error, reload, create, update, remove }
+}
@@ -0,0 +1,141 @@
+'use client'
+
+import { useState, useRef, useCallback, useEffect } from 'react'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('useUploadQueue')
+
+export type UploadQueueState = 'queued' | 'uploading' | 'creating_job' | 'done' | 'failed' | 'cancelled'
+
+export interface UploadQueueEntry {
+  state: UploadQueueState
+  error?: string
+  /** Job created for the file (state 'done') */
+  jobId?: string
+  /** Batch created for an archive (state 'done') */
+  batchId?: string
+}
+
+export interface UploadTaskContext {
+  signal: AbortSignal
+  /** Report the task's current phase */
+  setState: (state: 'uploading' | 'creating_job') => void
+}
+
+/**
+ * Outcome of one task: the created job (or archive batch), or 'held' when the
+ * file needs a user decision first (preflight warning, duplicate) and leaves
+ * the queue.
+ */
+export type UploadTaskResult = { jobId: string } | { batchId: string } | 'held'
+
+interface UseUploadQueueOptions {
+  /** Files processed at the same time (default: 3) */
+  concurrency?: number
+}
+
+const isAbort = (err: unknown) => err instanceof DOMException && err.name === 'AbortError'
+
+/**
+ * Run upload tasks with a concurrency limit and per-item state.
+ *
+ * Each item fails, retries and cancels on its own, so one bad file never
+ * abandons the rest of a batch and finished items keep their 'done' state.
+ */
+export function useUploadQueue(
+  task: (id: string, ctx: UploadTaskContext) => Promise<UploadTaskResult>,
+  { concurrency = 3 }: UseUploadQueueOptions = {}
+) {
+  const [entries, setEntries] = useState<Record<string, UploadQueueEntry>>({})
+
+  // Latest task (closes over the caller's current state)
+  const taskRef = useRef(task)
+  taskRef.current = task
+
+  const pendingRef = useRef<string[]>([])
+  const controllersRef = useRef(new Map<string, AbortController>())
+
+  const setEntry = useCallback((id: string, entry: UploadQueueEntry | null) => {
+    setEntries(prev => {
+      const next = { ...prev }
+      if (entry) next[id] = entry
+      else delete next[id]
+      return next
+    })
+  }, [])
+
+  const pump = useCallback(() => {
+    while (controllersRef.current.size < concurrency && pendingRef.current.length > 0) {
+      const id = pendingRef.current.shift()!
+      const controller = new AbortController()
+      controllersRef.current.set(id, controller)
+      setEntry(id, { state: 'uploading' })
+      // False once the item was forgotten: its outcome no longer has an entry
+      const tracked = () => controllersRef.current.get(id) === controller
+
+      taskRef.current(id, {
+        signal: controller.signal,
+        setState: (state) => {
+          if (!controller.signal.aborted && tracked()) setEntry(id, { state })
+        },
+      })
+        .then(result => {
+          if (tracked()) setEntry(id, result === 'held' ? null : { state: 'done', ...result })
+        })
+        .catch(err => {
+          if (!tracked()) return
+          if (isAbort(err) || controller.signal.aborted) {
+            setEntry(id, { state: 'cancelled' })
+            return
+          }
+          log.error(`Upload task failed: ${id}`, { error: err instanceof Error ? err.message : String(err) })
+          setEntry(id, { state: 'failed', error: err instanceof Error ? err.message : 'Upload failed' })
+        })
+        .finally(() => {
+          if (tracked()) controllersRef.current.delete(id)
+          pump()
+        })
+    }
+  }, [concurrency, setEntry])
+
+  /** Queue items that are not already queued or running */
+  const enqueue = useCallback((ids: string[]) => {
+    const fresh = ids.filter(id => !pendingRef.current.includes(id) && !controllersRef.current.has(id))
+    if (fresh.length === 0) return
+    pendingRef.current.push(...fresh)
+    setEntries(prev => {
+      const next = { ...prev }
+      for (const id of fresh) next[id] = { state: 'queued' }
+      return next
+    })
+    pump()
+  }, [pump])
+
+  /** Stop a queued or running item (a job already being created is not stopped) */
+  const cancel = useCallback((id: string) => {
+    if (pendingRef.current.includes(id)) {
+      pendingRef.current = pendingRef.current.filter(p => p !== id)
+      setEntry(id, { state: 'cancelled' })
+    }
+    controllersRef.current.get(id)?.abort()
+  }, [setEntry])
+
+  /** Forget an item's state (after it was removed from the list) */
+  const forget = useCallback((id: string) => {
+    pendingRef.current = pendingRef.current.filter(p => p !== id)
+    const controller = controllersRef.current.get(id)
+    controllersRef.current.delete(id)
+    controller?.abort()
+    setEntry(id, null)
+  }, [setEntry])
+
+  // Abort everything still running when the page unmounts
+  useEffect(() => {
+    const controllers = controllersRef.current
+    return () => controllers.forEach(c => c.abort())
+  }, [])
+
+  const isRunning = Object.values(entries).some(e => ['queued', 'uploading', 'creating_job'].includes(e.state))
+
+  return { entries, enqueue, retry: (id: string) => enqueue([id]), cancel, forget, isRunning }
+}
@@ -0,0 +1,23 @@
+/**
+ * Next.js server startup hook.
+ *
+ * Starts the stale/orphaned job monitor (services/jobMonitor), the ETA
+ * prediction tracker (services/etaTracker), and the watched input folder
+ * (services/inputWatcher) when WATCH_INPUT_DIR is set. Node runtime only -
+ * they need fs. The imports stay inside the runtime
+ * check so the edge build of this file never resolves them.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startJobMonitor } = await import('./services/jobMonitor')
+    startJobMonitor()
+
+    const { startEtaTracker } = await import('./services/etaTracker')
+    startEtaTracker()
+
+    if (process.env.WATCH_INPUT_DIR) {
+      const { startInputWatcher } = await import('./services/inputWatcher')
+      startInputWatcher()
+    }
+  }
+}
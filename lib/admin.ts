@@ -0,0 +1,10 @@
+/**
+ * Admin allowlist: the comma-separated emails in ADMIN_EMAILS (server-side).
+ * The middleware guards /admin and /api/admin with it; admin API routes
+ * check again so they stay protected if the middleware matcher changes.
+ */
+export function isAdminEmail(email: string | null | undefined): boolean {
+  if (!email) return false
+  const adminEmails = (process.env.ADMIN_EMAILS || '').split(',').map(e => e.trim().toLowerCase())
+  return adminEmails.includes(email.toLowerCase())
+}
@@ -16,11 +16,28 @@
  * Next.js API routes are used ONLY for:
  * - /api/local-upload - Local file uploads (stores to output_frontend/)
  * - /api/files/* - Serving local files (from output_frontend/)
+ * - /api/preflight - PDF checks for blob uploads
+ * - /api/archives/expand - ZIP expansion for blob uploads
+ * - /api/url-ingest - Server-side fetch of PDFs from download links
+ * - /api/watch-folder - Watched input folder status
+ * - /api/job-events - Job progress as Server-Sent Events (watches the Jobs API)
+ * - /api/job-status - Status of several jobs in one request
+ * - /api/job-archive - Results of several jobs as one ZIP download
+ * - /api/runs/[runId] - DELETE removes a job with its local/blob artifacts
+ * - /api/eta - Remaining-time model for running jobs and its accuracy
+ * - /api/job-health/* - Stale jobs and local runs unknown to the Jobs API (and their removal)
+ * - /api/queue - Queue positions, worker capacity and estimated start times
+ * - /api/notifications/preferences - Per-user notification settings
+ * - /api/profiles/* - Team-shared pipeline profiles
+ * - /api/projects/* - Team-shared projects and per-project job summaries
+ * - /api/admin/failures - Failure counts by category (admins only)
+ * - /api/admin/jobs/[jobId]/priority - Change a job's queue priority (admins only)
  * - /api/health - Next.js health check
  * 
  * All other API calls go directly to FastAPI:
  * - /api/jobs/*    - Job management (create, poll, cancel, results, classification)
  * - /api/storage/* - File upload/list/delete
+ * - /api/workers/  - Worker capacity (total/busy); not implemented yet, see services/jobQueue
  */
 
 // FastAPI backend URL - direct calls, no proxy
@@ -52,6 +69,16 @@ export function getFastApiUrl(): string {
     return FASTAPI_URL;
 }
 
+/**
+ * Whether the user pointed the frontend at another FastAPI in Settings.
+ * 
+ * Server-side routes (e.g. /api/job-events) only know the configured URL,
+ * so callers fall back to direct calls when this is true.
+ */
+export function hasFastApiUrlOverride(): boolean {
+    return getFastApiUrl() !== FASTAPI_URL;
+}
+
 /**
  * Get the Next.js API URL for local operations.
  * 
@@ -68,12 +95,22 @@ export const api = {
     // Jobs API (FastAPI)
     jobs: {
         list: (limit = 10) => `${getFastApiUrl()}/api/jobs/?limit=${limit}`,
+        byContentHash: (hash: string, limit = 10) =>
+            `${getFastApiUrl()}/api/jobs/?content_hash=${encodeURIComponent(hash)}&limit=${limit}`,
+        byParent: (parentJobId: string, limit = 50) =>
+            `${getFastApiUrl()}/api/jobs/?parent_job_id=${encodeURIComponent(parentJobId)}&limit=${limit}`,
+        // Runs history page: search, filters, sort, limit/offset (see lib/run-query.ts)
+        search: (params: URLSearchParams) => `${getFastApiUrl()}/api/jobs/?${params}`,
         get: (jobId: string) => `${getFastApiUrl()}/api/jobs/${jobId}`,
+        // PATCH project_id / tags after creation; priority (via /api/admin) is
+        // not implemented by the Jobs API yet, see services/jobQueue
+        update: (jobId: string) => `${getFastApiUrl()}/api/jobs/${jobId}`,
         create: () => `${getFastApiUrl()}/api/jobs/`,
         cancel: (jobId: string) => `${getFastApiUrl()}/api/jobs/${jobId}/cancel`,
         results: (jobId: string) => `${getFastApiUrl()}/api/jobs/${jobId}/results`,
         images: (jobId: string, sha: string) => `${getFastApiUrl()}/api/jobs/${jobId}/images/${sha}`,
         download: (jobId: string) => `${getFastApiUrl()}/api/jobs/${jobId}/download`,
+        integration: (jobId: string) => `${getFastApiUrl()}/api/jobs/${jobId}/integration`,
         delete: (jobId: string) => `${getFastApiUrl()}/api/jobs/${jobId}`,
         classification: {
             get: (jobId: string) => `${getFastApiUrl()}/api/jobs/${jobId}/classification`,
@@ -89,6 +126,11 @@ export const api = {
         delete: (filename: string) => `${getFastApiUrl()}/api/storage/files/${encodeURIComponent(filename)}`,
     },
 
+    // Worker capacity (FastAPI; optional, see services/jobQueue)
+    workers: {
+        status: () => `${getFastApiUrl()}/api/workers/`,
+    },
+
     // Health checks
     health: {
         fastapi: () => `${getFastApiUrl()}/health`,
@@ -100,6 +142,66 @@ export const api = {
         upload: () => `${getNextJsApiUrl()}/api/local-upload`,
         get: (path: string) => `${getNextJsApiUrl()}/api/files/${path}`,
     },
+
+    // Pipeline profiles (Next.js API routes)
+    profiles: {
+        list: () => `${getNextJsApiUrl()}/api/profiles`,
+        item: (profileId: string) => `${getNextJsApiUrl()}/api/profiles/${profileId}`,
+    },
+
+    // Job progress stream (Next.js API route, Server-Sent Events)
+    jobEvents: {
+        stream: (jobIds: string[]) => `${getNextJsApiUrl()}/api/job-events?ids=${jobIds.map(encodeURIComponent).join(',')}`,
+        batch: (jobIds: string[]) => `${getNextJsApiUrl()}/api/job-status?ids=${jobIds.map(encodeURIComponent).join(',')}`,
+    },
+
+    // Projects (Next.js API routes)
+    projects: {
+        list: () => `${getNextJsApiUrl()}/api/projects`,
+        item: (projectId: string) => `${getNextJsApiUrl()}/api/projects/${projectId}`,
+    },
+
+    // Run deletion incl. artifact cleanup (Next.js API route)
+    runs: {
+        delete: (runId: string) => `${getNextJsApiUrl()}/api/runs/${runId}`,
+    },
+
+    // Bulk results download (Next.js API route)
+    jobArchive: {
+        create: () => `${getNextJsApiUrl()}/api/job-archive`,
+    },
+
+    // ETA model (Next.js API route)
+    eta: {
+        model: () => `${getNextJsApiUrl()}/api/eta`,
+    },
+
+    // Stale/orphaned job monitor (Next.js API route)
+    jobHealth: {
+        status: () => `${getNextJsApiUrl()}/api/job-health`,
+        orphan: (runId: string) => `${getNextJsApiUrl()}/api/job-health/orphans/${runId}`,
+    },
+
+    // Queue positions and start estimates (Next.js API route)
+    queue: {
+        status: () => `${getNextJsApiUrl()}/api/queue`,
+    },
+
+    // Notification preferences (Next.js API route)
+    notifications: {
+        preferences: () => `${getNextJsApiUrl()}/api/notifications/preferences`,
+    },
+
+    // Admin views (Next.js API routes, ADMIN_EMAILS only)
+    admin: {
+        failures: (days: number) => `${getNextJsApiUrl()}/api/admin/failures?days=${days}`,
+        jobPriority: (jobId: string) => `${getNextJsApiUrl()}/api/admin/jobs/${jobId}/priority`,
+    },
+
+    // Watched input folder (Next.js API route)
+    watchFolder: {
+        status: () => `${getNextJsApiUrl()}/api/watch-folder`,
+    },
 };
 
 /**
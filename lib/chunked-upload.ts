@@ -0,0 +1,358 @@
+/**
+ * Resumable chunked uploads for both storage modes.
+ *
+ * LOCAL MODE: init → PUT part N → complete against /api/local-upload/sessions/*.
+ * The server keeps every received part on disk, so a retry only sends the
+ * chunks it reports as missing.
+ *
+ * BLOB MODE: Vercel Blob multipart upload (createMultipartUpload → uploadPart
+ * → completeMultipartUpload) with a client token from /api/blob/upload.
+ * Uploaded part etags are kept in localStorage so an interrupted upload can
+ * continue after a reload.
+ *
+ * In both modes the jobId chosen for a file is remembered by file fingerprint
+ * (name + size + lastModified), so dropping the same file again resumes the
+ * same upload instead of starting over.
+ */
+
+import {
+  completeMultipartUpload,
+  createMultipartUpload,
+  uploadPart,
+} from '@vercel/blob/client'
+import { createLogger } from '@/lib/logger'
+import type { PreflightReport } from '@/services/pdfPreflight'
+import type { ArchiveReport } from '@/services/archiveIngest'
+
+const log = createLogger('chunkedUpload')
+
+/** Chunk size for both modes (Vercel Blob requires parts of at least 5MB) */
+export const CHUNK_SIZE = 8 * 1024 * 1024
+
+/** Chunk sizes the server accepts from clients; others are clamped into this range */
+export const MIN_CHUNK_SIZE = 5 * 1024 * 1024
+export const MAX_CHUNK_SIZE = 32 * 1024 * 1024
+
+/** Largest accepted input document */
+export const MAX_UPLOAD_BYTES = 200 * 1024 * 1024
+
+/** Attempts per chunk before the upload is reported as failed */
+const MAX_CHUNK_ATTEMPTS = 3
+
+const RESUME_STORAGE_KEY = 'pipeline_pending_uploads'
+
+export interface UploadProgress {
+  uploadedChunks: number
+  totalChunks: number
+  uploadedBytes: number
+  totalBytes: number
+}
+
+export interface UploadResult {
+  /** URL the worker fetches the input from (passed to createJob); empty for expanded archives */
+  url: string
+  pathname: string
+  /** Local mode only: the server preflights the assembled file on completion */
+  preflight?: PreflightReport
+  /** Local mode only: a .zip upload is expanded into one input per PDF */
+  archive?: ArchiveReport
+}
+
+export function isZipFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.zip')
+}
+
+interface ChunkedUploadOptions {
+  onProgress?: (progress: UploadProgress) => void
+  signal?: AbortSignal
+}
+
+interface PendingUpload {
+  jobId: string
+  /** Blob mode only: multipart state needed to continue the upload */
+  blob?: {
+    key: string
+    uploadId: string
+    parts: Array<{ partNumber: number; etag: string }>
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Resume bookkeeping (localStorage)
+// ---------------------------------------------------------------------------
+
+export function fileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`
+}
+
+function readPending(): Record<string, PendingUpload> {
+  try {
+    const raw = localStorage.getItem(RESUME_STORAGE_KEY)
+    return raw ? JSON.parse(raw) : {}
+  } catch {
+    return {}
+  }
+}
+
+function writePending(fingerprint: string, entry: PendingUpload | null): void {
+  try {
+    const all = readPending()
+    if (entry) all[fingerprint] = entry
+    else delete all[fingerprint]
+    localStorage.setItem(RESUME_STORAGE_KEY, JSON.stringify(all))
+  } catch {
+    // Storage full or unavailable - uploads still work, just not resumable
+  }
+}
+
+/**
+ * Return the jobId of an unfinished upload of this file, or a fresh one.
+ * The id is remembered until clearResumableUpload() is called.
+ */
+export function getOrCreateUploadJobId(file: File): string {
+  const fingerprint = fileFingerprint(file)
+  const existing = readPending()[fingerprint]
+  if (existing) {
+    log.info(`Resuming upload of ${file.name}`, { jobId: existing.jobId })
+    return existing.jobId
+  }
+  const jobId = crypto.randomUUID()
+  writePending(fingerprint, { jobId })
+  return jobId
+}
+
+/** True when an earlier upload of this file was interrupted */
+export function hasResumableUpload(file: File): boolean {
+  return Boolean(readPending()[fileFingerprint(file)])
+}
+
+/** Forget the resume state for a file (call once its job is created) */
+export function clearResumableUpload(file: File): void {
+  writePending(fileFingerprint(file), null)
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/** A requested chunk size within MIN_CHUNK_SIZE..MAX_CHUNK_SIZE (CHUNK_SIZE when missing) */
+export function clampChunkSize(requested: unknown): number {
+  const size = Number(requested)
+  if (!Number.isFinite(size) || size <= 0) return CHUNK_SIZE
+  return Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, Math.floor(size)))
+}
+
+function chunkBounds(file: File, index: number, chunkSize = CHUNK_SIZE): [number, number] {
+  const start = index * chunkSize
+  return [start, Math.min(start + chunkSize, file.size)]
+}
+
+async function withRetry<T>(label: string, fn: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+  let lastError: unknown
+  for (let attempt = 1; attempt <= MAX_CHUNK_ATTEMPTS; attempt++) {
+    if (signal?.aborted) throw new DOMException('Upload aborted', 'AbortError')
+    try {
+      return await fn()
+    } catch (err) {
+      if (err instanceof DOMException && err.name === 'AbortError') throw err
+      lastError = err
+      log.warn(`${label} failed (attempt ${attempt}/${MAX_CHUNK_ATTEMPTS})`, {
+        error: err instanceof Error ? err.message : String(err),
+      })
+      await new Promise(r => setTimeout(r, 500 * attempt))
+    }
+  }
+  throw lastError instanceof Error ? lastError : new Error(`${label} failed`)
+}
+
+async function errorFrom(response: Response, fallback: string): Promise<Error> {
+  const body = await response.json().catch(() => ({}))
+  return new Error(body.error || `${fallback}: ${response.statusText}`)
+}
+
+// ---------------------------------------------------------------------------
+// Local mode
+// ---------------------------------------------------------------------------
+
+/**
+ * Upload a file in chunks to /api/local-upload/sessions, skipping chunks
+ * the server already has.
+ */
+export async function uploadLocalChunked(
+  file: File,
+  jobId: string,
+  { onProgress, signal }: ChunkedUploadOptions = {}
+): Promise<UploadResult> {
+  const initRes = await fetch('/api/local-upload/sessions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ jobId, filename: file.name, size: file.size, chunkSize: CHUNK_SIZE }),
+    signal,
+  })
+  if (!initRes.ok) throw await errorFrom(initRes, 'Upload init failed')
+
+  // The server may clamp the requested chunk size; slice by what it accepted
+  const session: { chunkSize: number; totalChunks: number; receivedChunks: number[] } = await initRes.json()
+  const received = new Set(session.receivedChunks)
+  let uploadedBytes = session.receivedChunks.reduce((sum, i) => {
+    const [start, end] = chunkBounds(file, i, session.chunkSize)
+    return sum + (end - start)
+  }, 0)
+
+  const report = () => onProgress?.({
+    uploadedChunks: received.size,
+    totalChunks: session.totalChunks,
+    uploadedBytes,
+    totalBytes: file.size,
+  })
+  report()
+
+  if (received.size > 0) {
+    log.info(`Server already has ${received.size}/${session.totalChunks} chunks`, { jobId })
+  }
+
+  for (let index = 0; index < session.totalChunks; index++) {
+    if (received.has(index)) continue
+    const [start, end] = chunkBounds(file, index, session.chunkSize)
+
+    await withRetry(`Chunk ${index}`, async () => {
+      const res = await fetch(`/api/local-upload/sessions/${jobId}/parts/${index}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/octet-stream' },
+        body: file.slice(start, end),
+        signal,
+      })
+      if (!res.ok) throw await errorFrom(res, `Chunk ${index} failed`)
+    }, signal)
+
+    received.add(index)
+    uploadedBytes += end - start
+    report()
+  }
+
+  // 503: the file is stored but could not be checked yet; completing again retries the check
+  const completeRes = await withRetry('Upload completion', async () => {
+    const res = await fetch(`/api/local-upload/sessions/${jobId}/complete`, {
+      method: 'POST',
+      signal,
+    })
+    if (res.status === 503) throw await errorFrom(res, 'Upload completion failed')
+    return res
+  }, signal)
+  if (completeRes.status === 422) {
+    // Blocked by preflight; the server already removed the file
+    const body = await completeRes.json().catch(() => ({}))
+    if (body.preflight) return { url: '', pathname: '', preflight: body.preflight }
+    throw new Error(body.error || `Upload completion failed: ${completeRes.statusText}`)
+  }
+  if (!completeRes.ok) throw await errorFrom(completeRes, 'Upload completion failed')
+
+  const data = await completeRes.json()
+  return { url: data.url ?? '', pathname: data.pathname ?? '', preflight: data.preflight, archive: data.archive }
+}
+
+// ---------------------------------------------------------------------------
+// Blob mode
+// ---------------------------------------------------------------------------
+
+async function retrieveBlobClientToken(pathname: string, signal?: AbortSignal): Promise<string> {
+  const handleUploadUrl = new URL('/api/blob/upload', window.location.href).href
+  const res = await fetch(handleUploadUrl, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      type: 'blob.generate-client-token',
+      payload: { pathname, callbackUrl: handleUploadUrl, clientPayload: null, multipart: true },
+    }),
+    signal,
+  })
+  if (!res.ok) throw await errorFrom(res, 'Failed to retrieve upload token')
+  const { clientToken } = await res.json()
+  return clientToken
+}
+
+/**
+ * Upload a file to Vercel Blob as a multipart upload, continuing a previous
+ * attempt for the same file when its multipart state is still known.
+ */
+export async function uploadBlobChunked(
+  file: File,
+  jobId: string,
+  { onProgress, signal }: ChunkedUploadOptions = {}
+): Promise<UploadResult> {
+  const zip = isZipFile(file)
+  const pathname = `uploads/${jobId}/${zip ? 'archive.zip' : 'input.pdf'}`
+  const fingerprint = fileFingerprint(file)
+  const totalChunks = Math.max(1, Math.ceil(file.size / CHUNK_SIZE))
+  const token = await retrieveBlobClientToken(pathname, signal)
+  const contentType = zip ? 'application/zip' : 'application/pdf'
+  const common = { access: 'public' as const, token, contentType, abortSignal: signal }
+
+  let pending = readPending()[fingerprint]
+  const resumed = Boolean(pending?.blob)
+  if (!pending?.blob) {
+    const { key, uploadId } = await createMultipartUpload(pathname, common)
+    pending = { jobId, blob: { key, uploadId, parts: [] } }
+    writePending(fingerprint, pending)
+  } else {
+    log.info(`Continuing blob multipart upload (${pending.blob.parts.length}/${totalChunks} parts)`, { jobId })
+  }
+
+  const state = pending.blob!
+  const done = new Set(state.parts.map(p => p.partNumber))
+  let uploadedBytes = state.parts.reduce((sum, p) => {
+    const [start, end] = chunkBounds(file, p.partNumber - 1)
+    return sum + (end - start)
+  }, 0)
+
+  const report = () => onProgress?.({
+    uploadedChunks: done.size,
+    totalChunks,
+    uploadedBytes,
+    totalBytes: file.size,
+  })
+  report()
+
+  let blob
+  try {
+    for (let index = 0; index < totalChunks; index++) {
+      const partNumber = index + 1
+      if (done.has(partNumber)) continue
+      const [start, end] = chunkBounds(file, index)
+
+      const part = await withRetry(`Part ${partNumber}`, () =>
+        uploadPart(pathname, file.slice(start, end), {
+          ...common,
+          key: state.key,
+          uploadId: state.uploadId,
+          partNumber,
+        }), signal)
+
+      state.parts.push({ partNumber: part.partNumber, etag: part.etag })
+      writePending(fingerprint, pending)
+      done.add(partNumber)
+      uploadedBytes += end - start
+      report()
+    }
+
+    const parts = [...state.parts].sort((a, b) => a.partNumber - b.partNumber)
+    blob = await completeMultipartUpload(pathname, parts, {
+      ...common,
+      key: state.key,
+      uploadId: state.uploadId,
+    })
+  } catch (err) {
+    // A resumed multipart upload may have expired on the Blob side;
+    // drop its state so the next attempt starts a fresh one.
+    if (resumed && !(err instanceof DOMException && err.name === 'AbortError')) {
+      writePending(fingerprint, { jobId })
+    }
+    throw err
+  }
+
+  // Keep the jobId until the job is created, but the multipart state is spent
+  writePending(fingerprint, { jobId })
+
+  // blob.url is the full URL with random suffix - NEVER construct it from pathname
+  return { url: blob.url, pathname: blob.pathname }
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest'
+import type { JobPublic, JobStatus, StageHistoryEntry } from '@/hooks/useJobStatus'
+import { buildEtaModel, estimateJobEta, formatEta, type EtaModel } from './eta'
+
+const SECOND = 1000
+const start = Date.parse('2026-03-10T12:00:00Z')
+const iso = (ms: number) => new Date(ms).toISOString()
+
+const job = (id: string, patch: Partial<JobPublic> = {}) =>
+  ({
+    id,
+    status: 'running',
+    doc_name: `${id}.pdf`,
+    current_stage: null,
+    progress_percent: 0,
+    created_at: iso(start - 10 * SECOND),
+    started_at: iso(start),
+    completed_at: null,
+    ...patch,
+  }) as JobPublic
+
+/** Back-to-back stage_history entries from `from`, each [stage, status, ms] */
+function history(from: number, stretches: Array<[string, JobStatus, number]>): StageHistoryEntry[] {
+  let at = from
+  return stretches.map(([stage, status, ms]) => {
+    const entry = { stage, status, started_at: iso(at), ended_at: iso(at + ms) }
+    at += ms
+    return entry
+  })
+}
+
+// Detection 1s and intake 0.5s per page, classification 2s and enrichment 1s
+// per figure, integration 3s flat; every job waits a minute for review
+function completedJob(id: string, pages: number, figures: number, patch: Partial<JobPublic> = {}): JobPublic {
+  const stage_history = history(start, [
+    ['detection', 'running', 1000 * pages],
+    ['intake', 'running', 500 * pages],
+    ['classification', 'classification_pending', 60 * SECOND],
+    ['classification', 'running', 2000 * figures],
+    ['enrichment', 'running', 1000 * figures],
+    ['integration', 'running', 3000],
+  ])
+  return job(id, {
+    status: 'completed',
+    page_count: pages,
+    figure_count: figures,
+    completed_at: stage_history[stage_history.length - 1].ended_at,
+    stage_history,
+    ...patch,
+  })
+}
+
+const staged = [completedJob('a', 10, 5), completedJob('b', 20, 10), completedJob('c', 40, 20)]
+
+// Whole runs of 10s per page, without stage times
+const runJob = (id: string, pages: number, patch: Partial<JobPublic> = {}) =>
+  job(id, { status: 'completed', page_count: pages, completed_at: iso(start + pages * 10 * SECOND), ...patch })
+
+describe('buildEtaModel', () => {
+  it('keeps per-stage medians of active time per page or figure', () => {
+    const model = buildEtaModel(staged, start)
+    expect(model.stages.detection).toEqual({ samples: 3, msPerUnit: 1000, medianMs: 20 * SECOND })
+    expect(model.stages.intake).toMatchObject({ msPerUnit: 500 })
+    // Per figure, without the review wait
+    expect(model.stages.classification).toEqual({ samples: 3, msPerUnit: 2000, medianMs: 20 * SECOND })
+    expect(model.stages.enrichment).toMatchObject({ msPerUnit: 1000 })
+    expect(model.stages.integration).toMatchObject({ medianMs: 3000 })
+    // Never in the history
+    expect(model.stages.downloading).toBeUndefined()
+  })
+
+  it('scales the figure stages by pages when the figure count is unknown', () => {
+    const model = buildEtaModel(staged.map(j => ({ ...j, figure_count: null })), start)
+    expect(model.stages.classification).toMatchObject({ msPerUnit: 1000 })
+  })
+
+  it('leaves out stages with too few samples', () => {
+    expect(buildEtaModel(staged.slice(0, 2), start).stages).toEqual({})
+  })
+
+  it('keeps whole-run stats per profile, without resumed runs', () => {
+    const model = buildEtaModel([
+      runJob('a', 10, { profile_id: 'p' }),
+      runJob('b', 20, { profile_id: 'p' }),
+      runJob('c', 30, { profile_id: 'p' }),
+      runJob('d', 10, { profile_id: 'q' }),
+      runJob('e', 5, { resume_from_stage: 'classification' }),
+      job('f'),
+    ], start)
+    expect(model.stages).toEqual({})
+    expect(model.overall).toEqual({ samples: 4, msPerPage: 10 * SECOND, medianMs: 150 * SECOND })
+    expect(Object.keys(model.profiles)).toEqual(['p'])
+    expect(model.jobCount).toBe(4)
+  })
+})
+
+describe('estimateJobEta', () => {
+  const model = buildEtaModel(staged, start)
+  const now = start + 60 * SECOND
+
+  it('adds what is left of the current stage to the remaining stages', () => {
+    const running = job('r', {
+      current_stage: 'classification',
+      page_count: 30,
+      figure_count: 8,
+      stage_history: [
+        ...history(start, [['detection', 'running', 30 * SECOND], ['intake', 'running', 15 * SECOND]]),
+        { stage: 'classification', status: 'running', started_at: iso(now - 4 * SECOND), ended_at: null },
+      ],
+    })
+    // Classification 16s - 4s, enrichment 8s, integration 30 pages at 150ms
+    expect(estimateJobEta(running, model, now)).toEqual({
+      remainingMs: 12 * SECOND + 8 * SECOND + 4500,
+      finishAt: now + 24500,
+      waitingForReview: false,
+      basis: 'stages',
+    })
+  })
+
+  it('takes the stages before current_stage as done without a stage history', () => {
+    const running = job('r', { current_stage: 'enrichment', page_count: 30, figure_count: 8 })
+    expect(estimateJobEta(running, model, now)?.remainingMs).toBe(8 * SECOND + 4500)
+  })
+
+  it('covers the work after review while the job waits for it', () => {
+    const waiting = job('r', {
+      status: 'classification_pending',
+      current_stage: 'classification',
+      page_count: 30,
+      figure_count: 8,
+      stage_history: [
+        ...history(start, [['detection', 'running', 30 * SECOND], ['intake', 'running', 15 * SECOND]]),
+        { stage: 'classification', status: 'classification_pending', started_at: iso(start + 45 * SECOND), ended_at: null },
+      ],
+    })
+    const eta = estimateJobEta(waiting, model, now + 10 * 60 * SECOND)!
+    expect(eta.remainingMs).toBe(16 * SECOND + 8 * SECOND + 4500)
+    expect(formatEta(eta)).toBe('about 30s left after review')
+  })
+
+  it('falls back to whole runs when a remaining stage has no stats', () => {
+    const runs = [runJob('a', 10), runJob('b', 20), runJob('c', 30)]
+    const partial: EtaModel = { ...buildEtaModel(runs, start), stages: { detection: model.stages.detection } }
+    const eta = estimateJobEta(job('r', { current_stage: 'detection', page_count: 20 }), partial, start + 50 * SECOND)
+    expect(eta).toMatchObject({ remainingMs: 150 * SECOND, basis: 'overall' })
+  })
+
+  it('prefers the profile of the job for whole runs', () => {
+    const runs = [runJob('a', 10, { profile_id: 'p' }), runJob('b', 10, { profile_id: 'p' }), runJob('c', 10, { profile_id: 'p' })]
+    const eta = estimateJobEta(job('r', { profile_id: 'p', page_count: 10 }), buildEtaModel(runs, start), start)
+    expect(eta).toMatchObject({ remainingMs: 100 * SECOND, basis: 'profile' })
+  })
+
+  it('gives nothing for finished jobs or without a model', () => {
+    expect(estimateJobEta(staged[0], model, now)).toBeNull()
+    expect(estimateJobEta(job('r'), null, now)).toBeNull()
+    expect(estimateJobEta(job('r'), buildEtaModel([], start), now)).toBeNull()
+  })
+})
+
+describe('formatEta', () => {
+  it('rounds to 5 seconds, then to minutes', () => {
+    const eta = { remainingMs: 12_300, finishAt: 0, waitingForReview: false, basis: 'overall' as const }
+    expect(formatEta(eta)).toBe('about 10s left')
+    expect(formatEta({ ...eta, remainingMs: 250_000 })).toBe('about 4m left')
+    expect(formatEta({ ...eta, waitingForReview: true })).toBe('about 10s left, waiting for review')
+  })
+})
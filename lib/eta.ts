@@ -0,0 +1,248 @@
+/**
+ * Remaining-time estimates for running jobs.
+ *
+ * The model holds, per pipeline stage, the median active time per unit of
+ * work measured on recently completed jobs: per figure for the stages that
+ * work on detected figures (when figure_count is known), per page for the
+ * others. Stage times come from the job's stage_history (see the Jobs API
+ * contract in lib/stage-timeline); review waits are left out, since they
+ * depend on people, not on the document. A running job is estimated from
+ * its current stage on: what is left of that stage plus the remaining ones.
+ *
+ * While the Jobs API does not report stage_history, or a remaining stage has
+ * too few samples, the estimate falls back to whole runs: the median
+ * started_at → completed_at time per page, per pipeline profile where a
+ * profile has enough jobs and over all jobs otherwise. Jobs that resumed
+ * from a later stage are left out there, since they skip part of the work,
+ * and the typical review wait is part of the run time.
+ *
+ * Built server-side by services/etaTracker and evaluated in the browser, so
+ * estimates tick down without extra requests.
+ */
+
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { PIPELINE_STAGES, type PipelineStage } from '@/hooks/usePipelineStage'
+import { buildStageTimeline, formatDuration } from '@/lib/stage-timeline'
+import type { PageSelectionOverride } from '@/lib/page-selection'
+
+export interface RunDurationStats {
+  /** Completed jobs the stats come from */
+  samples: number
+  /** Median ms per page (0 when too few jobs reported their page count) */
+  msPerPage: number
+  /** Median ms, for jobs whose page count is unknown */
+  medianMs: number
+}
+
+export interface StageDurationStats {
+  /** Completed jobs the stats come from */
+  samples: number
+  /** Median active ms per unit (figure or page; 0 when too few sizes are known) */
+  msPerUnit: number
+  /** Median active ms, for jobs whose size is unknown */
+  medianMs: number
+}
+
+export interface EtaModel {
+  /** By stage, for stages with at least MIN_SAMPLES jobs reporting stage times */
+  stages: Partial<Record<PipelineStage, StageDurationStats>>
+  /** Over all completed jobs */
+  overall: RunDurationStats | null
+  /** By profile_id, for profiles with at least MIN_SAMPLES completed jobs */
+  profiles: Record<string, RunDurationStats>
+  /** Completed jobs the model was built from */
+  jobCount: number
+  builtAt: string
+}
+
+export interface EtaAccuracy {
+  /** Resolved predictions (one per job and stage it was predicted in) */
+  count: number
+  /** Median |predicted - actual| remaining time */
+  medianAbsErrorMs: number | null
+  /** Median |predicted - actual| / actual */
+  medianRelativeError: number | null
+  /** Share of predictions within 25% of the actual time */
+  withinQuarter: number | null
+}
+
+export interface JobEta {
+  remainingMs: number
+  finishAt: number
+  /**
+   * The job is waiting for review: a whole-run estimate assumes a typical
+   * wait, a stage estimate covers the work after it
+   */
+  waitingForReview: boolean
+  /** What the estimate comes from: stage times, or whole runs of the job's profile or of all jobs */
+  basis: 'stages' | 'profile' | 'overall'
+}
+
+// Below this many samples the stats are not used at all
+export const MIN_SAMPLES = 3
+
+// Stages whose work grows with the number of detected figures
+const FIGURE_STAGES: PipelineStage[] = ['classification', 'enrichment']
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled']
+
+/** Pages the job processes, when known */
+export function jobPageCount(job: JobPublic): number | null {
+  if (job.page_count) return job.page_count
+  const selection = (job.config_overrides as { page_selection?: PageSelectionOverride } | null)?.page_selection
+  return selection?.pages.length ?? null
+}
+
+/** Work units of `stage` for `job`: figures for figure stages (when known), else pages */
+export function stageUnits(job: JobPublic, stage: PipelineStage): number | null {
+  if (FIGURE_STAGES.includes(stage) && job.figure_count) return job.figure_count
+  return jobPageCount(job)
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mid = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2
+}
+
+export function medianOrNull(values: number[]): number | null {
+  return values.length > 0 ? median(values) : null
+}
+
+interface RunSample {
+  durationMs: number
+  pages: number | null
+}
+
+function summarize(samples: RunSample[]): RunDurationStats | null {
+  if (samples.length < MIN_SAMPLES) return null
+  const rates = samples.filter(s => s.pages).map(s => s.durationMs / s.pages!)
+  return {
+    samples: samples.length,
+    msPerPage: rates.length >= MIN_SAMPLES ? median(rates) : 0,
+    medianMs: median(samples.map(s => s.durationMs)),
+  }
+}
+
+/**
+ * Build the model from completed jobs: stage times from those that report
+ * stage_history, run times from full runs with both timestamps
+ */
+export function buildEtaModel(jobs: JobPublic[], now = Date.now()): EtaModel {
+  const all: RunSample[] = []
+  const byProfile = new Map<string, RunSample[]>()
+  const stageDurations: Partial<Record<PipelineStage, number[]>> = {}
+  const stageRates: Partial<Record<PipelineStage, number[]>> = {}
+
+  for (const job of jobs) {
+    if (job.status !== 'completed') continue
+    if (job.stage_history?.length) {
+      for (const entry of buildStageTimeline(job, [], now).entries) {
+        // Stages passed before the history starts have no times
+        if (entry.state !== 'done' || entry.durationMs === null) continue
+        const active = Math.max(0, entry.durationMs - entry.waitMs)
+        ;(stageDurations[entry.key] ??= []).push(active)
+        const units = stageUnits(job, entry.key)
+        if (units) (stageRates[entry.key] ??= []).push(active / units)
+      }
+    }
+
+    if (!job.started_at || !job.completed_at || job.resume_from_stage) continue
+    const sample = {
+      durationMs: Math.max(0, Date.parse(job.completed_at) - Date.parse(job.started_at)),
+      pages: jobPageCount(job),
+    }
+    all.push(sample)
+    if (job.profile_id) {
+      if (!byProfile.has(job.profile_id)) byProfile.set(job.profile_id, [])
+      byProfile.get(job.profile_id)!.push(sample)
+    }
+  }
+
+  const profiles: EtaModel['profiles'] = {}
+  byProfile.forEach((samples, profileId) => {
+    const stats = summarize(samples)
+    if (stats) profiles[profileId] = stats
+  })
+
+  const stages: EtaModel['stages'] = {}
+  for (const { key } of PIPELINE_STAGES) {
+    const durations = stageDurations[key] ?? []
+    if (durations.length < MIN_SAMPLES) continue
+    const rates = stageRates[key] ?? []
+    stages[key] = {
+      samples: durations.length,
+      msPerUnit: rates.length >= MIN_SAMPLES ? median(rates) : 0,
+      medianMs: median(durations),
+    }
+  }
+
+  return { stages, overall: summarize(all), profiles, jobCount: all.length, builtAt: new Date(now).toISOString() }
+}
+
+// Stages that do not always show up in stage_history and take seconds
+const QUICK_STAGES: PipelineStage[] = ['downloading', 'uploading']
+
+/** Remaining active ms from the current stage on; null when a remaining stage has no stats */
+function remainingByStage(job: JobPublic, model: EtaModel, now: number): number | null {
+  let remainingMs = 0
+  for (const entry of buildStageTimeline(job, [], now).entries) {
+    if (entry.state === 'done' || entry.state === 'reused') continue
+    const stats = model.stages[entry.key]
+    if (!stats) {
+      if (QUICK_STAGES.includes(entry.key)) continue
+      return null
+    }
+    const units = stageUnits(job, entry.key)
+    const predicted = units && stats.msPerUnit > 0 ? stats.msPerUnit * units : stats.medianMs
+    if (entry.state === 'pending') {
+      remainingMs += predicted
+    } else {
+      // Without a reported start the stage counts as just begun
+      const active = Math.max(0, (entry.durationMs ?? 0) - entry.waitMs)
+      // Overrunning stages keep a small remainder instead of reaching zero
+      remainingMs += Math.max(predicted - active, predicted * 0.1)
+    }
+  }
+  return remainingMs
+}
+
+/**
+ * Estimate the remaining time of a running or queued job (queued jobs get
+ * their whole run time). null for finished jobs and when the model has too
+ * few completed jobs.
+ */
+export function estimateJobEta(job: JobPublic, model: EtaModel | null, now = Date.now()): JobEta | null {
+  if (!model || TERMINAL_STATUSES.includes(job.status)) return null
+  const waitingForReview = job.status === 'classification_pending'
+
+  const byStage = remainingByStage(job, model, now)
+  if (byStage !== null && byStage > 0) {
+    return { remainingMs: byStage, finishAt: now + byStage, waitingForReview, basis: 'stages' }
+  }
+
+  const profileStats = job.profile_id ? model.profiles[job.profile_id] : undefined
+  const stats = profileStats ?? model.overall
+  if (!stats) return null
+
+  const pages = jobPageCount(job)
+  const predicted = pages && stats.msPerPage > 0 ? stats.msPerPage * pages : stats.medianMs
+  const elapsedMs = job.started_at ? Math.max(0, now - Date.parse(job.started_at)) : 0
+  // Overrunning jobs keep a small remainder instead of reaching zero
+  const remainingMs = Math.max(predicted - elapsedMs, predicted * 0.1)
+
+  return {
+    remainingMs,
+    finishAt: now + remainingMs,
+    waitingForReview,
+    basis: profileStats ? 'profile' : 'overall',
+  }
+}
+
+/** "about 4m 10s left", "about 3m left, waiting for review", "about 3m left after review" */
+export function formatEta(eta: JobEta): string {
+  const rounded = eta.remainingMs >= 120_000
+    ? Math.round(eta.remainingMs / 60_000) * 60_000
+    : Math.max(5000, Math.round(eta.remainingMs / 5000) * 5000)
+  return `about ${formatDuration(rounded).replace(/ 00s$/, '')} left${!eta.waitingForReview ? '' : eta.basis === 'stages' ? ' after review' : ', waiting for review'}`
+}
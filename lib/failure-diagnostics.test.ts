@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { buildDiagnosticsBundle, categorizeFailure, diagnoseFailure, failedStage } from './failure-diagnostics'
+
+const failure = (patch: Partial<JobPublic>) =>
+  ({ error_code: null, error_message: null, message: null, ...patch }) as Pick<JobPublic, 'error_code' | 'error_message' | 'message'>
+
+const job = {
+  id: 'job-1',
+  status: 'failed',
+  doc_name: 'Annual Report.pdf',
+  input_url: 'https://store.example.com/uploads/report.pdf?token=secret',
+  current_stage: 'extraction',
+  progress_percent: 40,
+  message: 'Extracting page 12',
+  error_message: 'Worker lost while processing page 12',
+  error_code: null,
+  created_at: '2026-03-10T12:00:00Z',
+  started_at: '2026-03-10T12:00:05Z',
+  completed_at: '2026-03-10T12:03:00Z',
+} as JobPublic
+
+describe('categorizeFailure', () => {
+  it('uses the prefix of the worker error code', () => {
+    expect(categorizeFailure(failure({ error_code: 'INPUT_ENCRYPTED' }))).toBe('input')
+    expect(categorizeFailure(failure({ error_code: 'timeout_extraction' }))).toBe('timeout')
+    expect(categorizeFailure(failure({ error_code: 'WORKER_OOM' }))).toBe('worker_crash')
+    expect(categorizeFailure(failure({ error_code: 'STORAGE_UPLOAD_FAILED' }))).toBe('storage')
+  })
+
+  it('prefers the error code over the message', () => {
+    expect(categorizeFailure(failure({ error_code: 'STORAGE_FULL', error_message: 'Timed out' }))).toBe('storage')
+  })
+
+  it('infers the category from the message without a known code', () => {
+    expect(categorizeFailure(failure({ error_message: 'PDF is password protected' }))).toBe('input')
+    expect(categorizeFailure(failure({ error_message: 'Process killed: out of memory' }))).toBe('worker_crash')
+    expect(categorizeFailure(failure({ error_message: 'Blob upload failed: ENOSPC' }))).toBe('storage')
+    expect(categorizeFailure(failure({ error_code: 'E42', message: 'Deadline exceeded' }))).toBe('timeout')
+  })
+
+  it('counts a timeout during upload as a timeout', () => {
+    expect(categorizeFailure(failure({ error_message: 'Upload to storage timed out' }))).toBe('timeout')
+  })
+
+  it('falls back to unknown', () => {
+    expect(categorizeFailure(failure({ error_message: 'Something went wrong' }))).toBe('unknown')
+    expect(categorizeFailure(failure({}))).toBe('unknown')
+  })
+})
+
+describe('failedStage', () => {
+  it('is the stage the job stopped at', () => {
+    expect(failedStage({ current_stage: 'classification' })).toBe('classification')
+    expect(failedStage({ current_stage: null })).toBeNull()
+  })
+})
+
+describe('diagnoseFailure', () => {
+  it('marks an inferred category and keeps a distinct last message', () => {
+    const diagnosis = diagnoseFailure(job)
+    expect(diagnosis).toMatchObject({
+      category: 'worker_crash',
+      code: 'worker_crash',
+      source: 'inferred',
+      stage: 'extraction',
+      error: 'Worker lost while processing page 12',
+      lastMessage: 'Extracting page 12',
+    })
+  })
+
+  it('reports the worker code and drops a last message equal to the error', () => {
+    const diagnosis = diagnoseFailure({ ...job, error_code: 'INPUT_CORRUPT', message: job.error_message })
+    expect(diagnosis).toMatchObject({ category: 'input', code: 'INPUT_CORRUPT', source: 'worker', lastMessage: null })
+  })
+})
+
+describe('buildDiagnosticsBundle', () => {
+  it('removes the query string from the input URL', () => {
+    const bundle = JSON.parse(buildDiagnosticsBundle(job, { page: '/results/job-1' }))
+    expect(bundle.page).toBe('/results/job-1')
+    expect(bundle.job.input_url).toBe('https://store.example.com/uploads/report.pdf?…')
+    expect(JSON.stringify(bundle)).not.toContain('secret')
+    expect(bundle.failure).toMatchObject({ category: 'worker_crash', stage: 'extraction' })
+  })
+})
@@ -0,0 +1,145 @@
+/**
+ * Failure diagnostics: what went wrong with a failed job and what to do next.
+ *
+ * Workers that report a machine-readable error_code (e.g. INPUT_ENCRYPTED,
+ * STORAGE_UPLOAD_FAILED) are categorised by its prefix; for older workers
+ * the category is inferred from the error message. Shared by the results
+ * page panel and the admin failure counts so both agree on categories.
+ */
+
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { getStageLabel } from '@/hooks/usePipelineStage'
+
+export type FailureCategory = 'input' | 'timeout' | 'worker_crash' | 'storage' | 'unknown'
+
+export const FAILURE_CATEGORIES: Record<FailureCategory, { label: string; suggestion: string }> = {
+  input: {
+    label: 'Input problem',
+    suggestion: 'Check that the document opens and is not password-protected or damaged, then upload a fixed copy.',
+  },
+  timeout: {
+    label: 'Timeout',
+    suggestion: 'Re-run the job. For very large documents, process fewer pages or use a profile that skips enrichment.',
+  },
+  worker_crash: {
+    label: 'Worker crash',
+    suggestion: 'Re-run from the failed stage. If it crashes again at the same point, attach the diagnostics to a bug report.',
+  },
+  storage: {
+    label: 'Storage error',
+    suggestion: 'Check that the storage service is reachable and has space, then re-run from the failed stage.',
+  },
+  unknown: {
+    label: 'Unknown error',
+    suggestion: 'Re-run the job. If it fails again, attach the diagnostics to a bug report.',
+  },
+}
+
+// error_code prefixes reported by the worker
+const CODE_PREFIXES: Array<[string, FailureCategory]> = [
+  ['INPUT', 'input'],
+  ['TIMEOUT', 'timeout'],
+  ['WORKER', 'worker_crash'],
+  ['STORAGE', 'storage'],
+]
+
+// Checked in order: a timeout while uploading is a timeout, not a storage error
+const MESSAGE_PATTERNS: Array<[RegExp, FailureCategory]> = [
+  [/timed? ?out|time limit|deadline exceeded/i, 'timeout'],
+  [/worker (lost|died|crashed|exited)|workerlost|sigkill|sigsegv|signal 9|killed|out of memory|memoryerror|\boom\b/i, 'worker_crash'],
+  [/\bblob\b|storage|\bs3\b|upload failed|no space|enospc|eacces|disk full|manifest/i, 'storage'],
+  [/pdf|password|encrypted|corrupt|malformed|unsupported|no pages|could not (open|read|parse)|download failed|invalid (file|document|input)/i, 'input'],
+]
+
+export interface FailureDiagnosis {
+  category: FailureCategory
+  /** Worker's error_code, or the category when it was inferred */
+  code: string
+  /** Whether the worker reported the code or it was read from the message */
+  source: 'worker' | 'inferred'
+  /** Stage the job failed in (null if the worker never reported one) */
+  stage: string | null
+  stageLabel: string | null
+  error: string | null
+  /** Last progress message before the failure, when it adds to the error */
+  lastMessage: string | null
+  suggestion: string
+}
+
+export function categorizeFailure(job: Pick<JobPublic, 'error_code' | 'error_message' | 'message'>): FailureCategory {
+  const code = job.error_code?.toUpperCase()
+  const prefixed = code && CODE_PREFIXES.find(([prefix]) => code.startsWith(prefix))
+  if (prefixed) return prefixed[1]
+
+  const text = `${job.error_message ?? ''} ${job.message ?? ''}`
+  return MESSAGE_PATTERNS.find(([pattern]) => pattern.test(text))?.[1] ?? 'unknown'
+}
+
+/** A failed job stays at the stage it failed in */
+export function failedStage(job: Pick<JobPublic, 'current_stage'>): string | null {
+  return job.current_stage || null
+}
+
+export function diagnoseFailure(job: JobPublic): FailureDiagnosis {
+  const category = categorizeFailure(job)
+  const stage = failedStage(job)
+  const error = job.error_message || null
+  return {
+    category,
+    code: job.error_code || category,
+    source: job.error_code ? 'worker' : 'inferred',
+    stage,
+    stageLabel: stage && getStageLabel(stage),
+    error,
+    lastMessage: job.message && job.message !== error ? job.message : null,
+    suggestion: FAILURE_CATEGORIES[category].suggestion,
+  }
+}
+
+// Signed blob URLs carry tokens in the query string
+const redactUrl = (url: string | null | undefined) => {
+  if (!url) return null
+  try {
+    const parsed = new URL(url)
+    return `${parsed.origin}${parsed.pathname}${parsed.search ? '?…' : ''}`
+  } catch {
+    return '(invalid URL)'
+  }
+}
+
+/**
+ * Job metadata for a bug report, without credentials: the input URL loses
+ * its query string. `context` adds where it was copied from (page, browser).
+ */
+export function buildDiagnosticsBundle(job: JobPublic, context: Record<string, string> = {}): string {
+  const diagnosis = diagnoseFailure(job)
+  return JSON.stringify({
+    generated_at: new Date().toISOString(),
+    ...context,
+    job: {
+      id: job.id,
+      status: job.status,
+      doc_name: job.doc_name,
+      created_at: job.created_at,
+      started_at: job.started_at,
+      completed_at: job.completed_at,
+      input_url: redactUrl(job.input_url),
+      content_hash: job.content_hash ?? null,
+      parent_job_id: job.parent_job_id ?? null,
+      resume_from_stage: job.resume_from_stage ?? null,
+      profile_name: job.profile_name ?? null,
+      config_overrides: job.config_overrides ?? null,
+      page_count: job.page_count ?? null,
+      progress_percent: job.progress_percent,
+      current_stage: job.current_stage ?? null,
+    },
+    failure: {
+      category: diagnosis.category,
+      code: diagnosis.code,
+      code_source: diagnosis.source,
+      stage: diagnosis.stage,
+      error_message: job.error_message,
+      last_message: job.message,
+    },
+  }, null, 2)
+}
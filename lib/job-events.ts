@@ -0,0 +1,108 @@
+/**
+ * Job progress over Server-Sent Events (GET /api/job-events?ids=...).
+ *
+ * The Next route watches the Jobs API server-side and pushes a `job` event
+ * whenever a job changes, so browsers hold one connection instead of polling
+ * FastAPI per job. Event names are shared by the route and the client here.
+ */
+
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { api, hasFastApiUrlOverride } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('jobEvents')
+
+export const JOB_EVENTS = {
+  /** data: JobPublic - sent first for every job, then on every change */
+  job: 'job',
+  /** data: { id, error, status } - the job cannot be read (e.g. 404) */
+  jobError: 'job-error',
+  /** Every job is terminal or failed; the stream is done */
+  end: 'end',
+  /** The Jobs API cannot be reached from the server; poll instead */
+  unavailable: 'unavailable',
+} as const
+
+/** Most job IDs one stream may watch */
+export const MAX_STREAM_JOBS = 50
+
+export interface JobErrorEvent {
+  id: string
+  error: string
+  status: number | null
+}
+
+interface JobEventHandlers {
+  onJob: (job: JobPublic) => void
+  onJobError?: (event: JobErrorEvent) => void
+  /** The stream ended normally (all jobs finished) */
+  onEnd?: () => void
+  /** The stream is not usable; the caller should fall back to polling */
+  onUnavailable: () => void
+}
+
+// Consecutive connection errors without any event before giving up on the stream
+const MAX_FAILED_CONNECTS = 2
+
+/**
+ * Subscribe to job events. Returns a function that closes the stream.
+ *
+ * EventSource reconnects by itself when the server ends a long-lived stream;
+ * onUnavailable is only called when connecting keeps failing or the server
+ * reports the Jobs API unreachable.
+ */
+export function subscribeJobEvents(jobIds: string[], handlers: JobEventHandlers): () => void {
+  const streamable = typeof EventSource !== 'undefined' && !hasFastApiUrlOverride()
+  if (!streamable || jobIds.length === 0 || jobIds.length > MAX_STREAM_JOBS) {
+    handlers.onUnavailable()
+    return () => { }
+  }
+
+  const source = new EventSource(api.jobEvents.stream(jobIds))
+  let failedConnects = 0
+  let closed = false
+
+  const close = () => {
+    closed = true
+    source.close()
+  }
+
+  const parse = <T,>(e: MessageEvent): T | null => {
+    try {
+      return JSON.parse(e.data) as T
+    } catch {
+      return null
+    }
+  }
+
+  source.addEventListener(JOB_EVENTS.job, (e) => {
+    failedConnects = 0
+    const job = parse<JobPublic>(e as MessageEvent)
+    if (job) handlers.onJob(job)
+  })
+  source.addEventListener(JOB_EVENTS.jobError, (e) => {
+    failedConnects = 0
+    const event = parse<JobErrorEvent>(e as MessageEvent)
+    if (event) handlers.onJobError?.(event)
+  })
+  source.addEventListener(JOB_EVENTS.end, () => {
+    close()
+    handlers.onEnd?.()
+  })
+  source.addEventListener(JOB_EVENTS.unavailable, () => {
+    log.warn('Job event stream reports Jobs API unavailable')
+    close()
+    handlers.onUnavailable()
+  })
+  source.onerror = () => {
+    if (closed) return
+    failedConnects++
+    if (failedConnects >= MAX_FAILED_CONNECTS || source.readyState === EventSource.CLOSED) {
+      log.warn('Job event stream unavailable, falling back to polling')
+      close()
+      handlers.onUnavailable()
+    }
+  }
+
+  return close
+}
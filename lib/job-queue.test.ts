@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import type { EtaModel } from './eta'
+import { buildQueue, formatQueueStart, orderQueue } from './job-queue'
+
+const MINUTE = 60 * 1000
+const now = Date.parse('2026-03-10T12:00:00Z')
+
+// Every run takes 10 minutes
+const model: EtaModel = {
+  stages: {},
+  overall: { samples: 5, msPerPage: 0, medianMs: 10 * MINUTE },
+  profiles: {},
+  jobCount: 5,
+  builtAt: new Date(now).toISOString(),
+}
+
+const job = (id: string, patch: Partial<JobPublic> = {}) =>
+  ({
+    id,
+    status: 'pending',
+    doc_name: `${id}.pdf`,
+    current_stage: null,
+    progress_percent: 0,
+    created_at: new Date(now - MINUTE).toISOString(),
+    started_at: null,
+    completed_at: null,
+    ...patch,
+  }) as JobPublic
+
+const minutesFromNow = (iso: string | null) => (iso === null ? null : (Date.parse(iso) - now) / MINUTE)
+
+describe('orderQueue', () => {
+  it('starts higher priorities first, oldest first within a priority', () => {
+    const pending = [
+      job('normal-new', { created_at: '2026-03-10T11:30:00Z' }),
+      job('low', { priority: -10, created_at: '2026-03-10T09:00:00Z' }),
+      job('urgent', { priority: 20, created_at: '2026-03-10T11:50:00Z' }),
+      job('normal-old', { priority: 0, created_at: '2026-03-10T10:00:00Z' }),
+    ]
+    expect(orderQueue(pending).map(j => j.id)).toEqual(['urgent', 'normal-old', 'normal-new', 'low'])
+  })
+
+  it('leaves the input untouched', () => {
+    const pending = [job('b', { created_at: '2026-03-10T11:00:00Z' }), job('a', { created_at: '2026-03-10T10:00:00Z' })]
+    orderQueue(pending)
+    expect(pending.map(j => j.id)).toEqual(['b', 'a'])
+  })
+})
+
+describe('buildQueue', () => {
+  it('starts each job when a worker frees up', () => {
+    const running = [job('running', { status: 'running', started_at: new Date(now - 4 * MINUTE).toISOString() })]
+    const queued = buildQueue([job('a'), job('b')], running, 1, model, now)
+    expect(queued.map(q => [q.jobId, q.position, minutesFromNow(q.estimatedStartAt)])).toEqual([
+      ['a', 1, 6],
+      ['b', 2, 16],
+    ])
+  })
+
+  it('uses idle workers right away', () => {
+    const running = [job('running', { status: 'running', started_at: new Date(now - 4 * MINUTE).toISOString() })]
+    const queued = buildQueue([job('a'), job('b'), job('c')], running, 2, model, now)
+    expect(queued.map(q => minutesFromNow(q.estimatedStartAt))).toEqual([0, 6, 10])
+  })
+
+  it('takes the running jobs as the capacity when workers are not reported', () => {
+    const running = ['r1', 'r2'].map(id => job(id, { status: 'running', started_at: new Date(now - 2 * MINUTE).toISOString() }))
+    expect(minutesFromNow(buildQueue([job('a')], running, null, model, now)[0].estimatedStartAt)).toBe(8)
+    expect(minutesFromNow(buildQueue([job('a')], [], null, model, now)[0].estimatedStartAt)).toBe(0)
+  })
+
+  it('gives no start time behind a job that cannot be estimated', () => {
+    const queued = buildQueue([job('a'), job('b')], [], 1, null, now)
+    expect(queued.map(q => minutesFromNow(q.estimatedStartAt))).toEqual([0, null])
+  })
+
+  it('reports the default priority for jobs without one', () => {
+    const queued = buildQueue([job('a'), job('b', { priority: 10 })], [], 1, model, now)
+    expect(queued.map(q => [q.jobId, q.priority])).toEqual([['b', 10], ['a', 0]])
+  })
+})
+
+describe('formatQueueStart', () => {
+  it('rounds to whole minutes', () => {
+    expect(formatQueueStart(new Date(now + 30 * 1000).toISOString(), now)).toBe('starting soon')
+    expect(formatQueueStart(new Date(now + 12.2 * MINUTE).toISOString(), now)).toBe('starts in about 12m')
+    expect(formatQueueStart(new Date(now + 90 * MINUTE).toISOString(), now)).toBe('starts in about 1h 30m')
+    expect(formatQueueStart(null, now)).toBeNull()
+  })
+})
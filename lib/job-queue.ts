@@ -0,0 +1,92 @@
+/**
+ * Job queue order and estimated start times.
+ *
+ * Pending jobs start in priority order (higher first), oldest first within
+ * a priority. Start times are simulated: each worker frees up when its
+ * running job is estimated to finish (lib/eta), then takes the next queued
+ * job for that job's own estimated duration.
+ */
+
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { estimateJobEta, type EtaModel } from '@/lib/eta'
+import { formatDuration } from '@/lib/stage-timeline'
+
+export const JOB_PRIORITIES = [
+  { value: 20, label: 'Urgent' },
+  { value: 10, label: 'High' },
+  { value: 0, label: 'Normal' },
+  { value: -10, label: 'Low' },
+] as const
+
+export const DEFAULT_PRIORITY = 0
+
+export function isValidPriority(value: unknown): value is number {
+  return JOB_PRIORITIES.some(p => p.value === value)
+}
+
+export function priorityLabel(priority: number | null | undefined): string {
+  const value = priority ?? DEFAULT_PRIORITY
+  return JOB_PRIORITIES.find(p => p.value === value)?.label ?? String(value)
+}
+
+export interface QueuedJob {
+  jobId: string
+  /** 1-based place in the queue */
+  position: number
+  priority: number
+  /** null when the durations ahead of it cannot be estimated */
+  estimatedStartAt: string | null
+}
+
+/** Pending jobs in the order they will start */
+export function orderQueue<T extends Pick<JobPublic, 'priority' | 'created_at'>>(pending: T[]): T[] {
+  return [...pending].sort((a, b) =>
+    (b.priority ?? DEFAULT_PRIORITY) - (a.priority ?? DEFAULT_PRIORITY) || a.created_at.localeCompare(b.created_at)
+  )
+}
+
+/**
+ * Queue positions and start estimates. `workerCount` defaults to the number
+ * of running jobs (at least one) when the Jobs API does not report workers.
+ */
+export function buildQueue(
+  pending: JobPublic[],
+  running: JobPublic[],
+  workerCount: number | null,
+  model: EtaModel | null,
+  now = Date.now()
+): QueuedJob[] {
+  const workers = Math.max(workerCount ?? 0, running.length, 1)
+  // When each worker is free; unknown once a job on it cannot be estimated
+  const freeAt: Array<number | null> = Array.from({ length: workers }, () => now)
+  running.forEach((job, i) => {
+    const eta = estimateJobEta(job, model, now)
+    freeAt[i] = eta ? eta.finishAt : null
+  })
+
+  return orderQueue(pending).map((job, index) => {
+    const known = freeAt.filter((t): t is number => t !== null)
+    // A worker with an unknown finish time could be the first to free up
+    const start = known.length === freeAt.length ? Math.min(...known) : null
+    if (start !== null) {
+      const slot = freeAt.indexOf(start)
+      const duration = estimateJobEta(job, model, start)?.remainingMs
+      freeAt[slot] = duration !== undefined ? start + duration : null
+    }
+    return {
+      jobId: job.id,
+      position: index + 1,
+      priority: job.priority ?? DEFAULT_PRIORITY,
+      estimatedStartAt: start !== null ? new Date(start).toISOString() : null,
+    }
+  })
+}
+
+/** "starts in about 12m", "starting soon" */
+export function formatQueueStart(estimatedStartAt: string | null, now = Date.now()): string | null {
+  if (!estimatedStartAt) return null
+  const ms = Date.parse(estimatedStartAt) - now
+  if (ms < 60_000) return 'starting soon'
+  const rounded = Math.round(ms / 60_000) * 60_000
+  return `starts in about ${formatDuration(rounded).replace(/ 00s$/, '')}`
+}
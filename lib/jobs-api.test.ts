@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { findInputUsers, inputStoredWith, listJobs } from './jobs-api'
+
+const RUN = '6f1c2d3e-4b5a-4c7d-8e9f-0a1b2c3d4e5f'
+
+const job = (id: string, patch: Partial<JobPublic> = {}) =>
+  ({ id, status: 'completed', content_hash: 'abc', input_url: null, parent_job_id: null, ...patch }) as JobPublic
+
+/** Answer job list requests by their query: parent_job_id or content_hash */
+function stubJobLists(lists: { byParent?: JobPublic[]; byHash?: JobPublic[] }, status = 200) {
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const body = url.includes('parent_job_id=') ? lists.byParent : lists.byHash
+    return new Response(JSON.stringify(body ?? []), { status })
+  }))
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('listJobs', () => {
+  it('keeps only the jobs matching the filter', async () => {
+    stubJobLists({ byHash: [job('a'), job('b', { content_hash: 'other' })] })
+    const jobs = await listJobs('http://api/api/jobs/?content_hash=abc', j => j.content_hash === 'abc')
+    expect(jobs.map(j => j.id)).toEqual(['a'])
+  })
+
+  it('names the failed lookup', async () => {
+    stubJobLists({}, 503)
+    await expect(listJobs('http://api/api/jobs/', () => true, 'Duplicate lookup failed'))
+      .rejects.toThrow('Duplicate lookup failed: Jobs API returned 503')
+  })
+})
+
+describe('inputStoredWith', () => {
+  it('recognizes local and Blob inputs of the job', () => {
+    expect(inputStoredWith(`http://localhost:3000/api/files/${RUN}/input.pdf`, RUN)).toBe(true)
+    expect(inputStoredWith(`https://store.public.blob.vercel-storage.com/uploads/${RUN}/input-x1y2.pdf`, RUN)).toBe(true)
+    expect(inputStoredWith(`output_frontend/${RUN}/input.pdf`, RUN)).toBe(true)
+  })
+
+  it('ignores other jobs and other places', () => {
+    expect(inputStoredWith('http://localhost:3000/api/files/other-job/input.pdf', RUN)).toBe(false)
+    expect(inputStoredWith(`https://example.com/files/${RUN}.pdf`, RUN)).toBe(false)
+    expect(inputStoredWith(`https://store.public.blob.vercel-storage.com/archive/uploads/${RUN}/input.pdf`, RUN)).toBe(false)
+    expect(inputStoredWith(null, RUN)).toBe(false)
+  })
+})
+
+describe('findInputUsers', () => {
+  it('finds re-runs and duplicates that reuse the input', async () => {
+    stubJobLists({
+      byParent: [job('rerun', { parent_job_id: RUN }), job('unrelated-child', { parent_job_id: 'other' })],
+      byHash: [
+        job(RUN, { input_url: `http://localhost:3000/api/files/${RUN}/input.pdf` }),
+        job('duplicate-rerun', { input_url: `http://localhost:3000/api/files/${RUN}/input.pdf`, duplicate_of: RUN }),
+        job('own-upload', { input_url: 'http://localhost:3000/api/files/own-upload/input.pdf' }),
+        job('rerun', { parent_job_id: RUN, input_url: `http://localhost:3000/api/files/${RUN}/input.pdf` }),
+      ],
+    })
+    const users = await findInputUsers({ id: RUN, content_hash: 'abc' })
+    expect(users.map(j => j.id)).toEqual(['rerun', 'duplicate-rerun'])
+  })
+
+  it('checks only for re-runs without a content hash', async () => {
+    stubJobLists({ byParent: [job('rerun', { parent_job_id: RUN })] })
+    expect((await findInputUsers({ id: RUN, content_hash: null })).map(j => j.id)).toEqual(['rerun'])
+    expect(vi.mocked(fetch).mock.calls).toHaveLength(1)
+  })
+
+  it('fails when the Jobs API cannot be asked', async () => {
+    stubJobLists({}, 500)
+    await expect(findInputUsers({ id: RUN, content_hash: 'abc' })).rejects.toThrow('Re-run lookup failed')
+  })
+})
@@ -0,0 +1,75 @@
+/**
+ * Job lists from the Jobs API (api.jobs.*), for the browser and for server
+ * routes alike.
+ *
+ * Jobs API contract. GET /api/jobs/ filters by the query parameters the
+ * callers send (status, content_hash, parent_job_id, project_id,
+ * created_after); a deployment that does not know one ignores it and
+ * returns unfiltered jobs. listJobs therefore re-applies the same condition
+ * to every list, so a missing filter yields too few jobs, never wrong ones.
+ *
+ * A job's input is stored with the job that uploaded it: under
+ * output_frontend/{id}/ (served as /api/files/{id}/...) or in Blob under
+ * uploads/{id}/. Re-runs read it from there, and so do re-runs of a
+ * duplicate upload, which reuse the earlier job's input_url and are linked
+ * only by content_hash and duplicate_of when they predate parent_job_id.
+ * findInputUsers finds both, so neither loses its input to a delete.
+ */
+
+import { api } from '@/lib/api-config'
+import type { JobPublic } from '@/hooks/useJobStatus'
+
+/**
+ * Fetch a job list and keep the jobs that `matches` (the condition the URL
+ * filters by). `failure` prefixes the error when the Jobs API refuses.
+ */
+export async function listJobs(
+  url: string,
+  matches: (job: JobPublic) => boolean,
+  failure?: string
+): Promise<JobPublic[]> {
+  const res = await fetch(url, { cache: 'no-store' })
+  if (!res.ok) throw new Error(`${failure ? `${failure}: ` : ''}Jobs API returned ${res.status}`)
+  const jobs: JobPublic[] = await res.json()
+  // The filter may not be applied server-side (see the contract above)
+  return jobs.filter(matches)
+}
+
+/** Whether `inputUrl` points at a file stored with job `jobId` (local or Blob) */
+export function inputStoredWith(inputUrl: string | null | undefined, jobId: string): boolean {
+  if (!inputUrl) return false
+  let path = inputUrl
+  try {
+    path = new URL(inputUrl).pathname
+  } catch {
+    // A bare path
+  }
+  return path.includes(`/api/files/${jobId}/`)
+    || path.includes(`output_frontend/${jobId}/`)
+    || path.startsWith(`/uploads/${jobId}/`)
+    || path.startsWith(`uploads/${jobId}/`)
+}
+
+/**
+ * Other jobs that read the input or artifacts of `job`: its re-runs and
+ * resumed runs, and any job whose input_url points into its files. The
+ * latter are looked up by content hash, which every upload records; a job
+ * without one (or unknown to the Jobs API) is checked for re-runs only.
+ */
+export async function findInputUsers(job: Pick<JobPublic, 'id'> & Partial<Pick<JobPublic, 'content_hash'>>): Promise<JobPublic[]> {
+  const [reruns, sameInput] = await Promise.all([
+    listJobs(api.jobs.byParent(job.id, 10), other => other.parent_job_id === job.id, 'Re-run lookup failed'),
+    job.content_hash
+      ? listJobs(api.jobs.byContentHash(job.content_hash, 50), other => other.content_hash === job.content_hash, 'Re-run lookup failed')
+      : Promise.resolve([]),
+  ])
+  const users = new Map(reruns.map(other => [other.id, other]))
+  for (const other of sameInput) {
+    if (other.id !== job.id && inputStoredWith(other.input_url, job.id)) users.set(other.id, other)
+  }
+  return [...users.values()]
+}
+
+/** Why a job whose input other jobs use is not deleted */
+export const inputUsersBlockDelete = (count: number) =>
+  `${count === 1 ? 'A re-run uses' : `${count} re-runs use`} this run's input; delete ${count === 1 ? 'it' : 'them'} first`
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  normalizePreferences,
+  notificationLink,
+  selectNotifications,
+  type NotificationWatch,
+} from './notifications'
+
+const job = (id: string, status: string, patch: Partial<JobPublic> = {}) =>
+  ({
+    id,
+    status,
+    doc_name: `${id}.pdf`,
+    current_stage: null,
+    progress_percent: 0,
+    created_at: '2026-03-10T12:00:00Z',
+    started_at: '2026-03-10T12:00:05Z',
+    completed_at: null,
+    ...patch,
+  }) as JobPublic
+
+const events = DEFAULT_NOTIFICATION_PREFERENCES.events
+const raised = (jobs: JobPublic[], watch: NotificationWatch, enabled = events) =>
+  selectNotifications(jobs, watch, enabled).map(({ job, event }) => `${job.id}:${event}`)
+
+describe('selectNotifications', () => {
+  it('notifies when a known job changes to a status with an event', () => {
+    const watch: NotificationWatch = { since: null, statuses: { a: 'running', b: 'running', c: 'running' } }
+    expect(raised([job('a', 'classification_pending'), job('b', 'completed'), job('c', 'running')], watch)).toEqual([
+      'a:review_needed',
+      'b:completed',
+    ])
+    expect(watch.statuses).toEqual({ a: 'classification_pending', b: 'completed', c: 'running' })
+  })
+
+  it('raises a change once', () => {
+    const watch: NotificationWatch = { since: null, statuses: { a: 'running' } }
+    raised([job('a', 'failed')], watch)
+    expect(raised([job('a', 'failed')], watch)).toEqual([])
+  })
+
+  it('notifies again when a job needs review a second time', () => {
+    const watch: NotificationWatch = { since: null, statuses: { a: 'classification_pending' } }
+    expect(raised([job('a', 'running')], watch)).toEqual([])
+    expect(raised([job('a', 'classification_pending')], watch)).toEqual(['a:review_needed'])
+  })
+
+  it('notifies for a new job only when it changed after the last read', () => {
+    const watch: NotificationWatch = { since: '2026-03-10T12:05:00Z', statuses: {} }
+    expect(raised([
+      job('old', 'completed', { completed_at: '2026-03-10T12:03:00Z' }),
+      job('new', 'completed', { completed_at: '2026-03-10T12:07:00Z' }),
+      job('waiting', 'classification_pending', { updated_at: '2026-03-10T12:06:00Z' }),
+    ], watch)).toEqual(['new:completed', 'waiting:review_needed'])
+    expect(Object.keys(watch.statuses)).toEqual(['old', 'new', 'waiting'])
+  })
+
+  it('only records statuses on the first read', () => {
+    const watch: NotificationWatch = { since: null, statuses: {} }
+    expect(raised([job('a', 'completed', { completed_at: '2026-03-10T12:07:00Z' })], watch)).toEqual([])
+    expect(watch.statuses).toEqual({ a: 'completed' })
+  })
+
+  it('records events the user turned off without notifying', () => {
+    const watch: NotificationWatch = { since: null, statuses: { a: 'running', b: 'running' } }
+    expect(raised([job('a', 'cancelled'), job('b', 'failed')], watch, { ...events, failed: false })).toEqual([])
+    expect(watch.statuses).toEqual({ a: 'cancelled', b: 'failed' })
+  })
+})
+
+describe('notificationLink', () => {
+  it('opens review for jobs that need it, results otherwise', () => {
+    expect(notificationLink({ event: 'review_needed', jobId: 'a' })).toBe('/classify/a')
+    expect(notificationLink({ event: 'failed', jobId: 'a' })).toBe('/results/a')
+  })
+})
+
+describe('normalizePreferences', () => {
+  it('fills in defaults and drops unknown fields', () => {
+    expect(normalizePreferences({ desktop: 'yes', events: { cancelled: true, completed: 'no', other: true } })).toEqual({
+      desktop: false,
+      events: { ...events, cancelled: true },
+    })
+    expect(normalizePreferences(null)).toEqual(DEFAULT_NOTIFICATION_PREFERENCES)
+  })
+})
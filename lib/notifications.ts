@@ -0,0 +1,145 @@
+/**
+ * Job notifications: which status changes notify, and where they link.
+ *
+ * Shared by the notification center (client) and the preferences route
+ * (server), so both agree on the events and the preference shape.
+ */
+
+import type { JobPublic } from '@/hooks/useJobStatus'
+
+export type NotificationEvent = 'review_needed' | 'completed' | 'failed' | 'cancelled'
+
+export const NOTIFICATION_EVENTS: { key: NotificationEvent; label: string }[] = [
+  { key: 'review_needed', label: 'Needs classification review' },
+  { key: 'completed', label: 'Completed' },
+  { key: 'failed', label: 'Failed' },
+  { key: 'cancelled', label: 'Cancelled' },
+]
+
+export interface NotificationPreferences {
+  /** Also show desktop notifications (needs browser permission) */
+  desktop: boolean
+  events: Record<NotificationEvent, boolean>
+}
+
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  desktop: false,
+  events: { review_needed: true, completed: true, failed: true, cancelled: false },
+}
+
+export interface JobNotification {
+  id: string
+  jobId: string
+  docName: string
+  event: NotificationEvent
+  createdAt: string
+  read: boolean
+}
+
+const STATUS_EVENTS: Record<string, NotificationEvent> = {
+  classification_pending: 'review_needed',
+  completed: 'completed',
+  failed: 'failed',
+  cancelled: 'cancelled',
+}
+
+/** The event a job entering `status` raises, if any */
+export function notificationEventFor(status: string): NotificationEvent | null {
+  return STATUS_EVENTS[status] ?? null
+}
+
+/** Last status seen per job and when the job list was last read */
+export interface NotificationWatch {
+  /** Jobs first seen later notify for changes since */
+  since: string | null
+  statuses: Record<string, string>
+}
+
+/** When the job last changed, as far as its timestamps tell */
+const changedAt = (job: JobPublic) => job.completed_at ?? job.updated_at ?? job.started_at ?? job.created_at
+
+/**
+ * The notifications `jobs` raise against `watch`, which is updated with
+ * their statuses. A status change notifies; a job seen for the first time
+ * only when it changed after `watch.since` (e.g. it started and finished
+ * between two reads of the job list). Events turned off in `events` are
+ * recorded without notifying.
+ */
+export function selectNotifications(
+  jobs: JobPublic[],
+  watch: NotificationWatch,
+  events: Record<NotificationEvent, boolean>
+): Array<{ job: JobPublic; event: NotificationEvent }> {
+  const raised: Array<{ job: JobPublic; event: NotificationEvent }> = []
+  for (const job of jobs) {
+    const previous = watch.statuses[job.id]
+    if (previous === job.status) continue
+    watch.statuses[job.id] = job.status
+    const event = notificationEventFor(job.status)
+    if (!event || !events[event]) continue
+    if (previous || (watch.since && changedAt(job) > watch.since)) raised.push({ job, event })
+  }
+  return raised
+}
+
+/** Where a notification takes the user: review for pending jobs, else results */
+export function notificationLink(notification: Pick<JobNotification, 'event' | 'jobId'>): string {
+  return notification.event === 'review_needed'
+    ? `/classify/${notification.jobId}`
+    : `/results/${notification.jobId}`
+}
+
+export function notificationTitle(notification: Pick<JobNotification, 'event' | 'docName'>): string {
+  switch (notification.event) {
+    case 'review_needed': return `Review needed: ${notification.docName}`
+    case 'completed': return `Completed: ${notification.docName}`
+    case 'failed': return `Failed: ${notification.docName}`
+    case 'cancelled': return `Cancelled: ${notification.docName}`
+  }
+}
+
+/** Fill in missing fields and drop unknown ones from stored or submitted preferences */
+export function normalizePreferences(input: unknown): NotificationPreferences {
+  const value = (input && typeof input === 'object' ? input : {}) as Partial<NotificationPreferences>
+  const events = { ...DEFAULT_NOTIFICATION_PREFERENCES.events }
+  for (const { key } of NOTIFICATION_EVENTS) {
+    if (typeof value.events?.[key] === 'boolean') events[key] = value.events[key]
+  }
+  return {
+    desktop: typeof value.desktop === 'boolean' ? value.desktop : DEFAULT_NOTIFICATION_PREFERENCES.desktop,
+    events,
+  }
+}
+
+// Jobs started in this browser, followed even when they carry no creator
+// (browser only; shared by all tabs through localStorage)
+const FOLLOWED_STORAGE_KEY = 'pipeline_notification_jobs'
+const MAX_FOLLOWED_JOBS = 100
+
+export function readFollowedJobs(): string[] {
+  try {
+    const stored = localStorage.getItem(FOLLOWED_STORAGE_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+function writeFollowedJobs(jobIds: string[]): void {
+  try {
+    localStorage.setItem(FOLLOWED_STORAGE_KEY, JSON.stringify(jobIds.slice(-MAX_FOLLOWED_JOBS)))
+  } catch {
+    // Storage full or disabled - the job is still found by its creator
+  }
+}
+
+/** Notify about `jobId` until it finishes */
+export function followJob(jobId: string): void {
+  const followed = readFollowedJobs()
+  if (!followed.includes(jobId)) writeFollowedJobs([...followed, jobId])
+}
+
+export function unfollowJobs(jobIds: string[]): void {
+  const followed = readFollowedJobs()
+  if (jobIds.some(id => followed.includes(id))) writeFollowedJobs(followed.filter(id => !jobIds.includes(id)))
+}
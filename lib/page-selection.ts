@@ -0,0 +1,95 @@
+/**
+ * Page selection for a document: which pages the pipeline should process.
+ *
+ * Chosen on the dashboard before submission and sent to the worker as
+ * config_overrides.page_selection; the results page reads it back to show
+ * which pages were skipped on purpose. Page numbers are 1-based.
+ */
+
+export interface PageSelection {
+  /** Page ranges to process, e.g. "3-40, 52" (empty = all pages) */
+  ranges: string
+  /** Pages excluded one by one (from the thumbnails) */
+  excluded: number[]
+}
+
+/** What the worker receives as config_overrides.page_selection */
+export interface PageSelectionOverride {
+  /** Pages to process, ascending */
+  pages: number[]
+  /** Pages deliberately left out (empty when the page count is unknown) */
+  skipped_pages: number[]
+  total_pages: number | null
+}
+
+export const ALL_PAGES: PageSelection = { ranges: '', excluded: [] }
+
+/**
+ * Parse "1-3, 7, 10-" style ranges. An open end runs to the last page, which
+ * requires a known page count.
+ */
+export function parsePageRanges(text: string, pageCount: number | null): { pages: number[] | null; error: string | null } {
+  const trimmed = text.trim()
+  if (!trimmed) return { pages: null, error: null }
+
+  const pages = new Set<number>()
+  for (const part of trimmed.split(/[,;\s]+/).filter(Boolean)) {
+    const match = part.match(/^(\d+)(?:-(\d*))?$/)
+    if (!match) return { pages: null, error: `"${part}" is not a page or range` }
+
+    const start = Number(match[1])
+    const openEnd = match[2] === ''
+    if (openEnd && pageCount === null) return { pages: null, error: `"${part}" needs a known page count` }
+    const end = match[2] === undefined ? start : openEnd ? pageCount! : Number(match[2])
+
+    if (start < 1 || end < start) return { pages: null, error: `"${part}" is not a valid range` }
+    if (pageCount !== null && end > pageCount) {
+      return { pages: null, error: `The document only has ${pageCount} page${pageCount !== 1 ? 's' : ''}` }
+    }
+    for (let p = start; p <= end; p++) pages.add(p)
+  }
+  return { pages: [...pages].sort((a, b) => a - b), error: null }
+}
+
+/** Compact form of a page list, e.g. [1,2,3,7] -> "1-3, 7" */
+export function formatPageRanges(pages: number[]): string {
+  const sorted = [...new Set(pages)].sort((a, b) => a - b)
+  const parts: string[] = []
+  for (let i = 0; i < sorted.length; i++) {
+    const start = sorted[i]
+    while (i + 1 < sorted.length && sorted[i + 1] === sorted[i] + 1) i++
+    parts.push(sorted[i] === start ? String(start) : `${start}-${sorted[i]}`)
+  }
+  return parts.join(', ')
+}
+
+/**
+ * Pages that will be processed, or null for "all pages" (nothing skipped).
+ * Throws when the ranges cannot be parsed.
+ */
+export function selectedPages(selection: PageSelection, pageCount: number | null): number[] | null {
+  const { pages, error } = parsePageRanges(selection.ranges, pageCount)
+  if (error) throw new Error(error)
+
+  const base = pages ?? (pageCount !== null ? Array.from({ length: pageCount }, (_, i) => i + 1) : null)
+  if (!base) return null
+  const excluded = new Set(selection.excluded)
+  const result = base.filter(p => !excluded.has(p))
+  return pageCount !== null && result.length === pageCount ? null : result
+}
+
+/** config_overrides.page_selection for a selection (undefined when every page is kept) */
+export function pageSelectionOverride(selection: PageSelection, pageCount: number | null): PageSelectionOverride | undefined {
+  const pages = selectedPages(selection, pageCount)
+  if (!pages) return undefined
+  if (pages.length === 0) throw new Error('No pages selected')
+
+  const kept = new Set(pages)
+  return {
+    pages,
+    skipped_pages: pageCount !== null
+      ? Array.from({ length: pageCount }, (_, i) => i + 1).filter(p => !kept.has(p))
+      : [],
+    total_pages: pageCount,
+  }
+}
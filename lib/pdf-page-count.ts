@@ -0,0 +1,127 @@
+/**
+ * Count the pages of a PDF in the browser, before it is uploaded.
+ *
+ * A lightweight scan, not a parser: it follows the last trailer's /Root to
+ * the catalog and reads /Count from the root of the page tree, the same
+ * number PDF readers show. Counting /Type /Page objects instead over-counts
+ * files with incremental updates or unused objects. Objects inside
+ * compressed object streams are found by inflating them with
+ * DecompressionStream. The server-side preflight remains the authority; this
+ * only feeds the page picker and previews, and returns null when it cannot
+ * tell.
+ */
+
+// Object streams are only inflated for files up to this size
+const MAX_FULL_SCAN_BYTES = 64 * 1024 * 1024
+const SLICE_BYTES = 8 * 1024 * 1024
+// Overlap between slices so a token split across two slices is still seen
+const SLICE_OVERLAP = 64
+// Enough to hold the catalog or page tree root dictionary
+const OBJECT_READ_BYTES = 16 * 1024
+
+const ROOT_REF = /\/Root\s+(\d+)\s+(\d+)\s+R/g
+const PAGES_REF = /\/Pages\s+(\d+)\s+(\d+)\s+R/
+const PAGE_COUNT = /\/Count\s+(\d+)/
+const OBJECT_STREAM = /\/Type\s*\/ObjStm\b/g
+
+const latin1 = new TextDecoder('latin1')
+
+interface ObjectRef {
+  num: number
+  gen: number
+}
+
+async function readText(file: Blob, start: number, end: number): Promise<string> {
+  return latin1.decode(await file.slice(start, end).arrayBuffer())
+}
+
+/** Absolute offset and match of the last occurrence of `pattern`, read slice by slice */
+async function lastMatch(file: Blob, pattern: RegExp): Promise<{ at: number; match: RegExpExecArray } | null> {
+  let last: { at: number; match: RegExpExecArray } | null = null
+  for (let offset = 0; offset < file.size; offset += SLICE_BYTES) {
+    const start = Math.max(0, offset - SLICE_OVERLAP)
+    const text = await readText(file, start, offset + SLICE_BYTES)
+    pattern.lastIndex = 0
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(text))) last = { at: start + match.index, match }
+  }
+  return last
+}
+
+function parseRef(match: RegExpExecArray | null): ObjectRef | null {
+  return match ? { num: Number(match[1]), gen: Number(match[2]) } : null
+}
+
+async function inflate(data: Uint8Array): Promise<Uint8Array | null> {
+  try {
+    const stream = new Blob([data.slice()]).stream().pipeThrough(new DecompressionStream('deflate'))
+    return new Uint8Array(await new Response(stream).arrayBuffer())
+  } catch {
+    return null
+  }
+}
+
+/** An object stored in a FlateDecode object stream (the last definition wins) */
+async function findInObjectStreams(bytes: Uint8Array, ref: ObjectRef): Promise<string | null> {
+  if (ref.gen !== 0) return null
+  const text = latin1.decode(bytes)
+  let found: string | null = null
+  OBJECT_STREAM.lastIndex = 0
+  let match: RegExpExecArray | null
+  while ((match = OBJECT_STREAM.exec(text))) {
+    const streamAt = text.indexOf('stream', match.index)
+    if (streamAt === -1) break
+    const dictionary = text.slice(text.lastIndexOf('obj', match.index), streamAt)
+    const first = Number(dictionary.match(/\/First\s+(\d+)/)?.[1])
+    if (!Number.isFinite(first)) continue
+    let start = streamAt + 'stream'.length
+    if (text[start] === '\r') start++
+    if (text[start] === '\n') start++
+    const end = text.indexOf('endstream', start)
+    if (end === -1) break
+
+    const inflated = await inflate(bytes.subarray(start, end))
+    if (!inflated) continue
+    const content = latin1.decode(inflated)
+    // The header lists "objectNumber offset" pairs, offsets relative to /First
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number)
+    for (let i = 0; i + 1 < header.length; i += 2) {
+      if (header[i] !== ref.num) continue
+      const objectStart = first + header[i + 1]
+      const objectEnd = i + 3 < header.length ? first + header[i + 3] : content.length
+      found = content.slice(objectStart, objectEnd)
+    }
+  }
+  return found
+}
+
+/** Text of an object's definition, up to its endobj */
+async function readObject(file: Blob, ref: ObjectRef, bytes: Uint8Array | null): Promise<string | null> {
+  const found = await lastMatch(file, new RegExp(`(^|[^0-9])${ref.num}\\s+${ref.gen}\\s+obj\\b`, 'g'))
+  if (found) {
+    const at = found.at + found.match[1].length
+    const text = await readText(file, at, at + OBJECT_READ_BYTES)
+    const end = text.indexOf('endobj')
+    return end === -1 ? text : text.slice(0, end)
+  }
+  return bytes ? findInObjectStreams(bytes, ref) : null
+}
+
+export async function countPdfPages(file: Blob): Promise<number | null> {
+  const head = await readText(file, 0, 1024 + 5)
+  if (!head.includes('%PDF-')) return null
+
+  // Compressed object streams are only searched in files small enough to hold
+  const bytes = file.size <= MAX_FULL_SCAN_BYTES ? new Uint8Array(await file.arrayBuffer()) : null
+
+  // Trailers and cross-reference stream dictionaries are never compressed;
+  // with incremental updates the last /Root is the current one
+  const root = parseRef((await lastMatch(file, ROOT_REF))?.match ?? null)
+  if (!root) return null
+  const catalog = await readObject(file, root, bytes)
+  const pagesRef = parseRef(catalog ? PAGES_REF.exec(catalog) : null)
+  if (!pagesRef) return null
+  const pages = await readObject(file, pagesRef, bytes)
+  const count = Number(pages?.match(PAGE_COUNT)?.[1])
+  return Number.isInteger(count) && count > 0 ? count : null
+}
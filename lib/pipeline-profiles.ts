@@ -0,0 +1,120 @@
+/**
+ * Pipeline profiles: named sets of config_overrides passed to createJob.
+ *
+ * Shared between the profile editor (client), the /api/profiles routes
+ * (server) and the dashboard, so validation rules live here once.
+ */
+
+/** Overrides understood by the worker's pipeline config */
+export interface PipelineConfigOverrides {
+  /** Run figure detection (windows/doors) */
+  detect_figures?: boolean
+  /** Extract schedule tables */
+  extract_schedules?: boolean
+  /** Minimum detection confidence (lower = higher recall) */
+  detection_confidence?: number
+  /** Submit classification automatically instead of waiting for review */
+  auto_classify?: boolean
+  /** Skip the enrichment stage */
+  skip_enrichment?: boolean
+}
+
+export interface PipelineProfile {
+  id: string
+  name: string
+  description: string
+  overrides: PipelineConfigOverrides
+  updatedAt: string
+  updatedBy: string | null
+}
+
+/** Editable part of a profile (what the form submits) */
+export type PipelineProfileInput = Pick<PipelineProfile, 'name' | 'description' | 'overrides'>
+
+export const DETECTION_CONFIDENCE_RANGE = { min: 0.05, max: 0.95 }
+const MAX_NAME_LENGTH = 60
+const MAX_DESCRIPTION_LENGTH = 240
+
+const BOOLEAN_KEYS = ['detect_figures', 'extract_schedules', 'auto_classify', 'skip_enrichment'] as const
+
+/** Profiles every team starts with (can be edited or deleted like any other) */
+export const DEFAULT_PROFILES: PipelineProfileInput[] = [
+  {
+    name: 'Schedules only',
+    description: 'Extract schedule tables without figure detection',
+    overrides: { detect_figures: false, extract_schedules: true },
+  },
+  {
+    name: 'High-recall detection',
+    description: 'Lower detection threshold to catch faint or small figures',
+    overrides: { detect_figures: true, detection_confidence: 0.15 },
+  },
+  {
+    name: 'Skip enrichment',
+    description: 'Stop after classification, no enrichment pass',
+    overrides: { skip_enrichment: true },
+  },
+]
+
+/**
+ * Validate a profile submission. Returns field → message for every problem
+ * (empty object when valid). `existingNames` are the other profiles' names.
+ */
+export function validateProfile(input: PipelineProfileInput, existingNames: string[] = []): Record<string, string> {
+  const errors: Record<string, string> = {}
+  const name = (input.name ?? '').trim()
+
+  if (!name) {
+    errors.name = 'Name is required'
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.name = `Name must be at most ${MAX_NAME_LENGTH} characters`
+  } else if (existingNames.some(n => n.trim().toLowerCase() === name.toLowerCase())) {
+    errors.name = 'A profile with this name already exists'
+  }
+
+  if ((input.description ?? '').length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters`
+  }
+
+  const overrides = input.overrides ?? {}
+  if (typeof overrides !== 'object' || Array.isArray(overrides)) {
+    errors.overrides = 'Overrides must be an object'
+    return errors
+  }
+
+  for (const key of Object.keys(overrides)) {
+    if (key !== 'detection_confidence' && !(BOOLEAN_KEYS as readonly string[]).includes(key)) {
+      errors[key] = `Unknown setting "${key}"`
+    }
+  }
+  for (const key of BOOLEAN_KEYS) {
+    if (overrides[key] !== undefined && typeof overrides[key] !== 'boolean') {
+      errors[key] = 'Must be true or false'
+    }
+  }
+
+  const confidence = overrides.detection_confidence
+  if (confidence !== undefined) {
+    const { min, max } = DETECTION_CONFIDENCE_RANGE
+    if (typeof confidence !== 'number' || Number.isNaN(confidence) || confidence < min || confidence > max) {
+      errors.detection_confidence = `Must be between ${min} and ${max}`
+    }
+  }
+
+  if (overrides.detect_figures === false && overrides.extract_schedules === false) {
+    errors.overrides = 'A profile must keep figure detection or schedule extraction enabled'
+  }
+
+  return errors
+}
+
+/** Short human summary of a profile's overrides, e.g. "no figures · confidence 0.15" */
+export function describeOverrides(overrides: PipelineConfigOverrides): string {
+  const parts: string[] = []
+  if (overrides.detect_figures === false) parts.push('no figures')
+  if (overrides.extract_schedules === false) parts.push('no schedules')
+  if (overrides.detection_confidence !== undefined) parts.push(`confidence ${overrides.detection_confidence}`)
+  if (overrides.auto_classify) parts.push('auto-classify')
+  if (overrides.skip_enrichment) parts.push('skip enrichment')
+  return parts.length > 0 ? parts.join(' · ') : 'pipeline defaults'
+}
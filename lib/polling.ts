@@ -0,0 +1,153 @@
+/**
+ * Adaptive polling for job status.
+ *
+ * Starts at the interval saved in Settings and stretches it (with jitter)
+ * while nothing changes, e.g. a job sitting in one long stage. Pauses while
+ * the tab is hidden and polls at once when it becomes visible again.
+ * Transient failures (network errors, 5xx, 429) are retried with backoff
+ * instead of being reported.
+ */
+
+export const DEFAULT_POLL_INTERVAL_MS = 5000
+export const MIN_POLL_INTERVAL_MS = 500
+export const MAX_POLL_INTERVAL_MS = 10_000
+
+// Unchanged polls stretch the interval up to this multiple of the base
+const MAX_BACKOFF_FACTOR = 6
+const BACKOFF_GROWTH = 1.5
+const MAX_RETRY_DELAY_MS = 30_000
+// +/- share of each delay, so many tabs do not poll in lockstep
+const JITTER = 0.2
+
+/** An HTTP status from a poll, so callers can tell transient failures apart */
+export class PollHttpError extends Error {
+  constructor(message: string, public status: number) {
+    super(message)
+    this.name = 'PollHttpError'
+  }
+}
+
+export function isTransientError(err: unknown): boolean {
+  if (err instanceof PollHttpError) return err.status === 408 || err.status === 429 || err.status >= 500
+  // fetch rejects with a TypeError when the request never completes
+  return err instanceof TypeError
+}
+
+/** The poll interval saved on the Settings page (pipeline_settings.pollInterval) */
+export function getPollInterval(): number {
+  if (typeof window === 'undefined') return DEFAULT_POLL_INTERVAL_MS
+  try {
+    const settings = localStorage.getItem('pipeline_settings')
+    const interval = settings ? Number(JSON.parse(settings).pollInterval) : NaN
+    if (Number.isFinite(interval) && interval > 0) {
+      return Math.min(MAX_POLL_INTERVAL_MS, Math.max(MIN_POLL_INTERVAL_MS, interval))
+    }
+  } catch {
+    // Ignore malformed settings
+  }
+  return DEFAULT_POLL_INTERVAL_MS
+}
+
+function withJitter(ms: number): number {
+  return Math.round(ms * (1 - JITTER + Math.random() * 2 * JITTER))
+}
+
+interface AdaptivePollingOptions {
+  /**
+   * One poll. Resolves to a key describing the observed state (same key =
+   * nothing changed), or null when there is nothing left to poll.
+   */
+  poll: () => Promise<string | null>
+  /** Base interval in ms (default: the Settings value) */
+  interval?: number
+  /** A non-transient failure; polling continues at the base interval */
+  onError?: (err: unknown) => void
+  /** A transient failure; `attempt` counts consecutive failures */
+  onRetry?: (attempt: number, err: unknown) => void
+  /** A poll succeeded after one or more retries */
+  onRecovered?: () => void
+}
+
+export interface AdaptivePoller {
+  stop: () => void
+  /** Poll now and reset the backoff (e.g. after the user acted on a job) */
+  pollNow: () => void
+}
+
+export function startAdaptivePolling(options: AdaptivePollingOptions): AdaptivePoller {
+  const base = options.interval ?? getPollInterval()
+  let stopped = false
+  let inFlight = false
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let lastKey: string | null = null
+  let unchanged = 0
+  let failures = 0
+
+  const hidden = () => typeof document !== 'undefined' && document.visibilityState === 'hidden'
+
+  const clearTimer = () => {
+    if (timer) clearTimeout(timer)
+    timer = null
+  }
+
+  const schedule = (ms: number) => {
+    clearTimer()
+    // While hidden nothing is scheduled; becoming visible polls at once
+    if (!stopped && !hidden()) timer = setTimeout(run, withJitter(ms))
+  }
+
+  const run = async () => {
+    if (stopped || inFlight) return
+    if (hidden()) return clearTimer()
+    inFlight = true
+    clearTimer()
+    try {
+      const key = await options.poll()
+      if (stopped) return
+      if (failures > 0) options.onRecovered?.()
+      failures = 0
+      if (key === null) return stop()
+      unchanged = key === lastKey ? unchanged + 1 : 0
+      lastKey = key
+      schedule(base * Math.min(MAX_BACKOFF_FACTOR, Math.pow(BACKOFF_GROWTH, unchanged)))
+    } catch (err) {
+      if (stopped) return
+      if (isTransientError(err)) {
+        failures++
+        options.onRetry?.(failures, err)
+        schedule(Math.min(MAX_RETRY_DELAY_MS, base * Math.pow(2, failures)))
+      } else {
+        options.onError?.(err)
+        schedule(base)
+      }
+    } finally {
+      inFlight = false
+    }
+  }
+
+  const resume = () => {
+    if (hidden()) return
+    unchanged = 0
+    run()
+  }
+
+  function stop() {
+    stopped = true
+    clearTimer()
+    if (typeof window !== 'undefined') {
+      document.removeEventListener('visibilitychange', resume)
+      window.removeEventListener('focus', resume)
+    }
+  }
+
+  if (typeof window !== 'undefined') {
+    document.addEventListener('visibilitychange', resume)
+    window.addEventListener('focus', resume)
+  }
+  run()
+
+  return {
+    stop,
+    pollNow: resume,
+  }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { groupJobsByProject, normalizeTags, validateProject } from './projects'
+
+const projects = [
+  { id: 'p-harbour', name: 'Harbour' },
+  { id: 'p-bridge', name: 'Bridge' },
+]
+
+const job = (id: string, projectId: string | null) => ({ id, project_id: projectId })
+
+describe('groupJobsByProject', () => {
+  it('groups by project in name order with "No project" last', () => {
+    const groups = groupJobsByProject([
+      job('1', null),
+      job('2', 'p-harbour'),
+      job('3', 'p-bridge'),
+      job('4', 'p-harbour'),
+    ], projects)
+    expect(groups.map(g => [g.key, g.label, g.projectId, g.jobs.map(j => j.id)])).toEqual([
+      ['p-bridge', 'Bridge', 'p-bridge', ['3']],
+      ['p-harbour', 'Harbour', 'p-harbour', ['2', '4']],
+      ['none', 'No project', null, ['1']],
+    ])
+  })
+
+  it('merges jobs of deleted projects into the one "No project" group', () => {
+    const groups = groupJobsByProject([
+      job('1', 'p-deleted'),
+      job('2', null),
+      job('3', 'p-also-deleted'),
+      job('4', 'p-bridge'),
+    ], projects)
+    expect(groups.map(g => [g.key, g.jobs.map(j => j.id)])).toEqual([
+      ['p-bridge', ['4']],
+      ['none', ['1', '2', '3']],
+    ])
+  })
+
+  it('has no groups without jobs', () => {
+    expect(groupJobsByProject([], projects)).toEqual([])
+  })
+})
+
+describe('normalizeTags', () => {
+  it('trims, lowercases and dedupes', () => {
+    expect(normalizeTags(['  Rev B ', 'rev-b', '', 'Urgent'])).toEqual(['rev-b', 'urgent'])
+    expect(normalizeTags('a, b,a')).toEqual(['a', 'b'])
+    expect(normalizeTags(Array.from({ length: 20 }, (_, i) => `t${i}`))).toHaveLength(10)
+  })
+})
+
+describe('validateProject', () => {
+  it('requires a unique name', () => {
+    const input = { name: ' harbour ', customer: '', projectNumber: '', address: '' }
+    expect(validateProject(input, ['Harbour'])).toEqual({ name: 'A project with this name already exists' })
+    expect(validateProject({ ...input, name: '' })).toEqual({ name: 'Name is required' })
+    expect(validateProject(input, ['Bridge'])).toEqual({})
+  })
+})
@@ -0,0 +1,106 @@
+/**
+ * Projects and tags for organising jobs.
+ *
+ * A project is a team-shared record (customer, project number, address);
+ * jobs carry its ID in project_id. Tags are free text stored on the job.
+ * Shared by the /api/projects routes, the dashboard, the runs page and the
+ * label editor, so validation and tag normalisation live here once.
+ */
+
+export interface Project {
+  id: string
+  name: string
+  customer: string
+  projectNumber: string
+  address: string
+  createdAt: string
+  updatedAt: string
+  updatedBy: string | null
+}
+
+/** Editable part of a project (what the form submits) */
+export type ProjectInput = Pick<Project, 'name' | 'customer' | 'projectNumber' | 'address'>
+
+export const EMPTY_PROJECT_INPUT: ProjectInput = { name: '', customer: '', projectNumber: '', address: '' }
+
+const MAX_NAME_LENGTH = 80
+const MAX_FIELD_LENGTH = 160
+
+export const MAX_TAGS = 10
+const MAX_TAG_LENGTH = 32
+
+/**
+ * Validate a project submission. Returns field → message for every problem
+ * (empty when valid). `existingNames` are the other projects' names.
+ */
+export function validateProject(input: ProjectInput, existingNames: string[] = []): Record<string, string> {
+  const errors: Record<string, string> = {}
+  const name = (input.name ?? '').trim()
+
+  if (!name) {
+    errors.name = 'Name is required'
+  } else if (name.length > MAX_NAME_LENGTH) {
+    errors.name = `Name must be at most ${MAX_NAME_LENGTH} characters`
+  } else if (existingNames.some(n => n.trim().toLowerCase() === name.toLowerCase())) {
+    errors.name = 'A project with this name already exists'
+  }
+
+  for (const key of ['customer', 'projectNumber', 'address'] as const) {
+    if ((input[key] ?? '').length > MAX_FIELD_LENGTH) {
+      errors[key] = `Must be at most ${MAX_FIELD_LENGTH} characters`
+    }
+  }
+  return errors
+}
+
+/**
+ * Clean up tags as typed: trimmed, lowercase, inner whitespace collapsed to
+ * "-", duplicates and empties dropped, capped at MAX_TAGS.
+ */
+export function normalizeTags(tags: unknown): string[] {
+  const list = Array.isArray(tags) ? tags : typeof tags === 'string' ? tags.split(',') : []
+  const seen = new Set<string>()
+  for (const raw of list) {
+    if (typeof raw !== 'string') continue
+    const tag = raw.trim().toLowerCase().replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH)
+    if (tag) seen.add(tag)
+    if (seen.size >= MAX_TAGS) break
+  }
+  return [...seen]
+}
+
+/** One line for lists: "Name · Customer · #123" */
+export function describeProject(project: Pick<Project, 'name' | 'customer' | 'projectNumber'>): string {
+  return [project.name, project.customer, project.projectNumber && `#${project.projectNumber}`]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+export interface ProjectGroup<T> {
+  /** Project ID, or 'none' */
+  key: string
+  label: string
+  /** null for the "No project" group */
+  projectId: string | null
+  jobs: T[]
+}
+
+/**
+ * Group jobs by project, in project name order with "No project" last.
+ * Jobs of a project that no longer exists join the single "No project"
+ * group; each group keeps the jobs' order.
+ */
+export function groupJobsByProject<T extends { project_id?: string | null }>(
+  jobs: T[],
+  projects: Pick<Project, 'id' | 'name'>[]
+): ProjectGroup<T>[] {
+  const groups = new Map<string, ProjectGroup<T>>()
+  for (const job of jobs) {
+    const project = projects.find(p => p.id === job.project_id)
+    const key = project?.id ?? 'none'
+    if (!groups.has(key)) groups.set(key, { key, label: project?.name ?? 'No project', projectId: project?.id ?? null, jobs: [] })
+    groups.get(key)!.jobs.push(job)
+  }
+  return [...groups.values()]
+    .sort((a, b) => (!a.projectId ? 1 : !b.projectId ? -1 : a.label.localeCompare(b.label)))
+}
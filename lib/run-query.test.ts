@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { DEFAULT_RUN_QUERY, matchesRunQuery, parseRunQuery, runQueryToApiParams, type RunQuery } from './run-query'
+
+const query = (patch: Partial<RunQuery>): RunQuery => ({ ...DEFAULT_RUN_QUERY, ...patch })
+
+// Local time, like the calendar days of a query
+const localIso = (year: number, month: number, day: number, hours = 12, minutes = 0) =>
+  new Date(year, month - 1, day, hours, minutes).toISOString()
+
+const job = {
+  doc_name: 'Annual Report 2025.pdf',
+  status: 'completed',
+  created_at: localIso(2026, 3, 10),
+  created_by: 'Kari@Example.no',
+  batch_id: 'batch-1',
+  project_id: 'project-1',
+  tags: ['finance', 'q4'],
+}
+
+describe('matchesRunQuery', () => {
+  it('matches everything without filters', () => {
+    expect(matchesRunQuery(job, DEFAULT_RUN_QUERY)).toBe(true)
+    expect(matchesRunQuery({ doc_name: '', status: 'pending', created_at: localIso(2020, 1, 1) }, DEFAULT_RUN_QUERY)).toBe(true)
+  })
+
+  it('searches the document name case-insensitively', () => {
+    expect(matchesRunQuery(job, query({ q: 'annual report' }))).toBe(true)
+    expect(matchesRunQuery(job, query({ q: 'invoice' }))).toBe(false)
+  })
+
+  it('keeps only the selected statuses', () => {
+    expect(matchesRunQuery(job, query({ statuses: ['failed', 'completed'] }))).toBe(true)
+    expect(matchesRunQuery(job, query({ statuses: ['failed'] }))).toBe(false)
+  })
+
+  it('treats the date range as whole local days, inclusive', () => {
+    expect(matchesRunQuery(job, query({ from: '2026-03-10', to: '2026-03-10' }))).toBe(true)
+    expect(matchesRunQuery({ ...job, created_at: localIso(2026, 3, 10, 0, 0) }, query({ from: '2026-03-10' }))).toBe(true)
+    expect(matchesRunQuery({ ...job, created_at: localIso(2026, 3, 10, 23, 59) }, query({ to: '2026-03-10' }))).toBe(true)
+    expect(matchesRunQuery({ ...job, created_at: localIso(2026, 3, 11, 0, 0) }, query({ to: '2026-03-10' }))).toBe(false)
+    expect(matchesRunQuery({ ...job, created_at: localIso(2026, 3, 9, 23, 59) }, query({ from: '2026-03-10' }))).toBe(false)
+  })
+
+  it('compares the creator email case-insensitively and exactly', () => {
+    expect(matchesRunQuery(job, query({ creator: 'kari@example.no' }))).toBe(true)
+    expect(matchesRunQuery(job, query({ creator: 'kari@' }))).toBe(false)
+    expect(matchesRunQuery({ ...job, created_by: null }, query({ creator: 'kari@example.no' }))).toBe(false)
+  })
+
+  it('filters on batch, project and tag', () => {
+    expect(matchesRunQuery(job, query({ batch: 'batch-1', project: 'project-1', tag: 'q4' }))).toBe(true)
+    expect(matchesRunQuery(job, query({ batch: 'batch-2' }))).toBe(false)
+    expect(matchesRunQuery(job, query({ project: 'project-2' }))).toBe(false)
+    expect(matchesRunQuery(job, query({ tag: 'hr' }))).toBe(false)
+    expect(matchesRunQuery({ ...job, tags: null }, query({ tag: 'q4' }))).toBe(false)
+  })
+})
+
+describe('runQueryToApiParams', () => {
+  it('asks for one row more than a page, at the page offset', () => {
+    const params = runQueryToApiParams(query({ page: 3 }), 20)
+    expect(params.get('limit')).toBe('21')
+    expect(params.get('offset')).toBe('40')
+  })
+
+  it('sends the filters for the API to apply', () => {
+    const params = runQueryToApiParams(parseRunQuery(new URLSearchParams('q=report&status=failed,cancelled&creator=kari@example.no&tag=Q4')))
+    expect(params.get('q')).toBe('report')
+    expect(params.get('status')).toBe('failed,cancelled')
+    expect(params.get('created_by')).toBe('kari@example.no')
+    expect(params.get('tag')).toBe('q4')
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Runs history query: search, filters, sort and page.
+ *
+ * The runs page keeps the query in its URL (so a filtered view can be
+ * bookmarked or shared) and sends it to the Jobs API, which filters and
+ * pages server-side. Dates are calendar days (YYYY-MM-DD) in local time.
+ */
+
+export type RunSortField = 'created_at' | 'doc_name' | 'status'
+export type SortOrder = 'asc' | 'desc'
+
+export interface RunQuery {
+  /** Text search on the document name */
+  q: string
+  /** Statuses to include (empty = all) */
+  statuses: string[]
+  /** First and last day of the creation date range, inclusive */
+  from: string
+  to: string
+  /** Creator email */
+  creator: string
+  /** Archive batch the runs came from (linked from the dashboard) */
+  batch: string
+  /** Project ID (see lib/projects) */
+  project: string
+  /** Single tag the runs must carry */
+  tag: string
+  sort: RunSortField
+  order: SortOrder
+  /** 1-based */
+  page: number
+}
+
+export const RUNS_PAGE_SIZE = 50
+
+export const DEFAULT_RUN_QUERY: RunQuery = {
+  q: '',
+  statuses: [],
+  from: '',
+  to: '',
+  creator: '',
+  batch: '',
+  project: '',
+  tag: '',
+  sort: 'created_at',
+  order: 'desc',
+  page: 1,
+}
+
+const SORT_FIELDS: RunSortField[] = ['created_at', 'doc_name', 'status']
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/
+
+/** Read a query from the page URL, ignoring anything malformed */
+export function parseRunQuery(params: URLSearchParams): RunQuery {
+  const day = (value: string | null) => (value && DAY_PATTERN.test(value) ? value : '')
+  const sort = params.get('sort') as RunSortField
+  const page = Number(params.get('page'))
+  return {
+    q: params.get('q')?.trim() ?? '',
+    statuses: (params.get('status') ?? '').split(',').filter(Boolean),
+    from: day(params.get('from')),
+    to: day(params.get('to')),
+    creator: params.get('creator')?.trim() ?? '',
+    batch: params.get('batch') ?? '',
+    project: params.get('project') ?? '',
+    tag: params.get('tag')?.trim().toLowerCase() ?? '',
+    sort: SORT_FIELDS.includes(sort) ? sort : DEFAULT_RUN_QUERY.sort,
+    order: params.get('order') === 'asc' ? 'asc' : 'desc',
+    page: Number.isInteger(page) && page > 1 ? page : 1,
+  }
+}
+
+/** The page URL's search params for a query, leaving out defaults */
+export function runQueryToSearchParams(query: RunQuery): URLSearchParams {
+  const params = new URLSearchParams()
+  if (query.q) params.set('q', query.q)
+  if (query.statuses.length > 0) params.set('status', query.statuses.join(','))
+  if (query.from) params.set('from', query.from)
+  if (query.to) params.set('to', query.to)
+  if (query.creator) params.set('creator', query.creator)
+  if (query.batch) params.set('batch', query.batch)
+  if (query.project) params.set('project', query.project)
+  if (query.tag) params.set('tag', query.tag)
+  if (query.sort !== DEFAULT_RUN_QUERY.sort) params.set('sort', query.sort)
+  if (query.order !== DEFAULT_RUN_QUERY.order) params.set('order', query.order)
+  if (query.page > 1) params.set('page', String(query.page))
+  return params
+}
+
+// Start of a local calendar day
+const startOfDay = (day: string, offsetDays = 0) => {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(year, month - 1, date + offsetDays)
+}
+
+/**
+ * Jobs API parameters for one page of a query. One row more than the page
+ * size is requested, so the caller can tell whether a next page exists even
+ * when the API does not report a total.
+ */
+export function runQueryToApiParams(query: RunQuery, pageSize = RUNS_PAGE_SIZE): URLSearchParams {
+  const params = new URLSearchParams({
+    limit: String(pageSize + 1),
+    offset: String((query.page - 1) * pageSize),
+    sort: query.sort,
+    order: query.order,
+  })
+  if (query.q) params.set('q', query.q)
+  if (query.statuses.length > 0) params.set('status', query.statuses.join(','))
+  if (query.from) params.set('created_after', startOfDay(query.from).toISOString())
+  if (query.to) params.set('created_before', startOfDay(query.to, 1).toISOString())
+  if (query.creator) params.set('created_by', query.creator)
+  if (query.batch) params.set('batch_id', query.batch)
+  if (query.project) params.set('project_id', query.project)
+  if (query.tag) params.set('tag', query.tag)
+  return params
+}
+
+/** Whether any filter (not sort or page) is applied */
+export function hasRunFilters(query: RunQuery): boolean {
+  return !!(query.q || query.statuses.length > 0 || query.from || query.to || query.creator || query.batch || query.project || query.tag)
+}
+
+interface RunFields {
+  doc_name: string
+  status: string
+  created_at: string
+  created_by?: string | null
+  batch_id?: string | null
+  project_id?: string | null
+  tags?: string[] | null
+}
+
+/**
+ * Whether a job matches the query's filters. The API does the filtering;
+ * this only tells whether it ignored a filter it does not support yet.
+ */
+export function matchesRunQuery(job: RunFields, query: RunQuery): boolean {
+  if (query.q && !(job.doc_name || '').toLowerCase().includes(query.q.toLowerCase())) return false
+  if (query.statuses.length > 0 && !query.statuses.includes(job.status)) return false
+  const created = new Date(job.created_at).getTime()
+  if (query.from && created < startOfDay(query.from).getTime()) return false
+  if (query.to && created >= startOfDay(query.to, 1).getTime()) return false
+  if (query.creator && (job.created_by || '').toLowerCase() !== query.creator.toLowerCase()) return false
+  if (query.batch && job.batch_id !== query.batch) return false
+  if (query.project && job.project_id !== query.project) return false
+  if (query.tag && !(job.tags ?? []).includes(query.tag)) return false
+  return true
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { buildStageTimeline, observeJob, type ObservedStretch } from './stage-timeline'
+
+const SECOND = 1000
+const at = (seconds: number) => new Date(Date.parse('2026-03-10T12:00:00Z') + seconds * SECOND).toISOString()
+
+const job = (patch: Partial<JobPublic> = {}) =>
+  ({
+    id: 'job-1',
+    status: 'completed',
+    doc_name: 'report.pdf',
+    current_stage: null,
+    progress_percent: 100,
+    created_at: at(0),
+    started_at: at(10),
+    completed_at: at(100),
+    ...patch,
+  }) as JobPublic
+
+const entry = (timeline: ReturnType<typeof buildStageTimeline>, key: string) => timeline.entries.find(e => e.key === key)!
+
+describe('buildStageTimeline', () => {
+  it('uses the stage history the job record carries', () => {
+    const timeline = buildStageTimeline(job({
+      stage_history: [
+        { stage: 'detection', status: 'running', started_at: at(10), ended_at: at(30) },
+        { stage: 'classification', status: 'classification_pending', started_at: at(30), ended_at: at(60) },
+        { stage: 'classification', status: 'running', started_at: at(60), ended_at: at(100) },
+      ],
+    }), [])
+
+    expect(timeline.source).toBe('server')
+    expect(entry(timeline, 'detection')).toMatchObject({ state: 'done', durationMs: 20 * SECOND })
+    expect(entry(timeline, 'classification')).toMatchObject({ durationMs: 70 * SECOND, waitMs: 30 * SECOND })
+    expect(timeline.totalMs).toBe(90 * SECOND)
+  })
+
+  it('prefers the server history over what the tab observed', () => {
+    const observed: ObservedStretch[] = [{ stage: 'intake', status: 'running', started_at: at(50), ended_at: null, approximate: true }]
+    const timeline = buildStageTimeline(job({
+      stage_history: [{ stage: 'intake', status: 'running', started_at: at(20), ended_at: at(40) }],
+    }), observed)
+    expect(entry(timeline, 'intake')).toMatchObject({ startedAt: at(20), endedAt: at(40), approximate: false })
+  })
+
+  it('falls back to observed stretches and marks the source', () => {
+    const running = job({ status: 'running', current_stage: 'intake', completed_at: null })
+    let observed = observeJob([], running, at(50))
+    observed = observeJob(observed, { ...running, current_stage: 'classification' }, at(70))
+
+    const timeline = buildStageTimeline({ ...running, current_stage: 'classification' }, observed, Date.parse(at(80)))
+    expect(timeline.source).toBe('observed')
+    expect(entry(timeline, 'detection')).toMatchObject({ state: 'done', startedAt: null })
+    expect(entry(timeline, 'intake')).toMatchObject({ state: 'done', durationMs: 20 * SECOND, approximate: true })
+    expect(entry(timeline, 'classification')).toMatchObject({ state: 'running', durationMs: 10 * SECOND })
+  })
+
+  it('has no stage times for a finished job nobody watched', () => {
+    const timeline = buildStageTimeline(job(), [])
+    expect(timeline.source).toBeNull()
+    expect(timeline.entries.every(e => e.state === 'done' && e.durationMs === null)).toBe(true)
+    expect(timeline.queuedMs).toBe(10 * SECOND)
+  })
+})
@@ -0,0 +1,172 @@
+/**
+ * Per-stage timeline of a job, for running and finished jobs.
+ *
+ * Jobs API contract. The current Jobs API does not implement this yet; it
+ * is what the timeline uses once it does:
+ * - JobPublic.stage_history: StageHistoryEntry[], oldest first. The worker
+ *   appends an entry whenever current_stage or the status changes and sets
+ *   ended_at on the previous one; classification_pending is its own entry.
+ *   Kept on the job record, so finished jobs and other browsers see it too.
+ *
+ * Until then the timeline falls back to what this tab saw while polling:
+ * observeJob appends a stretch whenever current_stage or the status changes
+ * and closes the previous one. The first stretch starts at started_at when
+ * the job is seen in its first stage, otherwise at the moment it was first
+ * seen (marked approximate). Stages passed before the page was opened show
+ * as done without times, and a job opened after it finished has none; the
+ * UI says so. Queue and total times always come from created_at,
+ * started_at and completed_at.
+ */
+
+import type { JobPublic, StageHistoryEntry } from '@/hooks/useJobStatus'
+import { PIPELINE_STAGES, resolveStage, reusedStagesFor, type PipelineStage } from '@/hooks/usePipelineStage'
+
+export type StageTimelineState = 'done' | 'running' | 'waiting' | 'reused' | 'pending'
+
+/** A stage_history entry as observed by this tab (see observeJob) */
+export interface ObservedStretch extends StageHistoryEntry {
+  stage: PipelineStage
+  /** The stretch was under way when first seen; started_at is when that was */
+  approximate?: boolean
+}
+
+/** Where the stage times come from; null when there are none */
+export type StageTimeSource = 'server' | 'observed' | null
+
+export interface StageTimelineEntry {
+  key: PipelineStage
+  label: string
+  state: StageTimelineState
+  startedAt: string | null
+  endedAt: string | null
+  /** Wall time from first start to last end (now, while running) */
+  durationMs: number | null
+  /** Part of durationMs spent waiting for classification review */
+  waitMs: number
+  /** The start was not observed, so startedAt and durationMs are lower bounds */
+  approximate: boolean
+}
+
+export interface StageTimeline {
+  entries: StageTimelineEntry[]
+  /** created_at → started_at */
+  queuedMs: number | null
+  /** started_at → completed_at (now, while running) */
+  totalMs: number | null
+  /** Without stage times only the totals are known */
+  source: StageTimeSource
+}
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled']
+
+const elapsed = (from: string | null, to: string | null, now: number): number | null => {
+  if (!from) return null
+  const end = to ? Date.parse(to) : now
+  return Math.max(0, end - Date.parse(from))
+}
+
+const stageOrder = (stage: PipelineStage): number =>
+  PIPELINE_STAGES.find(s => s.key === stage)?.order ?? 0
+
+/** First stage the job runs itself (stages before it are reused or skipped) */
+function firstRunStage(job: JobPublic): PipelineStage {
+  const reused = job.reused_stages ?? reusedStagesFor(job.resume_from_stage)
+  return PIPELINE_STAGES.find(s => s.key !== 'downloading' && !reused.includes(s.key))?.key ?? 'detection'
+}
+
+/**
+ * Record the latest poll of `job` in `history`. Returns `history` itself when
+ * nothing changed, otherwise a new array.
+ */
+export function observeJob(history: ObservedStretch[], job: JobPublic, at = new Date().toISOString()): ObservedStretch[] {
+  const last = history[history.length - 1]
+  const open = last && last.ended_at === null ? last : null
+
+  if (TERMINAL_STATUSES.includes(job.status)) {
+    if (!open) return history
+    return [...history.slice(0, -1), { ...open, ended_at: job.completed_at ?? at }]
+  }
+  // Queued jobs are not in a stage yet
+  if (job.status === 'pending' || !job.started_at) return history
+
+  const stage = resolveStage(job.current_stage, job.status)
+  if (open && open.stage === stage && open.status === job.status) return history
+
+  const closed = open ? [...history.slice(0, -1), { ...open, ended_at: at }] : history
+  // Only a job first seen in the stage it starts with has a known start
+  const knownStart = history.length === 0 && (stage === 'downloading' || stage === firstRunStage(job))
+  return [
+    ...closed,
+    {
+      stage,
+      status: job.status,
+      started_at: knownStart ? job.started_at : at,
+      ended_at: null,
+      ...(history.length === 0 && !knownStart ? { approximate: true } : {}),
+    },
+  ]
+}
+
+/**
+ * `observed` is only used when the job record carries no stage_history.
+ */
+export function buildStageTimeline(job: JobPublic, observed: ObservedStretch[], now = Date.now()): StageTimeline {
+  const reported = job.stage_history?.length ? job.stage_history : null
+  const history: Array<StageHistoryEntry & { approximate?: boolean }> = reported ?? observed
+  const terminal = TERMINAL_STATUSES.includes(job.status)
+  const reused = job.reused_stages ?? reusedStagesFor(job.resume_from_stage)
+  const currentOrder = job.status === 'pending' ? -1 : stageOrder(resolveStage(job.current_stage, job.status))
+
+  const entries = PIPELINE_STAGES
+    .filter(stage => stage.key !== 'complete')
+    .map((stage): StageTimelineEntry => {
+      const stretches = history.filter(h => resolveStage(h.stage, h.status) === stage.key)
+      const base = { key: stage.key, label: stage.label, startedAt: null, endedAt: null, durationMs: null, waitMs: 0, approximate: false }
+      if (stretches.length === 0) {
+        if (reused.includes(stage.key)) return { ...base, state: 'reused' }
+        // Passed before anyone was watching: done, but when is unknown
+        if (job.status === 'completed' || stage.order < currentOrder) return { ...base, state: 'done' }
+        if (!terminal && stage.order === currentOrder) return { ...base, state: 'running' }
+        return { ...base, state: 'pending' }
+      }
+
+      const open = stretches.find(h => h.ended_at === null)
+      const startedAt = stretches[0].started_at
+      // A stretch left open by a job that has since ended is closed at completed_at
+      const endedAt = open ? (terminal ? job.completed_at : null) : stretches[stretches.length - 1].ended_at
+      const waitMs = stretches
+        .filter(h => h.status === 'classification_pending')
+        .reduce((sum, h) => sum + (elapsed(h.started_at, h.ended_at ?? (terminal ? job.completed_at : null), now) ?? 0), 0)
+
+      let state: StageTimelineState = 'done'
+      if (open && !terminal) state = open.status === 'classification_pending' ? 'waiting' : 'running'
+
+      return {
+        ...base,
+        state,
+        startedAt,
+        endedAt,
+        durationMs: elapsed(startedAt, endedAt, now),
+        waitMs,
+        approximate: stretches[0].approximate === true,
+      }
+    })
+
+  return {
+    entries,
+    queuedMs: elapsed(job.created_at, job.started_at, now),
+    totalMs: terminal && !job.completed_at ? null : elapsed(job.started_at, terminal ? job.completed_at : null, now),
+    source: reported ? 'server' : observed.length > 0 ? 'observed' : null,
+  }
+}
+
+/** Compact duration: "850ms", "42s", "3m 05s", "1h 02m" */
+export function formatDuration(ms: number | null): string {
+  if (ms === null) return '-'
+  if (ms < 1000) return `${Math.round(ms)}ms`
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  if (minutes < 60) return `${minutes}m ${String(seconds % 60).padStart(2, '0')}s`
+  return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`
+}
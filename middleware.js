@@ -1,6 +1,7 @@
 // middleware.ts - Authentication and authorization middleware
 import { NextResponse } from 'next/server';
 import { getToken } from 'next-auth/jwt';
+import { isAdminEmail } from './lib/admin';
 
 /**
  * Static file extensions that should bypass auth
@@ -12,15 +13,6 @@ const STATIC_FILE_EXTENSIONS = [
     'pdf', 'zip', 'gz'
 ];
 
-/**
- * Check if email is in admin allowlist
- */
-function isAdminEmail(email) {
-    if (!email) return false;
-    const adminEmails = (process.env.ADMIN_EMAILS || '').split(',').map(e => e.trim().toLowerCase());
-    return adminEmails.includes(email.toLowerCase());
-}
-
 /**
  * Check if path is a static file
  */
@@ -71,6 +63,19 @@ export async function middleware(req) {
 
     }
 
+    // 6. Admin pages and APIs need an allowlisted email
+    if (pathname.startsWith('/admin') || pathname.startsWith('/api/admin')) {
+        if (token && !isAdminEmail(token.email)) {
+            if (pathname.startsWith('/api/')) {
+                return NextResponse.json(
+                    { error: 'Forbidden', message: 'Admin access required' },
+                    { status: 403 }
+                );
+            }
+            return NextResponse.redirect(new URL('/', req.url));
+        }
+    }
+
     // 7. Handle all other protected page routes
     if (!token) {
         const url = req.nextUrl.clone();
@@ -0,0 +1,136 @@
+/**
+ * Expand an uploaded ZIP into one stored input PDF per contained document.
+ *
+ * Every PDF gets its own jobId and is stored like a single upload (pdfStore),
+ * so the dashboard creates one job per entry, grouped under a batch named
+ * after the archive. Non-PDF and unreadable entries are reported, not fatal.
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import { basename } from 'path'
+import { MAX_UPLOAD_BYTES } from '@/lib/chunked-upload'
+import { createLogger } from '@/lib/logger'
+import { preflightBuffer, type PreflightReport } from './pdfPreflight'
+import type { PdfStore } from './pdfStore'
+import { extractZipEntry, readZipEntries, ZipArchiveError, type ZipSource } from './zipArchive'
+
+const log = createLogger('archiveIngest')
+
+/** More PDFs than this in one archive is almost certainly a mistake */
+const MAX_ARCHIVE_PDFS = 200
+
+/**
+ * Cap on the total expanded size (guards against zip bombs). PDFs barely
+ * compress, so an archive within the upload limit stays well below this.
+ */
+const MAX_EXPANDED_BYTES = 2 * MAX_UPLOAD_BYTES
+
+export interface ArchiveEntryResult {
+  /** Path inside the archive */
+  entryName: string
+  /** Filename used as the job's doc_name */
+  filename: string
+  jobId: string
+  /** URL the worker fetches the input from (passed to createJob); empty when preflight blocked it */
+  url: string
+  pathname: string
+  sizeBytes: number
+  contentHash: string
+  preflight: PreflightReport
+}
+
+export interface ArchiveSkippedEntry {
+  entryName: string
+  reason: string
+}
+
+export interface ArchiveReport {
+  batchId: string
+  /** Archive filename without extension */
+  batchName: string
+  entries: ArchiveEntryResult[]
+  skipped: ArchiveSkippedEntry[]
+}
+
+export function isZipFilename(filename: string): boolean {
+  return filename.toLowerCase().endsWith('.zip')
+}
+
+function skipReason(name: string): string | null {
+  const base = basename(name)
+  if (name.startsWith('__MACOSX/') || base.startsWith('._')) return 'macOS metadata'
+  if (!base.toLowerCase().endsWith('.pdf')) return 'not a PDF'
+  return null
+}
+
+/**
+ * Expand a ZIP archive, holding one entry in memory at a time. Throws
+ * ZipArchiveError when the archive itself is unreadable; problems with
+ * single entries end up in `skipped`.
+ */
+export async function expandPdfArchive(source: ZipSource, archiveName: string, store: PdfStore): Promise<ArchiveReport> {
+  const entries = (await readZipEntries(source)).filter(e => !e.isDirectory)
+  const report: ArchiveReport = {
+    batchId: randomUUID(),
+    batchName: archiveName.replace(/\.zip$/i, ''),
+    entries: [],
+    skipped: [],
+  }
+
+  let expandedBytes = 0
+  for (const entry of entries) {
+    const reason = skipReason(entry.name) ?? entry.unsupported
+    if (reason) {
+      if (reason !== 'macOS metadata') report.skipped.push({ entryName: entry.name, reason })
+      continue
+    }
+    if (report.entries.length >= MAX_ARCHIVE_PDFS) {
+      report.skipped.push({ entryName: entry.name, reason: `archive has more than ${MAX_ARCHIVE_PDFS} PDFs` })
+      continue
+    }
+    if (entry.size > MAX_UPLOAD_BYTES || expandedBytes + entry.size > MAX_EXPANDED_BYTES) {
+      report.skipped.push({ entryName: entry.name, reason: 'too large' })
+      continue
+    }
+
+    let data: Uint8Array
+    try {
+      data = await extractZipEntry(source, entry, MAX_UPLOAD_BYTES)
+    } catch (error) {
+      if (!(error instanceof ZipArchiveError)) throw error
+      report.skipped.push({ entryName: entry.name, reason: error.message })
+      continue
+    }
+    expandedBytes += data.length
+
+    let preflight: PreflightReport
+    try {
+      preflight = await preflightBuffer(Buffer.from(data.buffer, data.byteOffset, data.byteLength))
+    } catch (error) {
+      log.warn('Archive entry preflight failed', { entry: entry.name, error: error instanceof Error ? error.message : String(error) })
+      report.skipped.push({ entryName: entry.name, reason: 'could not be checked' })
+      continue
+    }
+
+    const jobId = randomUUID()
+    const filename = basename(entry.name)
+    // Blocked PDFs are reported but never stored, so no job can fetch them
+    const stored = preflight.ok ? await store(jobId, filename, data) : { url: '', pathname: '' }
+    report.entries.push({
+      entryName: entry.name,
+      filename,
+      jobId,
+      ...stored,
+      sizeBytes: data.length,
+      contentHash: createHash('sha256').update(data).digest('hex'),
+      preflight,
+    })
+  }
+
+  log.info(`Archive expanded: ${archiveName}`, {
+    batch_id: report.batchId,
+    pdfs: report.entries.length,
+    skipped: report.skipped.length,
+  })
+  return report
+}
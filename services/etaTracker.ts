@@ -0,0 +1,229 @@
+/**
+ * Builds the ETA model (lib/eta) from recent jobs and tracks how good its
+ * estimates turn out to be.
+ *
+ * getEtaSnapshot only reads: the model is rebuilt from the latest jobs in
+ * the Jobs API at most every MODEL_TTL_MS, and the accuracy comes from the
+ * stored results. Predictions are recorded by a background task
+ * (startEtaTracker, started from instrumentation.ts): running jobs get a
+ * prediction the first time it sees them in each stage, and once such a job
+ * completes the prediction is compared with the time it actually took
+ * (without review waits, for estimates from stage times) and kept as an
+ * accuracy sample.
+ */
+
+import { api } from '@/lib/api-config'
+import { buildEtaModel, estimateJobEta, medianOrNull, type EtaAccuracy, type EtaModel, type JobEta } from '@/lib/eta'
+import { createLogger } from '@/lib/logger'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { readTeamDocument, writeTeamDocument } from './teamStore'
+
+const log = createLogger('etaTracker')
+
+const MODEL_TTL_MS = 5 * 60 * 1000
+const TRACK_MS = 60 * 1000
+const HISTORY_JOBS = 200
+const DOCUMENT = 'eta-predictions'
+const MAX_OPEN_PREDICTIONS = 500
+const MAX_RESULTS = 1000
+// Predictions for jobs that never finish are dropped after this long
+const OPEN_PREDICTION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+interface EtaPrediction {
+  jobId: string
+  /** Stage the job was in when the prediction was made */
+  stage: string
+  predictedAt: string
+  predictedRemainingMs: number
+  /** Stage estimates leave review waits out, so the actual time does too */
+  basis?: JobEta['basis']
+}
+
+interface EtaResult extends EtaPrediction {
+  actualRemainingMs: number
+  resolvedAt: string
+}
+
+interface EtaPredictionDocument {
+  open: EtaPrediction[]
+  results: EtaResult[]
+}
+
+export interface EtaSnapshot {
+  model: EtaModel
+  accuracy: EtaAccuracy
+}
+
+interface TrackerState {
+  snapshot: EtaSnapshot | null
+  builtAt: number
+  building: Promise<EtaSnapshot> | null
+  started: boolean
+  tracking: Promise<void> | null
+  timer: ReturnType<typeof setTimeout> | null
+}
+
+const globalForEta = globalThis as unknown as { etaTracker?: TrackerState }
+const state: TrackerState = globalForEta.etaTracker ??= {
+  snapshot: null,
+  builtAt: 0,
+  building: null,
+  started: false,
+  tracking: null,
+  timer: null,
+}
+
+function summarizeAccuracy(results: EtaResult[]): EtaAccuracy {
+  const absErrors = results.map(r => Math.abs(r.predictedRemainingMs - r.actualRemainingMs))
+  const relErrors = results
+    .filter(r => r.actualRemainingMs > 0)
+    .map(r => Math.abs(r.predictedRemainingMs - r.actualRemainingMs) / r.actualRemainingMs)
+  return {
+    count: results.length,
+    medianAbsErrorMs: medianOrNull(absErrors),
+    medianRelativeError: medianOrNull(relErrors),
+    withinQuarter: relErrors.length > 0 ? relErrors.filter(e => e <= 0.25).length / relErrors.length : null,
+  }
+}
+
+/** Review time inside [from, to] from the job's stage_history; stage estimates leave it out */
+function reviewWaitBetween(job: JobPublic, from: number, to: number): number {
+  return (job.stage_history ?? [])
+    .filter(h => h.status === 'classification_pending')
+    .reduce((sum, h) => {
+      const start = Math.max(from, Date.parse(h.started_at))
+      const end = Math.min(to, h.ended_at ? Date.parse(h.ended_at) : to)
+      return sum + Math.max(0, end - start)
+    }, 0)
+}
+
+async function fetchRecentJobs(): Promise<JobPublic[]> {
+  const res = await fetch(api.jobs.list(HISTORY_JOBS), { cache: 'no-store' })
+  if (!res.ok) throw new Error(`Jobs API returned ${res.status}`)
+  return res.json()
+}
+
+async function rebuild(): Promise<EtaSnapshot> {
+  const [jobs, doc] = await Promise.all([
+    fetchRecentJobs(),
+    readTeamDocument<EtaPredictionDocument>(DOCUMENT, { open: [], results: [] }),
+  ])
+  const model = buildEtaModel(jobs)
+  log.debug('ETA model rebuilt', {
+    jobs: model.jobCount,
+    stages: Object.keys(model.stages).length,
+    profiles: Object.keys(model.profiles).length,
+  })
+  return { model, accuracy: summarizeAccuracy(doc.results) }
+}
+
+/** Resolve predictions for jobs that have finished and record new ones */
+async function track(): Promise<void> {
+  const jobs = await fetchRecentJobs()
+  const now = Date.now()
+  const model = buildEtaModel(jobs, now)
+
+  const doc = await readTeamDocument<EtaPredictionDocument>(DOCUMENT, { open: [], results: [] })
+  const byId = new Map(jobs.map(job => [job.id, job]))
+  let changed = false
+
+  const stillOpen: EtaPrediction[] = []
+  for (const prediction of doc.open) {
+    const job = byId.get(prediction.jobId)
+    if (job?.status === 'completed' && job.completed_at) {
+      const from = Date.parse(prediction.predictedAt)
+      const to = Date.parse(job.completed_at)
+      const wait = prediction.basis === 'stages' ? reviewWaitBetween(job, from, to) : 0
+      doc.results.push({
+        ...prediction,
+        actualRemainingMs: Math.max(0, to - from - wait),
+        resolvedAt: new Date(now).toISOString(),
+      })
+      changed = true
+    } else if (job && ['failed', 'cancelled'].includes(job.status)) {
+      changed = true
+    } else if (now - Date.parse(prediction.predictedAt) > OPEN_PREDICTION_TTL_MS) {
+      changed = true
+    } else {
+      stillOpen.push(prediction)
+    }
+  }
+
+  // First prediction per running job and stage
+  for (const job of jobs) {
+    if (!job.started_at) continue
+    const stage = job.current_stage || job.status
+    if (stillOpen.some(p => p.jobId === job.id && p.stage === stage)) continue
+    const eta = estimateJobEta(job, model, now)
+    if (!eta || eta.waitingForReview) continue
+    stillOpen.push({
+      jobId: job.id,
+      stage,
+      predictedAt: new Date(now).toISOString(),
+      predictedRemainingMs: Math.round(eta.remainingMs),
+      basis: eta.basis,
+    })
+    changed = true
+  }
+
+  if (!changed) return
+  doc.open = stillOpen.slice(-MAX_OPEN_PREDICTIONS)
+  doc.results = doc.results.slice(-MAX_RESULTS)
+  await writeTeamDocument(DOCUMENT, doc)
+  if (state.snapshot) state.snapshot = { ...state.snapshot, accuracy: summarizeAccuracy(doc.results) }
+}
+
+/** Record and resolve predictions now (or wait for the run in progress) */
+export async function trackEtaPredictions(): Promise<void> {
+  state.tracking ??= track()
+    .catch(error => {
+      log.warn('Failed to track ETA predictions', { error: error instanceof Error ? error.message : String(error) })
+    })
+    .finally(() => {
+      state.tracking = null
+    })
+  await state.tracking
+}
+
+/**
+ * Track predictions on an interval. Safe to call repeatedly.
+ */
+export function startEtaTracker(): void {
+  if (state.started) return
+  state.started = true
+  log.info('Tracking ETA predictions', { track_ms: TRACK_MS })
+
+  const tick = async () => {
+    await trackEtaPredictions()
+    state.timer = setTimeout(tick, TRACK_MS)
+  }
+  tick()
+}
+
+/**
+ * The current model and accuracy, rebuilt at most every MODEL_TTL_MS. A
+ * failed rebuild keeps serving the previous snapshot when there is one.
+ */
+export async function getEtaSnapshot(): Promise<EtaSnapshot> {
+  if (state.snapshot && Date.now() - state.builtAt < MODEL_TTL_MS) return state.snapshot
+
+  state.building ??= rebuild()
+    .then(snapshot => {
+      state.snapshot = snapshot
+      state.builtAt = Date.now()
+      return snapshot
+    })
+    .finally(() => {
+      state.building = null
+    })
+
+  try {
+    return await state.building
+  } catch (error) {
+    if (state.snapshot) {
+      log.warn('ETA rebuild failed, serving previous model', { error: error instanceof Error ? error.message : String(error) })
+      return state.snapshot
+    }
+    throw error
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Counts of recent job failures by category, stage and worker error code,
+ * for the admin view. Categories come from lib/failure-diagnostics, so the
+ * counts match what users see in the results page panel.
+ */
+
+import { api } from '@/lib/api-config'
+import { listJobs } from '@/lib/jobs-api'
+import { diagnoseFailure, type FailureCategory } from '@/lib/failure-diagnostics'
+import type { JobPublic } from '@/hooks/useJobStatus'
+
+// Failed jobs read per request; older ones in the window are left out
+const MAX_FAILED_JOBS = 1000
+const RECENT_EXAMPLES = 20
+
+export interface FailureExample {
+  jobId: string
+  docName: string
+  createdAt: string
+  category: FailureCategory
+  code: string
+  stage: string | null
+  error: string | null
+}
+
+export interface FailureStats {
+  days: number
+  since: string
+  total: number
+  /** More failures exist in the window than were counted */
+  truncated: boolean
+  byCategory: Record<FailureCategory, number>
+  byStage: Record<string, number>
+  /** Worker-reported codes only; inferred ones are just the category */
+  byCode: Record<string, number>
+  recent: FailureExample[]
+}
+
+export async function getFailureStats(days: number): Promise<FailureStats> {
+  const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString()
+  const params = new URLSearchParams({
+    status: 'failed',
+    created_after: since,
+    limit: String(MAX_FAILED_JOBS + 1),
+    sort: 'created_at',
+    order: 'desc',
+  })
+  const listed = await listJobs(api.jobs.search(params), job => job.status === 'failed' && job.created_at >= since)
+  const failed = listed.slice(0, MAX_FAILED_JOBS)
+
+  const stats: FailureStats = {
+    days,
+    since,
+    total: failed.length,
+    truncated: listed.length > MAX_FAILED_JOBS,
+    byCategory: { input: 0, timeout: 0, worker_crash: 0, storage: 0, unknown: 0 },
+    byStage: {},
+    byCode: {},
+    recent: [],
+  }
+
+  for (const job of failed) {
+    const diagnosis = diagnoseFailure(job)
+    stats.byCategory[diagnosis.category]++
+    const stage = diagnosis.stageLabel ?? 'Unknown'
+    stats.byStage[stage] = (stats.byStage[stage] ?? 0) + 1
+    if (diagnosis.source === 'worker') stats.byCode[diagnosis.code] = (stats.byCode[diagnosis.code] ?? 0) + 1
+    if (stats.recent.length < RECENT_EXAMPLES) {
+      stats.recent.push({
+        jobId: job.id,
+        docName: job.doc_name,
+        createdAt: job.created_at,
+        category: diagnosis.category,
+        code: diagnosis.code,
+        stage: diagnosis.stageLabel,
+        error: diagnosis.error,
+      })
+    }
+  }
+  return stats
+}
@@ -0,0 +1,375 @@
+/**
+ * Watched input folder: PDFs dropped into WATCH_INPUT_DIR become jobs.
+ *
+ * The folder is scanned on an interval rather than with fs.watch, which is
+ * unreliable on network shares and misses files copied in before startup.
+ * A file is picked up once its size and mtime have not changed for
+ * WATCH_STABLE_SECONDS, so half-copied files are never processed.
+ *
+ * Picked-up files are stored like an upload (pdfStore), a Jobs API job is
+ * created for them, and the original is moved to archive/ (or error/, with a
+ * .error.txt explaining why). A marker in .processed/ is written as soon as
+ * the job exists, so a file that cannot be moved is not turned into a second
+ * job on the next scan. History is kept in the team store so the status page
+ * survives restarts.
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import { mkdir, readdir, readFile, rename, rm, stat, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import { blockingMessage, preflightBuffer } from './pdfPreflight'
+import { blobPdfStore, deleteBlobPdf, deleteLocalPdf, localPdfStore } from './pdfStore'
+import { readTeamDocument, writeTeamDocument } from './teamStore'
+
+const log = createLogger('inputWatcher')
+
+// Resolve WATCH_INPUT_DIR relative to PROJECT_ROOT (parent of cwd, since Next.js runs from frontend/)
+const PROJECT_ROOT = resolve(process.cwd(), '..')
+const WATCH_DIR = process.env.WATCH_INPUT_DIR ? resolve(PROJECT_ROOT, process.env.WATCH_INPUT_DIR) : null
+const ARCHIVE_SUBDIR = 'archive'
+const ERROR_SUBDIR = 'error'
+const PROCESSED_SUBDIR = '.processed'
+
+const STABLE_MS = Number(process.env.WATCH_STABLE_SECONDS || 10) * 1000
+const POLL_MS = Number(process.env.WATCH_POLL_SECONDS || 5) * 1000
+
+// URL the worker uses to fetch locally stored inputs
+const PUBLIC_URL = (process.env.WATCH_PUBLIC_URL || process.env.NEXTAUTH_URL || `http://localhost:${process.env.PORT || 3000}`)
+  .replace(/\/+$/, '')
+
+const USE_BLOB = process.env.NEXT_PUBLIC_STORAGE_MODE === 'blob'
+  || (process.env.NEXT_PUBLIC_STORAGE_MODE !== 'local' && process.env.NEXT_PUBLIC_USE_BLOB === 'true')
+
+const HISTORY_DOCUMENT = 'input-watcher'
+const MAX_HISTORY = 200
+
+export type WatchedFileState = 'waiting' | 'processing' | 'created' | 'failed'
+
+export interface WatchedFile {
+  filename: string
+  sizeBytes: number
+  state: WatchedFileState
+  detectedAt: string
+  finishedAt: string | null
+  jobId: string | null
+  error: string | null
+  /** Where the original ended up, relative to the watched folder */
+  movedTo: string | null
+}
+
+export interface InputWatcherStatus {
+  enabled: boolean
+  directory: string | null
+  stableSeconds: number
+  pollSeconds: number
+  lastScanAt: string | null
+  /** Set when the folder itself could not be scanned */
+  lastError: string | null
+  /** Files still being written or processed, then finished ones (newest first) */
+  files: WatchedFile[]
+}
+
+interface Candidate {
+  sizeBytes: number
+  mtimeMs: number
+  /** When the current size/mtime was first seen */
+  since: number
+  detectedAt: string
+  processing: boolean
+}
+
+interface WatcherState {
+  started: boolean
+  timer: ReturnType<typeof setTimeout> | null
+  scanning: Promise<void> | null
+  candidates: Map<string, Candidate>
+  history: WatchedFile[] | null
+  lastScanAt: string | null
+  lastError: string | null
+}
+
+// Kept on globalThis so dev-server reloads do not start a second watcher
+const globalForWatcher = globalThis as unknown as { inputWatcher?: WatcherState }
+const state: WatcherState = globalForWatcher.inputWatcher ??= {
+  started: false,
+  timer: null,
+  scanning: null,
+  candidates: new Map(),
+  history: null,
+  lastScanAt: null,
+  lastError: null,
+}
+
+async function loadHistory(): Promise<WatchedFile[]> {
+  if (!state.history) {
+    state.history = await readTeamDocument<WatchedFile[]>(HISTORY_DOCUMENT, []).catch(error => {
+      log.warn('Failed to read watcher history', { error: error instanceof Error ? error.message : String(error) })
+      return []
+    })
+  }
+  return state.history
+}
+
+async function recordFinished(file: WatchedFile): Promise<void> {
+  const history = await loadHistory()
+  state.history = [file, ...history].slice(0, MAX_HISTORY)
+  await writeTeamDocument(HISTORY_DOCUMENT, state.history).catch(error => {
+    log.warn('Failed to write watcher history', { error: error instanceof Error ? error.message : String(error) })
+  })
+}
+
+/** Move a file into archive/ or error/ without overwriting earlier ones */
+async function moveTo(subdir: string, filename: string): Promise<string> {
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+  const target = join(subdir, `${stamp}_${filename}`)
+  await rename(join(WATCH_DIR!, filename), join(WATCH_DIR!, target))
+  return target
+}
+
+interface ProcessedMarker {
+  jobId: string
+  filename: string
+  createdAt: string
+}
+
+// Keyed by content, so a renamed or re-copied file with a job is still recognised
+function markerPath(contentHash: string): string {
+  return join(WATCH_DIR!, PROCESSED_SUBDIR, `${contentHash}.json`)
+}
+
+async function readMarker(contentHash: string): Promise<ProcessedMarker | null> {
+  try {
+    return JSON.parse(await readFile(markerPath(contentHash), 'utf-8'))
+  } catch {
+    return null
+  }
+}
+
+/** Fill in where a file went once a retried move succeeds */
+async function recordMoved(jobId: string, movedTo: string): Promise<void> {
+  const history = await loadHistory()
+  const entry = history.find(f => f.jobId === jobId)
+  if (!entry) return
+  entry.movedTo = movedTo
+  await writeTeamDocument(HISTORY_DOCUMENT, history).catch(error => {
+    log.warn('Failed to write watcher history', { error: error instanceof Error ? error.message : String(error) })
+  })
+}
+
+async function createJobRecord(jobId: string, inputUrl: string, docName: string, contentHash: string): Promise<void> {
+  const res = await fetch(api.jobs.create(), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      job_id: jobId,
+      input_url: inputUrl,
+      doc_name: docName,
+      content_hash: contentHash,
+    }),
+  })
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({}))
+    throw new Error(body.detail || body.error || `Jobs API responded ${res.status}`)
+  }
+}
+
+async function processFile(filename: string, candidate: Candidate): Promise<void> {
+  const result: WatchedFile = {
+    filename,
+    sizeBytes: candidate.sizeBytes,
+    state: 'failed',
+    detectedAt: candidate.detectedAt,
+    finishedAt: null,
+    jobId: null,
+    error: null,
+    movedTo: null,
+  }
+
+  let buffer: Buffer
+  let contentHash: string
+  try {
+    buffer = await readFile(join(WATCH_DIR!, filename))
+    contentHash = createHash('sha256').update(new Uint8Array(buffer)).digest('hex')
+  } catch (error) {
+    // Vanished or unreadable; the next scan decides whether it is still there
+    log.warn(`Could not read watched file ${filename}`, { error: error instanceof Error ? error.message : String(error) })
+    return
+  }
+
+  // A job already exists for this content; only the move is left to do
+  const marker = await readMarker(contentHash)
+  if (marker) {
+    await archiveProcessed(filename, contentHash, marker.jobId)
+    return
+  }
+
+  let stored: { jobId: string; url: string } | null = null
+  try {
+    const preflight = await preflightBuffer(buffer)
+    if (!preflight.ok) {
+      throw new Error(blockingMessage(preflight))
+    }
+
+    const jobId = randomUUID()
+    const store = USE_BLOB ? blobPdfStore() : localPdfStore(PUBLIC_URL, { watchedFile: filename })
+    stored = { jobId, ...(await store(jobId, filename, new Uint8Array(buffer))) }
+    await createJobRecord(jobId, stored.url, filename, contentHash)
+
+    result.state = 'created'
+    result.jobId = jobId
+    log.info(`Job created for watched file ${filename}`, { job_id: jobId })
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error)
+    log.error(`Watched file failed: ${filename}`, { error: result.error })
+    if (stored) await discardStored(stored)
+    try {
+      result.movedTo = await moveTo(ERROR_SUBDIR, filename)
+      await writeFile(join(WATCH_DIR!, `${result.movedTo}.error.txt`), `${result.error}\n`)
+    } catch (moveError) {
+      // Left in place; it is retried on the next scan once it looks stable again
+      log.error(`Could not move ${filename} to ${ERROR_SUBDIR}/`, {
+        error: moveError instanceof Error ? moveError.message : String(moveError),
+      })
+    }
+    result.finishedAt = new Date().toISOString()
+    await recordFinished(result)
+    return
+  }
+
+  try {
+    const processed: ProcessedMarker = { jobId: result.jobId, filename, createdAt: new Date().toISOString() }
+    await mkdir(join(WATCH_DIR!, PROCESSED_SUBDIR), { recursive: true })
+    await writeFile(markerPath(contentHash), JSON.stringify(processed))
+  } catch (error) {
+    log.error(`Could not record ${filename} as processed`, { error: error instanceof Error ? error.message : String(error) })
+  }
+  result.finishedAt = new Date().toISOString()
+  await recordFinished(result)
+  await archiveProcessed(filename, contentHash, result.jobId)
+}
+
+/** Move a file whose job exists to archive/; the marker goes once it is there */
+async function archiveProcessed(filename: string, contentHash: string, jobId: string): Promise<void> {
+  try {
+    const movedTo = await moveTo(ARCHIVE_SUBDIR, filename)
+    await rm(markerPath(contentHash), { force: true })
+    await recordMoved(jobId, movedTo)
+  } catch (error) {
+    // The marker stays, so the next scan retries the move instead of creating another job
+    log.error(`Could not move ${filename} to ${ARCHIVE_SUBDIR}/`, {
+      job_id: jobId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+/** Remove an input that was stored for a job that could not be created */
+async function discardStored({ jobId, url }: { jobId: string; url: string }): Promise<void> {
+  try {
+    await (USE_BLOB ? deleteBlobPdf(url) : deleteLocalPdf(jobId))
+  } catch (error) {
+    log.warn('Failed to remove stored input of a failed watched file', {
+      job_id: jobId,
+      error: error instanceof Error ? error.message : String(error),
+    })
+  }
+}
+
+async function scan(): Promise<void> {
+  if (!WATCH_DIR) return
+  const now = Date.now()
+
+  try {
+    await mkdir(join(WATCH_DIR, ARCHIVE_SUBDIR), { recursive: true })
+    await mkdir(join(WATCH_DIR, ERROR_SUBDIR), { recursive: true })
+    const entries = await readdir(WATCH_DIR, { withFileTypes: true })
+    const present = new Set<string>()
+
+    for (const entry of entries) {
+      if (!entry.isFile() || entry.name.startsWith('.') || !entry.name.toLowerCase().endsWith('.pdf')) continue
+      present.add(entry.name)
+
+      const info = await stat(join(WATCH_DIR, entry.name)).catch(() => null)
+      if (!info) continue
+
+      const known = state.candidates.get(entry.name)
+      if (!known || known.sizeBytes !== info.size || known.mtimeMs !== info.mtimeMs) {
+        // New or still being written: restart the stability clock
+        state.candidates.set(entry.name, {
+          sizeBytes: info.size,
+          mtimeMs: info.mtimeMs,
+          since: now,
+          detectedAt: known?.detectedAt ?? new Date(now).toISOString(),
+          processing: false,
+        })
+        continue
+      }
+
+      if (!known.processing && info.size > 0 && now - known.since >= STABLE_MS) {
+        known.processing = true
+        await processFile(entry.name, known)
+        state.candidates.delete(entry.name)
+      }
+    }
+
+    for (const name of state.candidates.keys()) {
+      if (!present.has(name)) state.candidates.delete(name)
+    }
+    state.lastError = null
+  } catch (error) {
+    state.lastError = error instanceof Error ? error.message : String(error)
+    log.error('Watch folder scan failed', { error: state.lastError, directory: WATCH_DIR })
+  } finally {
+    state.lastScanAt = new Date().toISOString()
+  }
+}
+
+/** Run a scan now (or wait for the one in progress) */
+export async function scanInputFolder(): Promise<void> {
+  if (!state.scanning) {
+    state.scanning = scan().finally(() => { state.scanning = null })
+  }
+  await state.scanning
+}
+
+/**
+ * Start scanning WATCH_INPUT_DIR on an interval. Safe to call repeatedly;
+ * does nothing when no folder is configured.
+ */
+export function startInputWatcher(): void {
+  if (state.started || !WATCH_DIR) return
+  state.started = true
+  log.info('Watching input folder', { directory: WATCH_DIR, stable_ms: STABLE_MS, poll_ms: POLL_MS })
+
+  const tick = async () => {
+    await scanInputFolder()
+    state.timer = setTimeout(tick, POLL_MS)
+  }
+  tick()
+}
+
+export async function getInputWatcherStatus(): Promise<InputWatcherStatus> {
+  const history = await loadHistory()
+  const active: WatchedFile[] = [...state.candidates.entries()].map(([filename, c]) => ({
+    filename,
+    sizeBytes: c.sizeBytes,
+    state: c.processing ? 'processing' : 'waiting',
+    detectedAt: c.detectedAt,
+    finishedAt: null,
+    jobId: null,
+    error: null,
+    movedTo: null,
+  }))
+
+  return {
+    enabled: WATCH_DIR !== null,
+    directory: WATCH_DIR,
+    stableSeconds: STABLE_MS / 1000,
+    pollSeconds: POLL_MS / 1000,
+    lastScanAt: state.lastScanAt,
+    lastError: state.lastError,
+    files: [...active, ...history],
+  }
+}
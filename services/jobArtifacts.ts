@@ -0,0 +1,138 @@
+/**
+ * Removes what a job left behind outside the Jobs API.
+ *
+ * LOCAL MODE: output_frontend/{jobId}/ (input.pdf, upload chunks, crops,
+ *             CSVs, manifest.json) is removed as a whole.
+ * BLOB MODE:  the uploads/{jobId}/ blobs plus every file listed in the job's
+ *             manifest, and the manifest itself.
+ *
+ * Sizes are measured before deleting so callers can report what was freed.
+ */
+
+import { readdir, rm, stat } from 'fs/promises'
+import { join, resolve } from 'path'
+import { del, head, list } from '@vercel/blob'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('jobArtifacts')
+
+// Resolve OUTPUT_DIR relative to PROJECT_ROOT (parent of cwd, since Next.js runs from frontend/)
+const PROJECT_ROOT = resolve(process.cwd(), '..')
+const OUTPUT_DIR = process.env.OUTPUT_DIR
+  ? resolve(PROJECT_ROOT, process.env.OUTPUT_DIR)
+  : resolve(PROJECT_ROOT, 'output_frontend')
+
+// Blob URLs we are willing to delete (never anything else a manifest lists)
+const BLOB_HOST_SUFFIX = '.blob.vercel-storage.com'
+// del() and head() calls per round
+const BLOB_BATCH = 20
+
+export interface ArtifactCleanup {
+  files: number
+  bytes: number
+  /** Artifacts that could not be removed (the rest still were) */
+  errors: string[]
+}
+
+const emptyCleanup = (): ArtifactCleanup => ({ files: 0, bytes: 0, errors: [] })
+
+async function measureDir(dir: string, total = { files: 0, bytes: 0 }) {
+  const entries = await readdir(dir, { withFileTypes: true })
+  for (const entry of entries) {
+    const path = join(dir, entry.name)
+    if (entry.isDirectory()) await measureDir(path, total)
+    else if (entry.isFile()) {
+      total.files++
+      total.bytes += (await stat(path)).size
+    }
+  }
+  return total
+}
+
+/**
+ * Remove output_frontend/{jobId}. A missing folder frees nothing and is not
+ * an error.
+ */
+export async function deleteLocalArtifacts(jobId: string): Promise<ArtifactCleanup> {
+  const dir = join(OUTPUT_DIR, jobId)
+  let measured
+  try {
+    measured = await measureDir(dir)
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return emptyCleanup()
+    throw error
+  }
+
+  try {
+    await rm(dir, { recursive: true, force: true })
+    return { ...measured, errors: [] }
+  } catch (error) {
+    log.error('Failed to remove job folder', { jobId, error: error instanceof Error ? error.message : String(error) })
+    return { files: 0, bytes: 0, errors: [`Could not remove ${jobId}/: ${error instanceof Error ? error.message : String(error)}`] }
+  }
+}
+
+export function isBlobStorageConfigured(): boolean {
+  return !!process.env.BLOB_READ_WRITE_TOKEN
+}
+
+const isOwnBlob = (url: string) => {
+  try {
+    const parsed = new URL(url)
+    return parsed.protocol === 'https:' && parsed.hostname.endsWith(BLOB_HOST_SUFFIX)
+  } catch {
+    return false
+  }
+}
+
+async function manifestBlobUrls(manifestUrl: string): Promise<string[]> {
+  const res = await fetch(manifestUrl, { cache: 'no-store' })
+  if (res.status === 404) return []
+  if (!res.ok) throw new Error(`Manifest unavailable (${res.status})`)
+  const manifest = await res.json()
+  const files = manifest && typeof manifest.files === 'object' ? Object.values(manifest.files) : []
+  return [manifestUrl, ...files.filter((url): url is string => typeof url === 'string')]
+}
+
+/**
+ * Remove a job's blobs: its uploads and whatever its manifest lists.
+ */
+export async function deleteBlobArtifacts(jobId: string, manifestUrl: string | null): Promise<ArtifactCleanup> {
+  const cleanup = emptyCleanup()
+  const sizes = new Map<string, number>()
+
+  let cursor: string | undefined
+  do {
+    const page = await list({ prefix: `uploads/${jobId}/`, cursor })
+    page.blobs.forEach(blob => sizes.set(blob.url, blob.size))
+    cursor = page.hasMore ? page.cursor : undefined
+  } while (cursor)
+
+  if (manifestUrl && isOwnBlob(manifestUrl)) {
+    try {
+      const outputs = (await manifestBlobUrls(manifestUrl)).filter(url => isOwnBlob(url) && !sizes.has(url))
+      for (let i = 0; i < outputs.length; i += BLOB_BATCH) {
+        const batch = outputs.slice(i, i + BLOB_BATCH)
+        const heads = await Promise.all(batch.map(url => head(url).catch(() => null)))
+        // Blobs that no longer exist have nothing to free
+        heads.forEach((info, j) => { if (info) sizes.set(batch[j], info.size) })
+      }
+    } catch (error) {
+      cleanup.errors.push(`Could not read the manifest: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  const urls = [...sizes.keys()]
+  for (let i = 0; i < urls.length; i += BLOB_BATCH) {
+    const batch = urls.slice(i, i + BLOB_BATCH)
+    try {
+      await del(batch)
+      cleanup.files += batch.length
+      cleanup.bytes += batch.reduce((sum, url) => sum + (sizes.get(url) ?? 0), 0)
+    } catch (error) {
+      log.error('Blob delete failed', { jobId, count: batch.length, error: error instanceof Error ? error.message : String(error) })
+      cleanup.errors.push(`Could not delete ${batch.length} blobs`)
+    }
+  }
+  return cleanup
+}
@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { fetchJobRecords, jobEventStream } from './jobEvents'
+
+type Reply = { status: number; body?: unknown } | 'network-error'
+
+/** Answer GET /api/jobs/{id} from a script of replies per job; the last reply repeats */
+function stubJobsApi(replies: Record<string, Reply[]>) {
+  const calls: Record<string, number> = {}
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    const id = url.split('/').pop()!
+    const script = replies[id] ?? [{ status: 404 }]
+    const reply = script[Math.min(calls[id] = (calls[id] ?? -1) + 1, script.length - 1)]
+    if (reply === 'network-error') throw new TypeError('fetch failed')
+    return new Response(JSON.stringify(reply.body ?? {}), { status: reply.status })
+  }))
+}
+
+const job = (id: string, status: string, progress: number) =>
+  ({ status: 200, body: { id, status, progress_percent: progress, current_stage: 'extraction' } })
+
+/** Every event of the stream, advancing the poll interval until it closes */
+async function readEvents(stream: ReadableStream<Uint8Array>): Promise<Array<{ event: string; data: unknown }>> {
+  let text = ''
+  let closed = false
+  const reading = (async () => {
+    const reader = stream.getReader()
+    const decoder = new TextDecoder()
+    for (let read = await reader.read(); !read.done; read = await reader.read()) text += decoder.decode(read.value)
+    closed = true
+  })()
+  for (let round = 0; round < 20 && !closed; round++) await vi.advanceTimersByTimeAsync(1500)
+  await reading
+
+  const field = (line: string) => [line.slice(0, line.indexOf(': ')), line.slice(line.indexOf(': ') + 2)]
+  return text.split('\n\n')
+    .map(block => Object.fromEntries(block.split('\n').filter(line => /^(event|data): /.test(line)).map(field)))
+    .filter(fields => fields.event)
+    .map(fields => ({ event: fields.event, data: JSON.parse(fields.data) }))
+}
+
+describe('jobEventStream', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+  })
+
+  it('sends a job only when its record changed and ends once every job is done', async () => {
+    stubJobsApi({
+      a: [job('a', 'running', 10), job('a', 'running', 10), job('a', 'running', 40), job('a', 'completed', 100)],
+      b: [{ status: 404 }],
+    })
+    const events = await readEvents(jobEventStream(['a', 'b'], new AbortController().signal))
+
+    expect(events.map(e => e.event)).toEqual(['job', 'job-error', 'job', 'job', 'end'])
+    expect(events.filter(e => e.event === 'job').map(e => (e.data as { progress_percent: number }).progress_percent)).toEqual([10, 40, 100])
+    expect(events[1].data).toEqual({ id: 'b', error: 'Job not found', status: 404 })
+  })
+
+  it('stops asking for finished jobs', async () => {
+    stubJobsApi({
+      a: [job('a', 'failed', 30)],
+      b: [job('b', 'running', 10), job('b', 'cancelled', 10)],
+    })
+    await readEvents(jobEventStream(['a', 'b'], new AbortController().signal))
+
+    const urls = vi.mocked(fetch).mock.calls.map(([url]) => String(url).split('/').pop())
+    expect(urls.filter(id => id === 'a')).toHaveLength(1)
+    expect(urls.filter(id => id === 'b')).toHaveLength(2)
+  })
+
+  it('keeps going through failures on some jobs', async () => {
+    stubJobsApi({
+      a: ['network-error', job('a', 'completed', 100)],
+      b: [job('b', 'completed', 100)],
+    })
+    const events = await readEvents(jobEventStream(['a', 'b'], new AbortController().signal))
+    expect(events.map(e => e.event)).toEqual(['job', 'job', 'end'])
+  })
+
+  it('reports the Jobs API unavailable after repeated failed rounds, without an end event', async () => {
+    stubJobsApi({ a: ['network-error'], b: [{ status: 503 }] })
+    const events = await readEvents(jobEventStream(['a', 'b'], new AbortController().signal))
+    expect(events.map(e => e.event)).toEqual(['unavailable'])
+    expect(vi.mocked(fetch).mock.calls).toHaveLength(10)
+  })
+
+  it('closes without an end event when the browser disconnects', async () => {
+    stubJobsApi({ a: [job('a', 'running', 10)] })
+    const abort = new AbortController()
+    const stream = jobEventStream(['a'], abort.signal)
+    setTimeout(() => abort.abort(), 4000)
+    const events = await readEvents(stream)
+    expect(events.map(e => e.event)).toEqual(['job'])
+  })
+})
+
+describe('fetchJobRecords', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('sorts each job into records, unknown and failed, keeping the request order', async () => {
+    stubJobsApi({
+      a: [job('a', 'running', 10)],
+      b: [{ status: 404 }],
+      c: ['network-error'],
+      d: [{ status: 500 }],
+      e: [job('e', 'completed', 100)],
+    })
+    const batch = await fetchJobRecords(['a', 'b', 'c', 'd', 'e'], new AbortController().signal)
+    expect(batch.jobs.map(j => [j.id, j.status])).toEqual([['a', 'running'], ['e', 'completed']])
+    expect(batch.missing).toEqual(['b'])
+    expect(batch.failed).toEqual(['c', 'd'])
+  })
+})
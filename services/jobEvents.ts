@@ -0,0 +1,134 @@
+/**
+ * Server side of the job event stream (see lib/job-events).
+ *
+ * Polls the Jobs API for the requested jobs on one short server-side
+ * interval and writes a Server-Sent Event whenever a job's record changes.
+ * The stream closes itself when every job is finished, and after
+ * STREAM_MAX_MS so serverless functions are never held open indefinitely
+ * (EventSource reconnects and receives the current state again).
+ */
+
+import { api } from '@/lib/api-config'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { JOB_EVENTS, type JobErrorEvent } from '@/lib/job-events'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('jobEvents')
+
+const UPSTREAM_POLL_MS = 1500
+const HEARTBEAT_MS = 15_000
+const STREAM_MAX_MS = 5 * 60 * 1000
+// Tell EventSource how long to wait before reconnecting
+const RECONNECT_MS = 2000
+// Consecutive rounds where every request failed before giving up
+const MAX_FAILED_ROUNDS = 5
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled']
+
+type FetchOutcome =
+  | { kind: 'job'; body: string; status: string }
+  | { kind: 'missing'; status: number }
+  | { kind: 'error' }
+
+async function fetchJobRecord(jobId: string, signal: AbortSignal): Promise<FetchOutcome> {
+  try {
+    const res = await fetch(api.jobs.get(jobId), { cache: 'no-store', signal })
+    if (res.status === 404) return { kind: 'missing', status: 404 }
+    if (!res.ok) return { kind: 'error' }
+    const job = await res.json()
+    return { kind: 'job', body: JSON.stringify(job), status: job.status }
+  } catch {
+    return { kind: 'error' }
+  }
+}
+
+export interface JobRecordsBatch {
+  jobs: JobPublic[]
+  /** IDs the Jobs API does not know */
+  missing: string[]
+  /** IDs that could not be fetched this time */
+  failed: string[]
+}
+
+/**
+ * Fetch several job records at once (GET /api/job-status). The Jobs API has
+ * no batch endpoint, so this fans out server-side in parallel.
+ */
+export async function fetchJobRecords(jobIds: string[], signal: AbortSignal): Promise<JobRecordsBatch> {
+  const outcomes = await Promise.all(jobIds.map(id => fetchJobRecord(id, signal)))
+  const batch: JobRecordsBatch = { jobs: [], missing: [], failed: [] }
+  outcomes.forEach((outcome, i) => {
+    if (outcome.kind === 'job') batch.jobs.push(JSON.parse(outcome.body))
+    else if (outcome.kind === 'missing') batch.missing.push(jobIds[i])
+    else batch.failed.push(jobIds[i])
+  })
+  return batch
+}
+
+/**
+ * Open an SSE stream for `jobIds`. `signal` is the request's abort signal,
+ * so polling stops as soon as the browser disconnects.
+ */
+export function jobEventStream(jobIds: string[], signal: AbortSignal): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder()
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let open = true
+      const send = (chunk: string) => {
+        if (open) controller.enqueue(encoder.encode(chunk))
+      }
+      const sendEvent = (event: string, data: unknown) => send(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      const close = () => {
+        if (!open) return
+        open = false
+        clearInterval(heartbeat)
+        controller.close()
+      }
+
+      const heartbeat = setInterval(() => send(': ping\n\n'), HEARTBEAT_MS)
+      signal.addEventListener('abort', close)
+      send(`retry: ${RECONNECT_MS}\n\n`)
+
+      const lastSent = new Map<string, string>()
+      const pending = new Set(jobIds)
+      const startedAt = Date.now()
+      let failedRounds = 0
+
+      while (open && pending.size > 0) {
+        const ids = [...pending]
+        const outcomes = await Promise.all(ids.map(id => fetchJobRecord(id, signal)))
+        if (!open) break
+
+        let failed = 0
+        outcomes.forEach((outcome, i) => {
+          const id = ids[i]
+          if (outcome.kind === 'error') {
+            failed++
+          } else if (outcome.kind === 'missing') {
+            sendEvent(JOB_EVENTS.jobError, { id, error: 'Job not found', status: outcome.status } satisfies JobErrorEvent)
+            pending.delete(id)
+          } else {
+            if (lastSent.get(id) !== outcome.body) {
+              lastSent.set(id, outcome.body)
+              send(`event: ${JOB_EVENTS.job}\ndata: ${outcome.body}\n\n`)
+            }
+            if (TERMINAL_STATUSES.includes(outcome.status)) pending.delete(id)
+          }
+        })
+
+        failedRounds = failed === ids.length ? failedRounds + 1 : 0
+        if (failedRounds >= MAX_FAILED_ROUNDS) {
+          log.warn('Jobs API unreachable, ending job event stream', { jobs: jobIds.length })
+          sendEvent(JOB_EVENTS.unavailable, { error: 'Jobs API unreachable' })
+          break
+        }
+        if (Date.now() - startedAt > STREAM_MAX_MS) break
+        if (pending.size > 0) await new Promise(resolve => setTimeout(resolve, UPSTREAM_POLL_MS))
+      }
+
+      if (open && pending.size === 0) sendEvent(JOB_EVENTS.end, {})
+      close()
+    },
+  })
+}
@@ -0,0 +1,166 @@
+import { mkdir, mkdtemp, rm, stat, utimes, writeFile } from 'fs/promises'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { JobPublic } from '@/hooks/useJobStatus'
+
+type JobMonitor = typeof import('./jobMonitor')
+
+const MINUTE = 60 * 1000
+const ORPHAN = '11111111-1111-4111-8111-111111111111'
+const KNOWN = '22222222-2222-4222-8222-222222222222'
+const YOUNG = '33333333-3333-4333-8333-333333333333'
+const UNANSWERED = '44444444-4444-4444-8444-444444444444'
+
+let outputDir: string
+let start: number
+// What the stubbed Jobs API answers: the active job list and GET /api/jobs/{id} statuses
+let activeJobs: Partial<JobPublic>[]
+let lookups: Record<string, number>
+
+const job = (id: string, patch: Partial<JobPublic> = {}): Partial<JobPublic> =>
+  ({ id, status: 'running', doc_name: `${id}.pdf`, current_stage: 'intake', progress_percent: 10, ...patch })
+
+/** A fresh module, as after a restart (state on globalThis dropped too) */
+async function loadMonitor(): Promise<JobMonitor> {
+  delete (globalThis as { jobMonitor?: unknown }).jobMonitor
+  vi.resetModules()
+  return import('./jobMonitor')
+}
+
+async function runFolder(runId: string, ageMs: number, manifest: object | null = { original_filename: `${runId}.pdf` }) {
+  const dir = join(outputDir, runId)
+  await mkdir(dir, { recursive: true })
+  await writeFile(join(dir, 'input.pdf'), 'pdf')
+  if (!manifest) return
+  await writeFile(join(dir, 'manifest.json'), JSON.stringify(manifest))
+  const modified = new Date(start - ageMs)
+  await utimes(join(dir, 'manifest.json'), modified, modified)
+}
+
+async function exists(path: string): Promise<boolean> {
+  return stat(path).then(() => true, () => false)
+}
+
+beforeEach(async () => {
+  outputDir = await mkdtemp(join(tmpdir(), 'job-monitor-'))
+  vi.stubEnv('OUTPUT_DIR', outputDir)
+  vi.stubEnv('STALE_JOB_MINUTES', '120')
+  start = Date.now()
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(start)
+
+  activeJobs = []
+  lookups = {}
+  vi.stubGlobal('fetch', vi.fn(async (url: string) => {
+    if (url.includes('/api/jobs/?')) return new Response(JSON.stringify(activeJobs))
+    const status = lookups[url.split('/').pop()!] ?? 404
+    return new Response(JSON.stringify({}), { status })
+  }))
+})
+
+afterEach(async () => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.unstubAllEnvs()
+  await rm(outputDir, { recursive: true, force: true })
+})
+
+describe('stale jobs', () => {
+  it('flags a job whose progress has not moved for STALE_JOB_MINUTES', async () => {
+    const monitor = await loadMonitor()
+    activeJobs = [job('a'), job('b')]
+    await monitor.checkJobs()
+    expect((await monitor.getJobHealth()).stale).toEqual([])
+
+    vi.setSystemTime(start + 60 * MINUTE)
+    activeJobs = [job('a'), job('b', { progress_percent: 40 })]
+    await monitor.checkJobs()
+
+    vi.setSystemTime(start + 121 * MINUTE)
+    await monitor.checkJobs()
+    const health = await monitor.getJobHealth()
+    expect(health.stale.map(s => [s.jobId, s.unchangedSince])).toEqual([['a', new Date(start).toISOString()]])
+    expect(health.staleMinutes).toBe(120)
+  })
+
+  it('counts a job first seen from the worker\'s updated_at', async () => {
+    const monitor = await loadMonitor()
+    activeJobs = [
+      job('a', { updated_at: new Date(start - 3 * 60 * MINUTE).toISOString() }),
+      job('b', { updated_at: new Date(start - 10 * MINUTE).toISOString() }),
+    ]
+    await monitor.checkJobs()
+    expect((await monitor.getJobHealth()).stale.map(s => s.jobId)).toEqual(['a'])
+  })
+
+  it('never flags jobs waiting for review, even when the status filter is ignored', async () => {
+    const monitor = await loadMonitor()
+    activeJobs = [job('a', { status: 'classification_pending', updated_at: new Date(start - 5 * 60 * MINUTE).toISOString() })]
+    await monitor.checkJobs()
+    expect((await monitor.getJobHealth()).stale).toEqual([])
+  })
+
+  it('keeps the clock running across restarts', async () => {
+    activeJobs = [job('a')]
+    await (await loadMonitor()).checkJobs()
+
+    vi.setSystemTime(start + 121 * MINUTE)
+    const restarted = await loadMonitor()
+    await restarted.checkJobs()
+    expect((await restarted.getJobHealth()).stale.map(s => s.jobId)).toEqual(['a'])
+  })
+
+  it('reports an unreachable Jobs API without losing what it knew', async () => {
+    const monitor = await loadMonitor()
+    activeJobs = [job('a')]
+    await monitor.checkJobs()
+    vi.mocked(fetch).mockResolvedValueOnce(new Response('', { status: 503 }))
+    await monitor.checkJobs()
+    expect((await monitor.getJobHealth()).lastError).toBe('Jobs API returned 503')
+  })
+})
+
+describe('orphaned runs', () => {
+  beforeEach(async () => {
+    await runFolder(ORPHAN, 2 * 60 * MINUTE)
+    await runFolder(KNOWN, 2 * 60 * MINUTE)
+    await runFolder(YOUNG, 10 * MINUTE)
+    await runFolder(UNANSWERED, 2 * 60 * MINUTE)
+    await runFolder('55555555-5555-4555-8555-555555555555', 0, null)
+    lookups = { [KNOWN]: 200, [UNANSWERED]: 500 }
+  })
+
+  it('lists only old run folders the Jobs API answers 404 for', async () => {
+    const monitor = await loadMonitor()
+    await monitor.checkJobs()
+    const { orphans } = await monitor.getJobHealth()
+    expect(orphans).toEqual([{ runId: ORPHAN, docName: `${ORPHAN}.pdf`, modifiedAt: new Date(start - 2 * 60 * MINUTE).toISOString() }])
+  })
+
+  it('removes a listed orphan\'s folder and forgets it', async () => {
+    const monitor = await loadMonitor()
+    await monitor.checkJobs()
+    const cleanup = await monitor.removeOrphanedRun(ORPHAN)
+    expect(cleanup).toMatchObject({ files: 2, errors: [] })
+    expect(await exists(join(outputDir, ORPHAN))).toBe(false)
+    expect((await monitor.getJobHealth()).orphans).toEqual([])
+  })
+
+  it('keeps a listed orphan the Jobs API knows again', async () => {
+    const monitor = await loadMonitor()
+    await monitor.checkJobs()
+    lookups[ORPHAN] = 200
+    expect(await monitor.removeOrphanedRun(ORPHAN)).toBeNull()
+    expect(await exists(join(outputDir, ORPHAN, 'input.pdf'))).toBe(true)
+  })
+
+  it('refuses runs that are not listed', async () => {
+    const monitor = await loadMonitor()
+    await monitor.checkJobs()
+    expect(await monitor.removeOrphanedRun(KNOWN)).toBeNull()
+    expect(await monitor.removeOrphanedRun(YOUNG)).toBeNull()
+    expect(await exists(join(outputDir, KNOWN))).toBe(true)
+    expect(await exists(join(outputDir, YOUNG))).toBe(true)
+  })
+})
@@ -0,0 +1,348 @@
+/**
+ * Stale and orphaned job detection.
+ *
+ * STALE: every check reads the active jobs from the Jobs API and records
+ * when each one's progress_percent or current_stage last changed. A job
+ * whose progress has not moved for STALE_JOB_MINUTES is flagged. Jobs
+ * first seen by the monitor count from the worker's updated_at when it is
+ * reported, else from that first sighting. Waiting for classification
+ * review is not progress-driven and is never flagged.
+ *
+ * ORPHANED: less often, run folders in OUTPUT_DIR with a manifest.json are
+ * looked up in the Jobs API; those it no longer knows are listed so their
+ * leftovers can be removed. removeOrphanedRun asks the Jobs API again right
+ * before deleting and only ever removes the local folder.
+ *
+ * Observations are kept in the team store, so restarts do not reset the
+ * clock on jobs that were already stuck. Several server instances share the
+ * document: each write re-reads it and merges (see mergeDocuments) instead
+ * of replacing what the other instances recorded.
+ */
+
+import { readdir, readFile, stat } from 'fs/promises'
+import { join, resolve } from 'path'
+import { api } from '@/lib/api-config'
+import { listJobs } from '@/lib/jobs-api'
+import { createLogger } from '@/lib/logger'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { deleteLocalArtifacts, type ArtifactCleanup } from './jobArtifacts'
+import { readTeamDocument, writeTeamDocument } from './teamStore'
+
+const log = createLogger('jobMonitor')
+
+// Resolve OUTPUT_DIR relative to PROJECT_ROOT (parent of cwd, since Next.js runs from frontend/)
+const PROJECT_ROOT = resolve(process.cwd(), '..')
+const OUTPUT_DIR = process.env.OUTPUT_DIR
+  ? resolve(PROJECT_ROOT, process.env.OUTPUT_DIR)
+  : resolve(PROJECT_ROOT, 'output_frontend')
+
+/** A positive number from the environment; anything else falls back to the default */
+function positiveSetting(name: string, fallback: number): number {
+  const raw = process.env[name]
+  if (!raw) return fallback
+  const value = Number(raw)
+  if (Number.isFinite(value) && value > 0) return value
+  log.warn(`Ignoring invalid ${name}`, { value: raw, default: fallback })
+  return fallback
+}
+
+const STALE_MS = positiveSetting('STALE_JOB_MINUTES', 120) * 60 * 1000
+const CHECK_MS = positiveSetting('STALE_CHECK_SECONDS', 60) * 1000
+const ORPHAN_CHECK_MS = 15 * 60 * 1000
+// Folders younger than this may belong to a job that is still being created
+const ORPHAN_GRACE_MS = 60 * 60 * 1000
+
+// Statuses in which the worker should be making progress
+const PROGRESSING_STATUSES = ['downloading', 'running', 'uploading']
+const MAX_ACTIVE_JOBS = 500
+// Jobs API lookups at once while reconciling folders
+const CONCURRENCY = 4
+
+const DOCUMENT = 'job-monitor'
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+interface Observation {
+  status: string
+  stage: string | null
+  progress: number
+  /** When stage or progress last changed (as far as the monitor knows) */
+  changedAt: string
+}
+
+export interface StaleJob {
+  jobId: string
+  docName: string
+  status: string
+  stage: string | null
+  progress: number
+  unchangedSince: string
+}
+
+export interface OrphanedRun {
+  runId: string
+  docName: string | null
+  /** manifest.json modification time */
+  modifiedAt: string
+}
+
+export interface JobHealth {
+  staleMinutes: number
+  checkedAt: string | null
+  stale: StaleJob[]
+  orphansCheckedAt: string | null
+  orphans: OrphanedRun[]
+  /** Set when the last check could not reach the Jobs API */
+  lastError: string | null
+}
+
+interface MonitorDocument {
+  observations: Record<string, Observation>
+  orphans: OrphanedRun[]
+  orphansCheckedAt: string | null
+}
+
+interface MonitorState {
+  started: boolean
+  timer: ReturnType<typeof setTimeout> | null
+  checking: Promise<void> | null
+  doc: MonitorDocument | null
+  stale: StaleJob[]
+  checkedAt: string | null
+  lastError: string | null
+}
+
+// Kept on globalThis so dev-server reloads do not start a second monitor
+const globalForMonitor = globalThis as unknown as { jobMonitor?: MonitorState }
+const state: MonitorState = globalForMonitor.jobMonitor ??= {
+  started: false,
+  timer: null,
+  checking: null,
+  doc: null,
+  stale: [],
+  checkedAt: null,
+  lastError: null,
+}
+
+const emptyDocument = (): MonitorDocument => ({ observations: {}, orphans: [], orphansCheckedAt: null })
+
+/** The shared document as other instances may have left it; `fallback` when unreadable */
+async function readDocument(fallback: MonitorDocument = emptyDocument()): Promise<MonitorDocument> {
+  return readTeamDocument<MonitorDocument>(DOCUMENT, emptyDocument()).catch(error => {
+    log.warn('Failed to read job monitor state', { error: error instanceof Error ? error.message : String(error) })
+    return fallback
+  })
+}
+
+async function loadDocument(): Promise<MonitorDocument> {
+  if (!state.doc) state.doc = await readDocument()
+  return state.doc
+}
+
+/**
+ * Combine this instance's document with the one last written by any
+ * instance: an unchanged job keeps the earliest changedAt either side saw,
+ * and the orphan list comes from whichever scan is newer.
+ */
+function mergeDocuments(latest: MonitorDocument, ours: MonitorDocument): MonitorDocument {
+  const observations: Record<string, Observation> = {}
+  for (const [jobId, observation] of Object.entries(ours.observations)) {
+    const theirs = latest.observations[jobId]
+    const same = theirs
+      && theirs.status === observation.status
+      && theirs.stage === observation.stage
+      && theirs.progress === observation.progress
+    observations[jobId] = same && theirs.changedAt < observation.changedAt ? theirs : observation
+  }
+  const oursNewer = (ours.orphansCheckedAt ?? '') > (latest.orphansCheckedAt ?? '')
+  return {
+    observations,
+    orphans: oursNewer ? ours.orphans : latest.orphans,
+    orphansCheckedAt: oursNewer ? ours.orphansCheckedAt : latest.orphansCheckedAt,
+  }
+}
+
+async function saveDocument(doc: MonitorDocument): Promise<MonitorDocument> {
+  const merged = mergeDocuments(await readDocument(doc), doc)
+  await writeTeamDocument(DOCUMENT, merged)
+  return merged
+}
+
+async function fetchProgressingJobs(): Promise<JobPublic[]> {
+  const params = new URLSearchParams({
+    status: PROGRESSING_STATUSES.join(','),
+    limit: String(MAX_ACTIVE_JOBS),
+    sort: 'created_at',
+    order: 'asc',
+  })
+  return listJobs(api.jobs.search(params), job => PROGRESSING_STATUSES.includes(job.status))
+}
+
+function observe(jobs: JobPublic[], previous: Record<string, Observation>, now: Date): Record<string, Observation> {
+  const observations: Record<string, Observation> = {}
+  for (const job of jobs) {
+    const seen = previous[job.id]
+    const unchanged = seen
+      && seen.status === job.status
+      && seen.stage === job.current_stage
+      && seen.progress === job.progress_percent
+    observations[job.id] = {
+      status: job.status,
+      stage: job.current_stage,
+      progress: job.progress_percent,
+      changedAt: unchanged ? seen.changedAt : (!seen && job.updated_at) || now.toISOString(),
+    }
+  }
+  return observations
+}
+
+/** Run folders whose manifest.json names a job the Jobs API does not know */
+async function findOrphanedRuns(now: number): Promise<OrphanedRun[]> {
+  let names: string[]
+  try {
+    names = (await readdir(OUTPUT_DIR, { withFileTypes: true }))
+      .filter(entry => entry.isDirectory() && UUID_REGEX.test(entry.name))
+      .map(entry => entry.name)
+  } catch {
+    return [] // No local output folder (e.g. blob mode)
+  }
+
+  const orphans: OrphanedRun[] = []
+  const queue = [...names]
+  const worker = async () => {
+    for (let runId = queue.shift(); runId; runId = queue.shift()) {
+      const manifestPath = join(OUTPUT_DIR, runId, 'manifest.json')
+      let modifiedAt: Date
+      try {
+        modifiedAt = (await stat(manifestPath)).mtime
+      } catch {
+        continue
+      }
+      if (now - modifiedAt.getTime() < ORPHAN_GRACE_MS) continue
+
+      const res = await fetch(api.jobs.get(runId), { cache: 'no-store' }).catch(() => null)
+      if (res?.status !== 404) continue // Known, or not answerable right now
+
+      let docName: string | null = null
+      try {
+        const manifest = JSON.parse(await readFile(manifestPath, 'utf-8'))
+        docName = manifest.original_filename || manifest.doc_name || null
+      } catch {
+        // An unreadable manifest is still an orphaned run
+      }
+      orphans.push({ runId, docName, modifiedAt: modifiedAt.toISOString() })
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, names.length) }, worker))
+  return orphans.sort((a, b) => b.modifiedAt.localeCompare(a.modifiedAt))
+}
+
+function staleJobs(jobs: JobPublic[], observations: Record<string, Observation>, now: Date): StaleJob[] {
+  return jobs
+    .filter(job => now.getTime() - Date.parse(observations[job.id].changedAt) >= STALE_MS)
+    .map(job => ({
+      jobId: job.id,
+      docName: job.doc_name,
+      status: job.status,
+      stage: job.current_stage,
+      progress: job.progress_percent,
+      unchangedSince: observations[job.id].changedAt,
+    }))
+}
+
+async function check(): Promise<void> {
+  const now = new Date()
+  try {
+    const jobs = await fetchProgressingJobs()
+    // Start from what every instance recorded so far
+    const previous = await readDocument(state.doc ?? emptyDocument())
+    const doc: MonitorDocument = { ...previous, observations: observe(jobs, previous.observations, now) }
+
+    const lastOrphanCheck = doc.orphansCheckedAt ? Date.parse(doc.orphansCheckedAt) : 0
+    if (now.getTime() - lastOrphanCheck >= ORPHAN_CHECK_MS) {
+      doc.orphans = await findOrphanedRuns(now.getTime())
+      doc.orphansCheckedAt = now.toISOString()
+      if (doc.orphans.length > 0) log.info(`${doc.orphans.length} orphaned local runs`)
+    }
+
+    // Most checks change nothing; skip rewriting the document then
+    state.doc = JSON.stringify(doc) === JSON.stringify(previous)
+      ? doc
+      : await saveDocument(doc).catch(error => {
+        log.warn('Failed to write job monitor state', { error: error instanceof Error ? error.message : String(error) })
+        return doc
+      })
+    state.stale = staleJobs(jobs, state.doc.observations, now)
+    state.lastError = null
+    if (state.stale.length > 0) log.info(`${state.stale.length} stale jobs`, { jobIds: state.stale.map(s => s.jobId) })
+  } catch (error) {
+    state.lastError = error instanceof Error ? error.message : String(error)
+    log.error('Job check failed', { error: state.lastError })
+  } finally {
+    state.checkedAt = now.toISOString()
+  }
+}
+
+/** Run a check now (or wait for the one in progress) */
+export async function checkJobs(): Promise<void> {
+  if (!state.checking) {
+    state.checking = check().finally(() => { state.checking = null })
+  }
+  await state.checking
+}
+
+/**
+ * Start checking on an interval. Safe to call repeatedly.
+ */
+export function startJobMonitor(): void {
+  if (state.started) return
+  state.started = true
+  log.info('Monitoring jobs', { stale_ms: STALE_MS, check_ms: CHECK_MS })
+
+  const tick = async () => {
+    await checkJobs()
+    state.timer = setTimeout(tick, CHECK_MS)
+  }
+  tick()
+}
+
+/** Forget an orphan once its leftovers are removed */
+export async function dismissOrphan(runId: string): Promise<void> {
+  const doc = await readDocument()
+  if (!doc.orphans.some(o => o.runId === runId)) return
+  doc.orphans = doc.orphans.filter(o => o.runId !== runId)
+  await writeTeamDocument(DOCUMENT, doc)
+  state.doc = doc
+}
+
+/**
+ * Remove the local folder of a listed orphan. The listing may be up to
+ * ORPHAN_CHECK_MS old, so the Jobs API is asked again first; unless it
+ * still answers 404 nothing is deleted and null is returned.
+ */
+export async function removeOrphanedRun(runId: string): Promise<ArtifactCleanup | null> {
+  const doc = await readDocument()
+  if (!doc.orphans.some(o => o.runId === runId)) return null
+
+  const res = await fetch(api.jobs.get(runId), { cache: 'no-store' })
+  if (res.status !== 404) {
+    log.warn('Listed orphan is known to the Jobs API again; not removed', { runId, status: res.status })
+    return null
+  }
+
+  const cleanup = await deleteLocalArtifacts(runId)
+  if (cleanup.errors.length === 0) await dismissOrphan(runId)
+  log.info('Orphaned run removed', { runId, files: cleanup.files, bytes: cleanup.bytes })
+  return cleanup
+}
+
+export async function getJobHealth(): Promise<JobHealth> {
+  const doc = await loadDocument()
+  return {
+    staleMinutes: STALE_MS / 60000,
+    checkedAt: state.checkedAt,
+    stale: state.stale,
+    orphansCheckedAt: doc.orphansCheckedAt,
+    orphans: doc.orphans,
+    lastError: state.lastError,
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Queue snapshot for the dashboard and runs page: where each pending job
+ * stands, how many workers there are and when each job should start.
+ * Snapshots are cached briefly since every open page polls them.
+ *
+ * Jobs API contract. The current Jobs API implements none of these yet;
+ * this is what the queue view relies on once it does:
+ * - GET /api/workers/ → { total, busy } (integers). Optional: until it
+ *   exists the running jobs are taken as the full capacity.
+ * - JobPublic.priority: integer, default 0, one of JOB_PRIORITIES. The
+ *   worker takes pending jobs by priority (higher first), then created_at.
+ *   Without it every job is Normal and the order is plain oldest first.
+ * - PATCH /api/jobs/{id} { priority } → JobPublic, 404 for an unknown job.
+ *   Only pending jobs need to accept it.
+ * Changing priorities stays off until the Jobs API honours both of the
+ * last two: set JOB_PRIORITIES_ENABLED=true then.
+ */
+
+import { api } from '@/lib/api-config'
+import { createLogger } from '@/lib/logger'
+import { buildQueue, type QueuedJob } from '@/lib/job-queue'
+import { listJobs } from '@/lib/jobs-api'
+import type { JobPublic } from '@/hooks/useJobStatus'
+import { getEtaSnapshot } from './etaTracker'
+
+const log = createLogger('jobQueue')
+
+/** Admins may change priorities (see the contract above) */
+export const PRIORITIES_ENABLED = process.env.JOB_PRIORITIES_ENABLED === 'true'
+
+const SNAPSHOT_TTL_MS = 10 * 1000
+const MAX_QUEUED_JOBS = 500
+// Statuses in which a job holds a worker
+const RUNNING_STATUSES = ['downloading', 'running', 'uploading']
+
+export interface WorkerCapacity {
+  total: number
+  busy: number
+}
+
+export interface QueueSnapshot {
+  /** null when the Jobs API does not report its workers */
+  workers: WorkerCapacity | null
+  /** Jobs currently holding a worker */
+  running: number
+  queued: QueuedJob[]
+  updatedAt: string
+}
+
+export interface QueueStatus extends QueueSnapshot {
+  /** The signed-in user may change priorities */
+  canPrioritize: boolean
+}
+
+interface QueueState {
+  snapshot: QueueSnapshot | null
+  builtAt: number
+  building: Promise<QueueSnapshot> | null
+}
+
+const globalForQueue = globalThis as unknown as { jobQueue?: QueueState }
+const state: QueueState = globalForQueue.jobQueue ??= { snapshot: null, builtAt: 0, building: null }
+
+async function fetchJobs(statuses: string[]): Promise<JobPublic[]> {
+  const params = new URLSearchParams({
+    status: statuses.join(','),
+    limit: String(MAX_QUEUED_JOBS),
+    sort: 'created_at',
+    order: 'asc',
+  })
+  return listJobs(api.jobs.search(params), job => statuses.includes(job.status))
+}
+
+async function fetchWorkers(): Promise<WorkerCapacity | null> {
+  try {
+    const res = await fetch(api.workers.status(), { cache: 'no-store' })
+    if (!res.ok) return null
+    const body = await res.json()
+    if (!Number.isInteger(body?.total) || !Number.isInteger(body?.busy)) return null
+    return { total: body.total, busy: body.busy }
+  } catch {
+    return null
+  }
+}
+
+async function rebuild(): Promise<QueueSnapshot> {
+  const [pending, running, workers, eta] = await Promise.all([
+    fetchJobs(['pending']),
+    fetchJobs(RUNNING_STATUSES),
+    fetchWorkers(),
+    // Start times are left out when the model cannot be built
+    getEtaSnapshot().catch(error => {
+      log.warn('ETA model unavailable for queue estimates', { error: error instanceof Error ? error.message : String(error) })
+      return null
+    }),
+  ])
+  const now = Date.now()
+  return {
+    workers,
+    running: running.length,
+    queued: buildQueue(pending, running, workers?.total ?? null, eta?.model ?? null, now),
+    updatedAt: new Date(now).toISOString(),
+  }
+}
+
+/** The current queue, rebuilt at most every SNAPSHOT_TTL_MS */
+export async function getQueueSnapshot(): Promise<QueueSnapshot> {
+  if (state.snapshot && Date.now() - state.builtAt < SNAPSHOT_TTL_MS) return state.snapshot
+
+  state.building ??= rebuild()
+    .then(snapshot => {
+      state.snapshot = snapshot
+      state.builtAt = Date.now()
+      return snapshot
+    })
+    .finally(() => {
+      state.building = null
+    })
+  return state.building
+}
+
+/** Drop the cached snapshot so the next request sees a change right away */
+export function invalidateQueueSnapshot(): void {
+  state.snapshot = null
+}
+
+/**
+ * Change a pending job's priority in the Jobs API. Returns null when the
+ * job does not exist. Callers check PRIORITIES_ENABLED first.
+ */
+export async function setJobPriority(jobId: string, priority: number): Promise<JobPublic | null> {
+  const res = await fetch(api.jobs.update(jobId), {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ priority }),
+    cache: 'no-store',
+  })
+  if (res.status === 404) return null
+  if (!res.ok) throw new Error(`Jobs API returned ${res.status}`)
+  invalidateQueueSnapshot()
+  return res.json()
+}
@@ -0,0 +1,22 @@
+/**
+ * Per-user notification preferences, one private team document per
+ * signed-in user (named after a hash of their email), so no document lists
+ * other users.
+ */
+
+import { createHash } from 'crypto'
+import { normalizePreferences, type NotificationPreferences } from '@/lib/notifications'
+import { readPrivateTeamDocument, writePrivateTeamDocument } from './teamStore'
+
+const documentFor = (email: string) =>
+  `notification-preferences-${createHash('sha256').update(email.trim().toLowerCase()).digest('hex')}`
+
+export async function getNotificationPreferences(email: string): Promise<NotificationPreferences> {
+  return normalizePreferences(await readPrivateTeamDocument<unknown>(documentFor(email), null))
+}
+
+export async function setNotificationPreferences(email: string, input: unknown): Promise<NotificationPreferences> {
+  const preferences = normalizePreferences(input)
+  await writePrivateTeamDocument(documentFor(email), preferences)
+  return preferences
+}
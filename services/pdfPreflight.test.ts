@@ -0,0 +1,204 @@
+import { createHash } from 'crypto'
+import { describe, expect, it } from 'vitest'
+import { preflightBuffer, preflightHeadTail } from './pdfPreflight'
+
+/** A PDF from numbered object bodies; `trailer` is the trailer dictionary's content */
+function buildPdf(objects: Record<number, string>, trailer = '/Root 1 0 R', { eof = true } = {}): Buffer {
+  let body = '%PDF-1.7\n'
+  const offsets: string[] = []
+  for (const [num, value] of Object.entries(objects)) {
+    offsets.push(`${String(body.length).padStart(10, '0')} 00000 n \n`)
+    body += `${num} 0 obj\n${value}\nendobj\n`
+  }
+  const xref = body.length
+  body += `xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n${offsets.join('')}`
+  body += `trailer\n<< /Size ${offsets.length + 1} ${trailer} >>\nstartxref\n${xref}\n`
+  if (eof) body += '%%EOF\n'
+  return Buffer.from(body, 'latin1')
+}
+
+const page = (resources = '<< >>', parent = 2) => `<< /Type /Page /Parent ${parent} 0 R /MediaBox [0 0 612 792] /Resources ${resources} >>`
+
+// Catalog, page tree and `count` pages with text
+function textPdf(count: number): Record<number, string> {
+  const kids = Array.from({ length: count }, (_, i) => `${10 + i} 0 R`).join(' ')
+  const objects: Record<number, string> = {
+    1: '<< /Type /Catalog /Pages 2 0 R >>',
+    2: `<< /Type /Pages /Kids [${kids}] /Count ${count} >>`,
+    3: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+  }
+  for (let i = 0; i < count; i++) objects[10 + i] = page('<< /Font << /F1 3 0 R >> >>')
+  return objects
+}
+
+const codes = (report: { issues: Array<{ code: string }> }) => report.issues.map(i => i.code)
+
+// --- Standard security handler, revision 3 (RC4, 128-bit), as a PDF writer computes it ---
+
+const PADDING = Buffer.from('28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a', 'hex')
+const pad = (password: string) => Buffer.from(password.padEnd(32, PADDING.toString('latin1')).slice(0, 32), 'latin1')
+const md5 = (...parts: Buffer[]) => parts.reduce((hash, part) => hash.update(new Uint8Array(part)), createHash('md5')).digest()
+// OpenSSL 3 leaves RC4 out by default
+const rc4 = (key: Buffer, data: Buffer) => {
+  const s = Array.from({ length: 256 }, (_, i) => i)
+  for (let i = 0, j = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff
+    ;[s[i], s[j]] = [s[j], s[i]]
+  }
+  const out = Buffer.alloc(data.length)
+  for (let k = 0, i = 0, j = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff
+    j = (j + s[i]) & 0xff
+    ;[s[i], s[j]] = [s[j], s[i]]
+    out[k] = data[k] ^ s[(s[i] + s[j]) & 0xff]
+  }
+  return out
+}
+const rc4Rounds = (key: Buffer, data: Buffer) => {
+  let out = rc4(key, data)
+  for (let i = 1; i <= 19; i++) out = rc4(Buffer.from(key.map(b => b ^ i)), out)
+  return out
+}
+
+function encryptDictionary(userPassword: string, ownerPassword: string, fileId: Buffer): string {
+  const permissions = -4
+  let ownerKey = md5(pad(ownerPassword))
+  for (let i = 0; i < 50; i++) ownerKey = md5(ownerKey)
+  const o = rc4Rounds(ownerKey, pad(userPassword))
+
+  const p = Buffer.alloc(4)
+  p.writeInt32LE(permissions)
+  let key = md5(pad(userPassword), o, p, fileId)
+  for (let i = 0; i < 50; i++) key = md5(key)
+  const u = Buffer.from(rc4Rounds(key, md5(PADDING, fileId)).toString('hex').padEnd(64, '0'), 'hex')
+
+  return `<< /Filter /Standard /V 2 /R 3 /Length 128 /P ${permissions} /O <${o.toString('hex')}> /U <${u.toString('hex')}> >>`
+}
+
+function encryptedPdf(userPassword: string, ownerPassword: string): Buffer {
+  const fileId = Buffer.from('0123456789abcdef0123456789abcdef', 'hex')
+  return buildPdf(
+    { ...textPdf(1), 4: encryptDictionary(userPassword, ownerPassword, fileId) },
+    `/Root 1 0 R /Encrypt 4 0 R /ID [<${fileId.toString('hex')}> <${fileId.toString('hex')}>]`
+  )
+}
+
+describe('preflightBuffer', () => {
+  it('accepts a plain PDF and counts its pages', async () => {
+    const report = await preflightBuffer(buildPdf(textPdf(3)))
+    expect(report).toMatchObject({ ok: true, pdfVersion: '1.7', pageCount: 3, scannedPages: [], encrypted: false, issues: [] })
+  })
+
+  it('blocks files that are not PDFs', async () => {
+    const report = await preflightBuffer(Buffer.from('PK\x03\x04 this is a zip archive', 'latin1'))
+    expect(report.ok).toBe(false)
+    expect(codes(report)).toEqual(['not_pdf'])
+  })
+
+  it('blocks a truncated file without a readable catalog', async () => {
+    const full = buildPdf(textPdf(2))
+    const report = await preflightBuffer(full.subarray(0, full.indexOf('1 0 obj') + 20))
+    expect(report.ok).toBe(false)
+    expect(codes(report)).toEqual(['missing_eof', 'corrupt'])
+  })
+
+  it('warns when only the end-of-file marker is missing', async () => {
+    const report = await preflightBuffer(buildPdf(textPdf(1), '/Root 1 0 R', { eof: false }))
+    expect(report.ok).toBe(true)
+    expect(codes(report)).toEqual(['missing_eof'])
+  })
+
+  it('blocks a document without pages', async () => {
+    const report = await preflightBuffer(buildPdf({ 1: '<< /Type /Catalog /Pages 2 0 R >>', 2: '<< /Type /Pages /Kids [] /Count 0 >>' }))
+    expect(report.ok).toBe(false)
+    expect(codes(report)).toEqual(['no_pages'])
+  })
+
+  it('lets a document with an owner password only through with a warning', async () => {
+    const report = await preflightBuffer(encryptedPdf('', 'owner-secret'))
+    expect(report).toMatchObject({ ok: true, encrypted: true, pageCount: 1 })
+    expect(codes(report)).toEqual(['permissions_only'])
+  })
+
+  it('blocks a document that needs a user password', async () => {
+    const report = await preflightBuffer(encryptedPdf('user-secret', 'owner-secret'))
+    expect(report).toMatchObject({ ok: false, encrypted: true, pageCount: null })
+    expect(codes(report)).toEqual(['password_protected'])
+    expect(report.issues[0].message).toBe('Document requires a password to open')
+  })
+
+  it('blocks security handlers it cannot evaluate', async () => {
+    const report = await preflightBuffer(buildPdf(
+      { ...textPdf(1), 4: '<< /Filter /Adobe.PubSec /V 4 >>' },
+      '/Root 1 0 R /Encrypt 4 0 R'
+    ))
+    expect(codes(report)).toEqual(['password_protected'])
+    expect(report.issues[0].message).toBe('Document uses an unsupported encryption handler')
+  })
+
+  it('counts the pages reachable from the page tree root', async () => {
+    const report = await preflightBuffer(buildPdf({
+      1: '<< /Type /Catalog /Pages 2 0 R >>',
+      2: '<< /Type /Pages /Kids [5 0 R 12 0 R] /Count 3 >>',
+      5: '<< /Type /Pages /Parent 2 0 R /Kids [10 0 R 11 0 R] /Count 2 >>',
+      10: page('<< >>', 5),
+      11: page('<< >>', 5),
+      12: page(),
+      // Left over from an earlier revision, no longer in the tree
+      20: page(),
+    }))
+    expect(report.pageCount).toBe(3)
+    expect(codes(report)).toEqual([])
+  })
+
+  it('warns when the root /Count disagrees with the pages found', async () => {
+    const objects = textPdf(2)
+    objects[2] = objects[2].replace('/Count 2', '/Count 5')
+    const report = await preflightBuffer(buildPdf(objects))
+    expect(report.pageCount).toBe(2)
+    expect(codes(report)).toEqual(['page_count_mismatch'])
+  })
+
+  it('reports image-only pages as scanned', async () => {
+    const image = '<< /Type /XObject /Subtype /Image /Width 10 /Height 10 >>'
+    const report = await preflightBuffer(buildPdf({
+      1: '<< /Type /Catalog /Pages 2 0 R >>',
+      // Page 1 inherits the image-only resources of the tree
+      2: '<< /Type /Pages /Kids [10 0 R 11 0 R 12 0 R] /Count 3 /Resources << /XObject << /Im1 4 0 R >> >> >>',
+      3: '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+      4: image,
+      10: '<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] >>',
+      11: page('<< /Font << /F1 3 0 R >> /XObject << /Im1 4 0 R >> >>'),
+      12: page('<< /XObject << /Im1 4 0 R >> >>'),
+    }))
+    expect(report.ok).toBe(true)
+    expect(report.scannedPages).toEqual([1, 3])
+    expect(codes(report)).toEqual(['scanned_pages'])
+    expect(report.issues[0].message).toBe('2 of 3 pages are scanned images without text')
+  })
+
+  it('yields to the event loop while scanning a large file', async () => {
+    const pdf = buildPdf(textPdf(20000))
+    let turns = 0
+    let done = false
+    const spin = () => {
+      turns++
+      if (!done) setImmediate(spin)
+    }
+    setImmediate(spin)
+
+    const report = await preflightBuffer(pdf)
+    done = true
+    expect(report.pageCount).toBe(20000)
+    expect(turns).toBeGreaterThan(1)
+  })
+})
+
+describe('preflightHeadTail', () => {
+  it('checks only the header and trailer', () => {
+    const pdf = buildPdf(textPdf(1))
+    const report = preflightHeadTail(pdf.subarray(0, 1024), pdf.subarray(-2048), 200 * 1024 * 1024)
+    expect(report).toMatchObject({ ok: true, pageCount: null, sizeBytes: 200 * 1024 * 1024 })
+    expect(codes(report)).toEqual(['deep_check_skipped'])
+  })
+})
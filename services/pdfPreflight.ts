@@ -0,0 +1,788 @@
+/**
+ * PDF preflight checks, run by the upload routes before a job is created.
+ *
+ * This is a deliberately small structural scanner, not a renderer. It reads
+ * the object table of the file (including compressed object streams) and
+ * answers the questions that otherwise only surface deep inside the pipeline:
+ *
+ * - Is this a PDF at all (magic bytes)?
+ * - Is it truncated / structurally corrupt?
+ * - Is it encrypted, and if so does it open without a password?
+ * - How many pages does it have?
+ * - Which pages look scanned (image-only, no fonts)?
+ *
+ * Blocking issues stop job creation; warnings require confirmation in the
+ * dashboard. Anything the scanner cannot decide is reported, never guessed.
+ *
+ * The scan runs inside request handlers, so it works in slices and yields
+ * to the event loop between them; decompression runs on the libuv pool.
+ */
+
+import { createCipheriv, createHash } from 'crypto'
+import { open, readFile, stat } from 'fs/promises'
+import { promisify } from 'util'
+import { inflate } from 'zlib'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('pdfPreflight')
+const inflateAsync = promisify(inflate)
+
+/** Files above this size only get header/trailer checks */
+const MAX_DEEP_SCAN_BYTES = 64 * 1024 * 1024
+// Scans running at once (each holds the file plus a string copy in memory)
+const MAX_CONCURRENT_SCANS = 2
+// Longest stretch of scanning between two yields to the event loop
+const SCAN_SLICE_MS = 10
+
+// =============================================================================
+// Report types (shared with the dashboard via `import type`)
+// =============================================================================
+
+export type PreflightSeverity = 'blocking' | 'warning' | 'info'
+
+export type PreflightIssueCode =
+  | 'not_pdf'              // missing %PDF- magic bytes
+  | 'corrupt'              // no trailer / xref, or no readable page tree
+  | 'password_protected'   // encrypted and does not open with an empty password
+  | 'permissions_only'     // encrypted with an owner password only (opens fine)
+  | 'no_pages'             // parsed fine but contains zero pages
+  | 'scanned_pages'        // one or more image-only pages
+  | 'page_count_mismatch'  // page tree /Count differs from the page objects found
+  | 'missing_eof'          // %%EOF marker missing (possibly truncated)
+  | 'deep_check_skipped'   // file too large for the structural scan
+
+export interface PreflightIssue {
+  code: PreflightIssueCode
+  severity: PreflightSeverity
+  message: string
+}
+
+export interface PreflightReport {
+  /** False when at least one blocking issue was found */
+  ok: boolean
+  pdfVersion: string | null
+  sizeBytes: number
+  /** Null when the page tree could not be read */
+  pageCount: number | null
+  /** 1-based page numbers that contain images but no text fonts */
+  scannedPages: number[]
+  encrypted: boolean
+  issues: PreflightIssue[]
+  checkedAt: string
+}
+
+// =============================================================================
+// Minimal PDF object model + parser
+// =============================================================================
+
+type PdfValue =
+  | { kind: 'name'; value: string }
+  | { kind: 'string'; value: Buffer }
+  | { kind: 'number'; value: number }
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'null' }
+  | { kind: 'ref'; num: number }
+  | { kind: 'array'; items: PdfValue[] }
+  | { kind: 'dict'; entries: Map<string, PdfValue> }
+
+interface PdfObject {
+  value: PdfValue
+  stream?: Buffer
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20])
+const DELIMITERS = new Set(['(', ')', '<', '>', '[', ']', '{', '}', '/', '%'])
+
+class PdfParser {
+  pos = 0
+
+  constructor(private src: string) { }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.src.length) {
+      const code = this.src.charCodeAt(this.pos)
+      if (WHITESPACE.has(code)) {
+        this.pos++
+      } else if (this.src[this.pos] === '%') {
+        while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++
+      } else {
+        break
+      }
+    }
+  }
+
+  private readToken(): string {
+    const start = this.pos
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos]
+      if (WHITESPACE.has(ch.charCodeAt(0)) || DELIMITERS.has(ch)) break
+      this.pos++
+    }
+    return this.src.slice(start, this.pos)
+  }
+
+  peekKeyword(keyword: string): boolean {
+    this.skipWhitespace()
+    return this.src.startsWith(keyword, this.pos)
+  }
+
+  parseValue(depth = 0): PdfValue {
+    if (depth > 64) throw new Error('Nesting too deep')
+    this.skipWhitespace()
+    const ch = this.src[this.pos]
+
+    if (ch === '<' && this.src[this.pos + 1] === '<') {
+      this.pos += 2
+      const entries = new Map<string, PdfValue>()
+      for (; ;) {
+        this.skipWhitespace()
+        if (this.pos >= this.src.length) throw new Error('Unterminated dictionary')
+        if (this.src.startsWith('>>', this.pos)) {
+          this.pos += 2
+          return { kind: 'dict', entries }
+        }
+        const key = this.parseValue(depth + 1)
+        if (key.kind !== 'name') throw new Error('Dictionary key is not a name')
+        entries.set(key.value, this.parseValue(depth + 1))
+      }
+    }
+
+    if (ch === '[') {
+      this.pos++
+      const items: PdfValue[] = []
+      for (; ;) {
+        this.skipWhitespace()
+        if (this.pos >= this.src.length) throw new Error('Unterminated array')
+        if (this.src[this.pos] === ']') {
+          this.pos++
+          return { kind: 'array', items }
+        }
+        items.push(this.parseValue(depth + 1))
+      }
+    }
+
+    if (ch === '/') {
+      this.pos++
+      const raw = this.readToken()
+      return { kind: 'name', value: raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))) }
+    }
+
+    if (ch === '(') return { kind: 'string', value: this.parseLiteralString() }
+
+    if (ch === '<') {
+      const end = this.src.indexOf('>', this.pos)
+      if (end === -1) throw new Error('Unterminated hex string')
+      let hex = this.src.slice(this.pos + 1, end).replace(/[^0-9a-fA-F]/g, '')
+      if (hex.length % 2) hex += '0'
+      this.pos = end + 1
+      return { kind: 'string', value: Buffer.from(hex, 'hex') }
+    }
+
+    const token = this.readToken()
+    if (token === '') throw new Error(`Unexpected character '${ch}' at ${this.pos}`)
+    if (token === 'true' || token === 'false') return { kind: 'bool', value: token === 'true' }
+    if (token === 'null') return { kind: 'null' }
+
+    const num = Number(token)
+    if (Number.isNaN(num)) throw new Error(`Unexpected token '${token.slice(0, 20)}'`)
+
+    // "N G R" indirect reference lookahead
+    if (Number.isInteger(num)) {
+      const save = this.pos
+      this.skipWhitespace()
+      const gen = this.readToken()
+      if (/^\d+$/.test(gen)) {
+        this.skipWhitespace()
+        if (this.src[this.pos] === 'R' && !/[A-Za-z0-9]/.test(this.src[this.pos + 1] || '')) {
+          this.pos++
+          return { kind: 'ref', num }
+        }
+      }
+      this.pos = save
+    }
+    return { kind: 'number', value: num }
+  }
+
+  private parseLiteralString(): Buffer {
+    this.pos++ // opening (
+    let depth = 1
+    let out = ''
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos++]
+      if (ch === '\\') {
+        const next = this.src[this.pos++]
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f', '(': '(', ')': ')', '\\': '\\' }
+        if (next in escapes) {
+          out += escapes[next]
+        } else if (/[0-7]/.test(next)) {
+          let oct = next
+          while (oct.length < 3 && /[0-7]/.test(this.src[this.pos])) oct += this.src[this.pos++]
+          out += String.fromCharCode(parseInt(oct, 8) & 0xff)
+        } else if (next === '\r') {
+          if (this.src[this.pos] === '\n') this.pos++
+        } else if (next !== '\n') {
+          out += next
+        }
+      } else if (ch === '(') {
+        depth++
+        out += ch
+      } else if (ch === ')') {
+        if (--depth === 0) return Buffer.from(out, 'latin1')
+        out += ch
+      } else {
+        out += ch
+      }
+    }
+    throw new Error('Unterminated literal string')
+  }
+}
+
+// =============================================================================
+// Document index
+// =============================================================================
+
+interface PdfDocument {
+  objects: Map<number, PdfObject>
+  trailer: Map<string, PdfValue>
+}
+
+function dictOf(value: PdfValue | undefined): Map<string, PdfValue> | null {
+  return value?.kind === 'dict' ? value.entries : null
+}
+
+function nameOf(value: PdfValue | undefined): string | null {
+  return value?.kind === 'name' ? value.value : null
+}
+
+function numberOf(value: PdfValue | undefined): number | null {
+  return value?.kind === 'number' ? value.value : null
+}
+
+function resolve(doc: PdfDocument, value: PdfValue | undefined, seen = 0): PdfValue | undefined {
+  if (value?.kind !== 'ref') return value
+  if (seen > 32) return undefined
+  return resolve(doc, doc.objects.get(value.num)?.value, seen + 1)
+}
+
+function readStream(src: string, dict: Map<string, PdfValue>, start: number): { data: Buffer; end: number } | null {
+  let pos = start
+  if (src[pos] === '\r') pos++
+  if (src[pos] === '\n') pos++
+
+  const declared = numberOf(dict.get('Length'))
+  if (declared !== null && declared >= 0 && src.startsWith('endstream', skipEol(src, pos + declared))) {
+    return { data: Buffer.from(src.slice(pos, pos + declared), 'latin1'), end: pos + declared }
+  }
+
+  // /Length is indirect or wrong - fall back to scanning for the keyword
+  const end = src.indexOf('endstream', pos)
+  if (end === -1) return null
+  let dataEnd = end
+  if (src[dataEnd - 1] === '\n') dataEnd--
+  if (src[dataEnd - 1] === '\r') dataEnd--
+  return { data: Buffer.from(src.slice(pos, dataEnd), 'latin1'), end }
+}
+
+function skipEol(src: string, pos: number): number {
+  while (src[pos] === '\r' || src[pos] === '\n' || src[pos] === ' ') pos++
+  return pos
+}
+
+/**
+ * Call `await tick()` inside scan loops: it yields to the event loop once
+ * the current slice has run for SCAN_SLICE_MS.
+ */
+function createTicker(): () => Promise<void> {
+  let sliceStart = Date.now()
+  return async () => {
+    if (Date.now() - sliceStart < SCAN_SLICE_MS) return
+    await new Promise<void>(next => setImmediate(next))
+    sliceStart = Date.now()
+  }
+}
+
+async function decodeStream(obj: PdfObject): Promise<Buffer | null> {
+  if (!obj.stream) return null
+  const dict = dictOf(obj.value)
+  const filter = dict?.get('Filter')
+  const filters = filter?.kind === 'array' ? filter.items.map(nameOf) : filter ? [nameOf(filter)] : []
+  if (filters.length === 0) return obj.stream
+  if (filters.length === 1 && filters[0] === 'FlateDecode') {
+    try {
+      return await inflateAsync(new Uint8Array(obj.stream))
+    } catch {
+      return null
+    }
+  }
+  return null
+}
+
+async function indexDocument(src: string, tick: () => Promise<void>): Promise<PdfDocument> {
+  const objects = new Map<number, PdfObject>()
+  const trailer = new Map<string, PdfValue>()
+  const objectStreams: PdfObject[] = []
+
+  const objRegex = /(\d+)\s+\d+\s+obj\b/g
+  let match: RegExpExecArray | null
+  while ((match = objRegex.exec(src)) !== null) {
+    await tick()
+    const parser = new PdfParser(src)
+    parser.pos = match.index + match[0].length
+    try {
+      const value = parser.parseValue()
+      const obj: PdfObject = { value }
+      const dict = dictOf(value)
+      if (dict && parser.peekKeyword('stream')) {
+        const stream = readStream(src, dict, parser.pos + 'stream'.length)
+        if (stream) {
+          obj.stream = stream.data
+          objRegex.lastIndex = stream.end
+        }
+      }
+      // Later definitions (incremental updates) replace earlier ones
+      objects.set(Number(match[1]), obj)
+
+      const type = nameOf(dict?.get('Type'))
+      if (type === 'ObjStm') objectStreams.push(obj)
+      if (type === 'XRef' && dict) {
+        for (const [k, v] of dict) trailer.set(k, v)
+      }
+    } catch {
+      // Unparseable object - skip it, the checks below report what is missing
+    }
+  }
+
+  // Classic trailer dictionaries
+  let trailerIdx = src.indexOf('trailer')
+  while (trailerIdx !== -1) {
+    const parser = new PdfParser(src)
+    parser.pos = trailerIdx + 'trailer'.length
+    try {
+      const dict = dictOf(parser.parseValue())
+      if (dict) for (const [k, v] of dict) trailer.set(k, v)
+    } catch {
+      // ignore damaged trailer
+    }
+    trailerIdx = src.indexOf('trailer', trailerIdx + 1)
+  }
+
+  // Objects packed into compressed object streams (PDF 1.5+)
+  for (const objStm of objectStreams) {
+    const dict = dictOf(objStm.value)!
+    const count = numberOf(dict.get('N')) ?? 0
+    const first = numberOf(dict.get('First')) ?? 0
+    await tick()
+    const data = await decodeStream(objStm)
+    if (!data) continue
+
+    const content = data.toString('latin1')
+    const header = content.slice(0, first).trim().split(/\s+/).map(Number)
+    for (let i = 0; i < count && i * 2 + 1 < header.length; i++) {
+      const num = header[i * 2]
+      if (objects.has(num)) continue
+      const parser = new PdfParser(content)
+      parser.pos = first + header[i * 2 + 1]
+      try {
+        objects.set(num, { value: parser.parseValue() })
+      } catch {
+        // skip
+      }
+    }
+  }
+
+  return { objects, trailer }
+}
+
+// =============================================================================
+// Encryption (standard security handler, empty user password test)
+// =============================================================================
+
+const PASSWORD_PADDING = Buffer.from(
+  '28bf4e5e4e758a4164004e56fffa01082e2e00b6d0683e802f0ca9fe6453697a',
+  'hex'
+)
+
+function rc4(key: Buffer, data: Buffer): Buffer {
+  const s = Array.from({ length: 256 }, (_, i) => i)
+  let j = 0
+  for (let i = 0; i < 256; i++) {
+    j = (j + s[i] + key[i % key.length]) & 0xff
+      ;[s[i], s[j]] = [s[j], s[i]]
+  }
+  const out = Buffer.alloc(data.length)
+  let i = 0
+  j = 0
+  for (let k = 0; k < data.length; k++) {
+    i = (i + 1) & 0xff
+    j = (j + s[i]) & 0xff
+      ;[s[i], s[j]] = [s[j], s[i]]
+    out[k] = data[k] ^ s[(s[i] + s[j]) & 0xff]
+  }
+  return out
+}
+
+function bytesEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i])
+}
+
+function md5(...parts: Buffer[]): Buffer {
+  const hash = createHash('md5')
+  for (const p of parts) hash.update(new Uint8Array(p))
+  return hash.digest()
+}
+
+/** ISO 32000-2 algorithm 2.B (revision 6 password hash) with an empty password */
+function hardenedHash(salt: Buffer): Buffer {
+  let k = createHash('sha256').update(new Uint8Array(salt)).digest()
+  for (let round = 0; ; round++) {
+    const k1 = Buffer.concat(Array.from({ length: 64 }, () => new Uint8Array(k)))
+    const cipher = createCipheriv('aes-128-cbc', new Uint8Array(k.subarray(0, 16)), new Uint8Array(k.subarray(16, 32)))
+    cipher.setAutoPadding(false)
+    const e = Buffer.concat([cipher.update(new Uint8Array(k1)), cipher.final()].map(b => new Uint8Array(b)))
+    let sum = 0
+    for (let i = 0; i < 16; i++) sum += e[i]
+    const algorithm = ['sha256', 'sha384', 'sha512'][sum % 3]
+    k = createHash(algorithm).update(new Uint8Array(e)).digest()
+    if (round >= 63 && e[e.length - 1] <= round + 1 - 32) break
+  }
+  return k.subarray(0, 32)
+}
+
+/**
+ * Whether the document opens with an empty user password.
+ * Returns null for security handlers we cannot evaluate.
+ */
+function opensWithoutPassword(encrypt: Map<string, PdfValue>, fileId: Buffer): boolean | null {
+  if (nameOf(encrypt.get('Filter')) !== 'Standard') return null
+
+  const revision = numberOf(encrypt.get('R')) ?? 0
+  const o = encrypt.get('O')
+  const u = encrypt.get('U')
+  if (o?.kind !== 'string' || u?.kind !== 'string') return null
+  const owner = o.value
+  const user = u.value
+
+  if (revision >= 5) {
+    const validationSalt = user.subarray(32, 40)
+    const expected = user.subarray(0, 32)
+    const hash = revision === 5
+      ? createHash('sha256').update(new Uint8Array(validationSalt)).digest()
+      : hardenedHash(validationSalt)
+    return bytesEqual(hash, expected)
+  }
+
+  const keyLength = revision === 2 ? 5 : Math.floor((numberOf(encrypt.get('Length')) ?? 40) / 8)
+  const permissions = Buffer.alloc(4)
+  permissions.writeInt32LE(numberOf(encrypt.get('P')) ?? 0)
+  const metadataFlag = revision >= 4 && encrypt.get('EncryptMetadata')?.kind === 'bool'
+    && !(encrypt.get('EncryptMetadata') as { value: boolean }).value
+    ? Buffer.from([0xff, 0xff, 0xff, 0xff])
+    : Buffer.alloc(0)
+
+  let key = md5(PASSWORD_PADDING, owner.subarray(0, 32), permissions, fileId, metadataFlag)
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) key = md5(key.subarray(0, keyLength))
+  }
+  key = key.subarray(0, keyLength)
+
+  if (revision === 2) {
+    return bytesEqual(rc4(key, PASSWORD_PADDING), user.subarray(0, 32))
+  }
+
+  let check = rc4(key, md5(PASSWORD_PADDING, fileId))
+  for (let i = 1; i <= 19; i++) {
+    check = rc4(Buffer.from(key.map(b => b ^ i)), check)
+  }
+  return bytesEqual(check, user.subarray(0, 16))
+}
+
+// =============================================================================
+// Page tree
+// =============================================================================
+
+/** The catalog's page tree root */
+function pageTreeRoot(doc: PdfDocument): PdfValue | undefined {
+  return dictOf(resolve(doc, doc.trailer.get('Root')))?.get('Pages')
+}
+
+/** Page object numbers in document order (via /Root /Pages /Kids) */
+async function orderedPages(doc: PdfDocument, tick: () => Promise<void>): Promise<number[]> {
+  const pages: number[] = []
+  const visited = new Set<number>()
+  // Depth-first in /Kids order; iterative so the walk can yield
+  const stack: Array<PdfValue | undefined> = [pageTreeRoot(doc)]
+  while (stack.length > 0) {
+    await tick()
+    const ref = stack.pop()
+    if (ref?.kind !== 'ref' || visited.has(ref.num)) continue
+    visited.add(ref.num)
+    const node = dictOf(doc.objects.get(ref.num)?.value)
+    if (!node) continue
+    if (nameOf(node.get('Type')) === 'Page') {
+      pages.push(ref.num)
+    } else {
+      const kids = resolve(doc, node.get('Kids'))
+      if (kids?.kind === 'array') stack.push(...[...kids.items].reverse())
+    }
+  }
+  return pages
+}
+
+function inheritedResources(doc: PdfDocument, page: Map<string, PdfValue>): Map<string, PdfValue> | null {
+  let node: Map<string, PdfValue> | null = page
+  for (let depth = 0; node && depth < 32; depth++) {
+    const resources = dictOf(resolve(doc, node.get('Resources')))
+    if (resources) return resources
+    node = dictOf(resolve(doc, node.get('Parent')))
+  }
+  return null
+}
+
+function hasEntries(doc: PdfDocument, value: PdfValue | undefined): boolean {
+  const dict = dictOf(resolve(doc, value))
+  return Boolean(dict && dict.size > 0)
+}
+
+/**
+ * A page counts as scanned when it draws image XObjects but has no fonts
+ * (directly or inside its form XObjects), i.e. it carries no real text.
+ */
+function isScannedPage(doc: PdfDocument, page: Map<string, PdfValue>): boolean {
+  const resources = inheritedResources(doc, page)
+  if (!resources) return false
+  if (hasEntries(doc, resources.get('Font'))) return false
+
+  const xobjects = dictOf(resolve(doc, resources.get('XObject')))
+  if (!xobjects) return false
+
+  let hasImage = false
+  for (const ref of xobjects.values()) {
+    const xobject = dictOf(resolve(doc, ref))
+    const subtype = nameOf(xobject?.get('Subtype'))
+    if (subtype === 'Image') hasImage = true
+    if (subtype === 'Form') {
+      const formResources = dictOf(resolve(doc, xobject?.get('Resources')))
+      if (formResources && hasEntries(doc, formResources.get('Font'))) return false
+    }
+  }
+  return hasImage
+}
+
+// =============================================================================
+// Public API
+// =============================================================================
+
+function finalize(report: Omit<PreflightReport, 'ok' | 'checkedAt'>): PreflightReport {
+  return {
+    ...report,
+    ok: !report.issues.some(i => i.severity === 'blocking'),
+    checkedAt: new Date().toISOString(),
+  }
+}
+
+/** The blocking issues of a report as one message */
+export function blockingMessage(report: PreflightReport): string {
+  return report.issues.filter(i => i.severity === 'blocking').map(i => i.message).join('; ') || 'Preflight failed'
+}
+
+/**
+ * Magic bytes and trailer marker checks. Returns the PDF version, or null
+ * when the file is not a PDF (a blocking issue is pushed in that case).
+ */
+function checkEnvelope(head: Buffer, tail: Buffer, issues: PreflightIssue[]): string | null {
+  // The header may be preceded by junk within the first 1KB
+  const headerMatch = head.subarray(0, 1024).toString('latin1').match(/%PDF-(\d\.\d)/)
+  if (!headerMatch) {
+    issues.push({ code: 'not_pdf', severity: 'blocking', message: 'File does not start with a PDF header (%PDF-)' })
+    return null
+  }
+  if (!tail.toString('latin1').includes('%%EOF')) {
+    issues.push({ code: 'missing_eof', severity: 'warning', message: 'End-of-file marker missing - the file may be truncated' })
+  }
+  return headerMatch[1]
+}
+
+/**
+ * Run all preflight checks on an in-memory PDF.
+ */
+async function scanBuffer(buffer: Buffer): Promise<PreflightReport> {
+  const tick = createTicker()
+  const issues: PreflightIssue[] = []
+  const base = { sizeBytes: buffer.length, pageCount: null, scannedPages: [] as number[], encrypted: false }
+
+  // 1. Magic bytes + trailer markers
+  const pdfVersion = checkEnvelope(buffer.subarray(0, 1024), buffer.subarray(Math.max(0, buffer.length - 2048)), issues)
+  if (!pdfVersion) return finalize({ ...base, pdfVersion, issues })
+
+  // 2. Structure
+  const doc = await indexDocument(buffer.toString('latin1'), tick)
+  if (doc.objects.size === 0 || !doc.trailer.has('Root')) {
+    issues.push({ code: 'corrupt', severity: 'blocking', message: 'No readable document catalog - the file is damaged' })
+    return finalize({ ...base, pdfVersion, issues })
+  }
+
+  // 3. Encryption
+  const encrypt = dictOf(resolve(doc, doc.trailer.get('Encrypt')))
+  const encrypted = Boolean(encrypt)
+  if (encrypt) {
+    const ids = resolve(doc, doc.trailer.get('ID'))
+    const fileId = ids?.kind === 'array' && ids.items[0]?.kind === 'string' ? ids.items[0].value : Buffer.alloc(0)
+    let opens: boolean | null = null
+    try {
+      opens = opensWithoutPassword(encrypt, fileId)
+    } catch (err) {
+      log.warn('Encryption check failed', { error: err instanceof Error ? err.message : String(err) })
+    }
+    if (opens) {
+      issues.push({
+        code: 'permissions_only',
+        severity: 'warning',
+        message: 'Document is encrypted with an owner password only; it opens but some tools may refuse to process it',
+      })
+    } else {
+      issues.push({
+        code: 'password_protected',
+        severity: 'blocking',
+        message: opens === null
+          ? 'Document uses an unsupported encryption handler'
+          : 'Document requires a password to open',
+      })
+      return finalize({ ...base, pdfVersion, encrypted, issues })
+    }
+  }
+
+  // 4. Pages
+  let pageNums = await orderedPages(doc, tick)
+  if (pageNums.length === 0) {
+    // Page tree unreadable - fall back to every /Type /Page object
+    pageNums = [...doc.objects.entries()]
+      .filter(([, obj]) => nameOf(dictOf(obj.value)?.get('Type')) === 'Page')
+      .map(([num]) => num)
+  }
+
+  // /Count of the catalog's page tree (the current one after incremental updates)
+  const declaredCount = numberOf(dictOf(resolve(doc, pageTreeRoot(doc)))?.get('Count')) ?? undefined
+
+  const pageCount = pageNums.length || declaredCount || 0
+  if (pageCount === 0) {
+    issues.push({ code: 'no_pages', severity: 'blocking', message: 'Document contains no pages' })
+    return finalize({ ...base, pdfVersion, encrypted, pageCount, issues })
+  }
+  if (declaredCount !== undefined && pageNums.length > 0 && declaredCount !== pageNums.length) {
+    issues.push({
+      code: 'page_count_mismatch',
+      severity: 'warning',
+      message: `Page tree declares ${declaredCount} pages but ${pageNums.length} were found`,
+    })
+  }
+
+  // 5. Scanned (image-only) pages
+  const scannedPages: number[] = []
+  for (const [idx, num] of pageNums.entries()) {
+    await tick()
+    const page = dictOf(doc.objects.get(num)?.value)
+    if (page && isScannedPage(doc, page)) scannedPages.push(idx + 1)
+  }
+  if (scannedPages.length > 0) {
+    const all = scannedPages.length === pageNums.length
+    issues.push({
+      code: 'scanned_pages',
+      severity: 'warning',
+      message: all
+        ? 'All pages are scanned images without text; schedules and labels may not be extracted'
+        : `${scannedPages.length} of ${pageNums.length} pages are scanned images without text`,
+    })
+  }
+
+  return finalize({ ...base, pdfVersion, encrypted, pageCount, scannedPages, issues })
+}
+
+/**
+ * Header/trailer-only report for files too large for the structural scan.
+ */
+export function preflightHeadTail(head: Buffer, tail: Buffer, sizeBytes: number): PreflightReport {
+  const issues: PreflightIssue[] = []
+  const pdfVersion = checkEnvelope(head, tail, issues)
+  if (pdfVersion) {
+    issues.push({
+      code: 'deep_check_skipped',
+      severity: 'info',
+      message: 'File is too large for the structural check; only the header and trailer were verified',
+    })
+  }
+  return finalize({ pdfVersion, sizeBytes, pageCount: null, scannedPages: [], encrypted: false, issues })
+}
+
+let activeScans = 0
+const waitingScans: Array<() => void> = []
+
+async function limitScans<T>(scan: () => Promise<T>): Promise<T> {
+  if (activeScans < MAX_CONCURRENT_SCANS) {
+    activeScans++
+  } else {
+    await new Promise<void>(wake => waitingScans.push(wake))
+  }
+  try {
+    return await scan()
+  } finally {
+    // Hand the slot straight to the next waiting scan
+    const next = waitingScans.shift()
+    if (next) next()
+    else activeScans--
+  }
+}
+
+/**
+ * Run preflight on an in-memory PDF. Files above MAX_DEEP_SCAN_BYTES only
+ * get the header/trailer checks.
+ */
+export async function preflightBuffer(buffer: Buffer): Promise<PreflightReport> {
+  if (buffer.length > MAX_DEEP_SCAN_BYTES) {
+    return preflightHeadTail(buffer.subarray(0, 1024), buffer.subarray(buffer.length - 2048), buffer.length)
+  }
+  return limitScans(() => scanBuffer(buffer))
+}
+
+/**
+ * Run preflight on a file on disk (local storage mode).
+ */
+export async function preflightFile(filePath: string): Promise<PreflightReport> {
+  const { size } = await stat(filePath)
+  if (size <= MAX_DEEP_SCAN_BYTES) {
+    return limitScans(async () => scanBuffer(await readFile(filePath)))
+  }
+
+  const handle = await open(filePath, 'r')
+  try {
+    const head = Buffer.alloc(1024)
+    const tail = Buffer.alloc(2048)
+    await handle.read(new Uint8Array(head.buffer, head.byteOffset, head.length), 0, head.length, 0)
+    await handle.read(new Uint8Array(tail.buffer, tail.byteOffset, tail.length), 0, tail.length, size - tail.length)
+    return preflightHeadTail(head, tail, size)
+  } finally {
+    await handle.close()
+  }
+}
+
+/**
+ * Run preflight on a remote file (blob storage mode). Large files are
+ * checked via HTTP range requests instead of being downloaded.
+ */
+export async function preflightUrl(url: string): Promise<PreflightReport> {
+  const head = await fetch(url, { method: 'HEAD' })
+  if (!head.ok) throw new Error(`Failed to fetch file: ${head.status} ${head.statusText}`)
+  const size = Number(head.headers.get('content-length') || 0)
+
+  if (size > MAX_DEEP_SCAN_BYTES) {
+    const range = async (header: string) => {
+      const res = await fetch(url, { headers: { Range: header } })
+      if (!res.ok) throw new Error(`Range request failed: ${res.status}`)
+      return Buffer.from(await res.arrayBuffer())
+    }
+    return preflightHeadTail(await range('bytes=0-1023'), await range('bytes=-2048'), size)
+  }
+
+  const res = await fetch(url)
+  if (!res.ok) throw new Error(`Failed to fetch file: ${res.status} ${res.statusText}`)
+  return preflightBuffer(Buffer.from(await res.arrayBuffer()))
+}
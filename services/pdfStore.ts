@@ -0,0 +1,62 @@
+/**
+ * Where server-side ingestion (archives, URLs) writes input PDFs.
+ *
+ * Stored exactly like a single upload so the worker fetches them the same way:
+ * LOCAL MODE: output_frontend/{jobId}/input.pdf, served by /api/files/*
+ * BLOB MODE:  uploads/{jobId}/input.pdf in Vercel Blob
+ */
+
+import { mkdir, rm, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { del, put } from '@vercel/blob'
+
+// Resolve OUTPUT_DIR relative to PROJECT_ROOT (parent of cwd, since Next.js runs from frontend/)
+const PROJECT_ROOT = resolve(process.cwd(), '..')
+const OUTPUT_DIR = process.env.OUTPUT_DIR
+  ? resolve(PROJECT_ROOT, process.env.OUTPUT_DIR)
+  : resolve(PROJECT_ROOT, 'output_frontend')
+
+/** Stores a PDF for `jobId`; returns the worker URL and pathname */
+export type PdfStore = (jobId: string, filename: string, data: Uint8Array) => Promise<{ url: string; pathname: string }>
+
+/**
+ * Store PDFs under OUTPUT_DIR, served by /api/files/* at `baseUrl`.
+ * `source` is recorded in metadata.json next to the original filename.
+ */
+export function localPdfStore(baseUrl: string, source: Record<string, string>): PdfStore {
+  return async (jobId, filename, data) => {
+    const jobDir = join(OUTPUT_DIR, jobId)
+    await mkdir(jobDir, { recursive: true })
+    await writeFile(join(jobDir, 'input.pdf'), data)
+    await writeFile(join(jobDir, 'metadata.json'), JSON.stringify({
+      originalFilename: filename,
+      ...source,
+      uploadedAt: new Date().toISOString(),
+    }, null, 2))
+    const pathname = `${jobId}/input.pdf`
+    return { url: `${baseUrl}/api/files/${pathname}`, pathname }
+  }
+}
+
+/** Store PDFs in Vercel Blob next to regular uploads */
+export function blobPdfStore(): PdfStore {
+  return async (jobId, _filename, data) => {
+    const blob = await put(`uploads/${jobId}/input.pdf`, Buffer.from(data), {
+      access: 'public',
+      // Same rule as client uploads: URLs must be unguessable
+      addRandomSuffix: true,
+      contentType: 'application/pdf',
+    })
+    return { url: blob.url, pathname: blob.pathname }
+  }
+}
+
+/** Remove a PDF stored by localPdfStore (its whole job directory) */
+export async function deleteLocalPdf(jobId: string): Promise<void> {
+  await rm(join(OUTPUT_DIR, jobId), { recursive: true, force: true })
+}
+
+/** Remove a PDF stored by blobPdfStore */
+export async function deleteBlobPdf(url: string): Promise<void> {
+  await del(url)
+}
@@ -0,0 +1,99 @@
+/**
+ * Team-shared pipeline profiles, persisted through the team store.
+ *
+ * The first read seeds DEFAULT_PROFILES so a fresh install has something to
+ * pick from; after that the stored list is authoritative (deleted defaults
+ * stay deleted).
+ */
+
+import { randomUUID } from 'crypto'
+import {
+  DEFAULT_PROFILES,
+  validateProfile,
+  type PipelineProfile,
+  type PipelineProfileInput,
+} from '@/lib/pipeline-profiles'
+import { createLogger } from '@/lib/logger'
+import { readTeamDocument, writeTeamDocument } from './teamStore'
+
+const log = createLogger('pipelineProfiles')
+
+const DOCUMENT = 'pipeline-profiles'
+
+/**
+ * Validation failure, carrying per-field messages for the editor form.
+ */
+export class ProfileValidationError extends Error {
+  constructor(public fieldErrors: Record<string, string>) {
+    super('Invalid profile')
+    this.name = 'ProfileValidationError'
+  }
+}
+
+function normalize(input: PipelineProfileInput): PipelineProfileInput {
+  // Drop unset overrides so stored profiles only carry deliberate choices
+  const overrides = Object.fromEntries(
+    Object.entries(input.overrides ?? {}).filter(([, v]) => v !== undefined && v !== null)
+  )
+  return {
+    name: (input.name ?? '').trim(),
+    description: (input.description ?? '').trim(),
+    overrides,
+  }
+}
+
+export async function listProfiles(): Promise<PipelineProfile[]> {
+  const stored = await readTeamDocument<PipelineProfile[] | null>(DOCUMENT, null)
+  if (stored) return stored
+
+  const now = new Date().toISOString()
+  const seeded = DEFAULT_PROFILES.map(p => ({ ...p, id: randomUUID(), updatedAt: now, updatedBy: null }))
+  await writeTeamDocument(DOCUMENT, seeded)
+  log.info(`Seeded ${seeded.length} default profiles`)
+  return seeded
+}
+
+export async function getProfile(id: string): Promise<PipelineProfile | null> {
+  return (await listProfiles()).find(p => p.id === id) ?? null
+}
+
+export async function createProfile(input: PipelineProfileInput, user: string | null): Promise<PipelineProfile> {
+  const profiles = await listProfiles()
+  const data = normalize(input)
+  const errors = validateProfile(data, profiles.map(p => p.name))
+  if (Object.keys(errors).length > 0) throw new ProfileValidationError(errors)
+
+  const profile: PipelineProfile = { ...data, id: randomUUID(), updatedAt: new Date().toISOString(), updatedBy: user }
+  await writeTeamDocument(DOCUMENT, [...profiles, profile])
+  log.info(`Profile created: ${profile.name}`, { id: profile.id, user })
+  return profile
+}
+
+/** Returns null when the profile does not exist */
+export async function updateProfile(
+  id: string,
+  input: PipelineProfileInput,
+  user: string | null
+): Promise<PipelineProfile | null> {
+  const profiles = await listProfiles()
+  const existing = profiles.find(p => p.id === id)
+  if (!existing) return null
+
+  const data = normalize(input)
+  const errors = validateProfile(data, profiles.filter(p => p.id !== id).map(p => p.name))
+  if (Object.keys(errors).length > 0) throw new ProfileValidationError(errors)
+
+  const profile: PipelineProfile = { ...existing, ...data, updatedAt: new Date().toISOString(), updatedBy: user }
+  await writeTeamDocument(DOCUMENT, profiles.map(p => (p.id === id ? profile : p)))
+  log.info(`Profile updated: ${profile.name}`, { id, user })
+  return profile
+}
+
+/** Returns false when the profile does not exist */
+export async function deleteProfile(id: string, user: string | null): Promise<boolean> {
+  const profiles = await listProfiles()
+  if (!profiles.some(p => p.id === id)) return false
+  await writeTeamDocument(DOCUMENT, profiles.filter(p => p.id !== id))
+  log.info('Profile deleted', { id, user })
+  return true
+}
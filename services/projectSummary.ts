@@ -0,0 +1,110 @@
+/**
+ * Aggregate view of a project's jobs for the project page: status counts,
+ * pages processed and the combined product count of its completed jobs.
+ *
+ * Product counts come from the job record (product_count, when the worker
+ * reports it) or else from the job's integration document. Completed results
+ * do not change, so counts read from documents are cached for the process,
+ * keeping the most recently used MAX_CACHED_COUNTS jobs.
+ */
+
+import { api } from '@/lib/api-config'
+import { listJobs } from '@/lib/jobs-api'
+import { createLogger } from '@/lib/logger'
+import type { JobPublic } from '@/hooks/useJobStatus'
+
+const log = createLogger('projectSummary')
+
+// Jobs read per project; larger projects are summarised over the newest ones
+const MAX_PROJECT_JOBS = 1000
+// Integration documents fetched at once
+const CONCURRENCY = 4
+// Cached product counts; the least recently used are dropped beyond this
+const MAX_CACHED_COUNTS = 5000
+
+export interface ProjectSummary {
+  projectId: string
+  jobCount: number
+  /** More jobs exist than were summarised */
+  truncated: boolean
+  statusCounts: Record<string, number>
+  pageCount: number
+  productCount: number
+  /** Completed jobs whose product count could not be read */
+  productCountMissing: number
+  tagCounts: Record<string, number>
+  lastActivityAt: string | null
+}
+
+const globalForProjects = globalThis as unknown as { projectProductCounts?: Map<string, number> }
+const productCounts: Map<string, number> = globalForProjects.projectProductCounts ??= new Map()
+
+async function productCountFor(job: JobPublic): Promise<number | null> {
+  if (typeof job.product_count === 'number') return job.product_count
+  const cached = productCounts.get(job.id)
+  if (cached !== undefined) {
+    // Re-insert so the Map's insertion order stays least recently used first
+    productCounts.delete(job.id)
+    productCounts.set(job.id, cached)
+    return cached
+  }
+
+  try {
+    const res = await fetch(api.jobs.integration(job.id), { cache: 'no-store' })
+    if (!res.ok) return null
+    const doc = await res.json()
+    const count = Array.isArray(doc?.products) ? doc.products.length : 0
+    productCounts.set(job.id, count)
+    for (const oldest of productCounts.keys()) {
+      if (productCounts.size <= MAX_CACHED_COUNTS) break
+      productCounts.delete(oldest)
+    }
+    return count
+  } catch (error) {
+    log.debug('Integration document unavailable', { jobId: job.id, error: error instanceof Error ? error.message : String(error) })
+    return null
+  }
+}
+
+export async function getProjectSummary(projectId: string): Promise<ProjectSummary> {
+  const params = new URLSearchParams({
+    project_id: projectId,
+    limit: String(MAX_PROJECT_JOBS + 1),
+    sort: 'created_at',
+    order: 'desc',
+  })
+  const listed = await listJobs(api.jobs.search(params), job => job.project_id === projectId)
+  const jobs = listed.slice(0, MAX_PROJECT_JOBS)
+
+  const summary: ProjectSummary = {
+    projectId,
+    jobCount: jobs.length,
+    truncated: listed.length > MAX_PROJECT_JOBS,
+    statusCounts: {},
+    pageCount: 0,
+    productCount: 0,
+    productCountMissing: 0,
+    tagCounts: {},
+    lastActivityAt: null,
+  }
+
+  for (const job of jobs) {
+    summary.statusCounts[job.status] = (summary.statusCounts[job.status] ?? 0) + 1
+    summary.pageCount += job.page_count ?? 0
+    for (const tag of job.tags ?? []) summary.tagCounts[tag] = (summary.tagCounts[tag] ?? 0) + 1
+    const activity = job.completed_at || job.started_at || job.created_at
+    if (!summary.lastActivityAt || activity > summary.lastActivityAt) summary.lastActivityAt = activity
+  }
+
+  const queue = jobs.filter(job => job.status === 'completed')
+  const worker = async () => {
+    for (let job = queue.shift(); job; job = queue.shift()) {
+      const count = await productCountFor(job)
+      if (count === null) summary.productCountMissing++
+      else summary.productCount += count
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, worker))
+
+  return summary
+}
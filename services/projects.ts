@@ -0,0 +1,127 @@
+/**
+ * Team-shared projects, persisted through the team store.
+ *
+ * Jobs reference projects by ID only, so renaming a project relabels all of
+ * its jobs. Deleting a project leaves its jobs' project_id dangling; the UI
+ * shows those jobs as unassigned.
+ *
+ * Changes are serialized within the process, so two saves never read the
+ * same document and drop each other's change. An edit made from a stale
+ * copy (expectedUpdatedAt no longer matches) is refused with
+ * ProjectConflictError instead of overwriting someone else's edit.
+ */
+
+import { randomUUID } from 'crypto'
+import { validateProject, type Project, type ProjectInput } from '@/lib/projects'
+import { createLogger } from '@/lib/logger'
+import { readTeamDocument, writeTeamDocument } from './teamStore'
+
+const log = createLogger('projects')
+
+const DOCUMENT = 'projects'
+
+/**
+ * Validation failure, carrying per-field messages for the project form.
+ */
+export class ProjectValidationError extends Error {
+  constructor(public fieldErrors: Record<string, string>) {
+    super('Invalid project')
+    this.name = 'ProjectValidationError'
+  }
+}
+
+/**
+ * The project changed since the caller read it.
+ */
+export class ProjectConflictError extends Error {
+  constructor(public current: Project) {
+    super(`Project was changed${current.updatedBy ? ` by ${current.updatedBy}` : ''} in the meantime; reload to see the changes`)
+    this.name = 'ProjectConflictError'
+  }
+}
+
+const globalForProjects = globalThis as unknown as { projectsLock?: Promise<unknown> }
+
+/** Run `change` after every change queued before it */
+function serialized<T>(change: () => Promise<T>): Promise<T> {
+  const result = (globalForProjects.projectsLock ?? Promise.resolve()).then(change)
+  globalForProjects.projectsLock = result.catch(() => undefined)
+  return result
+}
+
+function normalize(input: Partial<ProjectInput>): ProjectInput {
+  return {
+    name: (input.name ?? '').trim(),
+    customer: (input.customer ?? '').trim(),
+    projectNumber: (input.projectNumber ?? '').trim(),
+    address: (input.address ?? '').trim(),
+  }
+}
+
+export async function listProjects(): Promise<Project[]> {
+  const projects = await readTeamDocument<Project[]>(DOCUMENT, [])
+  return [...projects].sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function getProject(id: string): Promise<Project | null> {
+  return (await listProjects()).find(p => p.id === id) ?? null
+}
+
+export function createProject(input: Partial<ProjectInput>, user: string | null): Promise<Project> {
+  return serialized(async () => {
+    const projects = await listProjects()
+    const data = normalize(input)
+    const errors = validateProject(data, projects.map(p => p.name))
+    if (Object.keys(errors).length > 0) throw new ProjectValidationError(errors)
+
+    const now = new Date().toISOString()
+    const project: Project = { ...data, id: randomUUID(), createdAt: now, updatedAt: now, updatedBy: user }
+    await writeTeamDocument(DOCUMENT, [...projects, project])
+    log.info(`Project created: ${project.name}`, { id: project.id, user })
+    return project
+  })
+}
+
+function assertCurrent(existing: Project, expectedUpdatedAt: string | undefined): void {
+  if (expectedUpdatedAt && existing.updatedAt !== expectedUpdatedAt) throw new ProjectConflictError(existing)
+}
+
+/**
+ * Returns null when the project does not exist. `expectedUpdatedAt` is the
+ * updatedAt of the copy the edit was made from.
+ */
+export function updateProject(
+  id: string,
+  input: Partial<ProjectInput>,
+  user: string | null,
+  expectedUpdatedAt?: string
+): Promise<Project | null> {
+  return serialized(async () => {
+    const projects = await listProjects()
+    const existing = projects.find(p => p.id === id)
+    if (!existing) return null
+    assertCurrent(existing, expectedUpdatedAt)
+
+    const data = normalize(input)
+    const errors = validateProject(data, projects.filter(p => p.id !== id).map(p => p.name))
+    if (Object.keys(errors).length > 0) throw new ProjectValidationError(errors)
+
+    const project: Project = { ...existing, ...data, updatedAt: new Date().toISOString(), updatedBy: user }
+    await writeTeamDocument(DOCUMENT, projects.map(p => (p.id === id ? project : p)))
+    log.info(`Project updated: ${project.name}`, { id, user })
+    return project
+  })
+}
+
+/** Returns false when the project does not exist */
+export function deleteProject(id: string, user: string | null, expectedUpdatedAt?: string): Promise<boolean> {
+  return serialized(async () => {
+    const projects = await listProjects()
+    const existing = projects.find(p => p.id === id)
+    if (!existing) return false
+    assertCurrent(existing, expectedUpdatedAt)
+    await writeTeamDocument(DOCUMENT, projects.filter(p => p.id !== id))
+    log.info('Project deleted', { id, user })
+    return true
+  })
+}
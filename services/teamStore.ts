@@ -0,0 +1,167 @@
+/**
+ * Small JSON document store for team-wide settings (pipeline profiles etc.).
+ *
+ * LOCAL MODE: output_frontend/.team/{name}.json
+ * BLOB MODE:  team/{name}.json in Vercel Blob (fixed pathname, no random
+ *             suffix - these documents hold no uploaded content)
+ *
+ * Documents are small and written rarely, so every write replaces the whole
+ * document. Concurrent edits are last-write-wins.
+ *
+ * Private documents (readPrivateTeamDocument) hold personal data. Blob mode
+ * only has public blobs, so they are stored encrypted (AES-256-GCM, key
+ * derived from NEXTAUTH_SECRET) under a pathname that does not reveal their
+ * name; locally they are owner-only files.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes } from 'crypto'
+import { mkdir, readFile, rename, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { head, put, BlobNotFoundError } from '@vercel/blob'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('teamStore')
+
+// Resolve OUTPUT_DIR relative to PROJECT_ROOT (parent of cwd, since Next.js runs from frontend/)
+const PROJECT_ROOT = resolve(process.cwd(), '..')
+const OUTPUT_DIR = process.env.OUTPUT_DIR
+  ? resolve(PROJECT_ROOT, process.env.OUTPUT_DIR)
+  : resolve(PROJECT_ROOT, 'output_frontend')
+const TEAM_DIR = join(OUTPUT_DIR, '.team')
+
+const USE_BLOB = process.env.NEXT_PUBLIC_STORAGE_MODE === 'blob'
+  || (process.env.NEXT_PUBLIC_STORAGE_MODE !== 'local' && process.env.NEXT_PUBLIC_USE_BLOB === 'true')
+
+const DOCUMENT_NAME_REGEX = /^[a-z0-9-]+$/
+
+function blobPathname(name: string): string {
+  return `team/${name}.json`
+}
+
+function assertName(name: string): void {
+  if (!DOCUMENT_NAME_REGEX.test(name)) {
+    throw new Error(`Invalid team document name: ${name}`)
+  }
+}
+
+function secretKey(): Uint8Array {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) throw new Error('NEXTAUTH_SECRET is required for private team documents')
+  return new Uint8Array(createHash('sha256').update(`team-store:${secret}`).digest())
+}
+
+function privateBlobPathname(name: string): string {
+  return `team/private/${createHmac('sha256', secretKey()).update(name).digest('hex')}.json`
+}
+
+interface EncryptedDocument {
+  iv: string
+  tag: string
+  data: string
+}
+
+function encrypt(body: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', secretKey(), new Uint8Array(iv))
+  const data = Buffer.concat([new Uint8Array(cipher.update(body, 'utf-8')), new Uint8Array(cipher.final())])
+  const encrypted: EncryptedDocument = {
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64'),
+  }
+  return JSON.stringify(encrypted)
+}
+
+function decrypt(stored: EncryptedDocument): string {
+  const decipher = createDecipheriv('aes-256-gcm', secretKey(), new Uint8Array(Buffer.from(stored.iv, 'base64')))
+  decipher.setAuthTag(new Uint8Array(Buffer.from(stored.tag, 'base64')))
+  return decipher.update(stored.data, 'base64', 'utf-8') + decipher.final('utf-8')
+}
+
+/** Stored text at a blob pathname, or null when there is none */
+async function readBlob(pathname: string, name: string): Promise<string | null> {
+  try {
+    const meta = await head(pathname)
+    // Version query param so the CDN never serves a stale copy after a write
+    const res = await fetch(`${meta.url}?v=${meta.uploadedAt.getTime()}`, { cache: 'no-store' })
+    if (!res.ok) throw new Error(`Failed to fetch ${name}: ${res.status}`)
+    return await res.text()
+  } catch (error) {
+    if (error instanceof BlobNotFoundError) return null
+    throw error
+  }
+}
+
+async function readLocal(name: string): Promise<string | null> {
+  try {
+    return await readFile(join(TEAM_DIR, `${name}.json`), 'utf-8')
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+    throw error
+  }
+}
+
+async function writeBlob(pathname: string, body: string): Promise<void> {
+  await put(pathname, body, {
+    access: 'public',
+    addRandomSuffix: false,
+    contentType: 'application/json',
+    cacheControlMaxAge: 60,
+  })
+}
+
+async function writeLocal(name: string, body: string, mode?: number): Promise<void> {
+  await mkdir(TEAM_DIR, { recursive: true })
+  const target = join(TEAM_DIR, `${name}.json`)
+  await writeFile(`${target}.tmp`, body, { mode })
+  await rename(`${target}.tmp`, target)
+}
+
+/**
+ * Read a document, or return `fallback` when it has never been written.
+ */
+export async function readTeamDocument<T>(name: string, fallback: T): Promise<T> {
+  assertName(name)
+  const raw = USE_BLOB ? await readBlob(blobPathname(name), name) : await readLocal(name)
+  return raw === null ? fallback : JSON.parse(raw) as T
+}
+
+/**
+ * Replace a document.
+ */
+export async function writeTeamDocument<T>(name: string, value: T): Promise<void> {
+  assertName(name)
+  const body = JSON.stringify(value, null, 2)
+
+  if (USE_BLOB) await writeBlob(blobPathname(name), body)
+  else await writeLocal(name, body)
+
+  log.debug(`Team document written: ${name}`, { bytes: body.length, blob: USE_BLOB })
+}
+
+/**
+ * Read a private document, or return `fallback` when it has never been
+ * written.
+ */
+export async function readPrivateTeamDocument<T>(name: string, fallback: T): Promise<T> {
+  assertName(name)
+  if (!USE_BLOB) {
+    const raw = await readLocal(name)
+    return raw === null ? fallback : JSON.parse(raw) as T
+  }
+  const raw = await readBlob(privateBlobPathname(name), name)
+  return raw === null ? fallback : JSON.parse(decrypt(JSON.parse(raw))) as T
+}
+
+/**
+ * Replace a private document.
+ */
+export async function writePrivateTeamDocument<T>(name: string, value: T): Promise<void> {
+  assertName(name)
+  const body = JSON.stringify(value)
+
+  if (USE_BLOB) await writeBlob(privateBlobPathname(name), encrypt(body))
+  else await writeLocal(name, body, 0o600)
+
+  log.debug(`Private team document written: ${name}`, { bytes: body.length, blob: USE_BLOB })
+}
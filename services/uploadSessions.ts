@@ -0,0 +1,246 @@
+/**
+ * Resumable chunked upload sessions for local storage mode.
+ *
+ * A session lives next to the job's final input file:
+ *
+ *   output_frontend/{jobId}/.upload/session.json   – declared filename/size/chunking
+ *   output_frontend/{jobId}/.upload/{index}.part   – one file per received chunk
+ *
+ * Received chunks are derived from the .part files on disk, so a dropped
+ * connection (or a restarted dev server) never loses parts that were already
+ * written. Completing a session concatenates the parts into input.pdf (or
+ * archive.zip for ZIP uploads, expanded by the caller), drops the parts and
+ * marks the session completed. Completing it again returns the assembled
+ * file, so a client can retry when a check after assembly failed.
+ */
+
+import { createReadStream, createWriteStream } from 'fs'
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from 'fs/promises'
+import { join, resolve } from 'path'
+import { pipeline } from 'stream/promises'
+import { createLogger } from '@/lib/logger'
+
+const log = createLogger('uploadSessions')
+
+// Resolve OUTPUT_DIR relative to PROJECT_ROOT (parent of cwd, since Next.js runs from frontend/)
+const PROJECT_ROOT = resolve(process.cwd(), '..')
+const OUTPUT_DIR = process.env.OUTPUT_DIR
+  ? resolve(PROJECT_ROOT, process.env.OUTPUT_DIR)
+  : resolve(PROJECT_ROOT, 'output_frontend')
+
+const SESSION_DIR = '.upload'
+const SESSION_FILE = 'session.json'
+const INPUT_FILENAME = 'input.pdf'
+const ARCHIVE_FILENAME = 'archive.zip'
+
+// Same format check as /api/local-upload
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export interface UploadSession {
+  jobId: string
+  filename: string
+  size: number
+  chunkSize: number
+  totalChunks: number
+  createdAt: string
+  /** Set once the parts were assembled (the parts are gone then) */
+  completedAt?: string
+}
+
+export interface UploadSessionStatus extends UploadSession {
+  receivedChunks: number[]
+}
+
+/**
+ * Error with an HTTP status, thrown for client mistakes (bad index, size
+ * mismatch, unknown session) so route handlers can map it to a response.
+ */
+export class UploadSessionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message)
+    this.name = 'UploadSessionError'
+  }
+}
+
+export function isValidJobId(jobId: string): boolean {
+  return UUID_REGEX.test(jobId)
+}
+
+function jobDir(jobId: string): string {
+  if (!isValidJobId(jobId)) {
+    throw new UploadSessionError('Invalid jobId format')
+  }
+  return join(OUTPUT_DIR, jobId)
+}
+
+function sessionDir(jobId: string): string {
+  return join(jobDir(jobId), SESSION_DIR)
+}
+
+function partPath(jobId: string, index: number): string {
+  return join(sessionDir(jobId), `${index}.part`)
+}
+
+async function readSession(jobId: string): Promise<UploadSession | null> {
+  try {
+    const raw = await readFile(join(sessionDir(jobId), SESSION_FILE), 'utf-8')
+    return JSON.parse(raw) as UploadSession
+  } catch {
+    return null
+  }
+}
+
+function allChunks(session: UploadSession): number[] {
+  return Array.from({ length: session.totalChunks }, (_, i) => i)
+}
+
+async function listReceivedChunks(jobId: string): Promise<number[]> {
+  const entries = await readdir(sessionDir(jobId)).catch(() => [] as string[])
+  return entries
+    .filter(name => /^\d+\.part$/.test(name))
+    .map(name => parseInt(name, 10))
+    .sort((a, b) => a - b)
+}
+
+/**
+ * Create a session, or return the existing one when the same file is
+ * re-declared for the same job (this is how clients resume).
+ */
+export async function initSession(
+  jobId: string,
+  filename: string,
+  size: number,
+  chunkSize: number
+): Promise<UploadSessionStatus> {
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new UploadSessionError('Invalid file size')
+  }
+  if (!Number.isInteger(chunkSize) || chunkSize <= 0) {
+    throw new UploadSessionError('Invalid chunk size')
+  }
+
+  const existing = await readSession(jobId)
+  if (existing) {
+    if (existing.filename !== filename || existing.size !== size || existing.chunkSize !== chunkSize) {
+      throw new UploadSessionError('An upload with different parameters already exists for this job', 409)
+    }
+    log.info(`Resuming upload session`, { job_id: jobId })
+    const receivedChunks = existing.completedAt ? allChunks(existing) : await listReceivedChunks(jobId)
+    return { ...existing, receivedChunks }
+  }
+
+  const session: UploadSession = {
+    jobId,
+    filename,
+    size,
+    chunkSize,
+    totalChunks: Math.ceil(size / chunkSize),
+    createdAt: new Date().toISOString(),
+  }
+
+  await mkdir(sessionDir(jobId), { recursive: true })
+  await writeFile(join(sessionDir(jobId), SESSION_FILE), JSON.stringify(session, null, 2))
+  log.info(`Upload session created (${session.totalChunks} chunks)`, { job_id: jobId })
+
+  return { ...session, receivedChunks: [] }
+}
+
+export async function getSessionStatus(jobId: string): Promise<UploadSessionStatus | null> {
+  const session = await readSession(jobId)
+  if (!session) return null
+  return { ...session, receivedChunks: session.completedAt ? allChunks(session) : await listReceivedChunks(jobId) }
+}
+
+/**
+ * Persist one chunk. Parts are written to a temp file and renamed so a
+ * half-written chunk is never reported as received.
+ */
+export async function writeChunk(jobId: string, index: number, data: Uint8Array): Promise<void> {
+  const session = await readSession(jobId)
+  if (!session) {
+    throw new UploadSessionError('Upload session not found', 404)
+  }
+  if (session.completedAt) {
+    throw new UploadSessionError('Upload is already complete', 409)
+  }
+  if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+    throw new UploadSessionError(`Chunk index out of range (0-${session.totalChunks - 1})`)
+  }
+
+  const isLast = index === session.totalChunks - 1
+  const expected = isLast
+    ? session.size - session.chunkSize * (session.totalChunks - 1)
+    : session.chunkSize
+  if (data.byteLength !== expected) {
+    throw new UploadSessionError(`Chunk ${index} has ${data.byteLength} bytes, expected ${expected}`)
+  }
+
+  const target = partPath(jobId, index)
+  const tmp = `${target}.tmp`
+  await writeFile(tmp, data)
+  await rename(tmp, target)
+  log.debug(`Chunk ${index + 1}/${session.totalChunks} stored`, { job_id: jobId })
+}
+
+/**
+ * Assemble all parts into input.pdf (archive.zip for ZIP uploads), write
+ * metadata.json and mark the session completed.
+ * Returns the pathname relative to OUTPUT_DIR (served by /api/files/*)
+ * and the absolute path of the assembled file.
+ */
+export async function completeSession(
+  jobId: string
+): Promise<{ pathname: string; filePath: string; session: UploadSession }> {
+  const session = await readSession(jobId)
+  if (!session) {
+    throw new UploadSessionError('Upload session not found', 404)
+  }
+
+  const targetName = session.filename.toLowerCase().endsWith('.zip') ? ARCHIVE_FILENAME : INPUT_FILENAME
+  const filePath = join(jobDir(jobId), targetName)
+  if (session.completedAt) {
+    const assembled = await stat(filePath).catch(() => null)
+    if (assembled?.size !== session.size) {
+      throw new UploadSessionError('Upload session not found', 404)
+    }
+    log.info(`Upload already assembled`, { job_id: jobId })
+    return { pathname: `${jobId}/${targetName}`, filePath, session }
+  }
+
+  const received = new Set(await listReceivedChunks(jobId))
+  const missing: number[] = []
+  for (let i = 0; i < session.totalChunks; i++) {
+    if (!received.has(i)) missing.push(i)
+  }
+  if (missing.length > 0) {
+    throw new UploadSessionError(`Missing chunks: ${missing.slice(0, 10).join(', ')}${missing.length > 10 ? '…' : ''}`, 409)
+  }
+
+  const out = createWriteStream(filePath)
+  try {
+    for (let i = 0; i < session.totalChunks; i++) {
+      await pipeline(createReadStream(partPath(jobId, i)), out, { end: false })
+    }
+  } finally {
+    await new Promise<void>((res, rej) => out.end((err?: Error | null) => (err ? rej(err) : res())))
+  }
+
+  const { size } = await stat(filePath)
+  if (size !== session.size) {
+    await rm(filePath, { force: true })
+    throw new UploadSessionError(`Assembled file is ${size} bytes, expected ${session.size}`, 500)
+  }
+
+  await writeFile(join(jobDir(jobId), 'metadata.json'), JSON.stringify({
+    originalFilename: session.filename,
+    uploadedAt: new Date().toISOString(),
+  }, null, 2))
+
+  // Keep only session.json (marked completed) so a retried completion finds the file
+  session.completedAt = new Date().toISOString()
+  await writeFile(join(sessionDir(jobId), SESSION_FILE), JSON.stringify(session, null, 2))
+  await Promise.all(allChunks(session).map(i => rm(partPath(jobId, i), { force: true })))
+  log.info(`Upload assembled: ${filePath} (${size} bytes)`, { job_id: jobId })
+
+  return { pathname: `${jobId}/${targetName}`, filePath, session }
+}
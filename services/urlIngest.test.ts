@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { ingestPdfFromUrl, isPrivateAddress, UrlIngestError } from './urlIngest'
+import type { PdfStore } from './pdfStore'
+
+describe('isPrivateAddress', () => {
+  it('refuses private, loopback and special-purpose IPv4', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254',
+      '100.64.0.1', '0.0.0.0', '198.18.0.1', '198.19.255.255', '224.0.0.1', '239.255.255.250',
+      '255.255.255.255', '192.0.2.10',
+    ]) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+  })
+
+  it('allows public IPv4', () => {
+    for (const address of ['8.8.8.8', '1.1.1.1', '172.32.0.1', '198.20.0.1', '100.128.0.1', '223.255.255.255']) {
+      expect(isPrivateAddress(address), address).toBe(false)
+    }
+  })
+
+  it('judges IPv4-mapped and compatible IPv6 by the embedded address', () => {
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true)
+    expect(isPrivateAddress('::ffff:7f00:1')).toBe(true)
+    expect(isPrivateAddress('::ffff:a9fe:a9fe')).toBe(true)
+    expect(isPrivateAddress('0:0:0:0:0:ffff:c0a8:0101')).toBe(true)
+    expect(isPrivateAddress('::7f00:1')).toBe(true)
+    expect(isPrivateAddress('::ffff:8.8.8.8')).toBe(false)
+  })
+
+  it('judges NAT64 and 6to4 IPv6 by the embedded address', () => {
+    expect(isPrivateAddress('64:ff9b::7f00:1')).toBe(true)
+    expect(isPrivateAddress('64:ff9b::169.254.169.254')).toBe(true)
+    expect(isPrivateAddress('64:ff9b::808:808')).toBe(false)
+    expect(isPrivateAddress('64:ff9b:1::1')).toBe(true)
+    expect(isPrivateAddress('2002:7f00:1::')).toBe(true)
+    expect(isPrivateAddress('2002:808:808::1')).toBe(false)
+  })
+
+  it('refuses loopback, local and multicast IPv6', () => {
+    for (const address of ['::1', '::', 'fc00::1', 'fd12:3456::1', 'fe80::1', 'fe80::1%eth0', 'ff02::1', '2001:db8::1', '2001::1']) {
+      expect(isPrivateAddress(address), address).toBe(true)
+    }
+  })
+
+  it('allows public IPv6', () => {
+    expect(isPrivateAddress('2606:4700:4700::1111')).toBe(false)
+    expect(isPrivateAddress('2a00:1450:4001:80b::200e')).toBe(false)
+  })
+
+  it('refuses anything that is not an IP address', () => {
+    expect(isPrivateAddress('localhost')).toBe(true)
+    expect(isPrivateAddress('')).toBe(true)
+  })
+})
+
+describe('ingestPdfFromUrl', () => {
+  const store: PdfStore = async () => {
+    throw new Error('nothing should be stored')
+  }
+
+  it('refuses literal private addresses, including IPv4-mapped IPv6', async () => {
+    for (const url of ['http://127.0.0.1/a.pdf', 'http://[::ffff:127.0.0.1]/a.pdf', 'http://[::ffff:169.254.169.254]/a.pdf']) {
+      await expect(ingestPdfFromUrl(url, store), url).rejects.toMatchObject({ name: 'UrlIngestError', status: 400 })
+    }
+  })
+
+  it('refuses hostnames that resolve to a private address when connecting', async () => {
+    const error = await ingestPdfFromUrl('http://localhost:9/a.pdf', store).catch(e => e)
+    expect(error).toBeInstanceOf(UrlIngestError)
+    expect(error.status).toBe(400)
+    expect(error.message).toMatch(/private address/)
+  })
+})
@@ -0,0 +1,359 @@
+/**
+ * Fetch a PDF from a download link and store it as a job input.
+ *
+ * The server does the fetch so links behind redirects (document portals, file
+ * shares) work without CORS. Redirects are followed by hand, so every hop is
+ * re-checked against the address rules and reported back to the dashboard.
+ *
+ * Private, loopback and other special-purpose addresses are refused unless
+ * URL_INGEST_ALLOW_PRIVATE is 'true' (or in development), so the route
+ * cannot be used to reach internal services. Hostnames are checked when the
+ * connection is made, against the address actually connected to.
+ */
+
+import { createHash, randomUUID } from 'crypto'
+import { lookup as dnsLookup } from 'dns'
+import http from 'http'
+import https from 'https'
+import { isIP, type LookupFunction } from 'net'
+import { Readable } from 'stream'
+import { MAX_UPLOAD_BYTES } from '@/lib/chunked-upload'
+import { createLogger } from '@/lib/logger'
+import { preflightBuffer, type PreflightReport } from './pdfPreflight'
+import type { PdfStore } from './pdfStore'
+
+const log = createLogger('urlIngest')
+
+const MAX_REDIRECTS = 5
+const FETCH_TIMEOUT_MS = 60_000
+
+// Servers often label PDFs generically; the body is checked for %PDF- anyway
+const ACCEPTED_CONTENT_TYPES = ['application/pdf', 'application/x-pdf', 'application/octet-stream', 'binary/octet-stream']
+
+const ALLOW_PRIVATE = process.env.URL_INGEST_ALLOW_PRIVATE === 'true'
+  || process.env.NODE_ENV === 'development'
+
+export interface RedirectHop {
+  from: string
+  to: string
+  status: number
+}
+
+export interface UrlIngestResult {
+  jobId: string
+  /** URL the worker fetches the input from (passed to createJob); empty when preflight blocked it */
+  url: string
+  pathname: string
+  /** Filename used as the job's doc_name */
+  filename: string
+  sourceUrl: string
+  /** Where the PDF was actually downloaded from, after redirects */
+  finalUrl: string
+  redirects: RedirectHop[]
+  sizeBytes: number
+  contentHash: string
+  preflight: PreflightReport
+}
+
+/**
+ * The document could not be fetched. `status` is the HTTP status the route
+ * responds with; `redirects` are the hops followed before failing.
+ */
+export class UrlIngestError extends Error {
+  constructor(message: string, public status: number, public redirects: RedirectHop[] = []) {
+    super(message)
+    this.name = 'UrlIngestError'
+  }
+}
+
+// Special-purpose IPv4 ranges that must never be fetched: [network, prefix length]
+const BLOCKED_IPV4_RANGES: Array<[string, number]> = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local (cloud metadata)
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // documentation
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // documentation
+  ['203.0.113.0', 24], // documentation
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+]
+
+function ipv4ToNumber(address: string): number {
+  return address.split('.').reduce((n, octet) => n * 256 + Number(octet), 0)
+}
+
+function isBlockedIPv4(value: number): boolean {
+  return BLOCKED_IPV4_RANGES.some(([network, bits]) => {
+    const size = 2 ** (32 - bits)
+    return Math.floor(value / size) === Math.floor(ipv4ToNumber(network) / size)
+  })
+}
+
+/** The eight 16-bit groups of an IPv6 address (dotted IPv4 tails included) */
+function ipv6Groups(address: string): number[] {
+  let text = address.toLowerCase().replace(/%.*$/, '')
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const v4 = ipv4ToNumber(dotted[2])
+    text = `${dotted[1]}${Math.floor(v4 / 65536).toString(16)}:${(v4 % 65536).toString(16)}`
+  }
+  const [head, tail] = text.split('::')
+  const parse = (part: string | undefined) => (part ? part.split(':').map(g => parseInt(g, 16)) : [])
+  const before = parse(head)
+  const after = parse(tail)
+  const fill = tail === undefined ? [] : new Array(8 - before.length - after.length).fill(0)
+  return [...before, ...fill, ...after]
+}
+
+/**
+ * Whether an address is loopback, private, link-local or otherwise not a
+ * public unicast host. IPv6 forms that carry an IPv4 address (mapped,
+ * compatible, NAT64, 6to4) are judged by that IPv4 address.
+ */
+export function isPrivateAddress(address: string): boolean {
+  const version = isIP(address.replace(/%.*$/, ''))
+  if (version === 4) return isBlockedIPv4(ipv4ToNumber(address))
+  if (version !== 6) return true
+
+  const g = ipv6Groups(address)
+  const embeddedV4 = (hi: number, lo: number) => isBlockedIPv4(hi * 65536 + lo)
+  const zeroPrefix = (n: number) => g.slice(0, n).every(x => x === 0)
+
+  // ::ffff:a.b.c.d (mapped) and ::a.b.c.d (compatible; also :: and ::1)
+  if (zeroPrefix(5) && (g[5] === 0xffff || g[5] === 0)) {
+    return g[5] === 0 && g[6] === 0 ? true : embeddedV4(g[6], g[7])
+  }
+  // 64:ff9b::/96 (NAT64) carries the IPv4 target in its last 32 bits
+  if (g[0] === 0x64 && g[1] === 0xff9b && g.slice(2, 6).every(x => x === 0)) return embeddedV4(g[6], g[7])
+  // 2002::/16 (6to4) carries it in the second and third groups
+  if (g[0] === 0x2002) return embeddedV4(g[1], g[2])
+
+  return (g[0] === 0x64 && g[1] === 0xff9b) // NAT64 local-use 64:ff9b:1::/48
+    || (g[0] === 0x2001 && g[1] === 0) // Teredo
+    || (g[0] === 0x2001 && g[1] === 0xdb8) // documentation
+    || (g[0] & 0xfe00) === 0xfc00 // unique local
+    || (g[0] & 0xffc0) === 0xfe80 // link-local
+    || (g[0] & 0xffc0) === 0xfec0 // site-local (deprecated)
+    || (g[0] & 0xff00) === 0xff00 // multicast
+}
+
+/** A hostname resolved (at connect time) to an address that may not be fetched */
+class PrivateAddressError extends Error {
+  constructor(public hostname: string) {
+    super(`${hostname} is a private address and cannot be fetched`)
+    this.name = 'PrivateAddressError'
+  }
+}
+
+/**
+ * DNS lookup for outgoing connections that refuses private addresses. The
+ * socket connects to exactly the addresses checked here, so a second
+ * resolution (DNS rebinding) cannot swap in an internal host.
+ */
+const checkedLookup: LookupFunction = (hostname, options, callback) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '')
+    if (addresses.length === 0 || addresses.some(a => isPrivateAddress(a.address))) {
+      return callback(new PrivateAddressError(hostname), '')
+    }
+    if (options.all) return callback(null, addresses)
+    callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+function assertFetchable(url: URL, redirects: RedirectHop[]): void {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UrlIngestError(`Unsupported protocol ${url.protocol} (use http or https)`, 400, redirects)
+  }
+  if (url.username || url.password) {
+    throw new UrlIngestError('URLs with credentials are not supported', 400, redirects)
+  }
+  if (ALLOW_PRIVATE) return
+
+  // Literal addresses never reach the lookup; hostnames are checked by checkedLookup
+  const hostname = url.hostname.replace(/^\[|\]$/g, '')
+  if (isIP(hostname) && isPrivateAddress(hostname)) {
+    throw new UrlIngestError(`${url.hostname} is a private address and cannot be fetched`, 400, redirects)
+  }
+}
+
+/** One request without following redirects, connected through checkedLookup */
+function requestOnce(url: URL, signal: AbortSignal): Promise<Response> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http
+    const req = client.request(url, {
+      headers: { Accept: 'application/pdf,*/*;q=0.8' },
+      lookup: ALLOW_PRIVATE ? undefined : checkedLookup,
+      signal,
+    }, res => {
+      const headers = new Headers()
+      for (const [name, value] of Object.entries(res.headers)) {
+        if (value !== undefined) headers.set(name, Array.isArray(value) ? value.join(', ') : value)
+      }
+      const status = res.statusCode ?? 502
+      const hasBody = ![204, 205, 304].includes(status)
+      if (!hasBody) res.resume()
+      resolve(new Response(hasBody ? Readable.toWeb(res) as ReadableStream<Uint8Array> : null, {
+        status,
+        statusText: res.statusMessage,
+        headers,
+      }))
+    })
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+/** Filename from Content-Disposition, else the last path segment */
+function pickFilename(res: Response, url: URL): string {
+  const disposition = res.headers.get('content-disposition') || ''
+  const encoded = disposition.match(/filename\*=(?:UTF-8'')?([^;]+)/i)
+  const plain = disposition.match(/filename="?([^";]+)"?/i)
+  let name = ''
+  try {
+    name = encoded ? decodeURIComponent(encoded[1].trim()) : plain ? plain[1].trim() : decodeURIComponent(url.pathname.split('/').pop() || '')
+  } catch {
+    name = ''
+  }
+  name = name.replace(/[/\\]/g, '_')
+  if (!name) return 'document.pdf'
+  return name.toLowerCase().endsWith('.pdf') ? name : `${name}.pdf`
+}
+
+async function readLimited(res: Response, limit: number): Promise<Buffer> {
+  if (!res.body) return Buffer.alloc(0)
+  const reader = res.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    total += value.length
+    if (total > limit) {
+      await reader.cancel()
+      throw new UrlIngestError(`Document is larger than ${Math.round(limit / 1024 / 1024)} MB`, 413)
+    }
+    chunks.push(value)
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Follow redirects by hand (each target is checked like the original URL,
+ * including the address it resolves to when connecting).
+ */
+async function fetchFollowingRedirects(sourceUrl: URL, signal: AbortSignal): Promise<{ res: Response; finalUrl: URL; redirects: RedirectHop[] }> {
+  const redirects: RedirectHop[] = []
+  let current = sourceUrl
+
+  for (;;) {
+    assertFetchable(current, redirects)
+    let res: Response
+    try {
+      res = await requestOnce(current, signal)
+    } catch (error) {
+      if (signal.aborted) throw new UrlIngestError(`Timed out after ${FETCH_TIMEOUT_MS / 1000}s`, 504, redirects)
+      if (error instanceof PrivateAddressError) throw new UrlIngestError(error.message, 400, redirects)
+      const code = (error as NodeJS.ErrnoException).code
+      if (code === 'ENOTFOUND') throw new UrlIngestError(`Host not found: ${current.hostname}`, 502, redirects)
+      const message = error instanceof Error ? error.message : null
+      throw new UrlIngestError(`Could not connect to ${current.host}${message ? `: ${message}` : ''}`, 502, redirects)
+    }
+
+    const location = res.headers.get('location')
+    if (res.status < 300 || res.status >= 400 || !location) {
+      return { res, finalUrl: current, redirects }
+    }
+
+    await res.body?.cancel().catch(() => { })
+    const next = new URL(location, current)
+    redirects.push({ from: current.toString(), to: next.toString(), status: res.status })
+    if (redirects.length > MAX_REDIRECTS) {
+      throw new UrlIngestError(`Too many redirects (more than ${MAX_REDIRECTS})`, 502, redirects)
+    }
+    current = next
+  }
+}
+
+/**
+ * Download the PDF at `sourceUrl` and store it under a new jobId.
+ * Throws UrlIngestError for anything the user can act on.
+ */
+export async function ingestPdfFromUrl(sourceUrl: string, store: PdfStore): Promise<UrlIngestResult> {
+  let parsed: URL
+  try {
+    parsed = new URL(sourceUrl)
+  } catch {
+    throw new UrlIngestError('Invalid URL', 400)
+  }
+
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS)
+  const { res, finalUrl, redirects } = await fetchFollowingRedirects(parsed, signal)
+
+  try {
+    if (!res.ok) {
+      throw new UrlIngestError(`Server responded ${res.status}${res.statusText ? ` ${res.statusText}` : ''}`, 502)
+    }
+
+    const contentType = (res.headers.get('content-type') || '').split(';')[0].trim().toLowerCase()
+    if (contentType && !ACCEPTED_CONTENT_TYPES.includes(contentType)) {
+      throw new UrlIngestError(`Expected a PDF but the server sent ${contentType}`, 415)
+    }
+
+    const declared = Number(res.headers.get('content-length') || 0)
+    if (declared > MAX_UPLOAD_BYTES) {
+      throw new UrlIngestError(`Document is larger than ${Math.round(MAX_UPLOAD_BYTES / 1024 / 1024)} MB`, 413)
+    }
+
+    let buffer: Buffer
+    try {
+      buffer = await readLimited(res, MAX_UPLOAD_BYTES)
+    } catch (error) {
+      if (error instanceof UrlIngestError) throw error
+      if (signal.aborted) throw new UrlIngestError(`Timed out after ${FETCH_TIMEOUT_MS / 1000}s`, 504)
+      throw new UrlIngestError('Download was interrupted', 502)
+    }
+    // Same tolerance as PDF readers: the header may follow a little junk
+    const magic = buffer.indexOf('%PDF-')
+    if (magic === -1 || magic > 1024) {
+      throw new UrlIngestError('The downloaded file is not a PDF', 415)
+    }
+
+    const jobId = randomUUID()
+    const filename = pickFilename(res, finalUrl)
+    const data = new Uint8Array(buffer)
+    const preflight = await preflightBuffer(buffer)
+    // A blocked document is reported but not stored, so no job can fetch it
+    const stored = preflight.ok ? await store(jobId, filename, data) : { url: '', pathname: '' }
+
+    log.info(`Fetched ${filename} from URL`, {
+      job_id: jobId,
+      host: finalUrl.host,
+      redirects: redirects.length,
+      bytes: buffer.length,
+    })
+
+    return {
+      jobId,
+      ...stored,
+      filename,
+      sourceUrl: parsed.toString(),
+      finalUrl: finalUrl.toString(),
+      redirects,
+      sizeBytes: buffer.length,
+      contentHash: createHash('sha256').update(data).digest('hex'),
+      preflight,
+    }
+  } catch (error) {
+    await res.body?.cancel().catch(() => { })
+    // Errors after the last hop still report how we got there
+    if (error instanceof UrlIngestError && error.redirects.length === 0) error.redirects = redirects
+    throw error
+  }
+}
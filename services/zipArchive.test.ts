@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import { bufferZipSource, createZipStream, extractZipEntry, readZipEntries, ZipArchiveError, type ZipStreamEntry } from './zipArchive'
+
+const text = (value: string) => new TextEncoder().encode(value)
+
+async function* from(entries: ZipStreamEntry[]): AsyncGenerator<ZipStreamEntry> {
+  yield* entries
+}
+
+/** A stream of `chunks`; `pulled` counts the chunks handed out */
+function chunkStream(chunks: string[]) {
+  const state = { pulled: 0, cancelled: false }
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (state.pulled === chunks.length) controller.close()
+      else controller.enqueue(text(chunks[state.pulled++]))
+    },
+    cancel() {
+      state.cancelled = true
+    },
+  })
+  return { stream, state }
+}
+
+async function collect(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  const parts: Uint8Array[] = []
+  const reader = stream.getReader()
+  for (let read = await reader.read(); !read.done; read = await reader.read()) parts.push(read.value)
+  return Buffer.concat(parts)
+}
+
+describe('createZipStream', () => {
+  it('writes an archive the reader can extract', async () => {
+    const modifiedAt = new Date(2026, 2, 10, 14, 30, 20)
+    const zip = await collect(createZipStream(from([
+      { name: 'report-1.zip', modifiedAt, data: chunkStream(['first ', 'chunk ', 'and more']).stream },
+      { name: 'notes æøå.txt', modifiedAt, data: text('hello') },
+    ])))
+
+    const source = bufferZipSource(zip)
+    const entries = await readZipEntries(source)
+    expect(entries.map(e => [e.name, e.size, e.method])).toEqual([['report-1.zip', 20, 0], ['notes æøå.txt', 5, 0]])
+    expect(Buffer.from(await extractZipEntry(source, entries[0], 1024)).toString()).toBe('first chunk and more')
+    expect(Buffer.from(await extractZipEntry(source, entries[1], 1024)).toString()).toBe('hello')
+  })
+
+  it('stores the modification time of each entry', async () => {
+    const zip = await collect(createZipStream(from([{ name: 'a.txt', modifiedAt: new Date(2026, 2, 10, 14, 30, 20), data: text('a') }])))
+    // Central directory entry: time at +12, date at +14
+    const central = zip.indexOf(new Uint8Array([0x50, 0x4b, 0x01, 0x02]))
+    expect(zip.readUInt16LE(central + 12)).toBe((14 << 11) | (30 << 5) | 10)
+    expect(zip.readUInt16LE(central + 14)).toBe(((2026 - 1980) << 9) | (3 << 5) | 10)
+  })
+
+  it('reads entry data only as the archive is consumed and stops it on cancel', async () => {
+    const source = chunkStream(['a', 'b', 'c', 'd'])
+    const reader = createZipStream(from([{ name: 'a.txt', modifiedAt: new Date(), data: source.stream }])).getReader()
+    await reader.read() // local header
+    await reader.read() // name
+    await reader.read() // first chunk
+    expect(source.state.pulled).toBeLessThan(4)
+    await reader.cancel()
+    expect(source.state.cancelled).toBe(true)
+  })
+
+  it('errors the stream when an entry fails', async () => {
+    const failing = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        controller.error(new Error('download dropped'))
+      },
+    })
+    await expect(collect(createZipStream(from([{ name: 'a.txt', modifiedAt: new Date(), data: failing }])))).rejects.toThrow('download dropped')
+  })
+})
+
+describe('readZipEntries', () => {
+  it('rejects data that is not an archive', async () => {
+    await expect(readZipEntries(bufferZipSource(Buffer.from('not a zip')))).rejects.toBeInstanceOf(ZipArchiveError)
+  })
+})
@@ -0,0 +1,328 @@
+/**
+ * Minimal ZIP reader for archive ingestion, and writer for bulk downloads.
+ *
+ * Reads the central directory and inflates entries one at a time with zlib,
+ * from a buffer or straight from disk (ZipSource); supports the two methods
+ * drawing packages actually use (stored and deflate). ZIP64, encryption and
+ * multi-disk archives are reported per entry or rejected rather than
+ * half-supported. Written archives are streamed, with entries stored
+ * uncompressed.
+ */
+
+import type { FileHandle } from 'fs/promises'
+import { promisify } from 'util'
+import { inflateRaw } from 'zlib'
+
+const inflateRawAsync = promisify(inflateRaw)
+
+const EOCD_SIGNATURE = 0x06054b50
+const CENTRAL_SIGNATURE = 0x02014b50
+const LOCAL_SIGNATURE = 0x04034b50
+const DATA_DESCRIPTOR_SIGNATURE = 0x08074b50
+// EOCD is 22 bytes plus a comment of at most 65535 bytes
+const EOCD_SEARCH_WINDOW = 22 + 0xffff
+
+/**
+ * The archive as a whole cannot be read.
+ */
+export class ZipArchiveError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ZipArchiveError'
+  }
+}
+
+export interface ZipEntry {
+  name: string
+  size: number
+  compressedSize: number
+  method: number
+  encrypted: boolean
+  isDirectory: boolean
+  /** Why the entry cannot be extracted, if it cannot */
+  unsupported: string | null
+  localHeaderOffset: number
+  crc32: number
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    table[n] = c >>> 0
+  }
+  return table
+})()
+
+/** CRC-32 of `data`, continuing from `previous` (the CRC of the data before it) */
+function crc32(data: Uint8Array, previous = 0): number {
+  let crc = (previous ^ 0xffffffff) >>> 0
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/**
+ * Random access to an archive, so entries can be read one at a time without
+ * holding the whole file in memory.
+ */
+export interface ZipSource {
+  size: number
+  read(position: number, length: number): Promise<Buffer>
+}
+
+export function bufferZipSource(buf: Buffer): ZipSource {
+  return {
+    size: buf.length,
+    read: async (position, length) => buf.subarray(position, position + length),
+  }
+}
+
+/** Reads from an open file; the caller closes the handle */
+export async function fileZipSource(handle: FileHandle): Promise<ZipSource> {
+  const { size } = await handle.stat()
+  return {
+    size,
+    read: async (position, length) => {
+      const buffer = new Uint8Array(Math.max(0, Math.min(length, size - position)))
+      const { bytesRead } = await handle.read(buffer, 0, buffer.length, position)
+      return Buffer.from(buffer.buffer, 0, bytesRead)
+    },
+  }
+}
+
+async function findEndOfCentralDirectory(source: ZipSource): Promise<{ buf: Buffer; eocd: number }> {
+  const start = Math.max(0, source.size - EOCD_SEARCH_WINDOW)
+  const buf = await source.read(start, source.size - start)
+  for (let i = buf.length - 22; i >= 0; i--) {
+    if (buf.readUInt32LE(i) === EOCD_SIGNATURE) return { buf, eocd: i }
+  }
+  throw new ZipArchiveError('Not a ZIP archive (end of central directory not found)')
+}
+
+function decodeName(raw: Buffer, utf8: boolean): string {
+  // Without the UTF-8 flag names are CP437; latin1 keeps ASCII names intact
+  return raw.toString(utf8 ? 'utf-8' : 'latin1')
+}
+
+/**
+ * List the entries of an archive from its central directory.
+ */
+export async function readZipEntries(source: ZipSource): Promise<ZipEntry[]> {
+  const { buf: tail, eocd } = await findEndOfCentralDirectory(source)
+  const disk = tail.readUInt16LE(eocd + 4)
+  const entryCount = tail.readUInt16LE(eocd + 10)
+  const cdSize = tail.readUInt32LE(eocd + 12)
+  const cdOffset = tail.readUInt32LE(eocd + 16)
+
+  if (disk !== 0) throw new ZipArchiveError('Multi-part ZIP archives are not supported')
+  if (cdOffset === 0xffffffff || entryCount === 0xffff) {
+    throw new ZipArchiveError('ZIP64 archives are not supported')
+  }
+  if (cdOffset + cdSize > source.size) throw new ZipArchiveError('Central directory is damaged')
+
+  const buf = await source.read(cdOffset, cdSize)
+  const entries: ZipEntry[] = []
+  let pos = 0
+  for (let i = 0; i < entryCount; i++) {
+    if (pos + 46 > buf.length || buf.readUInt32LE(pos) !== CENTRAL_SIGNATURE) {
+      throw new ZipArchiveError('Central directory is damaged')
+    }
+    const flags = buf.readUInt16LE(pos + 8)
+    const method = buf.readUInt16LE(pos + 10)
+    const crc = buf.readUInt32LE(pos + 16)
+    const compressedSize = buf.readUInt32LE(pos + 20)
+    const size = buf.readUInt32LE(pos + 24)
+    const nameLength = buf.readUInt16LE(pos + 28)
+    const extraLength = buf.readUInt16LE(pos + 30)
+    const commentLength = buf.readUInt16LE(pos + 32)
+    const localHeaderOffset = buf.readUInt32LE(pos + 42)
+    const name = decodeName(buf.subarray(pos + 46, pos + 46 + nameLength), (flags & 0x800) !== 0)
+    const encrypted = (flags & 0x1) !== 0
+
+    let unsupported: string | null = null
+    if (encrypted) unsupported = 'password protected'
+    else if (method !== 0 && method !== 8) unsupported = `compression method ${method}`
+    else if (size === 0xffffffff || compressedSize === 0xffffffff) unsupported = 'ZIP64 entry'
+
+    entries.push({
+      name,
+      size,
+      compressedSize,
+      method,
+      encrypted,
+      isDirectory: name.endsWith('/'),
+      unsupported,
+      localHeaderOffset,
+      crc32: crc,
+    })
+    pos += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+/**
+ * Extract one entry. `maxBytes` caps the inflated size so a crafted archive
+ * cannot expand without bound. Only this entry is read from the source.
+ */
+export async function extractZipEntry(source: ZipSource, entry: ZipEntry, maxBytes: number): Promise<Uint8Array> {
+  if (entry.unsupported) throw new ZipArchiveError(`Cannot extract ${entry.name}: ${entry.unsupported}`)
+  if (entry.size > maxBytes) throw new ZipArchiveError(`${entry.name} is too large`)
+
+  const pos = entry.localHeaderOffset
+  const header = await source.read(pos, 30)
+  if (header.length < 30 || header.readUInt32LE(0) !== LOCAL_SIGNATURE) {
+    throw new ZipArchiveError(`Local header for ${entry.name} is damaged`)
+  }
+  const dataStart = pos + 30 + header.readUInt16LE(26) + header.readUInt16LE(28)
+  const raw = new Uint8Array(await source.read(dataStart, entry.compressedSize))
+  if (raw.length !== entry.compressedSize) throw new ZipArchiveError(`${entry.name} is truncated`)
+
+  let data = raw
+  if (entry.method === 8) {
+    try {
+      data = new Uint8Array(await inflateRawAsync(raw, { maxOutputLength: Math.max(entry.size, 1) }))
+    } catch {
+      throw new ZipArchiveError(`${entry.name} could not be decompressed`)
+    }
+  }
+
+  if (data.length !== entry.size || crc32(data) !== entry.crc32) {
+    throw new ZipArchiveError(`${entry.name} failed its integrity check`)
+  }
+  return data
+}
+
+export interface ZipStreamEntry {
+  name: string
+  /** Stored as the entry's modification time */
+  modifiedAt: Date
+  data: ReadableStream<Uint8Array> | Uint8Array
+}
+
+// Past this, offsets and sizes would need ZIP64
+const MAX_ZIP_BYTES = 0xffffffff
+// Data descriptor follows the data; names are UTF-8
+const STREAM_FLAGS = 0x8 | 0x800
+
+/** MS-DOS time and date fields (local time, 2-second resolution, 1980-2107) */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+async function* readChunks(data: ReadableStream<Uint8Array> | Uint8Array): AsyncGenerator<Uint8Array> {
+  if (data instanceof Uint8Array) {
+    yield data
+    return
+  }
+  const reader = data.getReader()
+  let finished = false
+  try {
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) break
+      yield value
+    }
+    finished = true
+  } finally {
+    // Stop the source when the archive is abandoned part-way
+    if (finished) reader.releaseLock()
+    else await reader.cancel().catch(() => undefined)
+  }
+}
+
+async function* zipChunks(entries: AsyncIterable<ZipStreamEntry>): AsyncGenerator<Uint8Array> {
+  const centrals: Uint8Array[] = []
+  let count = 0
+  let offset = 0
+
+  for await (const entry of entries) {
+    if (++count >= 0xffff) throw new ZipArchiveError('Too many files for one ZIP archive')
+    const name = Buffer.from(entry.name, 'utf-8')
+    const { time, date } = dosDateTime(entry.modifiedAt)
+    const entryOffset = offset
+
+    // CRC and sizes are not known yet: they follow the data in a descriptor
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(LOCAL_SIGNATURE, 0)
+    local.writeUInt16LE(20, 4) // version needed
+    local.writeUInt16LE(STREAM_FLAGS, 6)
+    local.writeUInt16LE(0, 8) // stored
+    local.writeUInt16LE(time, 10)
+    local.writeUInt16LE(date, 12)
+    local.writeUInt16LE(name.length, 26)
+    yield new Uint8Array(local)
+    yield new Uint8Array(name)
+    offset += 30 + name.length
+
+    let crc = 0
+    let size = 0
+    for await (const chunk of readChunks(entry.data)) {
+      if (offset + chunk.length > MAX_ZIP_BYTES) throw new ZipArchiveError('Archive would be too large')
+      crc = crc32(chunk, crc)
+      size += chunk.length
+      offset += chunk.length
+      yield chunk
+    }
+
+    const descriptor = Buffer.alloc(16)
+    descriptor.writeUInt32LE(DATA_DESCRIPTOR_SIGNATURE, 0)
+    descriptor.writeUInt32LE(crc, 4)
+    descriptor.writeUInt32LE(size, 8)
+    descriptor.writeUInt32LE(size, 12)
+    yield new Uint8Array(descriptor)
+    offset += 16
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(CENTRAL_SIGNATURE, 0)
+    central.writeUInt16LE(20, 4) // version made by
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(STREAM_FLAGS, 8)
+    central.writeUInt16LE(0, 10)
+    central.writeUInt16LE(time, 12)
+    central.writeUInt16LE(date, 14)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(size, 20)
+    central.writeUInt32LE(size, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(entryOffset, 42)
+    centrals.push(new Uint8Array(central), new Uint8Array(name))
+  }
+
+  const centralSize = centrals.reduce((sum, b) => sum + b.length, 0)
+  if (offset + centralSize + 22 > MAX_ZIP_BYTES) throw new ZipArchiveError('Archive would be too large')
+  for (const part of centrals) yield part
+
+  const eocd = Buffer.alloc(22)
+  eocd.writeUInt32LE(EOCD_SIGNATURE, 0)
+  eocd.writeUInt16LE(count, 8)
+  eocd.writeUInt16LE(count, 10)
+  eocd.writeUInt32LE(centralSize, 12)
+  eocd.writeUInt32LE(offset, 16)
+  yield new Uint8Array(eocd)
+}
+
+/**
+ * Stream an archive of stored (uncompressed) entries, reading each entry's
+ * data only when the consumer gets to it, so nothing is held in memory.
+ * Meant for content that is already compressed, such as the per-job result
+ * archives. The stream errors if an entry's data fails or the archive
+ * outgrows what a ZIP without ZIP64 can address.
+ */
+export function createZipStream(entries: AsyncIterable<ZipStreamEntry>): ReadableStream<Uint8Array> {
+  const chunks = zipChunks(entries)
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value, done } = await chunks.next()
+      if (done) controller.close()
+      else controller.enqueue(value)
+    },
+    async cancel() {
+      await chunks.return(undefined)
+    },
+  })
+}